@@ -0,0 +1,65 @@
+-- Supabase Migration: Create WhatsApp Outbox (durable send queue)
+-- Routes enqueue messages here; the server worker claims, sends and retries them
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS whatsapp_outbox (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  sme_id UUID,
+  order_id UUID NOT NULL,
+  recipient_phone VARCHAR(20) NOT NULL,
+  message_body TEXT NOT NULL,
+  media_url TEXT,
+  priority INT DEFAULT 0, -- Higher is sent first (e.g. delivery OTPs)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'sent', 'dead')),
+  attempts INT NOT NULL DEFAULT 0,
+  max_attempts INT NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fk_outbox_order_id FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_outbox_due ON whatsapp_outbox(status, priority DESC, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_outbox_sme_id ON whatsapp_outbox(sme_id, status);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_outbox_order_id ON whatsapp_outbox(order_id);
+
+-- Link every send attempt in the audit log back to its outbox row
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS outbox_id UUID REFERENCES whatsapp_outbox(id) ON DELETE SET NULL;
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS attempt INT;
+CREATE INDEX IF NOT EXISTS idx_whatsapp_logs_outbox_id ON whatsapp_logs(outbox_id);
+
+-- Atomically claim due rows for a worker. Rows stuck in 'processing' longer than
+-- p_stale_after (worker crashed mid-send) are reclaimed.
+CREATE OR REPLACE FUNCTION claim_whatsapp_outbox(p_limit INT, p_stale_after INTERVAL DEFAULT INTERVAL '5 minutes')
+RETURNS SETOF whatsapp_outbox
+LANGUAGE sql
+AS $$
+  UPDATE whatsapp_outbox
+  SET status = 'processing', locked_at = NOW(), updated_at = NOW()
+  WHERE id IN (
+    SELECT id FROM whatsapp_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - p_stale_after)
+    ORDER BY priority DESC, next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Enable RLS
+ALTER TABLE whatsapp_outbox ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs can view their own queued messages
+CREATE POLICY "Users can view their own WhatsApp outbox"
+  ON whatsapp_outbox
+  FOR SELECT
+  TO authenticated
+  USING (sme_id = auth.uid());
+
+COMMIT;
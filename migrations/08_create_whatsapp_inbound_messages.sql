@@ -0,0 +1,37 @@
+-- Supabase Migration: Create WhatsApp Inbound Messages
+-- Customer replies received at the webhook, matched to their most recent open order.
+-- Together with the outbound rows in whatsapp_logs these form the per-order conversation.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS whatsapp_inbound_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  sme_id UUID,
+  order_id UUID, -- NULL when no open order matched the sender
+  from_phone VARCHAR(20) NOT NULL,
+  to_phone VARCHAR(20),
+  body TEXT NOT NULL DEFAULT '',
+  media_url TEXT,
+  profile_name TEXT,
+  provider TEXT NOT NULL DEFAULT 'twilio',
+  provider_message_id TEXT UNIQUE, -- Makes webhook redelivery idempotent
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fk_inbound_order_id FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_inbound_order_id ON whatsapp_inbound_messages(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_inbound_sme_unread ON whatsapp_inbound_messages(sme_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_whatsapp_inbound_from_phone ON whatsapp_inbound_messages(from_phone);
+
+-- Enable RLS
+ALTER TABLE whatsapp_inbound_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs can read messages sent to them
+CREATE POLICY "Users can view their inbound WhatsApp messages"
+  ON whatsapp_inbound_messages
+  FOR SELECT
+  TO authenticated
+  USING (sme_id = auth.uid());
+
+COMMIT;
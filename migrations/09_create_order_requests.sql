@@ -0,0 +1,38 @@
+-- Supabase Migration: Create Order Requests
+-- Customer self-service requests (CANCEL / RESCHEDULE over WhatsApp) awaiting SME approval,
+-- plus the contact details returned for HELP.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS order_requests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL,
+  sme_id UUID NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('cancel', 'reschedule')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  details TEXT, -- e.g. the customer's preferred delivery time for RESCHEDULE
+  inbound_message_id UUID REFERENCES whatsapp_inbound_messages(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fk_order_requests_order_id FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_requests_sme_status ON order_requests(sme_id, status);
+-- Only one open request of each type per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_requests_pending
+  ON order_requests(order_id, type) WHERE status = 'pending';
+
+-- Business contact details sent when a customer replies HELP
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS support_contact TEXT;
+
+-- Enable RLS
+ALTER TABLE order_requests ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs can read requests on their orders
+CREATE POLICY "Users can view their order requests"
+  ON order_requests
+  FOR SELECT
+  TO authenticated
+  USING (sme_id = auth.uid());
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- Supabase Migration: Extend WhatsApp Logs Delivery Lifecycle
+-- Twilio reports queued, read and undelivered states plus error codes; the original
+-- CHECK constraint rejected them so those webhook updates were silently lost.
+
+BEGIN;
+
+ALTER TABLE whatsapp_logs DROP CONSTRAINT IF EXISTS whatsapp_logs_status_check;
+ALTER TABLE whatsapp_logs ADD CONSTRAINT whatsapp_logs_status_check
+  CHECK (status IN ('pending', 'queued', 'sent', 'delivered', 'read', 'undelivered', 'failed'));
+
+-- Provider error details (e.g. Twilio 63016 "outside the allowed window")
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS error_code TEXT;
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS error_message TEXT;
+
+-- When each lifecycle state was reached
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS queued_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS sent_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS read_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS failed_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill from the existing status/updated_at so older rows still show a timeline
+UPDATE whatsapp_logs SET sent_at = COALESCE(sent_at, created_at) WHERE status IN ('sent', 'delivered');
+UPDATE whatsapp_logs SET delivered_at = COALESCE(delivered_at, updated_at) WHERE status = 'delivered';
+UPDATE whatsapp_logs SET failed_at = COALESCE(failed_at, updated_at) WHERE status = 'failed';
+
+COMMIT;
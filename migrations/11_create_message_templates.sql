@@ -0,0 +1,32 @@
+-- Supabase Migration: Create Message Templates
+-- Per-SME overrides of the customer/rider WhatsApp texts. Events without a row use
+-- the defaults shipped in server/services/templates.ts.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS message_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  sme_id UUID NOT NULL,
+  event TEXT NOT NULL, -- Order status (NEW, DISPATCHED, ...) or RIDER_ASSIGNED
+  language TEXT NOT NULL DEFAULT 'en',
+  body TEXT NOT NULL, -- Supports {{variable}} placeholders and {{#var}}...{{/var}} sections
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fk_message_templates_sme_id FOREIGN KEY (sme_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+  CONSTRAINT uq_message_templates UNIQUE (sme_id, event, language)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_templates_sme_id ON message_templates(sme_id);
+
+-- Enable RLS
+ALTER TABLE message_templates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs manage their own templates
+CREATE POLICY "Users can manage their own message templates"
+  ON message_templates
+  FOR ALL
+  TO authenticated
+  USING (sme_id = auth.uid())
+  WITH CHECK (sme_id = auth.uid());
+
+COMMIT;
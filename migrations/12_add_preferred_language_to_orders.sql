@@ -0,0 +1,17 @@
+-- Supabase Migration: Add Preferred Language to Orders
+-- Customer notifications, the tracking page and the CSAT page use this language.
+-- Supported: en (English), pcm (Nigerian Pidgin), yo (Yoruba), ig (Igbo), ha (Hausa)
+
+BEGIN;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS preferred_language TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_preferred_language_check;
+ALTER TABLE orders ADD CONSTRAINT orders_preferred_language_check
+  CHECK (preferred_language IN ('en', 'pcm', 'yo', 'ig', 'ha'));
+
+ALTER TABLE message_templates DROP CONSTRAINT IF EXISTS message_templates_language_check;
+ALTER TABLE message_templates ADD CONSTRAINT message_templates_language_check
+  CHECK (language IN ('en', 'pcm', 'yo', 'ig', 'ha'));
+
+COMMIT;
@@ -0,0 +1,41 @@
+-- Supabase Migration: Create WhatsApp Content Templates
+-- WhatsApp only accepts free-form business messages within 24 hours of the customer's
+-- last message. Outside that window an approved template (Twilio Content SID) must be
+-- sent instead; SMEs register one per event along with how our variables fill its slots.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS whatsapp_content_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  sme_id UUID NOT NULL,
+  event TEXT NOT NULL, -- Same events as message_templates (NEW, DISPATCHED, OTP, ...)
+  content_sid TEXT NOT NULL, -- Twilio Content SID (HX...)
+  variables JSONB NOT NULL DEFAULT '{}'::jsonb, -- Slot → variable, e.g. {"1": "customer_name", "2": "readable_id"}
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fk_content_templates_sme_id FOREIGN KEY (sme_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+  CONSTRAINT uq_content_templates UNIQUE (sme_id, event)
+);
+
+-- Queued messages keep the event and variable values so the worker can fall back to the template
+ALTER TABLE whatsapp_outbox ADD COLUMN IF NOT EXISTS template_event TEXT;
+ALTER TABLE whatsapp_outbox ADD COLUMN IF NOT EXISTS template_variables JSONB;
+
+-- Which approved template was used, when the message went out as one
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS content_sid TEXT;
+
+-- Session window lookup: latest inbound message from a number
+CREATE INDEX IF NOT EXISTS idx_whatsapp_inbound_from_phone_created ON whatsapp_inbound_messages(from_phone, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE whatsapp_content_templates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs manage their own content templates
+CREATE POLICY "Users can manage their own content templates"
+  ON whatsapp_content_templates
+  FOR ALL
+  TO authenticated
+  USING (sme_id = auth.uid())
+  WITH CHECK (sme_id = auth.uid());
+
+COMMIT;
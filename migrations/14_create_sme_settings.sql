@@ -0,0 +1,26 @@
+-- Supabase Migration: Create SME Settings
+-- Per-business preferences that apply across the app. default_country is used to read
+-- phone numbers typed without a country code (server/shared/phone.ts).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS sme_settings (
+  sme_id UUID PRIMARY KEY,
+  default_country TEXT NOT NULL DEFAULT 'NG' CHECK (default_country IN ('NG', 'GH', 'GB')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fk_sme_settings_sme_id FOREIGN KEY (sme_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+-- Enable RLS
+ALTER TABLE sme_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs manage their own settings
+CREATE POLICY "Users can manage their own settings"
+  ON sme_settings
+  FOR ALL
+  TO authenticated
+  USING (sme_id = auth.uid())
+  WITH CHECK (sme_id = auth.uid());
+
+COMMIT;
@@ -0,0 +1,43 @@
+-- Supabase Migration: Create WhatsApp Suppressions and Order Consent
+-- Customers who replied STOP/UNSUBSCRIBE, or were opted out by the SME, get no further
+-- WhatsApp messages from that SME except delivery OTPs. Orders record when the customer
+-- agreed to receive updates (NDPR).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS whatsapp_suppressions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  sme_id UUID NOT NULL,
+  phone VARCHAR(20) NOT NULL, -- +E.164
+  source TEXT NOT NULL CHECK (source IN ('keyword', 'manual')),
+  reason TEXT, -- e.g. the inbound message text, or a note from the SME
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fk_suppressions_sme_id FOREIGN KEY (sme_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+  CONSTRAINT uq_suppressions_sme_phone UNIQUE (sme_id, phone)
+);
+
+-- Consent captured when the order was created
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS whatsapp_consent_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS whatsapp_consent_source TEXT; -- order_form, csv_import
+
+-- Skipped sends are logged rather than silently dropped
+ALTER TABLE whatsapp_logs DROP CONSTRAINT IF EXISTS whatsapp_logs_status_check;
+ALTER TABLE whatsapp_logs ADD CONSTRAINT whatsapp_logs_status_check
+  CHECK (status IN ('pending', 'queued', 'sent', 'delivered', 'read', 'undelivered', 'failed', 'suppressed'));
+
+ALTER TABLE whatsapp_outbox DROP CONSTRAINT IF EXISTS whatsapp_outbox_status_check;
+ALTER TABLE whatsapp_outbox ADD CONSTRAINT whatsapp_outbox_status_check
+  CHECK (status IN ('pending', 'processing', 'sent', 'dead', 'skipped'));
+
+-- Enable RLS
+ALTER TABLE whatsapp_suppressions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs manage their own suppression list
+CREATE POLICY "Users can manage their own suppressions"
+  ON whatsapp_suppressions
+  FOR ALL
+  TO authenticated
+  USING (sme_id = auth.uid())
+  WITH CHECK (sme_id = auth.uid());
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Supabase Migration: SMS and Email Fallback Channels
+-- Critical messages (delivery OTP, dispatch with tracking link, cancellation) are resent by
+-- SMS, or email when the order has an address, if WhatsApp fails or stays undelivered.
+-- Every attempt stays in whatsapp_logs, tagged with the channel that carried it.
+
+BEGIN;
+
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'whatsapp'
+  CHECK (channel IN ('whatsapp', 'sms', 'email'));
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS provider TEXT; -- e.g. twilio, evolution, stub
+ALTER TABLE whatsapp_logs ADD COLUMN IF NOT EXISTS recipient_email TEXT; -- Email channel only
+
+-- Set once per queued message so it never falls back twice
+ALTER TABLE whatsapp_outbox ADD COLUMN IF NOT EXISTS fallback_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE whatsapp_outbox ADD COLUMN IF NOT EXISTS fallback_channel TEXT
+  CHECK (fallback_channel IN ('sms', 'email'));
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS customer_email TEXT;
+
+-- Sweep for critical messages sent over WhatsApp but never delivered
+CREATE INDEX IF NOT EXISTS idx_whatsapp_outbox_fallback_due
+  ON whatsapp_outbox(sent_at)
+  WHERE status = 'sent' AND fallback_at IS NULL AND template_event IN ('OTP', 'DISPATCHED', 'CANCELLED');
+
+COMMIT;
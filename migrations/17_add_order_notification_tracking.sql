@@ -0,0 +1,21 @@
+-- Supabase Migration: Server-Side Order Notifications
+-- The server sends the templated WhatsApp message for every order status change
+-- (server/services/orderNotifications.ts). last_notified_status records which status
+-- the customer was last told about, alongside the existing last_whatsapp_notification
+-- timestamp, so each change is announced exactly once however the order was updated.
+
+BEGIN;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS last_notified_status TEXT;
+
+-- Existing orders were already announced from the dashboard
+UPDATE orders SET last_notified_status = status WHERE last_notified_status IS NULL;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS notification_pending BOOLEAN
+  GENERATED ALWAYS AS (last_notified_status IS DISTINCT FROM status) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_orders_notification_pending
+  ON orders(updated_at)
+  WHERE notification_pending;
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- Supabase Migration: Encrypt WhatsApp Provider Credentials
+-- Secret fields in provider_config (authToken, apiKey) are encrypted by the server with a
+-- per-row data key; the data key is stored wrapped by a master key (server/services/credentials.ts).
+-- Existing plaintext rows are encrypted by running `npm run credentials:rotate` once
+-- CREDENTIALS_MASTER_KEYS is set.
+
+BEGIN;
+
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS wrapped_data_key TEXT;
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS key_version INTEGER; -- NULL = not yet encrypted
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_configs_key_version ON whatsapp_configs(key_version);
+
+-- The service role bypasses RLS; this policy only let every signed-in user read
+-- every SME's credentials
+DROP POLICY IF EXISTS "Service role can manage WhatsApp configs" ON whatsapp_configs;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Supabase Migration: Verify WhatsApp Provider Credentials
+-- Configs are only marked connected once the provider accepts their credentials.
+-- A scheduled job re-checks connected configs and disconnects ones that keep failing.
+
+BEGIN;
+
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS verification_error TEXT; -- NULL after a successful check
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS verification_failures INTEGER NOT NULL DEFAULT 0; -- Consecutive scheduled failures
+
+COMMIT;
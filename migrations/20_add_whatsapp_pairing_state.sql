@@ -0,0 +1,19 @@
+-- Supabase Migration: WhatsApp Instance Pairing State
+-- Instance providers (Baileys, Evolution) link a WhatsApp account by QR code:
+-- pending → qr_ready → paired, and disconnected when pairing fails or the phone unlinks.
+-- A config only counts as connected once paired (server/services/pairing.ts).
+
+BEGIN;
+
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS pairing_state TEXT
+  CHECK (pairing_state IN ('pending', 'qr_ready', 'paired', 'disconnected')); -- NULL for Twilio and when not pairing
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS pairing_qr TEXT; -- QR image data URL while qr_ready
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS pairing_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS disconnected_at TIMESTAMP WITH TIME ZONE; -- Last time a paired phone unlinked
+
+UPDATE whatsapp_configs
+SET pairing_state = CASE WHEN is_connected THEN 'paired' ELSE 'disconnected' END,
+    pairing_updated_at = NOW()
+WHERE provider IN ('baileys', 'evolution') AND pairing_state IS NULL;
+
+COMMIT;
@@ -0,0 +1,57 @@
+-- Supabase Migration: Create WhatsApp Broadcast Campaigns
+-- A campaign sends one templated message to past customers picked by a segment of their
+-- order history. Messages go through whatsapp_outbox, spread out over time; opted-out
+-- customers are recorded but never queued. Delivery stats come from whatsapp_logs.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS whatsapp_campaigns (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  sme_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  message_body TEXT NOT NULL, -- Template with {{customer_name}} etc., rendered per recipient
+  segment JSONB NOT NULL DEFAULT '{}'::jsonb, -- Filters the recipients were picked with
+  content_sid TEXT, -- Approved Twilio template used outside the 24-hour window
+  content_variables JSONB NOT NULL DEFAULT '{}'::jsonb, -- Slot → variable, as in whatsapp_content_templates
+  recipient_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fk_campaigns_sme_id FOREIGN KEY (sme_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS whatsapp_campaign_recipients (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES whatsapp_campaigns(id) ON DELETE CASCADE,
+  sme_id UUID NOT NULL,
+  phone VARCHAR(20) NOT NULL, -- +E.164
+  customer_name TEXT,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL, -- Customer's latest order in the segment
+  outbox_id UUID REFERENCES whatsapp_outbox(id) ON DELETE SET NULL, -- NULL when not queued
+  status TEXT NOT NULL CHECK (status IN ('queued', 'suppressed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT uq_campaign_recipient UNIQUE (campaign_id, phone)
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_campaigns_sme_id ON whatsapp_campaigns(sme_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_campaign_recipients_campaign ON whatsapp_campaign_recipients(campaign_id);
+
+-- Segment lookups scan an SME's orders by status and date
+CREATE INDEX IF NOT EXISTS idx_orders_sme_status_created ON orders(sme_id, status, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE whatsapp_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE whatsapp_campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs can view their own campaigns
+CREATE POLICY "Users can view their own WhatsApp campaigns"
+  ON whatsapp_campaigns
+  FOR SELECT
+  TO authenticated
+  USING (sme_id = auth.uid());
+
+CREATE POLICY "Users can view their own WhatsApp campaign recipients"
+  ON whatsapp_campaign_recipients
+  FOR SELECT
+  TO authenticated
+  USING (sme_id = auth.uid());
+
+COMMIT;
@@ -0,0 +1,31 @@
+-- Supabase Migration: Create WhatsApp Webhook Event Log
+-- Recent provider callbacks (delivery status, inbound messages, connection changes) per SME,
+-- shown live in the test console on the WhatsApp Setup page. Rows are pruned after a few days.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS whatsapp_webhook_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  sme_id UUID, -- NULL when the callback couldn't be matched to a business
+  provider TEXT NOT NULL, -- twilio, evolution
+  kind TEXT NOT NULL CHECK (kind IN ('status', 'inbound', 'connection')),
+  summary TEXT NOT NULL, -- e.g. "SM123… delivered"
+  result TEXT, -- What we did with it: updated, ignored, stored, duplicate, ...
+  details JSONB NOT NULL DEFAULT '{}'::jsonb, -- Selected fields of the callback body
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_webhook_events_sme_created ON whatsapp_webhook_events(sme_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_webhook_events_created ON whatsapp_webhook_events(created_at);
+
+-- Enable RLS
+ALTER TABLE whatsapp_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs can view their own webhook events
+CREATE POLICY "Users can view their own WhatsApp webhook events"
+  ON whatsapp_webhook_events
+  FOR SELECT
+  TO authenticated
+  USING (sme_id = auth.uid());
+
+COMMIT;
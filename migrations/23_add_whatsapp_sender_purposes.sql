@@ -0,0 +1,31 @@
+-- Supabase Migration: Multiple WhatsApp Sender Numbers per SME
+-- A business can connect several numbers, each tagged with a purpose: its customer line,
+-- a dispatch line for riders, and one number per branch (told apart by label).
+-- The send path picks the sender by message type (server/services/whatsapp.ts).
+-- The HELP support contact belongs to the business, so it moves to sme_settings.
+
+BEGIN;
+
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS purpose TEXT NOT NULL DEFAULT 'customer'
+  CHECK (purpose IN ('customer', 'rider', 'branch'));
+ALTER TABLE whatsapp_configs ADD COLUMN IF NOT EXISTS label TEXT NOT NULL DEFAULT ''; -- Branch name; empty for customer/rider lines
+
+-- One customer line and one rider line per SME, one number per branch
+ALTER TABLE whatsapp_configs DROP CONSTRAINT IF EXISTS whatsapp_configs_sme_id_key;
+ALTER TABLE whatsapp_configs DROP CONSTRAINT IF EXISTS whatsapp_configs_sme_purpose_label_key;
+ALTER TABLE whatsapp_configs ADD CONSTRAINT whatsapp_configs_sme_purpose_label_key UNIQUE (sme_id, purpose, label);
+
+ALTER TABLE whatsapp_configs DROP CONSTRAINT IF EXISTS whatsapp_configs_branch_label_check;
+ALTER TABLE whatsapp_configs ADD CONSTRAINT whatsapp_configs_branch_label_check
+  CHECK ((purpose = 'branch') = (label <> ''));
+
+-- Support contact: one per business, whichever number the customer replied to
+ALTER TABLE sme_settings ADD COLUMN IF NOT EXISTS support_contact TEXT;
+
+INSERT INTO sme_settings (sme_id, support_contact)
+SELECT sme_id, support_contact FROM whatsapp_configs WHERE support_contact IS NOT NULL
+ON CONFLICT (sme_id) DO UPDATE SET support_contact = EXCLUDED.support_contact, updated_at = NOW();
+
+ALTER TABLE whatsapp_configs DROP COLUMN IF EXISTS support_contact;
+
+COMMIT;
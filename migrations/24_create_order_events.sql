@@ -0,0 +1,35 @@
+-- Supabase Migration: Create Order Event History
+-- One row per thing that happened to an order: created, status changes, rider assignments,
+-- edits (with a field diff), OTP attempts, CSAT submissions and messages sent, each with who
+-- did it and when. The dashboard shows the full timeline; the customer tracking page shows
+-- status changes only (server/services/orderEvents.ts).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS order_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL,
+  sme_id UUID NOT NULL,
+  type TEXT NOT NULL CHECK (type IN (
+    'created', 'status_changed', 'rider_assigned', 'edited', 'otp_attempt', 'csat_submitted', 'message_sent'
+  )),
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('sme', 'rider', 'customer', 'system')),
+  actor_id TEXT, -- SME user id, or the rider's/customer's phone
+  data JSONB NOT NULL DEFAULT '{}'::jsonb, -- e.g. { "from": "READY", "to": "DISPATCHED" }
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fk_order_events_order_id FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order_created ON order_events(order_id, created_at);
+
+-- Enable RLS
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs can view the history of their own orders
+CREATE POLICY "Users can view their own order events"
+  ON order_events
+  FOR SELECT
+  TO authenticated
+  USING (sme_id = auth.uid());
+
+COMMIT;
@@ -0,0 +1,68 @@
+-- Supabase Migration: Add Order Number Sequences
+-- Readable order IDs come from a counter per SME instead of the clock, so orders created at the
+-- same moment (or imported together) can't collide. allocate_order_numbers() hands out a block
+-- of numbers in one atomic step; the server writes them out with the SME's prefix and format
+-- (server/shared/orderNumbers.ts). Existing orders are renumbered in creation order, keeping
+-- the ID customers were already sent in legacy_readable_id.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS order_number_sequences (
+  sme_id UUID PRIMARY KEY,
+  last_value BIGINT NOT NULL DEFAULT 0 CHECK (last_value >= 0), -- Highest number handed out
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fk_order_number_sequences_sme_id FOREIGN KEY (sme_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+ALTER TABLE sme_settings ADD COLUMN IF NOT EXISTS order_id_prefix TEXT NOT NULL DEFAULT 'WOT';
+ALTER TABLE sme_settings ADD COLUMN IF NOT EXISTS order_id_format TEXT NOT NULL DEFAULT '{PREFIX}-{YYYY}-{SEQ:5}';
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS legacy_readable_id TEXT;
+
+-- Reserve p_count consecutive numbers for the SME and return the first one
+-- The upsert locks the SME's counter row, so concurrent callers get separate blocks
+CREATE OR REPLACE FUNCTION allocate_order_numbers(p_sme_id UUID, p_count INT DEFAULT 1)
+RETURNS BIGINT
+LANGUAGE sql
+AS $$
+  INSERT INTO order_number_sequences AS s (sme_id, last_value)
+  VALUES (p_sme_id, p_count)
+  ON CONFLICT (sme_id) DO UPDATE
+    SET last_value = s.last_value + EXCLUDED.last_value, updated_at = NOW()
+  RETURNING last_value - p_count + 1;
+$$;
+
+-- Backfill once: number each SME's orders by creation date in the default format
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM order_number_sequences) THEN
+    WITH numbered AS (
+      SELECT id, created_at, ROW_NUMBER() OVER (PARTITION BY sme_id ORDER BY created_at, id) AS seq
+      FROM orders
+      WHERE sme_id IS NOT NULL
+    )
+    UPDATE orders o
+    SET legacy_readable_id = o.readable_id,
+        readable_id = 'WOT-' || TO_CHAR(n.created_at AT TIME ZONE 'UTC', 'YYYY') || '-'
+          || LPAD(n.seq::TEXT, GREATEST(5, LENGTH(n.seq::TEXT)), '0')
+    FROM numbered n
+    WHERE o.id = n.id;
+
+    INSERT INTO order_number_sequences (sme_id, last_value)
+    SELECT sme_id, COUNT(*) FROM orders WHERE sme_id IS NOT NULL GROUP BY sme_id;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_sme_readable_id ON orders(sme_id, readable_id);
+
+-- Enable RLS
+ALTER TABLE order_number_sequences ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: SMEs can view their own counter
+CREATE POLICY "Users can view their own order number sequence"
+  ON order_number_sequences
+  FOR SELECT
+  TO authenticated
+  USING (sme_id = auth.uid());
+
+COMMIT;
@@ -0,0 +1,17 @@
+-- Supabase Migration: Add Order Cancellation Details
+-- Why and when an order was cancelled, for the dashboard and the cancellation breakdown.
+-- Reasons match CANCELLATION_REASONS in server/shared/orderStatus.ts; orders cancelled
+-- before this migration have no reason recorded.
+
+BEGIN;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancellation_reason TEXT
+  CHECK (cancellation_reason IN ('customer_request', 'out_of_stock', 'customer_unreachable', 'fraud'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancellation_notes TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_orders_sme_cancellation_reason
+  ON orders(sme_id, cancellation_reason)
+  WHERE status = 'CANCELLED';
+
+COMMIT;
@@ -0,0 +1,16 @@
+-- Supabase Migration: Resolve Critical Messages That Need No Fallback
+-- The fallback sweep marks critical messages that were delivered (or can no longer be judged)
+-- so they leave its queue; otherwise delivered messages fill every batch and newer undelivered
+-- ones are never reached.
+
+BEGIN;
+
+ALTER TABLE whatsapp_outbox ADD COLUMN IF NOT EXISTS fallback_resolved_at TIMESTAMP WITH TIME ZONE;
+
+DROP INDEX IF EXISTS idx_whatsapp_outbox_fallback_due;
+CREATE INDEX IF NOT EXISTS idx_whatsapp_outbox_fallback_due
+  ON whatsapp_outbox(sent_at)
+  WHERE status = 'sent' AND fallback_at IS NULL AND fallback_resolved_at IS NULL
+    AND template_event IN ('OTP', 'DISPATCHED', 'CANCELLED');
+
+COMMIT;
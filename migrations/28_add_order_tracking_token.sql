@@ -0,0 +1,21 @@
+-- Supabase Migration: Add Order Tracking Token
+-- The customer's tracking and feedback links get their own token, separate from the rider
+-- link. Reassigning or cancelling revokes the rider's token; the customer's links keep
+-- working for the life of the order. Existing orders get a fresh random token rather than
+-- their rider_token, so a rider link can never open the customer's tracking or feedback page;
+-- tracking links sent before this migration stop working.
+
+BEGIN;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tracking_token TEXT;
+
+UPDATE orders
+SET tracking_token = REPLACE(gen_random_uuid()::TEXT, '-', '')
+WHERE tracking_token IS NULL;
+
+ALTER TABLE orders ALTER COLUMN tracking_token SET DEFAULT REPLACE(gen_random_uuid()::TEXT, '-', '');
+ALTER TABLE orders ALTER COLUMN tracking_token SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_tracking_token ON orders(tracking_token);
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Supabase Migration: Revoke Client Order Writes
+-- Every order write goes through the API (server/services/orders.ts for the dashboard,
+-- server/routes/rider.ts for rider locations), which checks the order lifecycle and the
+-- rider link. The browser keys keep read access for the tracking pages and realtime
+-- updates, but can no longer change orders directly and skip those checks.
+
+BEGIN;
+
+REVOKE INSERT, UPDATE, DELETE ON orders FROM anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,12 @@
+-- Supabase Migration: Regenerate Backfilled Tracking Tokens
+-- Databases that ran an earlier version of migration 28 copied rider_token into tracking_token,
+-- so a rider link still opened the customer's tracking and feedback pages. Those orders get a
+-- fresh random token; tracking links sent before this migration stop working.
+
+BEGIN;
+
+UPDATE orders
+SET tracking_token = REPLACE(gen_random_uuid()::TEXT, '-', '')
+WHERE tracking_token = rider_token;
+
+COMMIT;
@@ -8,8 +8,26 @@ import otpRouter from './routes/otp.js';
 import formsRouter from './routes/forms.js';
 import csvRouter from './routes/csv.js';
 import whatsappConfigRouter from './routes/whatsappConfig.js';
+import devOutboxRouter from './routes/devOutbox.js';
+import conversationsRouter from './routes/conversations.js';
+import orderRequestsRouter from './routes/orderRequests.js';
+import ordersRouter from './routes/orders.js';
+import trackingRouter from './routes/tracking.js';
+import riderRouter from './routes/rider.js';
+import templatesRouter from './routes/templates.js';
+import notificationsRouter from './routes/notifications.js';
+import contentTemplatesRouter from './routes/contentTemplates.js';
+import settingsRouter from './routes/settings.js';
+import suppressionsRouter from './routes/suppressions.js';
+import campaignsRouter from './routes/campaigns.js';
+import { isOutboxMode } from './services/whatsapp.js';
 import { startOtpCleanupSchedule } from './services/otpCleanup.js';
 import { startRateLimitStoreCleanup } from './middleware/rateLimiter.js';
+import { startOutboxWorker } from './services/messageQueue.js';
+import { startFallbackWorker } from './services/fallback.js';
+import { startOrderNotificationWorker } from './services/orderNotifications.js';
+import { startConfigVerificationSchedule } from './services/configVerification.js';
+import { startWebhookEventCleanup } from './services/webhookEvents.js';
 dotenv.config({ path: './server/.env' });
 
 // Get __dirname in ESM
@@ -84,14 +102,37 @@ app.get('/health', (req: Request, res: Response) => {
 // Routes
 app.use('/api', whatsappRouter);
 app.use('/api', whatsappConfigRouter);
+app.use('/api', contentTemplatesRouter);
+app.use('/api', suppressionsRouter);
+app.use('/api', campaignsRouter);
 app.use('/api', otpRouter);
 app.use('/api', formsRouter);
 app.use('/api', csvRouter);
+app.use('/api', conversationsRouter);
+app.use('/api', orderRequestsRouter);
+app.use('/api', ordersRouter);
+app.use('/api', trackingRouter);
+app.use('/api', riderRouter);
+app.use('/api', templatesRouter);
+app.use('/api', notificationsRouter);
+app.use('/api', settingsRouter);
+// Captured messages include OTP codes: the dev outbox only exists outside production
+if (process.env.NODE_ENV !== 'production') {
+  app.use('/api', devOutboxRouter);
+}
 
 // Start background services
 const otpCleanupInterval = parseInt(process.env.OTP_CLEANUP_INTERVAL_MINUTES || '60', 10);
 startOtpCleanupSchedule(otpCleanupInterval);
 startRateLimitStoreCleanup(60000); // Clean up rate limit store every minute
+const outboxPollInterval = parseInt(process.env.WHATSAPP_OUTBOX_POLL_MS || '2000', 10);
+startOutboxWorker(outboxPollInterval);
+startFallbackWorker();
+const orderNotifyPollInterval = parseInt(process.env.ORDER_NOTIFY_POLL_MS || '3000', 10);
+startOrderNotificationWorker(orderNotifyPollInterval);
+const configVerifyInterval = parseInt(process.env.WHATSAPP_CONFIG_VERIFY_INTERVAL_MINUTES || '360', 10);
+startConfigVerificationSchedule(configVerifyInterval);
+startWebhookEventCleanup();
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -122,7 +163,9 @@ app.listen(PORT, () => {
   console.log(`🚀 WOT Backend Server running on http://localhost:${PORT}`);
   console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:5173'}`);
-  console.log(`💬 Twilio WhatsApp: ${process.env.TWILIO_WHATSAPP_NUMBER || 'Not configured'}`);
+  console.log(isOutboxMode
+    ? `📥 WhatsApp: local outbox (GET /api/dev/outbox)`
+    : `💬 Twilio WhatsApp: ${process.env.TWILIO_WHATSAPP_NUMBER}`);
   console.log(`🧹 OTP Cleanup running every ${otpCleanupInterval} minutes`);
 });
 
@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { openProviderConfig } from '../services/credentials.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase env vars for Evolution webhook middleware');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+/**
+ * API key of the instance the callback claims to come from: the SME's own, or the
+ * platform EVOLUTION_API_KEY its config falls back to. Null for unknown instances
+ */
+async function resolveInstanceApiKey(instanceKey: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('whatsapp_configs')
+    .select('id, sme_id, provider_config, wrapped_data_key, key_version')
+    .eq('provider', 'evolution')
+    .eq('provider_config->>instanceKey', instanceKey)
+    .limit(1);
+
+  if (error) {
+    console.error('[Evolution Webhook] Config lookup error:', error);
+    return null;
+  }
+
+  const config = data?.[0];
+  if (!config) return null;
+  return openProviderConfig(config).apiKey || process.env.EVOLUTION_API_KEY || null;
+}
+
+const sameSecret = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+/**
+ * Reject Evolution callbacks that don't carry the instance's API key
+ * Evolution sends it as the `apikey` header (when set in the webhook headers) and in the body.
+ * Outside production, callbacks for instances with no stored config are let through (with a warning)
+ */
+export const verifyEvolutionWebhook = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const instanceKey = typeof req.body?.instance === 'string' ? req.body.instance : '';
+    if (!instanceKey) {
+      return res.status(403).json({ success: false, error: 'Unknown Evolution instance' });
+    }
+
+    const apiKey = await resolveInstanceApiKey(instanceKey);
+    if (!apiKey) {
+      if (!isProduction) {
+        console.warn(`[Evolution Webhook] No API key for instance ${instanceKey}; skipping validation (development only)`);
+        return next();
+      }
+      return res.status(403).json({ success: false, error: 'Unknown Evolution instance' });
+    }
+
+    const presented = (req.headers.apikey as string | undefined) || (typeof req.body.apikey === 'string' ? req.body.apikey : '');
+    if (!presented || !sameSecret(presented, apiKey)) {
+      console.warn(`[Evolution Webhook] Rejected callback for ${instanceKey} from ${req.ip}: invalid API key`);
+      return res.status(403).json({ success: false, error: 'Invalid Evolution API key' });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Evolution Webhook Middleware Error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error during webhook check' });
+  }
+};
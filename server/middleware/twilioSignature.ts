@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import twilio from 'twilio';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { openProviderConfig } from '../services/credentials.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase env vars for Twilio signature middleware');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+/**
+ * Auth token that signed a callback: the platform account's, or the SME's own
+ * when the message was sent from an SME-connected Twilio account
+ */
+async function resolveAuthToken(accountSid?: string): Promise<string | null> {
+  const platformSid = process.env.TWILIO_ACCOUNT_SID;
+  const platformToken = process.env.TWILIO_AUTH_TOKEN;
+
+  if (!accountSid || accountSid === platformSid) return platformToken || null;
+
+  const { data, error } = await supabase
+    .from('whatsapp_configs')
+    .select('id, sme_id, provider_config, wrapped_data_key, key_version')
+    .eq('provider', 'twilio')
+    .eq('provider_config->>accountSid', accountSid)
+    .limit(1);
+
+  if (error) {
+    console.error('[Twilio Signature] Config lookup error:', error);
+    return null;
+  }
+
+  const config = data?.[0];
+  return config ? openProviderConfig(config).authToken || null : null;
+}
+
+/**
+ * Public URL Twilio posted to; it signs the exact URL configured in the console.
+ * Set BACKEND_URL when the server sits behind a proxy that rewrites the host.
+ */
+function webhookUrl(req: Request): string {
+  const base = process.env.BACKEND_URL?.replace(/\/+$/, '');
+  if (base) return `${base}${req.originalUrl}`;
+
+  const proto = (req.headers['x-forwarded-proto'] as string)?.split(',')[0] || req.protocol;
+  return `${proto}://${req.get('host')}${req.originalUrl}`;
+}
+
+/**
+ * Reject webhook requests without a valid X-Twilio-Signature
+ * Outside production, requests are let through (with a warning) when no auth token is configured
+ */
+export const verifyTwilioSignature = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const signature = req.headers['x-twilio-signature'] as string | undefined;
+    const authToken = await resolveAuthToken(req.body?.AccountSid);
+
+    if (!authToken) {
+      if (!isProduction) {
+        console.warn('[Twilio Signature] No auth token for this account; skipping validation (development only)');
+        return next();
+      }
+      return res.status(403).json({ success: false, error: 'Unknown Twilio account' });
+    }
+
+    if (!signature || !twilio.validateRequest(authToken, signature, webhookUrl(req), req.body || {})) {
+      console.warn(`[Twilio Signature] Rejected webhook from ${req.ip}: invalid signature`);
+      return res.status(403).json({ success: false, error: 'Invalid Twilio signature' });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Twilio Signature Middleware Error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error during signature check' });
+  }
+};
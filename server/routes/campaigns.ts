@@ -0,0 +1,137 @@
+import { Router, Request, Response } from 'express';
+import {
+  CAMPAIGN_VARIABLES,
+  validateSegment,
+  resolveSegment,
+  campaignVariables,
+  createCampaign,
+  getCampaignReport,
+  listCampaigns,
+} from '../services/campaigns.js';
+import { renderTemplate } from '../services/templates.js';
+import { authenticateUser } from '../middleware/auth.js';
+
+const router = Router();
+
+const PREVIEW_SAMPLE_SIZE = 5;
+
+/**
+ * GET /api/campaigns
+ * The SME's recent campaigns with delivery totals
+ */
+router.get('/campaigns', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+
+    const campaigns = await listCampaigns(smeId);
+    return res.json({ success: true, campaigns, variables: CAMPAIGN_VARIABLES });
+  } catch (error) {
+    console.error('[Campaigns GET Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/campaigns/preview
+ * How many customers a segment reaches, and the message a few of them would get
+ */
+router.post('/campaigns/preview', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { segment, messageBody } = req.body;
+
+    const segmentError = validateSegment(segment);
+    if (segmentError) {
+      return res.status(400).json({ success: false, error: segmentError });
+    }
+
+    const recipients = await resolveSegment(smeId, segment);
+    const suppressed = recipients.filter((r) => r.suppressed).length;
+
+    return res.json({
+      success: true,
+      total: recipients.length,
+      suppressed,
+      sample: recipients
+        .filter((r) => !r.suppressed)
+        .slice(0, PREVIEW_SAMPLE_SIZE)
+        .map((r) => ({
+          phone: r.phone,
+          customer_name: r.customerName,
+          order_count: r.orderCount,
+          total_spent: r.totalSpent,
+          message: typeof messageBody === 'string' ? renderTemplate(messageBody, campaignVariables(r)) : null,
+        })),
+    });
+  } catch (error) {
+    console.error('[Campaigns Preview Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/campaigns
+ * Create a campaign and queue its messages
+ */
+router.post('/campaigns', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { name, messageBody, segment, contentSid, contentVariables } = req.body;
+
+    if (!name || typeof name !== 'string' || !messageBody || typeof messageBody !== 'string') {
+      return res.status(400).json({ success: false, error: 'name and messageBody are required' });
+    }
+
+    if (messageBody.length > 4096) {
+      return res.status(400).json({ success: false, error: 'messageBody must be at most 4096 characters' });
+    }
+
+    const segmentError = validateSegment(segment);
+    if (segmentError) {
+      return res.status(400).json({ success: false, error: segmentError });
+    }
+
+    if (contentSid && !/^HX\w+$/.test(contentSid)) {
+      return res.status(400).json({ success: false, error: 'contentSid must be a Twilio Content SID (HX...)' });
+    }
+
+    const result = await createCampaign(smeId, {
+      name: name.trim(),
+      messageBody,
+      segment,
+      contentSid: contentSid || undefined,
+      contentVariables: contentVariables && typeof contentVariables === 'object' ? contentVariables : undefined,
+    });
+
+    if (!result.success) {
+      return res.status(result.statusCode || 500).json({ success: false, error: result.error });
+    }
+
+    return res.status(201).json(result);
+  } catch (error) {
+    console.error('[Campaigns POST Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/campaigns/:id
+ * Per-recipient delivery report for a campaign
+ */
+router.get('/campaigns/:id', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+
+    const report = await getCampaignReport(smeId, req.params.id);
+    if (!report) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    return res.json({ success: true, ...report });
+  } catch (error) {
+    console.error('[Campaigns Report Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
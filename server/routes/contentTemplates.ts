@@ -0,0 +1,152 @@
+import { Router, Request, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { TEMPLATE_EVENTS, BASE_VARIABLES, isTemplateEvent } from '../services/templates.js';
+import { authenticateUser } from '../middleware/auth.js';
+
+dotenv.config({ path: './server/.env' });
+
+const router = Router();
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const CONTENT_SID_PATTERN = /^HX[0-9a-f]{32}$/i;
+const SLOT_PATTERN = /^\d{1,2}$/;
+const VARIABLE_PATTERN = /^[a-z0-9_]+$/i;
+
+/**
+ * Validate a slot → variable mapping such as {"1": "customer_name"}
+ */
+function parseVariableMapping(value: unknown): Record<string, string> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const mapping: Record<string, string> = {};
+  for (const [slot, name] of Object.entries(value as Record<string, unknown>)) {
+    if (!SLOT_PATTERN.test(slot) || typeof name !== 'string' || !VARIABLE_PATTERN.test(name)) {
+      return null;
+    }
+    mapping[slot] = name;
+  }
+  return mapping;
+}
+
+/**
+ * GET /api/whatsapp/content-templates
+ * Approved templates used outside the 24-hour session window, one per event
+ */
+router.get('/whatsapp/content-templates', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+
+    const { data, error } = await supabase
+      .from('whatsapp_content_templates')
+      .select('event, content_sid, variables, updated_at')
+      .eq('sme_id', smeId);
+
+    if (error) {
+      console.error('[Content Templates] Fetch error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch content templates' });
+    }
+
+    return res.json({
+      success: true,
+      events: TEMPLATE_EVENTS,
+      variables: BASE_VARIABLES,
+      templates: data || [],
+    });
+  } catch (error) {
+    console.error('[Content Templates GET Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/whatsapp/content-templates/:event
+ * Register the content SID and variable mapping for an event
+ */
+router.put('/whatsapp/content-templates/:event', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { event } = req.params;
+    const { contentSid, variables = {} } = req.body;
+
+    if (!isTemplateEvent(event)) {
+      return res.status(400).json({ success: false, error: 'Unknown template event' });
+    }
+
+    if (typeof contentSid !== 'string' || !CONTENT_SID_PATTERN.test(contentSid.trim())) {
+      return res.status(400).json({ success: false, error: 'contentSid must be a Twilio Content SID (HX followed by 32 characters)' });
+    }
+
+    const mapping = parseVariableMapping(variables);
+    if (!mapping) {
+      return res.status(400).json({
+        success: false,
+        error: 'variables must map template slots ("1", "2", ...) to variable names',
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('whatsapp_content_templates')
+      .upsert(
+        [
+          {
+            sme_id: smeId,
+            event,
+            content_sid: contentSid.trim(),
+            variables: mapping,
+            updated_at: new Date().toISOString(),
+          },
+        ],
+        { onConflict: 'sme_id,event' }
+      )
+      .select('event, content_sid, variables, updated_at')
+      .single();
+
+    if (error) {
+      console.error('[Content Templates] Save error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to save content template' });
+    }
+
+    return res.json({ success: true, template: data });
+  } catch (error) {
+    console.error('[Content Templates PUT Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/whatsapp/content-templates/:event
+ * Remove the approved template for an event
+ */
+router.delete('/whatsapp/content-templates/:event', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { event } = req.params;
+
+    const { error } = await supabase
+      .from('whatsapp_content_templates')
+      .delete()
+      .eq('sme_id', smeId)
+      .eq('event', event);
+
+    if (error) {
+      console.error('[Content Templates] Delete error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to remove content template' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Content Templates DELETE Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,235 @@
+import { Router, Request, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { enqueueWhatsAppMessage } from '../services/messageQueue.js';
+import { authenticateUser } from '../middleware/auth.js';
+
+dotenv.config({ path: './server/.env' });
+
+const router = Router();
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+interface ConversationMessage {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  body: string;
+  phone: string;
+  status?: string;
+  mediaUrl?: string | null;
+  createdAt: string;
+}
+
+/**
+ * Load an order and check it belongs to the requesting SME
+ */
+async function getOwnedOrder(orderId: string, smeId: string) {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('id, sme_id, customer_phone, readable_id')
+    .eq('id', orderId)
+    .single();
+
+  if (error || !order || order.sme_id !== smeId) return null;
+  return order;
+}
+
+/**
+ * GET /api/orders/:orderId/conversation
+ * Threaded WhatsApp conversation for an order: outbound logs, queued replies and inbound messages
+ */
+router.get('/orders/:orderId/conversation', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { orderId } = req.params;
+
+    const order = await getOwnedOrder(orderId, smeId);
+    if (!order) {
+      return res.status(404).json({ success: false, error: 'Order not found' });
+    }
+
+    const [logsResult, queuedResult, inboundResult] = await Promise.all([
+      supabase
+        .from('whatsapp_logs')
+        .select('id, outbox_id, recipient_phone, message_body, status, created_at')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('whatsapp_outbox')
+        .select('id, recipient_phone, message_body, status, created_at')
+        .eq('order_id', orderId)
+        .in('status', ['pending', 'processing']),
+      supabase
+        .from('whatsapp_inbound_messages')
+        .select('id, from_phone, body, media_url, created_at')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    const error = logsResult.error || queuedResult.error || inboundResult.error;
+    if (error) {
+      console.error('[Conversation] Fetch error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch conversation' });
+    }
+
+    // Retries log one row per attempt; keep only the latest attempt per queued message
+    const latestByOutbox = new Map<string, ConversationMessage>();
+    const outbound: ConversationMessage[] = [];
+    for (const log of logsResult.data || []) {
+      const message: ConversationMessage = {
+        id: log.id,
+        direction: 'outbound',
+        body: log.message_body,
+        phone: log.recipient_phone,
+        status: log.status,
+        createdAt: log.created_at,
+      };
+      if (log.outbox_id) {
+        const first = latestByOutbox.get(log.outbox_id);
+        // Keep the thread position of the first attempt but the newest status
+        latestByOutbox.set(log.outbox_id, first ? { ...message, createdAt: first.createdAt } : message);
+      } else {
+        outbound.push(message);
+      }
+    }
+
+    const queued: ConversationMessage[] = (queuedResult.data || []).map((row) => ({
+      id: row.id,
+      direction: 'outbound',
+      body: row.message_body,
+      phone: row.recipient_phone,
+      status: 'queued',
+      createdAt: row.created_at,
+    }));
+
+    const inbound: ConversationMessage[] = (inboundResult.data || []).map((row) => ({
+      id: row.id,
+      direction: 'inbound',
+      body: row.body,
+      phone: row.from_phone,
+      mediaUrl: row.media_url,
+      createdAt: row.created_at,
+    }));
+
+    const messages = [...outbound, ...latestByOutbox.values(), ...queued, ...inbound]
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    return res.json({ success: true, messages });
+  } catch (error) {
+    console.error('[Conversation GET Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/orders/:orderId/conversation/reply
+ * Reply to the customer through the outbound queue
+ */
+router.post('/orders/:orderId/conversation/reply', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { orderId } = req.params;
+    const { message } = req.body as { message?: string };
+
+    if (!message || !message.trim()) {
+      return res.status(400).json({ success: false, error: 'Message is required' });
+    }
+
+    const order = await getOwnedOrder(orderId, smeId);
+    if (!order) {
+      return res.status(404).json({ success: false, error: 'Order not found' });
+    }
+
+    const result = await enqueueWhatsAppMessage({
+      phone: order.customer_phone,
+      message: message.trim(),
+      orderId: order.id,
+      smeId,
+    });
+
+    if (!result.success) {
+      return res.status(500).json(result);
+    }
+
+    // Replying implies the SME has read the thread
+    await supabase
+      .from('whatsapp_inbound_messages')
+      .update({ read_at: new Date().toISOString() })
+      .eq('order_id', orderId)
+      .is('read_at', null);
+
+    return res.status(202).json({ success: true, queued: true, outboxId: result.outboxId });
+  } catch (error) {
+    console.error('[Conversation Reply Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/orders/:orderId/conversation/read
+ * Mark the customer's messages on an order as read
+ */
+router.post('/orders/:orderId/conversation/read', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { orderId } = req.params;
+
+    const { error } = await supabase
+      .from('whatsapp_inbound_messages')
+      .update({ read_at: new Date().toISOString() })
+      .eq('order_id', orderId)
+      .eq('sme_id', smeId)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('[Conversation] Mark read error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to mark as read' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Conversation Read Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/whatsapp/inbox/unread
+ * Unread customer message counts per order for the SME
+ */
+router.get('/whatsapp/inbox/unread', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+
+    const { data, error } = await supabase
+      .from('whatsapp_inbound_messages')
+      .select('order_id')
+      .eq('sme_id', smeId)
+      .is('read_at', null)
+      .not('order_id', 'is', null);
+
+    if (error) {
+      console.error('[Inbox] Unread fetch error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch unread messages' });
+    }
+
+    const counts: Record<string, number> = {};
+    for (const row of data || []) {
+      counts[row.order_id] = (counts[row.order_id] || 0) + 1;
+    }
+
+    return res.json({ success: true, counts });
+  } catch (error) {
+    console.error('[Inbox Unread Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
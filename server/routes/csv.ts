@@ -2,7 +2,10 @@ import { Router, Request, Response } from "express";
 import { createClient } from "@supabase/supabase-js";
 import dotenv from "dotenv";
 import Papa from "papaparse";
-import { sendWhatsAppMessage, getOrderStatusMessage } from "../services/whatsapp";
+import { normalizeLanguage } from "../services/templates.js";
+import { validateOrders, createOrders } from "../services/orders.js";
+import type { OrderInput, OrderRejection } from "../services/orders.js";
+import { authenticateUser } from "../middleware/auth.js";
 
 dotenv.config({ path: "./server/.env" });
 
@@ -17,6 +20,12 @@ if (!supabaseUrl || !supabaseServiceRoleKey) {
 
 const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
 
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Row numbers as the SME sees them in a spreadsheet (header is row 1)
+const toSkippedRows = (rejected: OrderRejection[]) =>
+  rejected.map((r) => ({ row: r.index + 2, error: r.error, fieldErrors: r.fieldErrors }));
+
 interface CSVMapperRequest {
   csvData: string; // Raw CSV text
   schemaId: string;
@@ -28,7 +37,7 @@ interface CSVMapperRequest {
  * POST /api/csv-mapper
  * Parse CSV and map columns to form fields; supports preview and bulk import
  */
-router.post("/csv-mapper", async (req: Request, res: Response) => {
+router.post("/csv-mapper", authenticateUser, async (req: Request, res: Response) => {
   try {
     const {
       csvData,
@@ -36,13 +45,7 @@ router.post("/csv-mapper", async (req: Request, res: Response) => {
       columnMapping,
       importMode = "preview",
     } = req.body as CSVMapperRequest;
-    const smeId = req.headers["x-sme-id"] as string;
-
-    if (!smeId) {
-      return res
-        .status(401)
-        .json({ success: false, error: "SME ID not provided" });
-    }
+    const smeId = req.user!.id;
 
     if (!csvData || !schemaId || !columnMapping) {
       return res
@@ -87,7 +90,7 @@ router.post("/csv-mapper", async (req: Request, res: Response) => {
     const rows = parsed.data as any[];
 
     // Map CSV rows to Order Stucture
-    const mappedRows = rows.map((row) => {
+    const mappedRows: OrderInput[] = rows.map((row) => {
       // 1. Identify Core Fields 
       // Logic: Find which CSV column map to 'customer_name', etc.
       const getMappedValue = (targetKey: string) => {
@@ -95,14 +98,15 @@ router.post("/csv-mapper", async (req: Request, res: Response) => {
         return csvHeaderName && row[csvHeaderName] !== undefined ? row[csvHeaderName] : null;
       }
 
-      const customer_name = getMappedValue('customer_name');
-      const customer_phone = getMappedValue('customer_phone');
-      const delivery_address = getMappedValue('delivery_address');
-      const price_total = Number(getMappedValue('price_total') || 0);
+      // Unknown languages fall back to English rather than failing the row
+      const preferred_language = normalizeLanguage(getMappedValue('preferred_language')) || 'en';
+      // Only used for fallback notices, so a malformed address is dropped rather than failing the row
+      const rawEmail = String(getMappedValue('customer_email') || '').trim();
+      const customer_email = EMAIL_PATTERN.test(rawEmail) ? rawEmail : null;
 
       // 2. Identify Custom Fields (Everything else)
       const customData: Record<string, any> = {};
-      const systemKeys = ['customer_name', 'customer_phone', 'delivery_address', 'price_total'];
+      const systemKeys = ['customer_name', 'customer_phone', 'customer_email', 'delivery_address', 'price_total', 'preferred_language'];
 
       // Iterate over the mapping. If the target field is NOT a system key, it's custom data.
       Object.entries(columnMapping).forEach(([csvHeader, targetField]) => {
@@ -112,83 +116,55 @@ router.post("/csv-mapper", async (req: Request, res: Response) => {
         }
       });
 
+      // Checked and normalised by the orders service, the same as an order entered on the dashboard
       return {
-        customer_name,
-        customer_phone,
-        delivery_address,
-        price_total,
+        customer_name: getMappedValue('customer_name'),
+        customer_phone: getMappedValue('customer_phone'),
+        customer_email,
+        delivery_address: getMappedValue('delivery_address'),
+        price_total: getMappedValue('price_total'),
+        preferred_language,
         form_data: customData, // JSONB bucket
-        original_row: row // Keep for debugging if needed
+        // Importing confirms the SME collected WhatsApp consent with the order
+        whatsapp_consent_source: 'csv_import',
       };
     });
 
-    // If preview mode, just return the mapped data
+    // If preview mode, just return the mapped data with the rows the import would skip
     if (importMode === "preview") {
+      const { rejected } = await validateOrders(smeId, mappedRows);
       return res.json({
         success: true,
         rowCount: mappedRows.length,
         sampleRows: mappedRows.slice(0, 5),
         mappedRows,
+        invalidRows: toSkippedRows(rejected),
       });
     }
 
     if (importMode === "import") {
-      // 1. Filter out invalid rows (missing required name/phone?) - Optional, but let's be safe
-      const validRows = mappedRows.filter(r => r.customer_name && r.customer_phone);
-
-      if (validRows.length === 0) {
-        return res.status(400).json({ success: false, error: "No valid rows found. Ensure Name and Phone are mapped." });
-      }
+      // Rows failing validation are skipped; the rest are created in one insert and sent the NEW confirmation
+      const result = await createOrders(smeId, mappedRows, 'csv_import');
 
-      // 2. Prepare the array for bulk insert into ORDERS table
-      const timestamp = Date.now().toString().slice(-6);
-
-      const ordersToInsert = validRows.map((data, idx) => ({
-        sme_id: smeId,
-        readable_id: `BLK${timestamp}${idx}`, // Unique-ish ID
-        status: 'NEW',
-        customer_name: data.customer_name,
-        customer_phone: data.customer_phone,
-        delivery_address: data.delivery_address || 'Imported Address', // Fallback
-        price_total: data.price_total,
-        form_data: data.form_data,
-        created_at: new Date().toISOString()
-      }));
-
-      // 3. Perform ONE bulk insert
-      const { data, error: insertError } = await supabase
-        .from("orders")
-        .insert(ordersToInsert)
-        .select();
-
-      if (insertError) {
-        console.error("[CSV Import] Bulk insert error:", insertError);
+      if (!result.success) {
         return res
-          .status(500)
-          .json({ success: false, error: "Failed to bulk import orders: " + insertError.message });
+          .status(result.statusCode || 500)
+          .json({ success: false, error: result.error || "Failed to bulk import orders" });
       }
 
-      // 4. Send WhatsApp Notifications (Fire and Forget)
-      if (data && data.length > 0) {
-        // We use Promise.allSettled to ensure all messages are attempted even if some fail
-        // Using `void` to explicitly ignore the promise so we don't wait for it
-        void Promise.allSettled(data.map(async (order: any) => {
-          if (order.customer_phone) {
-            const messageText = getOrderStatusMessage('NEW', order.readable_id);
-            await sendWhatsAppMessage({
-              phone: order.customer_phone,
-              message: messageText,
-              orderId: order.id,
-              smeId: smeId
-            });
-          }
-        }));
+      const skippedRows = toSkippedRows(result.rejected || []);
+      const createdCount = result.orders?.length || 0;
+
+      if (createdCount === 0) {
+        return res.status(400).json({ success: false, error: "No valid rows found", skippedRows });
       }
 
       return res.json({
         success: true,
-        message: `Successfully created ${ordersToInsert.length} orders`,
-        successCount: ordersToInsert.length,
+        message: `Successfully created ${createdCount} orders`,
+        successCount: createdCount,
+        skippedRows,
+        notificationsQueued: result.notificationsQueued || 0,
       });
     }
 
@@ -209,16 +185,10 @@ router.post("/csv-mapper", async (req: Request, res: Response) => {
  * POST /api/csv-mapper/auto-detect
  * Auto-detect column names and suggest field mappings
  */
-router.post("/csv-mapper/auto-detect", async (req: Request, res: Response) => {
+router.post("/csv-mapper/auto-detect", authenticateUser, async (req: Request, res: Response) => {
   try {
     const { csvData, schemaId } = req.body;
-    const smeId = req.headers["x-sme-id"] as string;
-
-    if (!smeId) {
-      return res
-        .status(401)
-        .json({ success: false, error: "SME ID not provided" });
-    }
+    const smeId = req.user!.id;
 
     if (!csvData || !schemaId) {
       return res
@@ -235,7 +205,20 @@ router.post("/csv-mapper/auto-detect", async (req: Request, res: Response) => {
 
     const csvHeaders = Object.keys((parsed.data as any[])[0] || {});
 
-    // Fetch form schema fields
+    // Fetch form schema fields, only from one of the SME's own schemas
+    const { data: schema } = await supabase
+      .from("form_schemas")
+      .select("id")
+      .eq("id", schemaId)
+      .eq("sme_id", smeId)
+      .maybeSingle();
+
+    if (!schema) {
+      return res
+        .status(403)
+        .json({ success: false, error: "Schema not found or unauthorized" });
+    }
+
     const { data: fields, error: fieldsError } = await supabase
       .from("form_fields")
       .select("field_key, label")
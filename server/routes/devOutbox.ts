@@ -0,0 +1,42 @@
+import { Router, Request, Response } from 'express';
+import { authenticateUser } from '../middleware/auth.js';
+import { isOutboxMode } from '../services/whatsapp.js';
+import { listOutboxMessages, clearOutbox } from '../services/providers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/dev/outbox
+ * List messages captured by the local outbox provider (newest first)
+ * Only available when WHATSAPP_PROVIDER=outbox, to signed-in users; never mounted in production
+ * (captured bodies include delivery codes)
+ */
+router.get('/dev/outbox', authenticateUser, (req: Request, res: Response) => {
+  if (!isOutboxMode) {
+    return res.status(404).json({ success: false, enabled: false, error: 'Outbox provider is not enabled' });
+  }
+
+  const limit = Math.min(parseInt(String(req.query.limit || '100'), 10) || 100, 500);
+  const phone = typeof req.query.phone === 'string' ? req.query.phone.replace(/\D/g, '') : '';
+
+  const messages = listOutboxMessages(500)
+    .filter((m) => !phone || m.to.replace(/\D/g, '').endsWith(phone))
+    .slice(0, limit);
+
+  return res.json({ success: true, enabled: true, messages });
+});
+
+/**
+ * DELETE /api/dev/outbox
+ * Clear all captured messages
+ */
+router.delete('/dev/outbox', authenticateUser, (_req: Request, res: Response) => {
+  if (!isOutboxMode) {
+    return res.status(404).json({ success: false, enabled: false, error: 'Outbox provider is not enabled' });
+  }
+
+  clearOutbox();
+  return res.json({ success: true, message: 'Outbox cleared' });
+});
+
+export default router;
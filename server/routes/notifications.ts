@@ -0,0 +1,65 @@
+import { Router, Request, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { enqueueWhatsAppMessage } from '../services/messageQueue.js';
+import { isTemplateEvent, composeOrderMessage } from '../services/templates.js';
+import { authenticateUser } from '../middleware/auth.js';
+
+dotenv.config({ path: './server/.env' });
+
+const router = Router();
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+/**
+ * POST /api/orders/:orderId/notify
+ * Render the SME's template for an event and queue it
+ * RIDER_ASSIGNED goes to the order's rider, every other event to the customer
+ */
+router.post('/orders/:orderId/notify', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { orderId } = req.params;
+    const { event } = req.body;
+
+    if (!event || !isTemplateEvent(event)) {
+      return res.status(400).json({ success: false, error: 'Unknown notification event' });
+    }
+
+    const { data: order, error } = await supabase
+      .from('orders')
+      .select('id, sme_id, readable_id, status, customer_name, customer_phone, delivery_address, price_total, rider_phone, tracking_token, rider_token, form_data, preferred_language')
+      .eq('id', orderId)
+      .single();
+
+    if (error || !order || order.sme_id !== smeId) {
+      return res.status(404).json({ success: false, error: 'Order not found' });
+    }
+
+    const phone = event === 'RIDER_ASSIGNED' ? order.rider_phone : order.customer_phone;
+    if (!phone) {
+      return res.status(400).json({ success: false, error: 'Order has no phone number for this notification' });
+    }
+
+    const { message, template } = await composeOrderMessage(smeId, event, order);
+    const result = await enqueueWhatsAppMessage({ phone, message, template, orderId: order.id, smeId });
+
+    if (!result.success) {
+      return res.status(500).json(result);
+    }
+
+    return res.status(202).json({ success: true, queued: true, outboxId: result.outboxId });
+  } catch (error) {
+    console.error('[Notify Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
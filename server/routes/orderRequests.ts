@@ -0,0 +1,56 @@
+import { Router, Request, Response } from 'express';
+import { listOrderRequests, resolveOrderRequest } from '../services/selfService.js';
+import { authenticateUser } from '../middleware/auth.js';
+
+const router = Router();
+
+/**
+ * GET /api/order-requests?status=pending
+ * Customer cancel/reschedule requests sent over WhatsApp that need the SME's decision
+ */
+router.get('/order-requests', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const status = (req.query.status as string) || 'pending';
+
+    if (!['pending', 'approved', 'rejected'].includes(status)) {
+      return res.status(400).json({ success: false, error: 'Invalid status' });
+    }
+
+    const { data, error } = await listOrderRequests(smeId, status);
+
+    if (error) {
+      console.error('[Order Requests] Fetch error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch requests' });
+    }
+
+    return res.json({ success: true, requests: data || [] });
+  } catch (error) {
+    console.error('[Order Requests GET Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/order-requests/:id/approve
+ * POST /api/order-requests/:id/reject
+ * Resolve a customer request; the customer is told the outcome on WhatsApp
+ */
+router.post('/order-requests/:id/:decision(approve|reject)', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { id, decision } = req.params;
+
+    const result = await resolveOrderRequest(id, smeId, decision === 'approve');
+    if (!result.success) {
+      return res.status(result.statusCode || 500).json({ success: false, error: result.error });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Order Requests Resolve Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,147 @@
+import { Router, Request, Response } from 'express';
+import { authenticateUser } from '../middleware/auth.js';
+import { listOrders, getOrder, createOrder, updateOrder, cancelOrder, deleteOrder } from '../services/orders.js';
+import type { OrderResult } from '../services/orders.js';
+import { listOrderEvents } from '../services/orderEvents.js';
+
+const router = Router();
+
+// Failures carry a code (VALIDATION_ERROR, NOT_FOUND, INVALID_TRANSITION, DATABASE_ERROR) and per-field messages
+const sendFailure = (res: Response, result: OrderResult) =>
+  res.status(result.statusCode || 500).json({
+    success: false,
+    error: result.error,
+    code: result.code,
+    ...(result.fieldErrors && { fieldErrors: result.fieldErrors }),
+  });
+
+/**
+ * GET /api/orders?status=NEW,PROCESSING&search=&from=&to=&limit=&offset=
+ * The SME's orders, newest first
+ */
+router.get('/orders', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { status, search, from, to, limit, offset } = req.query as Record<string, string | undefined>;
+
+    const result = await listOrders(smeId, {
+      status,
+      search,
+      from,
+      to,
+      limit: limit ? Number(limit) : undefined,
+      offset: offset ? Number(offset) : undefined,
+    });
+    if (!result.success) return sendFailure(res, result);
+
+    return res.json({ success: true, orders: result.orders, total: result.total });
+  } catch (error) {
+    console.error('[Orders GET Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/orders/:id
+ * One of the SME's orders
+ */
+router.get('/orders/:id', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const result = await getOrder(req.user!.id, req.params.id);
+    if (!result.success) return sendFailure(res, result);
+
+    return res.json({ success: true, order: result.order });
+  } catch (error) {
+    console.error('[Orders GET Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/orders/:id/events
+ * The order's history, oldest first: status changes, rider assignments, edits, OTP attempts,
+ * feedback and messages sent, each with who did it
+ */
+router.get('/orders/:id/events', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const { data, error } = await listOrderEvents(req.user!.id, req.params.id);
+
+    if (error) {
+      console.error('[Orders] Events fetch error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch order history' });
+    }
+
+    return res.json({ success: true, events: data || [] });
+  } catch (error) {
+    console.error('[Orders Events Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/orders
+ * Create an order, validated against the SME's order form
+ */
+router.post('/orders', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const result = await createOrder(req.user!.id, req.body || {});
+    if (!result.success) return sendFailure(res, result);
+
+    return res.status(201).json({ success: true, order: result.order });
+  } catch (error) {
+    console.error('[Orders POST Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/orders/:id
+ * Update some of an order's fields, status or rider
+ */
+router.patch('/orders/:id', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const result = await updateOrder(req.user!.id, req.params.id, req.body || {});
+    if (!result.success) return sendFailure(res, result);
+
+    return res.json({ success: true, order: result.order });
+  } catch (error) {
+    console.error('[Orders PATCH Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/orders/:id/cancel
+ * Cancel an order: { reason: customer_request | out_of_stock | customer_unreachable | fraud, notes? }
+ * Revokes the rider link and sends the customer the cancellation message
+ */
+router.post('/orders/:id/cancel', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const { reason, notes } = req.body || {};
+    const result = await cancelOrder(req.user!.id, req.params.id, { reason, notes });
+    if (!result.success) return sendFailure(res, result);
+
+    return res.json({ success: true, order: result.order });
+  } catch (error) {
+    console.error('[Orders Cancel Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/orders/:id
+ * Delete one of the SME's orders
+ */
+router.delete('/orders/:id', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const result = await deleteOrder(req.user!.id, req.params.id);
+    if (!result.success) return sendFailure(res, result);
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Orders DELETE Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -2,7 +2,10 @@ import { Router, Request, Response } from 'express';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 import crypto from 'crypto';
-import { sendWhatsAppWithRetry, getOrderStatusMessage } from '../services/whatsapp.js';
+import { composeOrderMessage } from '../services/templates.js';
+import { enqueueWhatsAppMessage } from '../services/messageQueue.js';
+import { transitionOrder } from '../services/orderStateMachine.js';
+import { recordOrderEvent } from '../services/orderEvents.js';
 import { createRateLimiter } from '../middleware/rateLimiter.js';
 
 dotenv.config({ path: './server/.env' });
@@ -48,7 +51,7 @@ router.post('/orders/:orderId/otp/generate', otpGenerateRateLimiter, async (req:
     // Fetch order to get customer phone
     const { data: order, error: orderError } = await supabase
       .from('orders')
-      .select('id, customer_phone')
+      .select('id, customer_name, customer_phone, delivery_address, price_total, readable_id, sme_id, form_data, preferred_language')
       .eq('id', orderId)
       .single();
 
@@ -82,12 +85,15 @@ router.post('/orders/:orderId/otp/generate', otpGenerateRateLimiter, async (req:
       return res.status(500).json({ success: false, error: 'Failed to create OTP' });
     }
 
-    // Send OTP via WhatsApp using existing service
-    const message = `Your delivery OTP is ${otp}. It expires in 5 minutes.`;
-    const sendResult = await sendWhatsAppWithRetry({ phone, message, orderId });
+    // Queue OTP ahead of regular notifications; it expires in 5 minutes, so don't retry for long
+    const { message, template } = await composeOrderMessage(order.sme_id, 'OTP', order, { otp });
+    const sendResult = await enqueueWhatsAppMessage(
+      { phone, message, template, orderId, smeId: order.sme_id },
+      { priority: 10, maxAttempts: 3 }
+    );
 
     if (!sendResult.success) {
-      console.warn('[OTP] WhatsApp send failed', sendResult.error);
+      console.warn('[OTP] WhatsApp enqueue failed', sendResult.error);
       // Still return success for OTP creation, but warn client
     }
 
@@ -111,6 +117,18 @@ router.post('/orders/:orderId/otp/verify', otpVerifyRateLimiter, async (req: Req
     if (!orderId) return res.status(400).json({ success: false, error: 'Order ID is required' });
     if (!otp) return res.status(400).json({ success: false, error: 'OTP is required' });
 
+    const { data: order } = await supabase
+      .from('orders')
+      .select('id, sme_id, status, rider_phone')
+      .eq('id', orderId)
+      .single();
+
+    if (!order) return res.status(404).json({ success: false, error: 'Order not found' });
+
+    // Only the rider is sent the verify form, so every attempt is recorded as theirs
+    const rider = { type: 'rider' as const, id: order.rider_phone };
+    const recordAttempt = (result: string) => recordOrderEvent(order, 'otp_attempt', rider, { result });
+
     // Fetch latest OTP record for order
     const { data: records, error: fetchError } = await supabase
       .from('orders_otp')
@@ -127,12 +145,16 @@ router.post('/orders/:orderId/otp/verify', otpVerifyRateLimiter, async (req: Req
     const record = Array.isArray(records) && records.length ? records[0] as any : null;
     if (!record) return res.status(404).json({ success: false, error: 'OTP not found for order' });
 
-    if (record.attempts >= 5) return res.status(429).json({ success: false, error: 'Too many attempts' });
+    if (record.attempts >= 5) {
+      await recordAttempt('too_many_attempts');
+      return res.status(429).json({ success: false, error: 'Too many attempts' });
+    }
 
     const now = new Date();
     const parsedExpires = new Date(record.expires_at);
     console.log('[OTP] expires_at raw:', record.expires_at, 'parsed:', parsedExpires.toISOString(), 'now:', now.toISOString());
     if (parsedExpires < now) {
+      await recordAttempt('expired');
       const debugPayload: any = { success: false, error: 'OTP expired' };
       if (process.env.NODE_ENV === 'development') {
         debugPayload.debug = {
@@ -152,41 +174,16 @@ router.post('/orders/:orderId/otp/verify', otpVerifyRateLimiter, async (req: Req
     if (!match) {
       // increment attempts
       await supabase.from('orders_otp').update({ attempts: (record.attempts || 0) + 1, updated_at: new Date().toISOString() }).eq('id', record.id);
+      await recordAttempt('invalid');
       return res.status(401).json({ success: false, error: 'Invalid OTP' });
     }
 
-    // OTP valid - mark order as COMPLETED
-    const { data: updatedOrder, error: updateOrderError } = await supabase
-      .from('orders')
-      .update({ status: 'COMPLETED', updated_at: new Date().toISOString() })
-      .eq('id', orderId)
-      .select('id, customer_phone, readable_id, sme_id, rider_token')
-      .single();
+    await recordAttempt('verified');
 
-    if (updateOrderError) {
-      console.error('[OTP] Failed to update order status', updateOrderError);
-      return res.status(500).json({ success: false, error: 'Failed to update order status' });
-    }
-
-    // Send confirmation WhatsApp message
-    if (updatedOrder && updatedOrder.customer_phone) {
-      try {
-        const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-        const csatUrl = updatedOrder.rider_token
-          ? `${frontendUrl}/csat/${updatedOrder.rider_token}`
-          : undefined;
-
-        const message = getOrderStatusMessage('COMPLETED', updatedOrder.readable_id, csatUrl);
-        await sendWhatsAppWithRetry({
-          phone: updatedOrder.customer_phone,
-          message,
-          orderId: updatedOrder.id,
-          smeId: updatedOrder.sme_id
-        });
-      } catch (waError) {
-        console.warn('[OTP] Failed to send completion WhatsApp', waError);
-        // Don't fail the request as main action succeeded
-      }
+    // OTP valid - mark order as COMPLETED (the state machine sends the confirmation)
+    const transition = await transitionOrder(order, 'COMPLETED', { otpVerified: true, actor: rider });
+    if (!transition.success) {
+      return res.status(transition.statusCode || 500).json({ success: false, error: transition.error, code: transition.code });
     }
 
     // Invalidate OTP record
@@ -0,0 +1,104 @@
+import { Router, Request, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { createRateLimiter } from '../middleware/rateLimiter.js';
+import { TERMINAL_STATUSES, isTerminalStatus } from '../shared/orderStatus.js';
+
+dotenv.config({ path: './server/.env' });
+
+const router = Router();
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for rider links: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+// What the rider app shows: the delivery, not the SME's notes or the customer's history
+const RIDER_ORDER_COLUMNS = 'id, readable_id, status, customer_name, customer_phone, delivery_address, price_total';
+
+const riderLocationRateLimiter = createRateLimiter({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60, // GPS watchers report about once a second at most
+  keyGenerator: (req) => `rider-location:${req.params.token}`,
+});
+
+// The rider link carries rider_token, which is replaced on reassignment and cleared on cancellation
+async function findOrderByRiderToken(token: string) {
+  const { data } = await supabase
+    .from('orders')
+    .select(RIDER_ORDER_COLUMNS)
+    .eq('rider_token', token)
+    .maybeSingle();
+  return data;
+}
+
+/**
+ * GET /api/rider/:token
+ * The delivery the rider link was issued for
+ */
+router.get('/rider/:token', async (req: Request, res: Response) => {
+  try {
+    const order = await findOrderByRiderToken(req.params.token);
+    if (!order) {
+      return res.status(404).json({ success: false, error: 'This delivery link is no longer valid' });
+    }
+
+    return res.json({ success: true, order });
+  } catch (error) {
+    console.error('[Rider GET Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/rider/:token/location
+ * Share the rider's position with the customer tracking page
+ * Rejected once the order is completed or cancelled
+ */
+router.post('/rider/:token/location', riderLocationRateLimiter, async (req: Request, res: Response) => {
+  try {
+    const { lat, lng } = req.body as { lat?: unknown; lng?: unknown };
+
+    if (typeof lat !== 'number' || typeof lng !== 'number' || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return res.status(400).json({ success: false, error: 'lat and lng must be coordinates' });
+    }
+
+    const order = await findOrderByRiderToken(req.params.token);
+    if (!order) {
+      return res.status(404).json({ success: false, error: 'This delivery link is no longer valid' });
+    }
+
+    if (isTerminalStatus(order.status)) {
+      return res.status(409).json({ success: false, code: 'ORDER_CLOSED', error: `Order is ${order.status}` });
+    }
+
+    // Guarded on the token and status too, so a cancel landing meanwhile is not undone
+    const { data: updated, error } = await supabase
+      .from('orders')
+      .update({ rider_lat: lat, rider_lng: lng, updated_at: new Date().toISOString() })
+      .eq('id', order.id)
+      .eq('rider_token', req.params.token)
+      .not('status', 'in', `(${TERMINAL_STATUSES.join(',')})`)
+      .select('id');
+
+    if (error) {
+      console.error('[Rider] Location update error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to save location' });
+    }
+
+    if (!updated || updated.length === 0) {
+      return res.status(409).json({ success: false, code: 'ORDER_CLOSED', error: 'Order is no longer out for delivery' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Rider Location Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router, Request, Response } from 'express';
+import { getSmeSettings, saveSmeSettings } from '../services/smeSettings.js';
+import { COUNTRIES, COUNTRY_CODES, isCountryCode } from '../shared/phone.js';
+import { orderIdPrefixError, orderIdFormatError } from '../shared/orderNumbers.js';
+import { authenticateUser } from '../middleware/auth.js';
+
+const router = Router();
+
+/**
+ * GET /api/settings
+ * The SME's settings and the countries phone numbers can come from
+ */
+router.get('/settings', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+
+    const settings = await getSmeSettings(smeId);
+
+    return res.json({
+      success: true,
+      settings,
+      countries: COUNTRY_CODES.map((code) => ({
+        code,
+        name: COUNTRIES[code].name,
+        dialCode: COUNTRIES[code].dialCode,
+      })),
+    });
+  } catch (error) {
+    console.error('[Settings GET Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/settings
+ * Update the SME's settings
+ * A new order ID prefix or format applies to orders created from then on; existing IDs keep theirs
+ */
+router.put('/settings', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { defaultCountry, orderIdPrefix, orderIdFormat } = req.body;
+
+    if (defaultCountry !== undefined && !isCountryCode(defaultCountry)) {
+      return res.status(400).json({
+        success: false,
+        error: `defaultCountry must be one of ${COUNTRY_CODES.join(', ')}`,
+      });
+    }
+
+    const prefix = typeof orderIdPrefix === 'string' ? orderIdPrefix.trim().toUpperCase() : orderIdPrefix;
+    const format = typeof orderIdFormat === 'string' ? orderIdFormat.trim() : orderIdFormat;
+
+    if (prefix !== undefined) {
+      const prefixError = typeof prefix === 'string' ? orderIdPrefixError(prefix) : 'orderIdPrefix must be a string';
+      if (prefixError) return res.status(400).json({ success: false, error: prefixError });
+    }
+
+    if (format !== undefined) {
+      const formatError = typeof format === 'string' ? orderIdFormatError(format) : 'orderIdFormat must be a string';
+      if (formatError) return res.status(400).json({ success: false, error: formatError });
+    }
+
+    const settings = await saveSmeSettings(smeId, {
+      ...(defaultCountry && { default_country: defaultCountry }),
+      ...(prefix && { order_id_prefix: prefix }),
+      ...(format && { order_id_format: format }),
+    });
+
+    return res.json({ success: true, settings });
+  } catch (error) {
+    console.error('[Settings PUT Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import { getSuppression, addSuppression, removeSuppression, listSuppressions } from '../services/consent.js';
+import { parsePhoneNumber } from '../shared/phone.js';
+import { getSmeSettings } from '../services/smeSettings.js';
+import { authenticateUser } from '../middleware/auth.js';
+
+const router = Router();
+
+/**
+ * GET /api/whatsapp/suppressions?phone=
+ * The SME's opted-out numbers, or the entry for one number
+ */
+router.get('/whatsapp/suppressions', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const phone = req.query.phone as string | undefined;
+
+    if (phone) {
+      const suppression = await getSuppression(smeId, phone);
+      return res.json({ success: true, suppressed: Boolean(suppression), suppression });
+    }
+
+    const { data, error } = await listSuppressions(smeId);
+    if (error) {
+      console.error('[Suppressions] Fetch error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch suppression list' });
+    }
+
+    return res.json({ success: true, suppressions: data || [] });
+  } catch (error) {
+    console.error('[Suppressions GET Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/whatsapp/suppressions
+ * Manually opt a customer out of (or back in to) WhatsApp messages
+ */
+router.put('/whatsapp/suppressions', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { phone, suppressed, reason } = req.body;
+
+    if (typeof suppressed !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'suppressed must be true or false' });
+    }
+
+    const { default_country: defaultCountry } = await getSmeSettings(smeId);
+    const parsed = parsePhoneNumber(String(phone || ''), defaultCountry);
+    if (!parsed.valid) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+
+    if (suppressed) {
+      const suppression = await addSuppression(smeId, parsed.e164, 'manual', typeof reason === 'string' ? reason : null);
+      return res.json({ success: true, suppressed: true, suppression });
+    }
+
+    await removeSuppression(smeId, parsed.e164);
+    return res.json({ success: true, suppressed: false, suppression: null });
+  } catch (error) {
+    console.error('[Suppressions PUT Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
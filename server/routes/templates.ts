@@ -0,0 +1,228 @@
+import { Router, Request, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  TEMPLATE_EVENTS,
+  RIDER_EVENTS,
+  SUPPORTED_LANGUAGES,
+  DEFAULT_LANGUAGE,
+  BASE_VARIABLES,
+  defaultTemplateFor,
+  isLanguage,
+  isTemplateEvent,
+  loadTemplateSet,
+  renderTemplate,
+  buildTemplateVariables,
+} from '../services/templates.js';
+import type { TemplateOrder } from '../services/templates.js';
+import { authenticateUser } from '../middleware/auth.js';
+
+dotenv.config({ path: './server/.env' });
+
+const router = Router();
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const MAX_TEMPLATE_LENGTH = 1600; // WhatsApp body limit
+
+// Used for the editor preview when the SME has no orders yet
+const SAMPLE_ORDER: TemplateOrder = {
+  readable_id: 'WOT-2026-00042',
+  customer_name: 'Chioma Okafor',
+  customer_phone: '+2348012345678',
+  delivery_address: '12 Admiralty Way, Lekki, Lagos',
+  price_total: 15000,
+  status: 'DISPATCHED',
+  tracking_token: 'sample-tracking-token',
+  rider_token: 'sample-rider-token',
+  rider_phone: '+2348098765432',
+  form_data: {},
+};
+
+/**
+ * form_data keys available as variables: the fields of the SME's active order form
+ */
+async function getFormFieldKeys(smeId: string): Promise<string[]> {
+  const { data: schema } = await supabase
+    .from('form_schemas')
+    .select('id')
+    .eq('sme_id', smeId)
+    .eq('is_active', true)
+    .limit(1)
+    .maybeSingle();
+
+  if (!schema) return [];
+
+  const { data: fields } = await supabase
+    .from('form_fields')
+    .select('field_key')
+    .eq('schema_id', schema.id)
+    .order('field_order', { ascending: true });
+
+  return (fields || []).map((f) => f.field_key).filter((key) => !BASE_VARIABLES.includes(key));
+}
+
+/**
+ * GET /api/templates?language=en
+ * Every event's template (SME override or default) and the variables available
+ */
+router.get('/templates', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const language = (req.query.language as string) || DEFAULT_LANGUAGE;
+
+    if (!isLanguage(language)) {
+      return res.status(400).json({ success: false, error: 'Unsupported language' });
+    }
+
+    const [templates, formKeys] = await Promise.all([
+      loadTemplateSet(smeId, language),
+      getFormFieldKeys(smeId),
+    ]);
+
+    return res.json({
+      success: true,
+      language,
+      languages: SUPPORTED_LANGUAGES,
+      // Rider messages always go out in English
+      templates: TEMPLATE_EVENTS.filter(
+        (event) => language === DEFAULT_LANGUAGE || !RIDER_EVENTS.includes(event)
+      ).map((event) => ({
+        event,
+        body: templates[event],
+        defaultBody: defaultTemplateFor(event, language),
+        isCustom: templates[event] !== defaultTemplateFor(event, language),
+      })),
+      variables: [...BASE_VARIABLES, ...formKeys],
+    });
+  } catch (error) {
+    console.error('[Templates GET Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/templates/:event
+ * Save the SME's text for an event
+ */
+router.put('/templates/:event', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { event } = req.params;
+    const { body, language = DEFAULT_LANGUAGE } = req.body;
+
+    if (!isTemplateEvent(event)) {
+      return res.status(400).json({ success: false, error: 'Unknown template event' });
+    }
+
+    if (!isLanguage(language)) {
+      return res.status(400).json({ success: false, error: 'Unsupported language' });
+    }
+
+    if (typeof body !== 'string' || !body.trim()) {
+      return res.status(400).json({ success: false, error: 'Template body is required' });
+    }
+
+    if (body.length > MAX_TEMPLATE_LENGTH) {
+      return res.status(400).json({ success: false, error: `Template must be at most ${MAX_TEMPLATE_LENGTH} characters` });
+    }
+
+    const { data: template, error } = await supabase
+      .from('message_templates')
+      .upsert(
+        [{ sme_id: smeId, event, language, body, updated_at: new Date().toISOString() }],
+        { onConflict: 'sme_id,event,language' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Templates] Upsert error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to save template' });
+    }
+
+    return res.json({ success: true, template });
+  } catch (error) {
+    console.error('[Templates PUT Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/templates/:event?language=en
+ * Reset an event to the default text
+ */
+router.delete('/templates/:event', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { event } = req.params;
+    const language = (req.query.language as string) || DEFAULT_LANGUAGE;
+
+    const { error } = await supabase
+      .from('message_templates')
+      .delete()
+      .eq('sme_id', smeId)
+      .eq('event', event)
+      .eq('language', language);
+
+    if (error) {
+      console.error('[Templates] Delete error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to reset template' });
+    }
+
+    return res.json({
+      success: true,
+      body: isTemplateEvent(event) && isLanguage(language) ? defaultTemplateFor(event, language) : null,
+    });
+  } catch (error) {
+    console.error('[Templates DELETE Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/templates/preview
+ * Render a draft template against one of the SME's orders (latest by default) or a sample order
+ */
+router.post('/templates/preview', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { body, orderId } = req.body;
+
+    if (typeof body !== 'string') {
+      return res.status(400).json({ success: false, error: 'Template body is required' });
+    }
+
+    let query = supabase
+      .from('orders')
+      .select('readable_id, customer_name, customer_phone, delivery_address, price_total, status, tracking_token, rider_token, rider_phone, form_data')
+      .eq('sme_id', smeId);
+    query = orderId
+      ? query.eq('id', orderId)
+      : query.order('created_at', { ascending: false });
+
+    const { data: orders } = await query.limit(1);
+    const order = orders && orders.length > 0 ? orders[0] : null;
+    const previewOrder: TemplateOrder = order
+      ? { ...order, rider_token: order.rider_token || SAMPLE_ORDER.rider_token }
+      : SAMPLE_ORDER;
+
+    return res.json({
+      success: true,
+      preview: renderTemplate(body, buildTemplateVariables(previewOrder)),
+      sampleOrder: previewOrder.readable_id,
+    });
+  } catch (error) {
+    console.error('[Templates Preview Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,93 @@
+import { Router, Request, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { listPublicOrderEvents, recordOrderEvent } from '../services/orderEvents.js';
+import { createRateLimiter } from '../middleware/rateLimiter.js';
+
+dotenv.config({ path: './server/.env' });
+
+const router = Router();
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for tracking: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const MAX_CSAT_COMMENT_LENGTH = 1000;
+
+const csatRateLimiter = createRateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Max 10 feedback submissions per 15 minutes per IP
+});
+
+// The tracking and feedback links carry the customer's tracking token, never the rider's
+async function findOrderByToken(token: string) {
+  const { data } = await supabase
+    .from('orders')
+    .select('id, sme_id, customer_phone')
+    .eq('tracking_token', token)
+    .maybeSingle();
+  return data;
+}
+
+/**
+ * GET /api/track/:token/events
+ * The order's progress for the customer tracking page: placed, each status and rider assignment
+ */
+router.get('/track/:token/events', async (req: Request, res: Response) => {
+  try {
+    const order = await findOrderByToken(req.params.token);
+    if (!order) {
+      return res.status(404).json({ success: false, error: 'Order not found' });
+    }
+
+    return res.json({ success: true, events: await listPublicOrderEvents(order.id) });
+  } catch (error) {
+    console.error('[Tracking Events Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/track/:token/csat
+ * Record the customer's feedback (score 1-5 and an optional comment)
+ */
+router.post('/track/:token/csat', csatRateLimiter, async (req: Request, res: Response) => {
+  try {
+    const { score, comment } = req.body as { score?: number; comment?: string };
+
+    if (!Number.isInteger(score) || score! < 1 || score! > 5) {
+      return res.status(400).json({ success: false, error: 'Score must be a whole number from 1 to 5' });
+    }
+
+    const text = typeof comment === 'string' ? comment.trim().slice(0, MAX_CSAT_COMMENT_LENGTH) : '';
+
+    const order = await findOrderByToken(req.params.token);
+    if (!order) {
+      return res.status(404).json({ success: false, error: 'Order not found' });
+    }
+
+    const { error } = await supabase
+      .from('orders')
+      .update({ csat_score: score, csat_comment: text || null, updated_at: new Date().toISOString() })
+      .eq('id', order.id);
+
+    if (error) {
+      console.error('[Tracking] CSAT update error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to save feedback' });
+    }
+
+    await recordOrderEvent(order, 'csat_submitted', { type: 'customer', id: order.customer_phone }, { score, comment: text || null });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Tracking CSAT Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
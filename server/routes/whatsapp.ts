@@ -1,7 +1,22 @@
 import { Router, Request, Response } from 'express';
-import { sendWhatsAppWithRetry } from '../services/whatsapp.js';
+import { enqueueWhatsAppMessage, listQueuedMessages, retryDeadLetter } from '../services/messageQueue.js';
+import type { OutboxRow } from '../services/messageQueue.js';
+import {
+  parseTwilioInbound,
+  parseEvolutionInbound,
+  findSmeByInstance,
+  recordInboundMessage,
+} from '../services/inbound.js';
+import { handleSelfServiceCommand } from '../services/selfService.js';
+import { handleConsentKeyword } from '../services/consent.js';
+import { applyStatusCallback } from '../services/deliveryStatus.js';
+import { parseEvolutionConnectionEvent, handleInstanceConnectionEvent } from '../services/pairing.js';
+import { recordWebhookEvent, inboundWebhookEvent, findSmeByMessageSid } from '../services/webhookEvents.js';
+import { verifyTwilioSignature } from '../middleware/twilioSignature.js';
+import { verifyEvolutionWebhook } from '../middleware/evolutionWebhook.js';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
+import { authenticateUser } from '../middleware/auth.js';
 dotenv.config({ path: './server/.env' });
 
 const router = Router();
@@ -22,15 +37,17 @@ interface SendWhatsAppRequest {
   phone: string;
   message: string;
   orderId: string;
+  mediaUrl?: string;
+  smeId?: string;
 }
 
 /**
  * POST /api/send-whatsapp
- * Send a WhatsApp message to customer/rider
+ * Queue a WhatsApp message to customer/rider; the outbox worker delivers it
  */
 router.post('/send-whatsapp', async (req: Request, res: Response) => {
   try {
-    const { phone, message, orderId } = req.body as SendWhatsAppRequest;
+    const { phone, message, orderId, mediaUrl, smeId } = req.body as SendWhatsAppRequest;
 
     // Validate required fields
     if (!phone || !message || !orderId) {
@@ -40,38 +57,18 @@ router.post('/send-whatsapp', async (req: Request, res: Response) => {
       });
     }
 
-    // Send WhatsApp message with retry logic
-    const result = await sendWhatsAppWithRetry({
-      phone,
-      message,
-      orderId,
-    });
+    // Each attempt is recorded in whatsapp_logs by the worker
+    const result = await enqueueWhatsAppMessage({ phone, message, orderId, mediaUrl, smeId });
 
     if (!result.success) {
       return res.status(500).json(result);
     }
 
-    // Log the message send to database for audit trail
-    try {
-      await supabase.from('whatsapp_logs').insert([
-        {
-          order_id: orderId,
-          recipient_phone: phone,
-          message_body: message,
-          twilio_sid: result.messageSid,
-          status: 'sent',
-          created_at: new Date().toISOString(),
-        },
-      ]);
-    } catch (dbError) {
-      console.warn('[WhatsApp] Failed to log message to database:', dbError);
-      // Don't fail the response, just warn
-    }
-
-    res.json({
+    res.status(202).json({
       success: true,
-      messageSid: result.messageSid,
-      message: 'WhatsApp message sent successfully',
+      queued: true,
+      outboxId: result.outboxId,
+      message: 'WhatsApp message queued',
     });
   } catch (error) {
     const errorMessage =
@@ -129,31 +126,103 @@ router.get('/whatsapp-logs/:orderId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/whatsapp/outbox
+ * List the SME's queued messages by status (defaults to dead-lettered)
+ */
+router.get('/whatsapp/outbox', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const status = (req.query.status as string) || 'dead';
+
+    if (!['pending', 'processing', 'sent', 'dead', 'skipped'].includes(status)) {
+      return res.status(400).json({ success: false, error: 'Invalid status' });
+    }
+
+    const { data, error } = await listQueuedMessages(smeId, status as OutboxRow['status']);
+
+    if (error) {
+      console.error('[WhatsApp Outbox] Fetch error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch outbox' });
+    }
+
+    res.json({ success: true, messages: data || [] });
+  } catch (error) {
+    console.error('[WhatsApp Outbox Error]', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/whatsapp/outbox/:id/retry
+ * Re-drive a dead-lettered message
+ */
+router.post('/whatsapp/outbox/:id/retry', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.user!.id;
+    const { id } = req.params;
+
+    const { data, error } = await retryDeadLetter(id, smeId);
+
+    if (error) {
+      console.error('[WhatsApp Outbox] Retry error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to retry message' });
+    }
+
+    if (!data) {
+      return res.status(404).json({ success: false, error: 'Dead-lettered message not found' });
+    }
+
+    res.json({ success: true, message: 'Message re-queued' });
+  } catch (error) {
+    console.error('[WhatsApp Outbox Retry Error]', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 /**
  * POST /api/whatsapp/webhook
- * Twilio webhook for message delivery status updates
+ * Twilio webhook for inbound customer messages and delivery status updates
+ * Requests must carry a valid X-Twilio-Signature
  */
-router.post('/whatsapp/webhook', async (req: Request, res: Response) => {
+router.post('/whatsapp/webhook', verifyTwilioSignature, async (req: Request, res: Response) => {
   try {
-    const { MessageSid, MessageStatus, To } = req.body;
+    // Customer replies arrive on the same URL as status callbacks
+    const inbound = parseTwilioInbound(req.body);
+    if (inbound) {
+      const record = await recordInboundMessage(inbound);
+      await recordWebhookEvent(inboundWebhookEvent(inbound, record));
+      if (record && !(await handleConsentKeyword(record))) await handleSelfServiceCommand(record);
+      return res.json({ success: true });
+    }
 
-    console.log(
-      `[WhatsApp Webhook] ${MessageSid} status: ${MessageStatus} to ${To}`
-    );
+    const { MessageSid, MessageStatus, To, ErrorCode, ErrorMessage } = req.body;
 
-    // Update the log with delivery status
-    if (MessageSid) {
-      const { error } = await supabase
-        .from('whatsapp_logs')
-        .update({
+    // Update the log with delivery status; stale and duplicate callbacks are ignored
+    if (MessageSid && MessageStatus) {
+      const result = await applyStatusCallback({
+        messageSid: MessageSid,
+        status: MessageStatus,
+        errorCode: ErrorCode,
+        errorMessage: ErrorMessage,
+      });
+      console.log(
+        `[WhatsApp Webhook] ${MessageSid} status: ${MessageStatus} to ${To} (${result})`
+      );
+      await recordWebhookEvent({
+        smeId: await findSmeByMessageSid(MessageSid),
+        provider: 'twilio',
+        kind: 'status',
+        summary: `${MessageSid} ${MessageStatus}${ErrorCode ? ` (error ${ErrorCode})` : ''}`,
+        result,
+        details: {
+          messageSid: MessageSid,
           status: MessageStatus,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('twilio_sid', MessageSid);
-
-      if (error) {
-        console.error('[WhatsApp Webhook] Failed to update status:', error);
-      }
+          to: To || null,
+          errorCode: ErrorCode || null,
+          errorMessage: ErrorMessage || null,
+        },
+      });
     }
 
     // Acknowledge receipt to Twilio
@@ -164,4 +233,43 @@ router.post('/whatsapp/webhook', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/whatsapp/webhook/evolution
+ * Evolution API instance webhook: inbound customer messages (messages.upsert)
+ * and pairing/connection changes (qrcode.updated, connection.update)
+ * Must carry the instance's API key (verifyEvolutionWebhook)
+ */
+router.post('/whatsapp/webhook/evolution', verifyEvolutionWebhook, async (req: Request, res: Response) => {
+  try {
+    const connectionEvent = parseEvolutionConnectionEvent(req.body);
+    if (connectionEvent) {
+      await handleInstanceConnectionEvent(connectionEvent.instanceKey, connectionEvent.status);
+      await recordWebhookEvent({
+        smeId: await findSmeByInstance(connectionEvent.instanceKey),
+        provider: 'evolution',
+        kind: 'connection',
+        summary: `Instance ${connectionEvent.instanceKey}: ${connectionEvent.status.state}`,
+        result: connectionEvent.status.detail,
+        details: { event: req.body.event, instance: connectionEvent.instanceKey, state: connectionEvent.status.state },
+      });
+      return res.json({ success: true });
+    }
+
+    const inbound = parseEvolutionInbound(req.body);
+    if (inbound) {
+      if (req.body.instance) {
+        inbound.smeId = (await findSmeByInstance(req.body.instance)) || undefined;
+      }
+      const record = await recordInboundMessage(inbound);
+      await recordWebhookEvent(inboundWebhookEvent(inbound, record));
+      if (record && !(await handleConsentKeyword(record))) await handleSelfServiceCommand(record);
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Evolution Webhook Error]', error);
+    res.status(500).json({ success: false, error: 'Webhook processing failed' });
+  }
+});
+
 export default router;
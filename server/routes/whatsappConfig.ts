@@ -1,6 +1,17 @@
 import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
+import { sealProviderConfig, openProviderConfig, maskProviderConfig, SECRET_FIELDS } from '../services/credentials.js';
+import type { StoredCredentials } from '../services/credentials.js';
+import { verifySmeConfig } from '../services/configVerification.js';
+import { beginPairing, refreshPairing } from '../services/pairing.js';
+import { sendWhatsAppMessage } from '../services/whatsapp.js';
+import { getSmeSettings, saveSmeSettings } from '../services/smeSettings.js';
+import { getProviderHealth } from '../services/providerHealth.js';
+import { listWebhookEvents } from '../services/webhookEvents.js';
+import { createRateLimiter } from '../middleware/rateLimiter.js';
+import { parsePhoneNumber } from '../shared/phone.js';
 
 dotenv.config({ path: './server/.env' });
 
@@ -15,9 +26,158 @@ if (!supabaseUrl || !supabaseServiceRoleKey) {
 
 const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
 
+const testMessageRateLimiter = createRateLimiter({
+  windowMs: 10 * 60 * 1000, // 10 minutes
+  max: 5, // Max 5 test messages per 10 minutes per SME
+  keyGenerator: (req) => `test-message:${req.headers['x-sme-id'] || req.ip}`,
+});
+
+const DEFAULT_TEST_MESSAGE = 'Test message from your WhatsApp setup. If you can read this, sending works.';
+
+const CONFIG_COLUMNS = 'id, sme_id, provider, purpose, label, is_connected, instance_id, connected_at, last_verified_at, verification_error, pairing_state, disconnected_at, provider_config, wrapped_data_key, key_version';
+
+const SENDER_PURPOSES = ['customer', 'rider', 'branch'];
+
+// Customer line first, then the rider line, then branches by name
+const PURPOSE_ORDER: Record<string, number> = { customer: 0, rider: 1, branch: 2 };
+
+type StoredConfigRow = StoredCredentials & {
+  id: string;
+  sme_id: string;
+  provider: string;
+  purpose: string;
+  label: string;
+  is_connected: boolean;
+  instance_id: string | null;
+  connected_at: string | null;
+  last_verified_at: string | null;
+  verification_error: string | null;
+  pairing_state: string | null;
+  disconnected_at: string | null;
+};
+
+/**
+ * Id of the SME's config for this sender slot: the existing row's, or a new one
+ * Credentials are sealed against the row id, so it has to be known before the upsert
+ */
+async function senderConfigId(smeId: string, purpose: string, label: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('whatsapp_configs')
+    .select('id')
+    .eq('sme_id', smeId)
+    .eq('purpose', purpose)
+    .eq('label', label)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id ?? crypto.randomUUID();
+}
+
+/**
+ * Config as returned to the browser: credentials masked, encryption columns left out
+ */
+function toPublicConfig(row: StoredConfigRow | null) {
+  if (!row) return null;
+  const {
+    id,
+    sme_id,
+    provider,
+    purpose,
+    label,
+    is_connected,
+    instance_id,
+    connected_at,
+    last_verified_at,
+    verification_error,
+    pairing_state,
+    disconnected_at,
+  } = row;
+  const providerConfig = row.provider_config || {};
+
+  let credentials;
+  try {
+    credentials = maskProviderConfig(openProviderConfig(row));
+  } catch (error) {
+    // Unreadable under the configured master keys: show that something is stored, nothing more
+    console.error('[WhatsApp Config] Cannot decrypt credentials:', error instanceof Error ? error.message : error);
+    credentials = Object.fromEntries(
+      Object.keys(providerConfig).map((field) => [field, SECRET_FIELDS.includes(field) ? '••••' : providerConfig[field]])
+    );
+  }
+
+  return {
+    id,
+    sme_id,
+    provider,
+    purpose,
+    label,
+    is_connected,
+    instance_id,
+    connected_at,
+    last_verified_at,
+    verification_error,
+    pairing_state,
+    disconnected_at,
+    credentials,
+  };
+}
+
+async function fetchPublicConfig(smeId: string, configId: string) {
+  const { data: config } = await supabase
+    .from('whatsapp_configs')
+    .select(CONFIG_COLUMNS)
+    .eq('id', configId)
+    .eq('sme_id', smeId)
+    .maybeSingle();
+
+  return toPublicConfig(config);
+}
+
+/**
+ * Purpose and label of a number being saved: branch numbers need a branch name,
+ * the customer and rider lines are one each and have none
+ */
+function parseSender(body: { purpose?: unknown; label?: unknown }): { purpose?: string; label?: string; error?: string } {
+  const purpose = body.purpose === undefined ? 'customer' : body.purpose;
+  if (typeof purpose !== 'string' || !SENDER_PURPOSES.includes(purpose)) {
+    return { error: `purpose must be one of ${SENDER_PURPOSES.join(', ')}` };
+  }
+
+  if (purpose !== 'branch') return { purpose, label: '' };
+
+  const label = typeof body.label === 'string' ? body.label.trim() : '';
+  if (!label || label.length > 60) {
+    return { error: 'Branch numbers need a branch name of at most 60 characters' };
+  }
+  return { purpose, label };
+}
+
+/**
+ * Verify a just-saved config and build the response: connected on success,
+ * 422 with the provider's reason (and the saved, disconnected config) otherwise
+ */
+async function respondWithVerification(res: Response, smeId: string, configId: string, successMessage: string) {
+  const health = await verifySmeConfig(smeId, configId, 'connect');
+  const config = await fetchPublicConfig(smeId, configId);
+
+  if (!health.ok) {
+    return res.status(422).json({
+      success: false,
+      error: `Could not verify credentials: ${health.detail || 'provider rejected them'}`,
+      config,
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: successMessage,
+    config,
+  });
+}
+
 /**
  * GET /api/whatsapp/config
- * Fetch current WhatsApp config for SME
+ * Fetch the SME's WhatsApp numbers and its HELP support contact
  */
 router.get('/whatsapp/config', async (req: Request, res: Response) => {
   try {
@@ -27,21 +187,24 @@ router.get('/whatsapp/config', async (req: Request, res: Response) => {
       return res.status(401).json({ success: false, error: 'SME ID not provided' });
     }
 
-    const { data: config, error } = await supabase
-      .from('whatsapp_configs')
-      .select('id, sme_id, provider, is_connected, instance_id, connected_at')
-      .eq('sme_id', smeId)
-      .single();
+    const [{ data: configs, error }, settings] = await Promise.all([
+      supabase.from('whatsapp_configs').select(CONFIG_COLUMNS).eq('sme_id', smeId),
+      getSmeSettings(smeId),
+    ]);
 
-    if (error && error.code !== 'PGRST116') {
-      // PGRST116 = not found (expected if no config yet)
+    if (error) {
       console.error('[WhatsApp Config] Fetch error:', error);
       return res.status(500).json({ success: false, error: 'Failed to fetch config' });
     }
 
+    const sorted = ((configs || []) as StoredConfigRow[]).sort(
+      (a, b) => PURPOSE_ORDER[a.purpose] - PURPOSE_ORDER[b.purpose] || a.label.localeCompare(b.label)
+    );
+
     return res.json({
       success: true,
-      config: config || null,
+      configs: sorted.map(toPublicConfig),
+      supportContact: settings.support_contact,
     });
   } catch (error) {
     console.error('[WhatsApp Config GET Error]', error);
@@ -51,7 +214,7 @@ router.get('/whatsapp/config', async (req: Request, res: Response) => {
 
 /**
  * POST /api/whatsapp/config/twilio
- * Set up Twilio as WhatsApp provider
+ * Set up a Twilio number; saving again for the same purpose (and branch) replaces it
  */
 router.post('/whatsapp/config/twilio', async (req: Request, res: Response) => {
   try {
@@ -62,6 +225,11 @@ router.post('/whatsapp/config/twilio', async (req: Request, res: Response) => {
       return res.status(401).json({ success: false, error: 'SME ID not provided' });
     }
 
+    const sender = parseSender(req.body);
+    if (sender.error) {
+      return res.status(400).json({ success: false, error: sender.error });
+    }
+
     if (!accountSid || !authToken || !twilioPhoneNumber) {
       return res.status(400).json({
         success: false,
@@ -70,26 +238,32 @@ router.post('/whatsapp/config/twilio', async (req: Request, res: Response) => {
     }
 
     // Upsert config
-    const { data: config, error } = await supabase
+    const configId = await senderConfigId(smeId, sender.purpose, sender.label);
+    const { data: saved, error } = await supabase
       .from('whatsapp_configs')
       .upsert(
         [
           {
+            id: configId,
             sme_id: smeId,
+            purpose: sender.purpose,
+            label: sender.label,
             provider: 'twilio',
-            provider_config: {
+            ...sealProviderConfig({ id: configId, sme_id: smeId }, {
               accountSid,
               authToken,
               twilioPhoneNumber,
-            },
-            is_connected: true,
-            connected_at: new Date().toISOString(),
+            }),
+            is_connected: false, // Until the credentials are verified below
+            pairing_state: null, // Replacing an instance number
+            pairing_qr: null,
+            disconnected_at: null,
             instance_id: twilioPhoneNumber,
           },
         ],
-        { onConflict: 'sme_id' }
+        { onConflict: 'sme_id,purpose,label' }
       )
-      .select()
+      .select('id')
       .single();
 
     if (error) {
@@ -97,11 +271,7 @@ router.post('/whatsapp/config/twilio', async (req: Request, res: Response) => {
       return res.status(500).json({ success: false, error: 'Failed to save config' });
     }
 
-    return res.json({
-      success: true,
-      message: 'Twilio WhatsApp configured successfully',
-      config,
-    });
+    return respondWithVerification(res, smeId, saved.id, 'Twilio WhatsApp configured successfully');
   } catch (error) {
     console.error('[WhatsApp Twilio POST Error]', error);
     return res.status(500).json({ success: false, error: 'Internal server error' });
@@ -110,13 +280,14 @@ router.post('/whatsapp/config/twilio', async (req: Request, res: Response) => {
 
 /**
  * POST /api/whatsapp/config/instance
- * Set up Baileys/Evolution instance-based WhatsApp
- * In production, this would integrate with actual Baileys/Evolution API
+ * Set up a Baileys/Evolution instance-based number and start QR pairing
+ * apiUrl/apiKey are optional; when omitted the platform gateway from env is used
+ * The config stays disconnected until a phone scans the QR code
  */
 router.post('/whatsapp/config/instance', async (req: Request, res: Response) => {
   try {
     const smeId = req.headers['x-sme-id'] as string;
-    const { provider, instanceKey, phoneNumber } = req.body;
+    const { provider, instanceKey, phoneNumber, apiUrl, apiKey } = req.body;
 
     if (!smeId) {
       return res.status(401).json({ success: false, error: 'SME ID not provided' });
@@ -130,28 +301,37 @@ router.post('/whatsapp/config/instance', async (req: Request, res: Response) =>
       return res.status(400).json({ success: false, error: 'instanceKey and phoneNumber are required' });
     }
 
-    // TODO: Validate instance with actual Baileys/Evolution API
-    // For now, store the configuration
-    const { data: config, error } = await supabase
+    const sender = parseSender(req.body);
+    if (sender.error) {
+      return res.status(400).json({ success: false, error: sender.error });
+    }
+
+    const configId = await senderConfigId(smeId, sender.purpose, sender.label);
+    const { data: saved, error } = await supabase
       .from('whatsapp_configs')
       .upsert(
         [
           {
+            id: configId,
             sme_id: smeId,
+            purpose: sender.purpose,
+            label: sender.label,
             provider,
-            provider_config: {
+            ...sealProviderConfig({ id: configId, sme_id: smeId }, {
               instanceKey,
               phoneNumber,
-              // Additional fields for Baileys/Evolution can be added
-            },
-            is_connected: true,
-            connected_at: new Date().toISOString(),
+              ...(apiUrl && { apiUrl }),
+              ...(apiKey && { apiKey }),
+            }),
+            is_connected: false, // Until pairing completes
+            pairing_state: 'disconnected', // A new instance has no linked phone yet
+            disconnected_at: null,
             instance_id: phoneNumber,
           },
         ],
-        { onConflict: 'sme_id' }
+        { onConflict: 'sme_id,purpose,label' }
       )
-      .select()
+      .select('id')
       .single();
 
     if (error) {
@@ -159,10 +339,16 @@ router.post('/whatsapp/config/instance', async (req: Request, res: Response) =>
       return res.status(500).json({ success: false, error: 'Failed to save config' });
     }
 
+    const result = await beginPairing(smeId, saved.id);
+    if (!result.success) {
+      return res.status(result.statusCode || 500).json({ success: false, error: result.error });
+    }
+
     return res.json({
       success: true,
-      message: `${provider} WhatsApp instance configured successfully`,
-      config,
+      message: `${provider} instance saved; scan the QR code to finish connecting`,
+      config: await fetchPublicConfig(smeId, saved.id),
+      pairing: result.pairing,
     });
   } catch (error) {
     console.error('[WhatsApp Instance POST Error]', error);
@@ -170,38 +356,203 @@ router.post('/whatsapp/config/instance', async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * POST /api/whatsapp/config/verify
+ * Re-check the saved credentials now, e.g. after fixing them at the provider
+ */
+router.post('/whatsapp/config/verify', async (req: Request, res: Response) => {
+  try {
+    const smeId = req.headers['x-sme-id'] as string;
+    const { configId } = req.body;
+
+    if (!smeId) {
+      return res.status(401).json({ success: false, error: 'SME ID not provided' });
+    }
+
+    if (!configId) {
+      return res.status(400).json({ success: false, error: 'configId is required' });
+    }
+
+    return respondWithVerification(res, smeId, configId, 'Credentials verified');
+  } catch (error) {
+    console.error('[WhatsApp Verify Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 /**
  * POST /api/whatsapp/config/instance/qr
- * Request QR code for Baileys/Evolution connection
- * (Placeholder: actual implementation depends on chosen library)
+ * Start pairing again with a fresh QR code, e.g. after the last one expired
  */
 router.post('/whatsapp/config/instance/qr', async (req: Request, res: Response) => {
   try {
     const smeId = req.headers['x-sme-id'] as string;
+    const { configId } = req.body;
 
     if (!smeId) {
       return res.status(401).json({ success: false, error: 'SME ID not provided' });
     }
 
-    // TODO: Implement actual QR code generation with Baileys/Evolution
-    // For now, return a placeholder response
+    if (!configId) {
+      return res.status(400).json({ success: false, error: 'configId is required' });
+    }
+
+    const result = await beginPairing(smeId, configId);
+    if (!result.success) {
+      return res.status(result.statusCode || 500).json({ success: false, error: result.error });
+    }
+
+    return res.json({ success: true, pairing: result.pairing, config: await fetchPublicConfig(smeId, configId) });
+  } catch (error) {
+    console.error('[WhatsApp QR Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/whatsapp/config/instance/pairing
+ * Current pairing state and QR code, checked with the provider; polled by the connect page
+ */
+router.get('/whatsapp/config/instance/pairing', async (req: Request, res: Response) => {
+  try {
+    const smeId = req.headers['x-sme-id'] as string;
+    const configId = req.query.configId as string;
+
+    if (!smeId) {
+      return res.status(401).json({ success: false, error: 'SME ID not provided' });
+    }
+
+    if (!configId) {
+      return res.status(400).json({ success: false, error: 'configId is required' });
+    }
+
+    const result = await refreshPairing(smeId, configId);
+    if (!result.success) {
+      return res.status(result.statusCode || 500).json({ success: false, error: result.error });
+    }
+
+    return res.json({ success: true, pairing: result.pairing, config: await fetchPublicConfig(smeId, configId) });
+  } catch (error) {
+    console.error('[WhatsApp Pairing Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/whatsapp/config/support-contact
+ * Contact details sent to customers who reply HELP
+ */
+router.put('/whatsapp/config/support-contact', async (req: Request, res: Response) => {
+  try {
+    const smeId = req.headers['x-sme-id'] as string;
+    const { supportContact } = req.body;
+
+    if (!smeId) {
+      return res.status(401).json({ success: false, error: 'SME ID not provided' });
+    }
+
+    if (typeof supportContact !== 'string' || supportContact.length > 500) {
+      return res.status(400).json({ success: false, error: 'supportContact must be text of at most 500 characters' });
+    }
+
+    // Kept in sme_settings: one contact for the business, whichever number the customer replied to
+    const settings = await saveSmeSettings(smeId, { support_contact: supportContact.trim() || null });
+
+    return res.json({ success: true, supportContact: settings.support_contact });
+  } catch (error) {
+    console.error('[WhatsApp Support Contact Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/whatsapp/config/test-message
+ * Send a one-off message from one of the SME's numbers (its customer line by default)
+ * and report what the provider returned
+ */
+router.post('/whatsapp/config/test-message', testMessageRateLimiter, async (req: Request, res: Response) => {
+  try {
+    const smeId = req.headers['x-sme-id'] as string;
+    const { phone, message, configId } = req.body;
+
+    if (!smeId) {
+      return res.status(401).json({ success: false, error: 'SME ID not provided' });
+    }
+
+    if (configId) {
+      const config = await fetchPublicConfig(smeId, configId);
+      if (!config) {
+        return res.status(404).json({ success: false, error: 'WhatsApp number not found' });
+      }
+      if (!config.is_connected) {
+        return res.status(400).json({ success: false, error: 'That number is not connected yet' });
+      }
+    }
+
+    if (message !== undefined && (typeof message !== 'string' || message.length > 1000)) {
+      return res.status(400).json({ success: false, error: 'message must be text of at most 1000 characters' });
+    }
+
+    const { default_country } = await getSmeSettings(smeId);
+    const parsedPhone = parsePhoneNumber(typeof phone === 'string' ? phone : '', default_country);
+    if (!parsedPhone.valid) {
+      return res.status(400).json({ success: false, error: parsedPhone.error });
+    }
+
+    // Sent directly rather than through the outbox so the provider's answer comes back here
+    const result = await sendWhatsAppMessage({
+      phone: parsedPhone.e164,
+      message: message?.trim() || DEFAULT_TEST_MESSAGE,
+      orderId: 'test-message',
+      smeId,
+      senderConfigId: configId || undefined,
+    });
+
+    console.log(
+      `[WhatsApp Test Message] ${smeId} to ${parsedPhone.e164}: ${result.success ? `sent ${result.messageSid}` : result.error}`
+    );
+
     return res.json({
       success: true,
-      message: 'QR code generation not yet implemented',
-      qrCode: null,
-      sessionId: `session_${Date.now()}`, // Placeholder
+      result: {
+        sent: result.success,
+        phone: parsedPhone.e164,
+        provider: result.provider || null,
+        from: result.from || null,
+        messageSid: result.messageSid || null,
+        error: result.error || null,
+      },
     });
   } catch (error) {
-    console.error('[WhatsApp QR Error]', error);
+    console.error('[WhatsApp Test Message Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/whatsapp/config/health
+ * Last verification, last successful send and recent failure rate
+ */
+router.get('/whatsapp/config/health', async (req: Request, res: Response) => {
+  try {
+    const smeId = req.headers['x-sme-id'] as string;
+
+    if (!smeId) {
+      return res.status(401).json({ success: false, error: 'SME ID not provided' });
+    }
+
+    return res.json({ success: true, health: await getProviderHealth(smeId) });
+  } catch (error) {
+    console.error('[WhatsApp Health Error]', error);
     return res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
 /**
- * DELETE /api/whatsapp/config
- * Disconnect WhatsApp (deactivate config)
+ * GET /api/whatsapp/config/webhook-events
+ * The last 20 provider callbacks received for the SME
  */
-router.delete('/whatsapp/config', async (req: Request, res: Response) => {
+router.get('/whatsapp/config/webhook-events', async (req: Request, res: Response) => {
   try {
     const smeId = req.headers['x-sme-id'] as string;
 
@@ -209,19 +560,52 @@ router.delete('/whatsapp/config', async (req: Request, res: Response) => {
       return res.status(401).json({ success: false, error: 'SME ID not provided' });
     }
 
-    const { error } = await supabase
+    const { data, error } = await listWebhookEvents(smeId, 20);
+
+    if (error) {
+      console.error('[WhatsApp Webhook Events] Fetch error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch webhook events' });
+    }
+
+    return res.json({ success: true, events: data || [] });
+  } catch (error) {
+    console.error('[WhatsApp Webhook Events Error]', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/whatsapp/config/:configId
+ * Remove one of the SME's numbers; its messages go out from the next number in line
+ */
+router.delete('/whatsapp/config/:configId', async (req: Request, res: Response) => {
+  try {
+    const smeId = req.headers['x-sme-id'] as string;
+    const { configId } = req.params;
+
+    if (!smeId) {
+      return res.status(401).json({ success: false, error: 'SME ID not provided' });
+    }
+
+    const { data: removed, error } = await supabase
       .from('whatsapp_configs')
-      .update({ is_connected: false, updated_at: new Date().toISOString() })
-      .eq('sme_id', smeId);
+      .delete()
+      .eq('id', configId)
+      .eq('sme_id', smeId)
+      .select('id');
 
     if (error) {
       console.error('[WhatsApp Delete] Error:', error);
-      return res.status(500).json({ success: false, error: 'Failed to disconnect' });
+      return res.status(500).json({ success: false, error: 'Failed to remove number' });
+    }
+
+    if (!removed || removed.length === 0) {
+      return res.status(404).json({ success: false, error: 'WhatsApp number not found' });
     }
 
     return res.json({
       success: true,
-      message: 'WhatsApp disconnected successfully',
+      message: 'WhatsApp number removed',
     });
   } catch (error) {
     console.error('[WhatsApp DELETE Error]', error);
@@ -0,0 +1,89 @@
+/**
+ * Re-encrypt every whatsapp_configs row under the current master key
+ *
+ * Usage: npm run credentials:rotate [-- --all]
+ *   1. Add the new key to CREDENTIALS_MASTER_KEYS with a higher version, keeping the old one
+ *   2. Run this command; rows still on an older version (or stored in plaintext, or with a
+ *      data key not yet bound to the row) get a new data key wrapped by the new master key. --all re-encrypts rows already on it too.
+ *   3. Once it reports no failures, remove the old key from CREDENTIALS_MASTER_KEYS
+ */
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { currentKeyVersion, needsRotation, openProviderConfig, sealProviderConfig } from '../services/credentials.js';
+import type { CredentialOwner, StoredCredentials } from '../services/credentials.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for key rotation: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const PAGE_SIZE = 500;
+
+type ConfigRow = CredentialOwner & StoredCredentials;
+
+async function rotate(all: boolean): Promise<number> {
+  const version = currentKeyVersion();
+  if (version === null) {
+    console.error('[Key Rotation] CREDENTIALS_MASTER_KEYS is not set; nothing to encrypt with');
+    return 1;
+  }
+
+  const rows: ConfigRow[] = [];
+  // Paged by id: the 1000-row default would otherwise leave later configs on the old key
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('whatsapp_configs')
+      .select('id, sme_id, provider_config, wrapped_data_key, key_version')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[Key Rotation] Failed to load configs:', error);
+      return 1;
+    }
+
+    rows.push(...(page || []));
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  let rotated = 0;
+  let failed = 0;
+  for (const row of rows) {
+    if (!all && !needsRotation(row)) continue;
+
+    try {
+      const sealed = sealProviderConfig(row, openProviderConfig(row));
+
+      // Guarded on the old wrapped key so a config saved meanwhile is not overwritten
+      let update = supabase
+        .from('whatsapp_configs')
+        .update({ ...sealed, updated_at: new Date().toISOString() })
+        .eq('id', row.id);
+      update = row.wrapped_data_key
+        ? update.eq('wrapped_data_key', row.wrapped_data_key)
+        : update.is('wrapped_data_key', null);
+
+      const { data: updated, error: updateError } = await update.select('id');
+      if (updateError) throw updateError;
+      if (!updated || updated.length === 0) {
+        console.warn(`[Key Rotation] ${row.sme_id}: changed during rotation, skipped (already re-encrypted on save)`);
+        continue;
+      }
+      rotated++;
+    } catch (err) {
+      failed++;
+      console.error(`[Key Rotation] ${row.sme_id}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  console.log(`[Key Rotation] ${rotated} of ${rows.length} config(s) now on key version ${version}, ${failed} failed`);
+  return failed > 0 ? 1 : 0;
+}
+
+rotate(process.argv.includes('--all')).then((code) => process.exit(code));
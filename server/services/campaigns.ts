@@ -0,0 +1,421 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { enqueueWhatsAppMessages } from './messageQueue.js';
+import { campaignTemplateEvent } from './whatsapp.js';
+import { renderTemplate } from './templates.js';
+import { getSmeSettings } from './smeSettings.js';
+import { normalizePhoneNumber } from '../shared/phone.js';
+import type { OrderStatus } from './orderNotifications.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for WhatsApp campaigns: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+// Campaign messages are spread out so they never crowd out order updates in the
+// per-SME send limit (WHATSAPP_SME_MESSAGES_PER_MINUTE), and go after them in the queue
+const CAMPAIGN_MESSAGES_PER_MINUTE = parseInt(process.env.WHATSAPP_CAMPAIGN_MESSAGES_PER_MINUTE || '10', 10);
+const CAMPAIGN_PRIORITY = -10;
+const CAMPAIGN_MAX_ATTEMPTS = 3;
+const MAX_RECIPIENTS = 5000;
+const PAGE_SIZE = 1000;
+
+const ORDER_STATUSES: OrderStatus[] = ['NEW', 'PROCESSING', 'READY', 'DISPATCHED', 'COMPLETED', 'CANCELLED'];
+
+// Per-recipient values available to campaign messages
+export const CAMPAIGN_VARIABLES = ['customer_name', 'first_name', 'readable_id', 'order_count', 'total_spent'];
+
+/**
+ * Which past customers a campaign goes to, judged from their orders
+ */
+export interface CampaignSegment {
+  statuses?: OrderStatus[]; // Orders that count (default: COMPLETED)
+  orderedWithinDays?: number; // Only orders from the last N days
+  minSpend?: number; // Total price_total of counted orders, in naira
+  formField?: { key: string; value: string }; // form_data[key] equals value on a counted order
+  requireConsent?: boolean; // Only customers who agreed to WhatsApp updates on an order
+}
+
+export interface CampaignRecipient {
+  phone: string;
+  customerName: string | null;
+  orderId: string;
+  readableId: string;
+  orderCount: number;
+  totalSpent: number;
+  suppressed: boolean;
+}
+
+export interface CampaignInput {
+  name: string;
+  messageBody: string;
+  segment: CampaignSegment;
+  contentSid?: string;
+  contentVariables?: Record<string, string>;
+}
+
+export type CampaignRecipientStatus = 'suppressed' | 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface CampaignStats {
+  total: number;
+  queued: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  suppressed: number;
+}
+
+interface SegmentOrderRow {
+  id: string;
+  readable_id: string;
+  customer_name: string | null;
+  customer_phone: string | null;
+  price_total: number | null;
+  created_at: string;
+  whatsapp_consent_at: string | null;
+}
+
+/**
+ * Check a segment from the request body; returns an error message or null
+ */
+export function validateSegment(segment: CampaignSegment): string | null {
+  if (!segment || typeof segment !== 'object') return 'segment is required';
+  if (segment.statuses && (!Array.isArray(segment.statuses) || segment.statuses.some((s) => !ORDER_STATUSES.includes(s)))) {
+    return `statuses must be a list of ${ORDER_STATUSES.join(', ')}`;
+  }
+  if (segment.orderedWithinDays !== undefined && !(Number(segment.orderedWithinDays) > 0)) {
+    return 'orderedWithinDays must be a positive number';
+  }
+  if (segment.minSpend !== undefined && !(Number(segment.minSpend) >= 0)) {
+    return 'minSpend must be zero or more';
+  }
+  // The key becomes part of a column path in the query, so only plain field names
+  if (segment.formField && (!/^[\w-]+$/.test(segment.formField.key || '') || typeof segment.formField.value !== 'string')) {
+    return 'formField needs a field name and a value';
+  }
+  return null;
+}
+
+/**
+ * Customers matching the segment, one per phone number, opted-out numbers flagged
+ */
+export async function resolveSegment(smeId: string, segment: CampaignSegment): Promise<CampaignRecipient[]> {
+  const statuses = segment.statuses?.length ? segment.statuses : ['COMPLETED'];
+  const { default_country: defaultCountry } = await getSmeSettings(smeId);
+
+  const orders: SegmentOrderRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('orders')
+      .select('id, readable_id, customer_name, customer_phone, price_total, created_at, whatsapp_consent_at')
+      .eq('sme_id', smeId)
+      .in('status', statuses)
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (segment.orderedWithinDays) {
+      query = query.gte('created_at', new Date(Date.now() - segment.orderedWithinDays * 24 * 60 * 60 * 1000).toISOString());
+    }
+    if (segment.formField) {
+      query = query.eq(`form_data->>${segment.formField.key}`, segment.formField.value);
+    }
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    orders.push(...((data || []) as SegmentOrderRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  // Newest order first, so the first row seen for a number is the customer's latest
+  const byPhone = new Map<string, CampaignRecipient & { consented: boolean }>();
+  for (const order of orders) {
+    const phone = order.customer_phone && normalizePhoneNumber(order.customer_phone, defaultCountry);
+    if (!phone) continue;
+
+    const existing = byPhone.get(phone);
+    if (existing) {
+      existing.orderCount++;
+      existing.totalSpent += Number(order.price_total) || 0;
+      existing.consented = existing.consented || Boolean(order.whatsapp_consent_at);
+      continue;
+    }
+
+    byPhone.set(phone, {
+      phone,
+      customerName: order.customer_name,
+      orderId: order.id,
+      readableId: order.readable_id,
+      orderCount: 1,
+      totalSpent: Number(order.price_total) || 0,
+      suppressed: false,
+      consented: Boolean(order.whatsapp_consent_at),
+    });
+  }
+
+  const suppressed = new Set<string>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('whatsapp_suppressions')
+      .select('phone')
+      .eq('sme_id', smeId)
+      .order('phone', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    for (const row of data || []) suppressed.add(row.phone);
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return [...byPhone.values()]
+    .filter((r) => segment.minSpend === undefined || r.totalSpent >= Number(segment.minSpend))
+    .filter((r) => !segment.requireConsent || r.consented)
+    .map((r) => ({
+      phone: r.phone,
+      customerName: r.customerName,
+      orderId: r.orderId,
+      readableId: r.readableId,
+      orderCount: r.orderCount,
+      totalSpent: r.totalSpent,
+      suppressed: suppressed.has(r.phone),
+    }));
+}
+
+export function campaignVariables(recipient: CampaignRecipient): Record<string, string> {
+  const name = recipient.customerName || '';
+  return {
+    customer_name: name,
+    first_name: name.split(/\s+/)[0] || '',
+    readable_id: recipient.readableId,
+    order_count: String(recipient.orderCount),
+    total_spent: `₦${recipient.totalSpent.toLocaleString('en-NG')}`,
+  };
+}
+
+/**
+ * Save the campaign, record its recipients and queue a message to everyone not opted out
+ * Sends are spread at CAMPAIGN_MESSAGES_PER_MINUTE starting now
+ */
+export async function createCampaign(
+  smeId: string,
+  input: CampaignInput
+): Promise<{ success: boolean; campaignId?: string; queued?: number; suppressed?: number; error?: string; statusCode?: number }> {
+  const recipients = await resolveSegment(smeId, input.segment);
+  if (recipients.length === 0) {
+    return { success: false, error: 'No customers match this segment', statusCode: 400 };
+  }
+  if (recipients.length > MAX_RECIPIENTS) {
+    return { success: false, error: `Segment has ${recipients.length} customers; narrow it to at most ${MAX_RECIPIENTS}`, statusCode: 400 };
+  }
+
+  const { data: campaign, error } = await supabase
+    .from('whatsapp_campaigns')
+    .insert([
+      {
+        sme_id: smeId,
+        name: input.name,
+        message_body: input.messageBody,
+        segment: input.segment,
+        content_sid: input.contentSid || null,
+        content_variables: input.contentVariables || {},
+        recipient_count: recipients.length,
+      },
+    ])
+    .select('id')
+    .single();
+
+  if (error || !campaign) {
+    console.error('[Campaigns] Insert error:', error);
+    return { success: false, error: 'Failed to save campaign', statusCode: 500 };
+  }
+
+  const sendable = recipients.filter((r) => !r.suppressed);
+  const outboxIds = new Map<string, string>();
+  const startAt = Date.now();
+
+  for (let i = 0; i < sendable.length; i += CAMPAIGN_MESSAGES_PER_MINUTE) {
+    const batch = sendable.slice(i, i + CAMPAIGN_MESSAGES_PER_MINUTE);
+    const result = await enqueueWhatsAppMessages(
+      batch.map((recipient) => {
+        const variables = campaignVariables(recipient);
+        return {
+          phone: recipient.phone,
+          message: renderTemplate(input.messageBody, variables),
+          orderId: recipient.orderId,
+          smeId,
+          template: { event: campaignTemplateEvent(campaign.id), variables },
+        };
+      }),
+      {
+        priority: CAMPAIGN_PRIORITY,
+        maxAttempts: CAMPAIGN_MAX_ATTEMPTS,
+        sendAt: new Date(startAt + (i / CAMPAIGN_MESSAGES_PER_MINUTE) * 60 * 1000),
+      }
+    );
+
+    if (!result.success) {
+      // Already-queued batches still go out; the report shows who was reached
+      console.error(`[Campaigns] Stopped queueing campaign ${campaign.id} after ${i} of ${sendable.length} recipients`);
+      break;
+    }
+    for (const row of result.rows || []) outboxIds.set(row.recipient_phone, row.id);
+  }
+
+  const { error: recipientsError } = await supabase.from('whatsapp_campaign_recipients').insert(
+    recipients.map((r) => ({
+      campaign_id: campaign.id,
+      sme_id: smeId,
+      phone: r.phone,
+      customer_name: r.customerName,
+      order_id: r.orderId,
+      outbox_id: outboxIds.get(r.phone) || null,
+      status: r.suppressed ? 'suppressed' : 'queued',
+    }))
+  );
+
+  if (recipientsError) {
+    console.error('[Campaigns] Failed to record recipients:', recipientsError);
+  }
+
+  console.log(`[Campaigns] "${input.name}" for ${smeId}: ${outboxIds.size} queued, ${recipients.length - sendable.length} opted out`);
+
+  return {
+    success: true,
+    campaignId: campaign.id,
+    queued: outboxIds.size,
+    suppressed: recipients.length - sendable.length,
+  };
+}
+
+// Latest state of a queued message: its newest whatsapp_logs attempt, else the outbox row
+function recipientStatus(
+  outboxStatus: string | undefined,
+  logStatus: string | undefined
+): CampaignRecipientStatus {
+  switch (logStatus) {
+    case 'sent':
+    case 'queued':
+      return 'sent';
+    case 'delivered':
+      return 'delivered';
+    case 'read':
+      return 'read';
+    case 'suppressed':
+      return 'suppressed';
+    case 'failed':
+    case 'undelivered':
+      return outboxStatus === 'pending' || outboxStatus === 'processing' ? 'queued' : 'failed';
+  }
+  if (outboxStatus === 'dead') return 'failed';
+  if (outboxStatus === 'skipped') return 'suppressed';
+  return 'queued';
+}
+
+const emptyStats = (): CampaignStats => ({ total: 0, queued: 0, sent: 0, delivered: 0, read: 0, failed: 0, suppressed: 0 });
+
+/**
+ * Per-recipient delivery state of a campaign plus totals
+ * Read counts as delivered and delivered as sent in the totals, so each is a funnel step
+ */
+export async function getCampaignReport(smeId: string, campaignId: string) {
+  const { data: campaign } = await supabase
+    .from('whatsapp_campaigns')
+    .select('id, name, message_body, segment, content_sid, recipient_count, created_at')
+    .eq('id', campaignId)
+    .eq('sme_id', smeId)
+    .maybeSingle();
+
+  if (!campaign) return null;
+
+  const recipientRows: { phone: string; customer_name: string | null; order_id: string | null; outbox_id: string | null; status: string }[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('whatsapp_campaign_recipients')
+      .select('phone, customer_name, order_id, outbox_id, status')
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: true })
+      .order('phone', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    recipientRows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const outboxIds = recipientRows.map((r) => r.outbox_id).filter(Boolean) as string[];
+
+  const outboxStatus = new Map<string, { status: string; last_error: string | null }>();
+  const latestLog = new Map<string, { status: string; error_message: string | null; created_at: string }>();
+
+  for (let i = 0; i < outboxIds.length; i += 200) {
+    const ids = outboxIds.slice(i, i + 200);
+    const { data: outbox } = await supabase.from('whatsapp_outbox').select('id, status, last_error').in('id', ids);
+    for (const row of outbox || []) outboxStatus.set(row.id, row);
+
+    // Each message logs several statuses, so even one chunk's logs can pass a page
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: logs, error } = await supabase
+        .from('whatsapp_logs')
+        .select('outbox_id, status, error_message, created_at')
+        .in('outbox_id', ids)
+        .eq('channel', 'whatsapp')
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new Error(error.message);
+      for (const log of logs || []) latestLog.set(log.outbox_id, log);
+      if (!logs || logs.length < PAGE_SIZE) break;
+    }
+  }
+
+  const stats = emptyStats();
+  const recipients = recipientRows.map((row) => {
+    const outbox = row.outbox_id ? outboxStatus.get(row.outbox_id) : undefined;
+    const log = row.outbox_id ? latestLog.get(row.outbox_id) : undefined;
+    const status: CampaignRecipientStatus = row.status === 'suppressed' ? 'suppressed' : recipientStatus(outbox?.status, log?.status);
+
+    stats.total++;
+    stats[status]++;
+
+    return {
+      phone: row.phone,
+      customer_name: row.customer_name,
+      order_id: row.order_id,
+      status,
+      error: status === 'failed' ? log?.error_message || outbox?.last_error || null : null,
+      updated_at: log?.created_at || null,
+    };
+  });
+
+  // Funnel: everything read was delivered, everything delivered was sent
+  stats.delivered += stats.read;
+  stats.sent += stats.delivered;
+
+  return { campaign, stats, recipients };
+}
+
+/**
+ * The SME's campaigns, newest first, with delivery totals
+ */
+export async function listCampaigns(smeId: string) {
+  const { data: campaigns, error } = await supabase
+    .from('whatsapp_campaigns')
+    .select('id')
+    .eq('sme_id', smeId)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) throw new Error(error.message);
+
+  const reports = await Promise.all((campaigns || []).map((c) => getCampaignReport(smeId, c.id)));
+  return reports
+    .filter((report): report is NonNullable<typeof report> => Boolean(report))
+    .map(({ campaign, stats }) => ({ ...campaign, stats }));
+}
@@ -0,0 +1,36 @@
+import type { NotificationChannel } from './types.js';
+
+export interface HttpEmailOptions {
+  apiUrl: string; // Resend-compatible endpoint, e.g. https://api.resend.com/emails
+  apiKey: string;
+  from: string; // "Shop Name <orders@example.com>"
+}
+
+/**
+ * Transactional email through a JSON HTTP API ({ from, to, subject, text } with a bearer key)
+ */
+export function createHttpEmailChannel(options: HttpEmailOptions): NotificationChannel {
+  return {
+    name: 'email',
+    provider: new URL(options.apiUrl).hostname,
+
+    async send({ to, subject, body }) {
+      const response = await fetch(options.apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${options.apiKey}`,
+        },
+        body: JSON.stringify({ from: options.from, to: [to], subject: subject || 'Order update', text: body }),
+        signal: AbortSignal.timeout(15000),
+      });
+
+      const json = (await response.json().catch(() => ({}))) as { id?: string; message?: string };
+      if (!response.ok) {
+        throw new Error(`Email API HTTP ${response.status}: ${json.message || response.statusText}`);
+      }
+
+      return { messageId: json.id || `email_${Date.now()}` };
+    },
+  };
+}
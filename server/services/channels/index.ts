@@ -0,0 +1,68 @@
+import dotenv from 'dotenv';
+import { recordOutboxMessage } from '../providers/index.js';
+import { createTwilioSmsChannel } from './sms.js';
+import { createHttpEmailChannel } from './email.js';
+import type { FallbackChannelName, NotificationChannel } from './types.js';
+
+export * from './types.js';
+export { createTwilioSmsChannel, createHttpEmailChannel };
+
+dotenv.config({ path: './server/.env' });
+
+const isProduction = process.env.NODE_ENV === 'production';
+const stubsForced = (process.env.WHATSAPP_PROVIDER || '').toLowerCase() === 'outbox';
+
+/**
+ * Development channel that captures messages in the local outbox (GET /api/dev/outbox)
+ */
+export function createStubChannel(name: FallbackChannelName): NotificationChannel {
+  return {
+    name,
+    provider: 'stub',
+
+    async send({ to, body, subject }) {
+      const message = recordOutboxMessage({ to, from: `${name}-stub`, body, channel: name, ...(subject && { subject }) });
+      return { messageId: message.id };
+    },
+  };
+}
+
+function buildSmsChannel(): NotificationChannel | null {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const fromNumber = process.env.TWILIO_SMS_NUMBER;
+
+  if (!stubsForced && accountSid && authToken && fromNumber) {
+    return createTwilioSmsChannel({ accountSid, authToken, fromNumber });
+  }
+  return isProduction ? null : createStubChannel('sms');
+}
+
+function buildEmailChannel(): NotificationChannel | null {
+  const apiKey = process.env.EMAIL_API_KEY;
+  const from = process.env.EMAIL_FROM;
+
+  if (!stubsForced && apiKey && from) {
+    return createHttpEmailChannel({
+      apiUrl: process.env.EMAIL_API_URL || 'https://api.resend.com/emails',
+      apiKey,
+      from,
+    });
+  }
+  return isProduction ? null : createStubChannel('email');
+}
+
+const smsChannel = buildSmsChannel();
+const emailChannel = buildEmailChannel();
+
+if (isProduction && !smsChannel) {
+  console.warn('⚠️  TWILIO_SMS_NUMBER not set. Critical messages will not fall back to SMS when WhatsApp fails.');
+}
+
+/**
+ * Configured fallback channels in the order they are tried
+ * Outside production, unconfigured channels are replaced by stubs
+ */
+export function getFallbackChannels(): NotificationChannel[] {
+  return [smsChannel, emailChannel].filter((channel): channel is NotificationChannel => channel !== null);
+}
@@ -0,0 +1,25 @@
+import twilio from 'twilio';
+import type { NotificationChannel } from './types.js';
+
+export interface TwilioSmsOptions {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string; // +E.164 SMS-capable number (not the WhatsApp sender)
+}
+
+/**
+ * Plain SMS through Twilio Programmable Messaging
+ */
+export function createTwilioSmsChannel(options: TwilioSmsOptions): NotificationChannel {
+  const client = twilio(options.accountSid, options.authToken);
+
+  return {
+    name: 'sms',
+    provider: 'twilio',
+
+    async send({ to, body }) {
+      const message = await client.messages.create({ from: options.fromNumber, to, body });
+      return { messageId: message.sid };
+    },
+  };
+}
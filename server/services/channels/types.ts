@@ -0,0 +1,25 @@
+/**
+ * Common contract for the channels critical messages fall back to when WhatsApp fails
+ */
+
+export type FallbackChannelName = 'sms' | 'email';
+
+/** Every channel a message can be logged against */
+export type NotificationChannelName = 'whatsapp' | FallbackChannelName;
+
+export interface ChannelMessage {
+  to: string; // +E.164 for SMS, an address for email
+  body: string;
+  subject?: string; // Email only
+}
+
+export interface ChannelSendResult {
+  messageId: string;
+}
+
+export interface NotificationChannel {
+  readonly name: FallbackChannelName;
+  /** Service behind the channel, e.g. "twilio" or "stub" */
+  readonly provider: string;
+  send(message: ChannelMessage): Promise<ChannelSendResult>;
+}
@@ -0,0 +1,144 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { openProviderConfig } from './credentials.js';
+import { verifySmeProviderConfig } from './whatsapp.js';
+import type { WhatsAppConfigRow, ProviderHealth } from './providers/index.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for WhatsApp config verification: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+// Scheduled failures in a row before a config is disconnected; one outage at the provider shouldn't do it
+const MAX_SCHEDULED_FAILURES = 3;
+
+const VERIFY_COLUMNS = 'id, sme_id, provider, purpose, label, provider_config, wrapped_data_key, key_version, is_connected, instance_id, verification_failures';
+
+/**
+ * Check one of the SME's stored configs against its provider and record the outcome
+ * On connect a failure leaves the config disconnected straight away; scheduled
+ * checks only disconnect after MAX_SCHEDULED_FAILURES consecutive failures
+ */
+export async function verifySmeConfig(smeId: string, configId: string, mode: 'connect' | 'scheduled'): Promise<ProviderHealth> {
+  const { data: config, error } = await supabase
+    .from('whatsapp_configs')
+    .select(VERIFY_COLUMNS)
+    .eq('id', configId)
+    .eq('sme_id', smeId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!config) return { ok: false, detail: 'No WhatsApp config saved' };
+
+  let health: ProviderHealth;
+  try {
+    health = await verifySmeProviderConfig({
+      ...config,
+      provider_config: openProviderConfig(config),
+    } as WhatsAppConfigRow);
+  } catch (err) {
+    health = { ok: false, detail: err instanceof Error ? err.message : 'Unknown error' };
+  }
+
+  const now = new Date().toISOString();
+  const pairs = config.provider === 'baileys' || config.provider === 'evolution';
+
+  if (health.ok) {
+    await supabase
+      .from('whatsapp_configs')
+      .update({
+        is_connected: true,
+        ...(!config.is_connected && { connected_at: now }),
+        last_verified_at: now,
+        verification_error: null,
+        verification_failures: 0,
+        ...(pairs && { pairing_state: 'paired', pairing_qr: null }),
+        updated_at: now,
+      })
+      .eq('id', config.id);
+    return health;
+  }
+
+  const failures = (config.verification_failures || 0) + 1;
+  const disconnect = mode === 'connect' || failures >= MAX_SCHEDULED_FAILURES;
+
+  await supabase
+    .from('whatsapp_configs')
+    .update({
+      verification_error: health.detail || 'Verification failed',
+      verification_failures: mode === 'connect' ? 0 : failures,
+      ...(disconnect && { is_connected: false }),
+      // A working connection that broke: shown to the SME as an alert on the dashboard
+      ...(disconnect && config.is_connected && { disconnected_at: now }),
+      ...(disconnect && config.is_connected && pairs && { pairing_state: 'disconnected' }),
+      updated_at: now,
+    })
+    .eq('id', config.id);
+
+  if (mode === 'scheduled') {
+    console.warn(
+      `[Config Verification] ${config.provider} ${config.label || config.purpose} config for ${smeId} failed (${failures}/${MAX_SCHEDULED_FAILURES}): ${health.detail}` +
+        (disconnect ? ' - disconnected, sends fall back to the platform number' : '')
+    );
+  }
+
+  return health;
+}
+
+/**
+ * Re-verify every connected config
+ */
+export async function verifyConnectedConfigs(): Promise<{ checked: number; failed: number }> {
+  const { data: configs, error } = await supabase
+    .from('whatsapp_configs')
+    .select('id, sme_id')
+    .eq('is_connected', true);
+
+  if (error) {
+    console.error('[Config Verification] Fetch error:', error);
+    return { checked: 0, failed: 0 };
+  }
+
+  let failed = 0;
+  for (const config of configs || []) {
+    try {
+      const health = await verifySmeConfig(config.sme_id, config.id, 'scheduled');
+      if (!health.ok) failed++;
+    } catch (err) {
+      failed++;
+      console.error(`[Config Verification] Could not verify ${config.sme_id} config ${config.id}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  return { checked: configs?.length || 0, failed };
+}
+
+/**
+ * Start the periodic re-verification job
+ * Runs every 6 hours by default (configurable via WHATSAPP_CONFIG_VERIFY_INTERVAL_MINUTES env var)
+ */
+export function startConfigVerificationSchedule(intervalMinutes: number = 360): NodeJS.Timer {
+  console.log(`[Config Verification] Re-verifying connected WhatsApp configs every ${intervalMinutes} minutes`);
+
+  let isRunning = false;
+  const timer = setInterval(async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      const { checked, failed } = await verifyConnectedConfigs();
+      if (failed > 0) console.log(`[Config Verification] ${failed} of ${checked} configs failed verification`);
+    } finally {
+      isRunning = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+
+  timer.unref();
+
+  return timer;
+}
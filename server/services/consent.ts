@@ -0,0 +1,137 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { normalizePhoneNumber } from '../shared/phone.js';
+import { findLatestOrderSmeForPhone } from './inbound.js';
+import type { InboundRecord } from './inbound.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for WhatsApp consent: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const OPT_OUT_KEYWORDS = ['STOP', 'UNSUBSCRIBE', 'STOPALL', 'OPTOUT'];
+const OPT_IN_KEYWORDS = ['START', 'SUBSCRIBE', 'UNSTOP'];
+
+export type SuppressionSource = 'keyword' | 'manual';
+
+export interface SuppressionRow {
+  id: string;
+  sme_id: string;
+  phone: string;
+  source: SuppressionSource;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Opt-out/opt-in keywords only count when they are the whole message,
+ * so "please don't stop by before 5" stays ordinary conversation
+ */
+export function parseConsentKeyword(body: string): 'opt_out' | 'opt_in' | null {
+  const word = body.trim().replace(/[\s.!]+$/, '').replace(/[\s_-]/g, '').toUpperCase();
+  if (OPT_OUT_KEYWORDS.includes(word)) return 'opt_out';
+  if (OPT_IN_KEYWORDS.includes(word)) return 'opt_in';
+  return null;
+}
+
+/**
+ * Suppression entry for a number, or null if the SME may message it
+ */
+export async function getSuppression(smeId: string, phone: string): Promise<SuppressionRow | null> {
+  const e164 = normalizePhoneNumber(phone) || phone;
+  const { data } = await supabase
+    .from('whatsapp_suppressions')
+    .select('*')
+    .eq('sme_id', smeId)
+    .eq('phone', e164)
+    .maybeSingle();
+
+  return data as SuppressionRow | null;
+}
+
+/**
+ * Stop all non-OTP WhatsApp messages from the SME to this number
+ */
+export async function addSuppression(
+  smeId: string,
+  phone: string,
+  source: SuppressionSource,
+  reason: string | null = null
+): Promise<SuppressionRow | null> {
+  const e164 = normalizePhoneNumber(phone);
+  if (!e164) throw new Error(`Cannot suppress invalid phone number "${phone}"`);
+
+  const { data, error } = await supabase
+    .from('whatsapp_suppressions')
+    .upsert([{ sme_id: smeId, phone: e164, source, reason }], { onConflict: 'sme_id,phone' })
+    .select('*')
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data as SuppressionRow;
+}
+
+/**
+ * Allow messages to the number again
+ */
+export async function removeSuppression(smeId: string, phone: string): Promise<void> {
+  const e164 = normalizePhoneNumber(phone) || phone;
+  const { error } = await supabase
+    .from('whatsapp_suppressions')
+    .delete()
+    .eq('sme_id', smeId)
+    .eq('phone', e164);
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * The SME's suppression list, newest first
+ */
+export async function listSuppressions(smeId: string) {
+  return supabase
+    .from('whatsapp_suppressions')
+    .select('*')
+    .eq('sme_id', smeId)
+    .order('created_at', { ascending: false });
+}
+
+/**
+ * Apply a STOP/UNSUBSCRIBE (or START) reply to the SME's suppression list
+ * Returns false when the message is not a consent keyword
+ */
+export async function handleConsentKeyword(record: InboundRecord): Promise<boolean> {
+  if (record.duplicate) return false;
+
+  const keyword = parseConsentKeyword(record.message.body);
+  if (!keyword) return false;
+
+  // No open order on the shared number: the customer's last business still messages them
+  const smeId = record.smeId || (await findLatestOrderSmeForPhone(record.message.from));
+  if (!smeId) {
+    console.warn(`[Consent] ${record.message.body.trim()} from ${record.message.from}: no business matched, ignoring`);
+    return false;
+  }
+
+  if (keyword === 'opt_out') {
+    await addSuppression(smeId, record.message.from, 'keyword', record.message.body.trim());
+  } else {
+    await removeSuppression(smeId, record.message.from);
+  }
+
+  console.log(`[Consent] ${record.message.from} ${keyword === 'opt_out' ? 'opted out of' : 'opted back in to'} messages from ${smeId}`);
+
+  // Handled automatically, so it should not count as unread in the SME inbox
+  await supabase
+    .from('whatsapp_inbound_messages')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', record.id);
+
+  return true;
+}
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: './server/.env' });
+
+/**
+ * Envelope encryption for secrets in whatsapp_configs.provider_config
+ *
+ * Each row gets its own random data key. Secret fields are encrypted with it
+ * (AES-256-GCM) and stored as "enc:<base64>" strings; the data key itself is
+ * encrypted with a server-held master key and stored in wrapped_data_key, with
+ * the master key's version in key_version. The wrapped key is bound to its row id,
+ * so credentials can't be moved between rows, not even between one SME's numbers. Rotating the master key only needs
+ * the data keys re-wrapped (see server/scripts/rotateCredentialsKey.ts).
+ *
+ * CREDENTIALS_MASTER_KEYS lists "version:base64key" pairs (32-byte keys); the
+ * highest version encrypts, older ones are kept for decrypting until rotated.
+ */
+
+// Fields that grant access to the SME's provider account. Identifiers such as
+// accountSid stay readable so webhooks can be matched to the account.
+export const SECRET_FIELDS = ['authToken', 'apiKey'];
+
+// Shown masked in API responses
+const MASKED_FIELDS = [...SECRET_FIELDS, 'accountSid'];
+
+const ENCRYPTED_PREFIX = 'enc:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export type ProviderConfig = Record<string, string | undefined>;
+
+/**
+ * Columns of a whatsapp_configs row that hold (possibly encrypted) credentials
+ * Rows saved before encryption was enabled have no wrapped key and plaintext secrets
+ */
+export interface StoredCredentials {
+  provider_config: ProviderConfig;
+  wrapped_data_key?: string | null;
+  key_version?: number | null;
+}
+
+// The whatsapp_configs row the credentials belong to
+export interface CredentialOwner {
+  id: string;
+  sme_id: string;
+}
+
+function loadMasterKeys(): Map<number, Buffer> {
+  const keys = new Map<number, Buffer>();
+  const raw = process.env.CREDENTIALS_MASTER_KEYS || '';
+
+  for (const entry of raw.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const [version, encoded] = entry.split(':');
+    const key = Buffer.from(encoded || '', 'base64');
+    if (!/^\d+$/.test(version) || key.length !== 32) {
+      throw new Error('CREDENTIALS_MASTER_KEYS must be comma-separated "version:base64key" pairs with 32-byte keys');
+    }
+    keys.set(parseInt(version, 10), key);
+  }
+
+  return keys;
+}
+
+const masterKeys = loadMasterKeys();
+const currentVersion = masterKeys.size > 0 ? Math.max(...masterKeys.keys()) : null;
+
+if (currentVersion === null) {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Missing CREDENTIALS_MASTER_KEYS: provider credentials cannot be stored unencrypted in production');
+  }
+  console.warn('⚠️  CREDENTIALS_MASTER_KEYS not set. WhatsApp provider credentials will be stored unencrypted (development only).');
+}
+
+/**
+ * Master key version new credentials are encrypted with, or null when encryption is off
+ */
+export const currentKeyVersion = (): number | null => currentVersion;
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function decrypt(key: Buffer, encoded: string, aad: string): Buffer {
+  const data = Buffer.from(encoded, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+// The wrapped data key is bound to its row so it cannot be copied onto another one
+const ROW_BOUND_PREFIX = 'row:';
+const dataKeyAad = (owner: CredentialOwner) => `whatsapp_configs:${owner.sme_id}:${owner.id}`;
+// Keys wrapped before row binding were bound to the SME only; rotation rewraps them
+const legacyDataKeyAad = (owner: CredentialOwner) => `whatsapp_configs:${owner.sme_id}`;
+
+const isRowBound = (stored: StoredCredentials) => Boolean(stored.wrapped_data_key?.startsWith(ROW_BOUND_PREFIX));
+
+function unwrapDataKey(owner: CredentialOwner, stored: StoredCredentials): Buffer {
+  const masterKey = masterKeys.get(stored.key_version ?? -1);
+  if (!masterKey) {
+    throw new Error(`Credentials for ${owner.sme_id} (${owner.id}) use master key version ${stored.key_version}, which is not configured`);
+  }
+  const wrapped = stored.wrapped_data_key!;
+  return isRowBound(stored)
+    ? decrypt(masterKey, wrapped.slice(ROW_BOUND_PREFIX.length), dataKeyAad(owner))
+    : decrypt(masterKey, wrapped, legacyDataKeyAad(owner));
+}
+
+/**
+ * Encrypt the secret fields of a provider config under a fresh data key
+ * Without a master key (development) the config is returned unchanged
+ */
+export function sealProviderConfig(owner: CredentialOwner, config: ProviderConfig): Required<StoredCredentials> {
+  if (currentVersion === null) {
+    return { provider_config: config, wrapped_data_key: null, key_version: null };
+  }
+
+  const dataKey = crypto.randomBytes(32);
+  const sealed: ProviderConfig = {};
+  for (const [field, value] of Object.entries(config)) {
+    sealed[field] = value && SECRET_FIELDS.includes(field)
+      ? ENCRYPTED_PREFIX + encrypt(dataKey, Buffer.from(value, 'utf8'), field)
+      : value;
+  }
+
+  return {
+    provider_config: sealed,
+    wrapped_data_key: ROW_BOUND_PREFIX + encrypt(masterKeys.get(currentVersion)!, dataKey, dataKeyAad(owner)),
+    key_version: currentVersion,
+  };
+}
+
+/**
+ * Decrypt a stored provider config for use on the server; never send the result to a client
+ */
+export function openProviderConfig(stored: CredentialOwner & StoredCredentials): ProviderConfig {
+  const config = stored.provider_config || {};
+  if (!stored.wrapped_data_key) return { ...config };
+
+  const dataKey = unwrapDataKey(stored, stored);
+  const opened: ProviderConfig = {};
+  for (const [field, value] of Object.entries(config)) {
+    opened[field] = value?.startsWith(ENCRYPTED_PREFIX)
+      ? decrypt(dataKey, value.slice(ENCRYPTED_PREFIX.length), field).toString('utf8')
+      : value;
+  }
+  return opened;
+}
+
+/**
+ * True when the row is not yet encrypted under the current master key, or its key is not yet bound to the row
+ */
+export function needsRotation(stored: StoredCredentials): boolean {
+  return currentVersion !== null && (stored.key_version !== currentVersion || !isRowBound(stored));
+}
+
+/**
+ * "AC…1234": enough to recognise a credential without revealing it
+ */
+export function maskSecret(value: string | undefined): string | undefined {
+  if (!value) return value;
+  if (value.length <= 8) return '••••';
+  return `${value.slice(0, 2)}…${value.slice(-4)}`;
+}
+
+/**
+ * Provider config safe to return from the API
+ */
+export function maskProviderConfig(config: ProviderConfig): ProviderConfig {
+  return Object.fromEntries(
+    Object.entries(config).map(([field, value]) => [field, MASKED_FIELDS.includes(field) ? maskSecret(value) : value])
+  );
+}
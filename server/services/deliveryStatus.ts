@@ -0,0 +1,106 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for delivery status: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+export type DeliveryStatus = 'pending' | 'queued' | 'sent' | 'delivered' | 'read' | 'undelivered' | 'failed';
+
+// Twilio's intermediate states collapse to the closest whatsapp_logs status
+const STATUS_ALIASES: Record<string, DeliveryStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  sending: 'queued',
+};
+
+// How far along the delivery lifecycle a status is. A callback only moves a log
+// forward, so late or repeated callbacks (e.g. `sent` after `delivered`) are no-ops.
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  pending: 0,
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  undelivered: 2,
+  failed: 2,
+  read: 3,
+};
+
+// Column recording when each state was reached
+const STATUS_TIMESTAMP: Partial<Record<DeliveryStatus, string>> = {
+  queued: 'queued_at',
+  sent: 'sent_at',
+  delivered: 'delivered_at',
+  read: 'read_at',
+  undelivered: 'failed_at',
+  failed: 'failed_at',
+};
+
+const FAILURE_STATUSES: DeliveryStatus[] = ['undelivered', 'failed'];
+
+export interface StatusCallback {
+  messageSid: string;
+  status: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export type StatusCallbackResult = 'updated' | 'ignored' | 'unknown_status';
+
+/**
+ * Apply a provider delivery-status callback to the matching whatsapp_logs rows
+ * The status guard is part of the UPDATE, so concurrent callbacks cannot regress a row
+ */
+export async function applyStatusCallback(callback: StatusCallback): Promise<StatusCallbackResult> {
+  const status = STATUS_ALIASES[callback.status] || (callback.status as DeliveryStatus);
+  const rank = STATUS_RANK[status];
+
+  if (rank === undefined) return 'unknown_status';
+
+  const now = new Date().toISOString();
+  const timestampColumn = STATUS_TIMESTAMP[status];
+  const earlierStatuses = (Object.keys(STATUS_RANK) as DeliveryStatus[]).filter((s) => STATUS_RANK[s] < rank);
+
+  if (earlierStatuses.length > 0) {
+    const { data, error } = await supabase
+      .from('whatsapp_logs')
+      .update({
+        status,
+        updated_at: now,
+        ...(timestampColumn && { [timestampColumn]: now }),
+        ...(FAILURE_STATUSES.includes(status) && {
+          error_code: callback.errorCode || null,
+          error_message: callback.errorMessage || null,
+        }),
+      })
+      .eq('twilio_sid', callback.messageSid)
+      .in('status', earlierStatuses)
+      .select('id');
+
+    if (error) {
+      console.error('[Delivery Status] Failed to update status:', error);
+      throw error;
+    }
+
+    if (data && data.length > 0) return 'updated';
+  }
+
+  // A late callback for a state already passed (e.g. `delivered` after `read`) keeps the
+  // current status but still fills in when that state happened, for the timeline
+  if (timestampColumn && !FAILURE_STATUSES.includes(status)) {
+    await supabase
+      .from('whatsapp_logs')
+      .update({ [timestampColumn]: now })
+      .eq('twilio_sid', callback.messageSid)
+      .is(timestampColumn, null);
+  }
+
+  return 'ignored';
+}
@@ -0,0 +1,232 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { getFallbackChannels } from './channels/index.js';
+import type { FallbackChannelName, NotificationChannel } from './channels/index.js';
+import { normalizePhoneNumber } from '../shared/phone.js';
+import type { OutboxRow } from './messageQueue.js';
+import { recordOrderEvent } from './orderEvents.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for message fallback: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+// Messages the customer must receive even when WhatsApp is down or unreachable
+export const CRITICAL_EVENTS = ['OTP', 'DISPATCHED', 'CANCELLED'];
+
+// Only these WhatsApp providers report delivery back to us, so only their silence means anything
+const DELIVERY_REPORTING_PROVIDERS = ['twilio'];
+// How long a sent WhatsApp message may stay undelivered before falling back
+const UNDELIVERED_TIMEOUT_MS = parseInt(process.env.FALLBACK_UNDELIVERED_TIMEOUT_MINUTES || '10', 10) * 60 * 1000;
+// Older messages are no longer worth resending
+const SWEEP_LOOKBACK_MS = 6 * 60 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 50;
+
+const EMAIL_SUBJECTS: Record<string, string> = {
+  OTP: 'Your delivery code',
+  DISPATCHED: 'Your order is on its way',
+  CANCELLED: 'Your order has been cancelled',
+};
+
+type FallbackRow = Pick<OutboxRow, 'id' | 'order_id' | 'recipient_phone' | 'message_body' | 'template_event' | 'created_at'>;
+
+export const isCriticalEvent = (event: string | null | undefined): boolean =>
+  Boolean(event && CRITICAL_EVENTS.includes(event));
+
+/**
+ * Mark the queued message as fallen back; false if another worker got there first
+ */
+async function claimFallback(outboxId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('whatsapp_outbox')
+    .update({ fallback_at: new Date().toISOString() })
+    .eq('id', outboxId)
+    .is('fallback_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('[Fallback] Claim error:', error);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+async function logChannelAttempt(
+  row: FallbackRow,
+  channel: NotificationChannel,
+  recipient: string,
+  result: { messageId?: string; error?: string }
+) {
+  const now = new Date().toISOString();
+  const { error } = await supabase.from('whatsapp_logs').insert([
+    {
+      order_id: row.order_id,
+      channel: channel.name,
+      provider: channel.provider,
+      recipient_phone: row.recipient_phone,
+      recipient_email: channel.name === 'email' ? recipient : null,
+      message_body: row.message_body,
+      twilio_sid: result.messageId || null,
+      status: result.messageId ? 'sent' : 'failed',
+      outbox_id: row.id,
+      queued_at: row.created_at,
+      ...(result.messageId ? { sent_at: now } : { failed_at: now, error_message: result.error || null }),
+      created_at: now,
+    },
+  ]);
+
+  if (error) {
+    console.warn('[Fallback] Failed to log attempt:', error);
+  }
+}
+
+/**
+ * Resend a critical message over SMS, then email, after WhatsApp failed
+ * Returns the channel that accepted it, or null if none did (or it already fell back)
+ */
+export async function sendFallback(row: FallbackRow, reason: string): Promise<FallbackChannelName | null> {
+  if (!isCriticalEvent(row.template_event)) return null;
+
+  const channels = getFallbackChannels();
+  if (channels.length === 0 || !(await claimFallback(row.id))) return null;
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select('sme_id, readable_id, customer_email')
+    .eq('id', row.order_id)
+    .maybeSingle();
+
+  console.log(`[Fallback] ${row.template_event} for order ${order?.readable_id || row.order_id}: ${reason}`);
+
+  for (const channel of channels) {
+    const recipient = channel.name === 'sms'
+      ? normalizePhoneNumber(row.recipient_phone)
+      : order?.customer_email;
+    if (!recipient) continue;
+
+    try {
+      const { messageId } = await channel.send({
+        to: recipient,
+        body: row.message_body,
+        ...(channel.name === 'email' && {
+          subject: `${EMAIL_SUBJECTS[row.template_event!]} (#${order?.readable_id || ''})`,
+        }),
+      });
+      await logChannelAttempt(row, channel, recipient, { messageId });
+      await supabase.from('whatsapp_outbox').update({ fallback_channel: channel.name }).eq('id', row.id);
+      if (order) {
+        await recordOrderEvent({ id: row.order_id, sme_id: order.sme_id }, 'message_sent', undefined, {
+          channel: channel.name,
+          event: row.template_event,
+          recipient,
+        });
+      }
+
+      console.log(`[Fallback] Sent by ${channel.name} via ${channel.provider} to ${recipient} (ID: ${messageId})`);
+      return channel.name;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[Fallback] ${channel.name} via ${channel.provider} failed: ${errorMessage}`);
+      await logChannelAttempt(row, channel, recipient, { error: errorMessage });
+    }
+  }
+
+  console.warn(`[Fallback] No channel could deliver outbox message ${row.id}`);
+  return null;
+}
+
+/**
+ * Fall back for critical messages WhatsApp accepted but reported failed/undelivered,
+ * or never confirmed as delivered within the timeout
+ */
+export async function processFallbackSweep(): Promise<{ fallenBack: number; error?: string }> {
+  const now = Date.now();
+
+  const { data: rows, error } = await supabase
+    .from('whatsapp_outbox')
+    .select('id, order_id, recipient_phone, message_body, template_event, provider_message_id, created_at, sent_at')
+    .eq('status', 'sent')
+    .is('fallback_at', null)
+    .is('fallback_resolved_at', null)
+    .in('template_event', CRITICAL_EVENTS)
+    .gte('sent_at', new Date(now - SWEEP_LOOKBACK_MS).toISOString())
+    .order('sent_at', { ascending: true })
+    .limit(SWEEP_BATCH_SIZE);
+
+  if (error) {
+    console.error('[Fallback] Sweep error:', error);
+    return { fallenBack: 0, error: error.message };
+  }
+  if (!rows || rows.length === 0) return { fallenBack: 0 };
+
+  // The attempt WhatsApp accepted; earlier failed attempts of a retried message don't count
+  const { data: logs } = await supabase
+    .from('whatsapp_logs')
+    .select('twilio_sid, provider, status, delivered_at, read_at')
+    .eq('channel', 'whatsapp')
+    .in('twilio_sid', rows.map((row) => row.provider_message_id).filter(Boolean));
+
+  let fallenBack = 0;
+  const resolved: string[] = [];
+  for (const row of rows) {
+    const sent = (logs || []).find((log) => log.twilio_sid === row.provider_message_id);
+    if (!sent || sent.delivered_at || sent.read_at) {
+      resolved.push(row.id);
+      continue;
+    }
+
+    const failed = sent.status === 'undelivered' || sent.status === 'failed';
+    const overdue = new Date(row.sent_at).getTime() < now - UNDELIVERED_TIMEOUT_MS;
+    const reportsDelivery = DELIVERY_REPORTING_PROVIDERS.includes(sent.provider);
+    if (!failed && !(overdue && reportsDelivery)) {
+      // Silence from a provider that never reports delivery won't tell us anything later either
+      if (overdue) resolved.push(row.id);
+      continue;
+    }
+
+    const reason = failed ? 'WhatsApp reported it undelivered' : `not delivered on WhatsApp after ${UNDELIVERED_TIMEOUT_MS / 60000} minutes`;
+    if (await sendFallback(row, reason)) fallenBack++;
+  }
+
+  // Delivered (or unjudgeable) messages leave the sweep, so they can't crowd out newer ones
+  if (resolved.length > 0) {
+    const { error: resolveError } = await supabase
+      .from('whatsapp_outbox')
+      .update({ fallback_resolved_at: new Date().toISOString() })
+      .in('id', resolved);
+    if (resolveError) console.error('[Fallback] Failed to resolve delivered messages:', resolveError);
+  }
+
+  return { fallenBack };
+}
+
+/**
+ * Start the periodic sweep for undelivered critical messages
+ */
+export function startFallbackWorker(intervalMs: number = 60 * 1000): NodeJS.Timeout {
+  console.log(`[Fallback] Checking undelivered critical messages every ${intervalMs / 1000}s (timeout ${UNDELIVERED_TIMEOUT_MS / 60000} min)`);
+
+  let isRunning = false;
+  const timer = setInterval(async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await processFallbackSweep();
+    } catch (err) {
+      console.error('[Fallback] Unexpected sweep error:', err);
+    } finally {
+      isRunning = false;
+    }
+  }, intervalMs);
+
+  // Allow graceful shutdown
+  timer.unref();
+
+  return timer;
+}
@@ -0,0 +1,226 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { normalizePhoneNumber, phoneNumberVariants } from '../shared/phone.js';
+import type { WhatsAppProviderName } from './providers/index.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for inbound WhatsApp: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+// Orders in these states no longer accept customer conversation
+const CLOSED_STATUSES = ['COMPLETED', 'CANCELLED'];
+
+export interface InboundMessage {
+  provider: WhatsAppProviderName;
+  providerMessageId: string;
+  from: string; // +E.164 where possible
+  to?: string;
+  body: string;
+  mediaUrl?: string;
+  profileName?: string;
+  // Set when the provider tells us which SME received it (e.g. Evolution instance)
+  smeId?: string;
+}
+
+export interface InboundRecord {
+  id: string;
+  smeId: string | null;
+  orderId: string | null;
+  message: InboundMessage;
+  duplicate: boolean;
+}
+
+const stripWhatsAppPrefix = (value?: string) => (value || '').replace(/^whatsapp:/, '');
+
+const normalize = (phone: string) => normalizePhoneNumber(phone) || phone;
+
+/**
+ * Parse a Twilio webhook body as an inbound customer message
+ * Returns null for delivery-status callbacks, which share the same webhook URL
+ */
+export function parseTwilioInbound(body: Record<string, string | undefined>): InboundMessage | null {
+  if (body.MessageStatus && body.MessageStatus !== 'received') return null;
+  if (!body.From || !body.MessageSid) return null;
+
+  const numMedia = parseInt(body.NumMedia || '0', 10);
+  if (body.Body === undefined && numMedia === 0) return null;
+
+  return {
+    provider: 'twilio',
+    providerMessageId: body.MessageSid,
+    from: normalize(stripWhatsAppPrefix(body.From)),
+    to: normalize(stripWhatsAppPrefix(body.To)),
+    body: body.Body || '',
+    mediaUrl: numMedia > 0 ? body.MediaUrl0 : undefined,
+    profileName: body.ProfileName,
+  };
+}
+
+interface EvolutionWebhookBody {
+  event?: string;
+  instance?: string;
+  data?: {
+    key?: { id?: string; remoteJid?: string; fromMe?: boolean };
+    pushName?: string;
+    message?: {
+      conversation?: string;
+      extendedTextMessage?: { text?: string };
+      imageMessage?: { caption?: string; url?: string };
+    };
+  };
+}
+
+/**
+ * Parse an Evolution API "messages.upsert" webhook as an inbound message
+ */
+export function parseEvolutionInbound(body: EvolutionWebhookBody): InboundMessage | null {
+  const event = (body.event || '').toLowerCase().replace('_', '.');
+  if (event !== 'messages.upsert' || !body.data?.key) return null;
+
+  const { key, message, pushName } = body.data;
+  // Ignore our own outgoing messages and group chats
+  if (key.fromMe || !key.remoteJid || !key.remoteJid.endsWith('@s.whatsapp.net') || !key.id) return null;
+
+  const text = message?.conversation
+    || message?.extendedTextMessage?.text
+    || message?.imageMessage?.caption
+    || '';
+
+  return {
+    provider: 'evolution',
+    providerMessageId: key.id,
+    from: normalize(`+${key.remoteJid.split('@')[0]}`),
+    body: text,
+    mediaUrl: message?.imageMessage?.url,
+    profileName: pushName,
+  };
+}
+
+/**
+ * The different ways the same number may have been typed into orders.customer_phone
+ */
+export function phoneVariants(phone: string): string[] {
+  const e164 = normalizePhoneNumber(phone);
+  return e164 ? phoneNumberVariants(e164) : [phone];
+}
+
+/**
+ * SME whose instance-based provider config uses this instance key
+ */
+export async function findSmeByInstance(instanceKey: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('whatsapp_configs')
+    .select('sme_id')
+    .eq('provider_config->>instanceKey', instanceKey)
+    .limit(1);
+
+  return data && data.length > 0 ? data[0].sme_id : null;
+}
+
+/**
+ * Find which SME owns the number (or instance) the customer wrote to
+ */
+async function resolveRecipientSme(message: InboundMessage): Promise<string | null> {
+  if (message.smeId) return message.smeId;
+  if (!message.to) return null;
+
+  const { data } = await supabase
+    .from('whatsapp_configs')
+    .select('sme_id')
+    .in('instance_id', phoneVariants(message.to))
+    .eq('is_connected', true)
+    .limit(1);
+
+  return data && data.length > 0 ? data[0].sme_id : null;
+}
+
+/**
+ * Most recent open order for this customer (optionally scoped to one SME)
+ */
+export async function findOpenOrderForPhone(phone: string, smeId: string | null) {
+  let query = supabase
+    .from('orders')
+    .select('id, sme_id, readable_id, status, customer_name, customer_phone, rider_token')
+    .in('customer_phone', phoneVariants(phone))
+    .not('status', 'in', `(${CLOSED_STATUSES.join(',')})`)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (smeId) query = query.eq('sme_id', smeId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('[Inbound] Order lookup error:', error);
+    return null;
+  }
+
+  return data && data.length > 0 ? data[0] : null;
+}
+
+/**
+ * SME of the customer's most recent order, open or not
+ * On the shared platform number this is who a STOP from a past customer is meant for
+ */
+export async function findLatestOrderSmeForPhone(phone: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('sme_id')
+    .in('customer_phone', phoneVariants(phone))
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('[Inbound] Order lookup error:', error);
+    return null;
+  }
+
+  return data && data.length > 0 ? data[0].sme_id : null;
+}
+
+/**
+ * Match an inbound message to an order and store it in the conversation
+ * Redelivered webhooks (same provider message ID) are stored once
+ */
+export async function recordInboundMessage(message: InboundMessage): Promise<InboundRecord | null> {
+  const recipientSme = await resolveRecipientSme(message);
+  const order = await findOpenOrderForPhone(message.from, recipientSme);
+  const smeId = order?.sme_id || recipientSme;
+
+  const { data, error } = await supabase
+    .from('whatsapp_inbound_messages')
+    .insert([
+      {
+        sme_id: smeId,
+        order_id: order?.id || null,
+        from_phone: message.from,
+        to_phone: message.to || null,
+        body: message.body,
+        media_url: message.mediaUrl || null,
+        profile_name: message.profileName || null,
+        provider: message.provider,
+        provider_message_id: message.providerMessageId,
+      },
+    ])
+    .select('id')
+    .single();
+
+  if (error) {
+    // 23505 = unique_violation on provider_message_id: webhook retry
+    if (error.code === '23505') {
+      return { id: '', smeId, orderId: order?.id || null, message, duplicate: true };
+    }
+    console.error('[Inbound] Failed to store message:', error);
+    return null;
+  }
+
+  console.log(`[Inbound] ${message.from} → order ${order?.readable_id || 'unmatched'}: ${message.body.slice(0, 80)}`);
+
+  return { id: data.id, smeId, orderId: order?.id || null, message, duplicate: false };
+}
@@ -0,0 +1,340 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { sendWhatsAppMessage, isCampaignTemplateEvent } from './whatsapp.js';
+import type { WhatsAppPayload, WhatsAppResponse } from './whatsapp.js';
+import { sendFallback } from './fallback.js';
+import { recordOrderEvent } from './orderEvents.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for WhatsApp outbox: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+// Tunables (see .env.example)
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.WHATSAPP_MAX_ATTEMPTS || '5', 10);
+const SME_MESSAGES_PER_MINUTE = parseInt(process.env.WHATSAPP_SME_MESSAGES_PER_MINUTE || '30', 10);
+const BATCH_SIZE = 20;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+
+export interface OutboxRow {
+  id: string;
+  sme_id: string | null;
+  order_id: string;
+  recipient_phone: string;
+  message_body: string;
+  media_url: string | null;
+  template_event: string | null;
+  template_variables: Record<string, string> | null;
+  priority: number;
+  status: 'pending' | 'processing' | 'sent' | 'dead' | 'skipped';
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  provider_message_id: string | null;
+  created_at: string;
+}
+
+export interface EnqueueOptions {
+  priority?: number;
+  maxAttempts?: number;
+  sendAt?: Date; // Hold the message until then (defaults to now)
+}
+
+export interface EnqueueResult {
+  success: boolean;
+  outboxId?: string;
+  error?: string;
+}
+
+function toOutboxRow(payload: WhatsAppPayload, options: EnqueueOptions) {
+  return {
+    sme_id: payload.smeId || null,
+    order_id: payload.orderId,
+    recipient_phone: payload.phone,
+    message_body: payload.message,
+    media_url: payload.mediaUrl || null,
+    template_event: payload.template?.event || null,
+    template_variables: payload.template?.variables || null,
+    priority: options.priority ?? 0,
+    max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    status: 'pending',
+    next_attempt_at: (options.sendAt || new Date()).toISOString(),
+  };
+}
+
+/**
+ * Queue a WhatsApp message for the background worker
+ * The message survives restarts; delivery is attempted by processOutboxBatch
+ */
+export async function enqueueWhatsAppMessage(
+  payload: WhatsAppPayload,
+  options: EnqueueOptions = {}
+): Promise<EnqueueResult> {
+  const { data, error } = await supabase
+    .from('whatsapp_outbox')
+    .insert([toOutboxRow(payload, options)])
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('[Outbox Queue] Enqueue error:', error);
+    return { success: false, error: 'Failed to queue WhatsApp message' };
+  }
+
+  return { success: true, outboxId: data.id };
+}
+
+/**
+ * Queue many messages in one insert (bulk import, campaigns)
+ */
+export async function enqueueWhatsAppMessages(
+  payloads: WhatsAppPayload[],
+  options: EnqueueOptions = {}
+): Promise<{ success: boolean; queued: number; rows?: { id: string; recipient_phone: string }[]; error?: string }> {
+  if (payloads.length === 0) return { success: true, queued: 0, rows: [] };
+
+  const { data, error } = await supabase
+    .from('whatsapp_outbox')
+    .insert(payloads.map((p) => toOutboxRow(p, options)))
+    .select('id, recipient_phone');
+
+  if (error) {
+    console.error('[Outbox Queue] Bulk enqueue error:', error);
+    return { success: false, queued: 0, error: 'Failed to queue WhatsApp messages' };
+  }
+
+  return { success: true, queued: payloads.length, rows: data || [] };
+}
+
+// --- Per-SME throughput limiting ---
+// Sliding one-minute window of send timestamps per SME. The worker runs in a
+// single process, so in-memory state is sufficient.
+const sendWindows = new Map<string, number[]>();
+
+/**
+ * Returns 0 if the SME may send now, else ms until a slot frees up
+ */
+function reserveSendSlot(smeId: string | null): number {
+  const key = smeId || 'platform';
+  const now = Date.now();
+  const window = (sendWindows.get(key) || []).filter((t) => t > now - RATE_WINDOW_MS);
+
+  if (window.length >= SME_MESSAGES_PER_MINUTE) {
+    sendWindows.set(key, window);
+    return window[0] + RATE_WINDOW_MS - now;
+  }
+
+  window.push(now);
+  sendWindows.set(key, window);
+  return 0;
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, attempts - 1), MAX_BACKOFF_MS);
+}
+
+async function recordAttempt(row: OutboxRow, attempt: number, result: WhatsAppResponse) {
+  const now = new Date().toISOString();
+  const { error } = await supabase.from('whatsapp_logs').insert([
+    {
+      order_id: row.order_id,
+      provider: result.provider || null,
+      recipient_phone: row.recipient_phone,
+      message_body: row.message_body,
+      twilio_sid: result.messageSid,
+      content_sid: result.contentSid || null,
+      status: result.success ? 'sent' : result.suppressed ? 'suppressed' : 'failed',
+      outbox_id: row.id,
+      attempt,
+      queued_at: row.created_at,
+      ...(result.success
+        ? { sent_at: now }
+        : { ...(!result.suppressed && { failed_at: now }), error_message: result.error || null }),
+      created_at: now,
+    },
+  ]);
+
+  if (error) {
+    console.warn('[Outbox Queue] Failed to log attempt:', error);
+  }
+
+  // Campaign sends only reference the customer's latest order; they aren't part of its timeline
+  if (result.success && row.sme_id && row.order_id && !isCampaignTemplateEvent(row.template_event)) {
+    await recordOrderEvent({ id: row.order_id, sme_id: row.sme_id }, 'message_sent', undefined, {
+      channel: 'whatsapp',
+      event: row.template_event,
+      recipient: row.recipient_phone,
+    });
+  }
+}
+
+async function deliverRow(row: OutboxRow) {
+  const waitMs = reserveSendSlot(row.sme_id);
+  if (waitMs > 0) {
+    // Over the SME's throughput limit: put it back without spending an attempt
+    await supabase
+      .from('whatsapp_outbox')
+      .update({
+        status: 'pending',
+        locked_at: null,
+        next_attempt_at: new Date(Date.now() + waitMs).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', row.id);
+    return;
+  }
+
+  const attempt = row.attempts + 1;
+  const result = await sendWhatsAppMessage({
+    phone: row.recipient_phone,
+    message: row.message_body,
+    orderId: row.order_id,
+    mediaUrl: row.media_url || undefined,
+    smeId: row.sme_id || undefined,
+    template: row.template_event
+      ? { event: row.template_event, variables: row.template_variables || {} }
+      : undefined,
+  });
+
+  await recordAttempt(row, attempt, result);
+
+  if (result.success) {
+    await supabase
+      .from('whatsapp_outbox')
+      .update({
+        status: 'sent',
+        attempts: attempt,
+        locked_at: null,
+        last_error: null,
+        provider_message_id: result.messageSid,
+        sent_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', row.id);
+    return;
+  }
+
+  if (result.suppressed) {
+    // Opted-out recipient: logged above, nothing to retry
+    await supabase
+      .from('whatsapp_outbox')
+      .update({
+        status: 'skipped',
+        attempts: attempt,
+        locked_at: null,
+        last_error: result.error || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', row.id);
+    return;
+  }
+
+  const isDead = result.retryable === false || attempt >= row.max_attempts;
+  await supabase
+    .from('whatsapp_outbox')
+    .update({
+      status: isDead ? 'dead' : 'pending',
+      attempts: attempt,
+      locked_at: null,
+      last_error: result.error || 'Unknown error',
+      next_attempt_at: new Date(Date.now() + backoffMs(attempt)).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', row.id);
+
+  if (isDead) {
+    console.warn(`[Outbox Queue] Message ${row.id} moved to dead-letter after ${attempt} attempt(s): ${result.error}`);
+    // OTPs, dispatch and cancellation notices still need to reach the customer
+    await sendFallback(row, result.error || 'WhatsApp delivery failed');
+  }
+}
+
+/**
+ * Claim and deliver one batch of due messages
+ */
+export async function processOutboxBatch(): Promise<{ processed: number; error?: string }> {
+  const { data: rows, error } = await supabase.rpc('claim_whatsapp_outbox', { p_limit: BATCH_SIZE });
+
+  if (error) {
+    console.error('[Outbox Queue] Claim error:', error);
+    return { processed: 0, error: error.message };
+  }
+
+  const claimed = (rows || []) as OutboxRow[];
+  for (const row of claimed) {
+    try {
+      await deliverRow(row);
+    } catch (err) {
+      // Leave the row in 'processing'; it is reclaimed once the lock goes stale
+      console.error(`[Outbox Queue] Unexpected error delivering ${row.id}:`, err);
+    }
+  }
+
+  return { processed: claimed.length };
+}
+
+/**
+ * Start the background worker that drains the outbox
+ */
+export function startOutboxWorker(intervalMs: number = 2000): NodeJS.Timeout {
+  console.log(`[Outbox Queue] Worker polling every ${intervalMs}ms (limit ${SME_MESSAGES_PER_MINUTE}/min per SME)`);
+
+  let isRunning = false;
+  const timer = setInterval(async () => {
+    // Skip the tick if the previous batch is still sending
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await processOutboxBatch();
+    } finally {
+      isRunning = false;
+    }
+  }, intervalMs);
+
+  // Allow graceful shutdown
+  timer.unref();
+
+  return timer;
+}
+
+/**
+ * Messages for an SME in a given state (dashboard dead-letter view)
+ */
+export async function listQueuedMessages(smeId: string, status: OutboxRow['status'] = 'dead', limit: number = 50) {
+  return supabase
+    .from('whatsapp_outbox')
+    .select('id, order_id, recipient_phone, message_body, status, attempts, max_attempts, last_error, next_attempt_at, created_at, updated_at')
+    .eq('sme_id', smeId)
+    .eq('status', status)
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+}
+
+/**
+ * Re-drive a dead-lettered message: reset attempts and make it due now
+ */
+export async function retryDeadLetter(outboxId: string, smeId: string) {
+  return supabase
+    .from('whatsapp_outbox')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      locked_at: null,
+      next_attempt_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', outboxId)
+    .eq('sme_id', smeId)
+    .eq('status', 'dead')
+    .select('id')
+    .maybeSingle();
+}
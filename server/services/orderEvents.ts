@@ -0,0 +1,151 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import type { OrderActor } from '../shared/orderStatus.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for order events: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+export type OrderEventType =
+  | 'created'
+  | 'status_changed'
+  | 'rider_assigned'
+  | 'edited'
+  | 'otp_attempt'
+  | 'csat_submitted'
+  | 'message_sent';
+
+export interface OrderEventRow {
+  id: string;
+  order_id: string;
+  sme_id: string;
+  type: OrderEventType;
+  actor_type: OrderActor['type'];
+  actor_id: string | null;
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
+// What the customer tracking page may see: progress only, no people, edits or messages
+export interface PublicOrderEvent {
+  type: 'created' | 'status_changed' | 'rider_assigned';
+  status: string | null; // The status the order moved to
+  created_at: string;
+}
+
+export interface NewOrderEvent {
+  order: { id: string; sme_id: string };
+  type: OrderEventType;
+  actor?: OrderActor;
+  data?: Record<string, unknown>;
+}
+
+export const SYSTEM_ACTOR: OrderActor = { type: 'system' };
+
+export const smeActor = (smeId: string): OrderActor => ({ type: 'sme', id: smeId });
+
+const PUBLIC_EVENT_TYPES: PublicOrderEvent['type'][] = ['created', 'status_changed', 'rider_assigned'];
+
+/**
+ * Add entries to the orders' history
+ * Never throws: losing a history entry must not fail the change it describes
+ */
+export async function recordOrderEvents(events: NewOrderEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  const { error } = await supabase.from('order_events').insert(
+    events.map(({ order, type, actor = SYSTEM_ACTOR, data = {} }) => ({
+      order_id: order.id,
+      sme_id: order.sme_id,
+      type,
+      actor_type: actor.type,
+      actor_id: actor.id || null,
+      data,
+    }))
+  );
+
+  if (error) {
+    console.warn(`[Order Events] Failed to record ${events.map((e) => e.type).join(', ')}:`, error.message);
+  }
+}
+
+/**
+ * Add one entry to an order's history
+ */
+export async function recordOrderEvent(
+  order: { id: string; sme_id: string },
+  type: OrderEventType,
+  actor: OrderActor = SYSTEM_ACTOR,
+  data: Record<string, unknown> = {}
+): Promise<void> {
+  await recordOrderEvents([{ order, type, actor, data }]);
+}
+
+/**
+ * Fields that differ between two versions of an order, as { field: { from, to } }
+ * form_data is compared key by key, so a custom field shows up under its own key
+ */
+export function diffOrderFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+  for (const [field, value] of Object.entries(after)) {
+    if (field === 'form_data') {
+      const oldData = (before.form_data || {}) as Record<string, unknown>;
+      const newData = (value || {}) as Record<string, unknown>;
+      for (const key of new Set([...Object.keys(oldData), ...Object.keys(newData)])) {
+        if (!same(oldData[key], newData[key])) changes[key] = { from: oldData[key] ?? null, to: newData[key] ?? null };
+      }
+    } else if (!same(before[field], value)) {
+      changes[field] = { from: before[field] ?? null, to: value ?? null };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The full history of one of the SME's orders, oldest first
+ */
+export async function listOrderEvents(smeId: string, orderId: string) {
+  return supabase
+    .from('order_events')
+    .select('*')
+    .eq('order_id', orderId)
+    .eq('sme_id', smeId)
+    .order('created_at', { ascending: true });
+}
+
+/**
+ * The customer-facing history of an order: when it was placed, each status it moved to
+ * and when a rider was assigned, with no actors, phone numbers or other details
+ */
+export async function listPublicOrderEvents(orderId: string): Promise<PublicOrderEvent[]> {
+  const { data, error } = await supabase
+    .from('order_events')
+    .select('type, data, created_at')
+    .eq('order_id', orderId)
+    .in('type', PUBLIC_EVENT_TYPES)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.warn('[Order Events] Failed to load public history:', error.message);
+    return [];
+  }
+
+  return (data || []).map((event) => ({
+    type: event.type as PublicOrderEvent['type'],
+    status: typeof event.data?.to === 'string' ? event.data.to : event.type === 'created' ? 'NEW' : null,
+    created_at: event.created_at,
+  }));
+}
@@ -0,0 +1,193 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { enqueueWhatsAppMessage } from './messageQueue.js';
+import { composeOrderMessage } from './templates.js';
+import type { TemplateEvent } from './templates.js';
+import type { OrderStatus } from '../shared/orderStatus.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for order notifications: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const BATCH_SIZE = 50;
+
+const ORDER_COLUMNS =
+  'id, sme_id, readable_id, status, customer_name, customer_phone, delivery_address, price_total, rider_phone, tracking_token, rider_token, form_data, preferred_language, last_notified_status';
+
+export type { OrderStatus };
+
+// Messages announcing each status; RIDER_ASSIGNED goes to the rider, the rest to the customer
+const STATUS_EVENTS: Record<OrderStatus, TemplateEvent[]> = {
+  NEW: ['NEW'],
+  PROCESSING: ['PROCESSING'],
+  READY: ['READY', 'RIDER_ASSIGNED'],
+  DISPATCHED: ['DISPATCHED'],
+  COMPLETED: ['COMPLETED'],
+  CANCELLED: ['CANCELLED'],
+};
+
+interface NotifiableOrder {
+  id: string;
+  sme_id: string;
+  readable_id: string;
+  status: OrderStatus;
+  customer_name: string;
+  customer_phone: string;
+  delivery_address: string;
+  price_total: number;
+  rider_phone: string | null;
+  tracking_token: string;
+  rider_token: string | null;
+  form_data: Record<string, unknown> | null;
+  preferred_language: string | null;
+  last_notified_status: string | null;
+}
+
+export interface StatusNotificationResult {
+  notified: boolean; // false when the status was already announced
+  queued: TemplateEvent[];
+  error?: string;
+}
+
+/**
+ * Claim the right to announce the order's current status
+ * Guarded on status and notification_pending, so concurrent callers (worker, routes)
+ * cannot both win and a status changed in the meantime is left for the next pass
+ */
+async function claimNotification(orderId: string, status: OrderStatus): Promise<NotifiableOrder | null> {
+  const { data, error } = await supabase
+    .from('orders')
+    .update({ last_notified_status: status, last_whatsapp_notification: new Date().toISOString() })
+    .eq('id', orderId)
+    .eq('status', status)
+    .eq('notification_pending', true)
+    .select(ORDER_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Order Notifications] Claim error:', error);
+    return null;
+  }
+  return data as NotifiableOrder | null;
+}
+
+/**
+ * Send the templated message(s) for the order's current status, once
+ */
+export async function notifyOrderStatus(
+  order: Pick<NotifiableOrder, 'id' | 'status' | 'last_notified_status'>
+): Promise<StatusNotificationResult> {
+  const events = STATUS_EVENTS[order.status];
+  if (!events) return { notified: false, queued: [], error: `Unknown order status ${order.status}` };
+
+  const claimed = await claimNotification(order.id, order.status);
+  if (!claimed) return { notified: false, queued: [] };
+
+  const queued: TemplateEvent[] = [];
+  for (const event of events) {
+    const phone = event === 'RIDER_ASSIGNED' ? claimed.rider_phone : claimed.customer_phone;
+    if (!phone) continue;
+
+    const { message, template } = await composeOrderMessage(claimed.sme_id, event, claimed);
+    const result = await enqueueWhatsAppMessage({ phone, message, template, orderId: claimed.id, smeId: claimed.sme_id });
+
+    if (!result.success) {
+      // Nothing reached the queue yet: release the claim so the next pass retries
+      if (queued.length === 0) {
+        await supabase
+          .from('orders')
+          .update({ last_notified_status: order.last_notified_status })
+          .eq('id', claimed.id)
+          .eq('last_notified_status', claimed.status);
+      }
+      return { notified: queued.length > 0, queued, error: result.error };
+    }
+    queued.push(event);
+  }
+
+  console.log(`[Order Notifications] ${claimed.readable_id} ${claimed.status}: queued ${queued.join(', ') || 'nothing (no phone)'}`);
+  return { notified: true, queued };
+}
+
+/**
+ * Send the rider link to a rider assigned after the order was announced READY
+ * Earlier assignments are covered by the READY announcement itself
+ */
+export async function notifyRiderAssigned(orderId: string): Promise<{ queued: boolean; error?: string }> {
+  const { data, error } = await supabase.from('orders').select(ORDER_COLUMNS).eq('id', orderId).maybeSingle();
+  if (error) {
+    console.error('[Order Notifications] Rider lookup error:', error);
+    return { queued: false, error: error.message };
+  }
+
+  const order = data as NotifiableOrder | null;
+  if (!order?.rider_phone || !order.rider_token) return { queued: false };
+
+  const { message, template } = await composeOrderMessage(order.sme_id, 'RIDER_ASSIGNED', order);
+  const result = await enqueueWhatsAppMessage({ phone: order.rider_phone, message, template, orderId: order.id, smeId: order.sme_id });
+  if (!result.success) return { queued: false, error: result.error };
+
+  console.log(`[Order Notifications] ${order.readable_id} ${order.status}: queued RIDER_ASSIGNED for new rider`);
+  return { queued: true };
+}
+
+/**
+ * Announce every order whose status changed since its last notification
+ * Catches changes made anywhere: the dashboard, other routes, or directly in the database
+ */
+export async function processPendingNotifications(): Promise<{ notified: number; error?: string }> {
+  const { data: orders, error } = await supabase
+    .from('orders')
+    .select('id, status, last_notified_status')
+    .eq('notification_pending', true)
+    .order('updated_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('[Order Notifications] Fetch error:', error);
+    return { notified: 0, error: error.message };
+  }
+
+  let notified = 0;
+  for (const order of (orders || []) as Pick<NotifiableOrder, 'id' | 'status' | 'last_notified_status'>[]) {
+    try {
+      const result = await notifyOrderStatus(order);
+      if (result.notified) notified++;
+    } catch (err) {
+      console.error(`[Order Notifications] Unexpected error for ${order.id}:`, err);
+    }
+  }
+
+  return { notified };
+}
+
+/**
+ * Start the background worker that turns status changes into messages
+ */
+export function startOrderNotificationWorker(intervalMs: number = 3000): NodeJS.Timeout {
+  console.log(`[Order Notifications] Watching for status changes every ${intervalMs}ms`);
+
+  let isRunning = false;
+  const timer = setInterval(async () => {
+    // Skip the tick if the previous pass is still running
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await processPendingNotifications();
+    } finally {
+      isRunning = false;
+    }
+  }, intervalMs);
+
+  // Allow graceful shutdown
+  timer.unref();
+
+  return timer;
+}
@@ -0,0 +1,61 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { getSmeSettings } from './smeSettings.js';
+import { formatOrderId } from '../shared/orderNumbers.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for order numbers: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+// Inserts retried with fresh numbers when a readable ID is already taken
+export const READABLE_ID_ATTEMPTS = 3;
+
+export interface AllocateResult {
+  success: boolean;
+  ids?: string[];
+  error?: string;
+}
+
+/**
+ * Readable IDs for `count` new orders of the SME, in the SME's prefix and format
+ * The numbers come from the SME's counter in one atomic step (allocate_order_numbers), so
+ * concurrent creates and imports never share a number. A number is used up even if the
+ * order it was meant for is never saved; the counter never goes back
+ */
+export async function allocateReadableIds(smeId: string, count = 1, createdAt: Date = new Date()): Promise<AllocateResult> {
+  if (count < 1) return { success: true, ids: [] };
+
+  const [{ data: first, error }, settings] = await Promise.all([
+    supabase.rpc('allocate_order_numbers', { p_sme_id: smeId, p_count: count }),
+    getSmeSettings(smeId),
+  ]);
+
+  if (error || first === null || first === undefined) {
+    console.error(`[Order Numbers] Failed to allocate ${count} for ${smeId}:`, error);
+    return { success: false, error: 'Failed to allocate order numbers' };
+  }
+
+  const start = Number(first);
+  return {
+    success: true,
+    ids: Array.from({ length: count }, (_, i) =>
+      formatOrderId(settings.order_id_prefix, settings.order_id_format, start + i, createdAt)
+    ),
+  };
+}
+
+/**
+ * True when an insert failed because the SME already has an order with that readable ID
+ * A number is never handed out twice, but an ID written in an older prefix or format can
+ * read the same as a new one; the insert is then retried with the next numbers
+ */
+export function isReadableIdConflict(error: { code?: string; message?: string } | null): boolean {
+  return error?.code === '23505' && Boolean(error.message?.includes('idx_orders_sme_readable_id'));
+}
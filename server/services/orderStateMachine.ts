@@ -0,0 +1,126 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { notifyOrderStatus } from './orderNotifications.js';
+import { recordOrderEvent } from './orderEvents.js';
+import { transitionError } from '../shared/orderStatus.js';
+import type { OrderStatus, TransitionContext, CancellationReason } from '../shared/orderStatus.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for the order state machine: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+export interface TransitionOrder {
+  id: string;
+  status: string;
+  rider_phone?: string | null;
+}
+
+export interface TransitionedOrder {
+  id: string;
+  sme_id: string;
+  readable_id: string;
+  status: OrderStatus;
+  last_notified_status: string | null;
+  [column: string]: unknown;
+}
+
+export interface TransitionResult {
+  success: boolean;
+  order?: TransitionedOrder;
+  error?: string;
+  code?: 'INVALID_TRANSITION' | 'DATABASE_ERROR';
+  statusCode?: number;
+}
+
+/**
+ * Runs after an order has moved to a new status; failures are logged, never undo the move
+ */
+export type TransitionHook = (order: TransitionedOrder, from: OrderStatus, context: TransitionContext) => Promise<unknown>;
+
+const hooks: Array<{ status: OrderStatus | '*'; hook: TransitionHook }> = [];
+
+/**
+ * Run `hook` whenever an order enters `status` ('*' for every status)
+ */
+export function onTransition(status: OrderStatus | '*', hook: TransitionHook) {
+  hooks.push({ status, hook });
+}
+
+const rejected = (error: string): TransitionResult => ({ success: false, error, code: 'INVALID_TRANSITION', statusCode: 409 });
+
+/**
+ * Move an order to a new status if the lifecycle allows it, saving `changes` with it
+ * The write only applies if the order is still in the status it was checked in, so two
+ * concurrent moves cannot both succeed
+ */
+export async function transitionOrder(
+  order: TransitionOrder,
+  to: OrderStatus,
+  context: TransitionContext = {},
+  changes: Record<string, unknown> = {}
+): Promise<TransitionResult> {
+  const reason = transitionError({ ...order, ...changes }, to, context);
+  if (reason) return rejected(reason);
+
+  const { data, error } = await supabase
+    .from('orders')
+    .update({ ...changes, status: to, updated_at: new Date().toISOString() })
+    .eq('id', order.id)
+    .eq('status', order.status)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[Order State] Failed to move ${order.id} to ${to}:`, error);
+    return { success: false, error: 'Failed to update order status', code: 'DATABASE_ERROR', statusCode: 500 };
+  }
+  if (!data) return rejected(`Order is no longer ${order.status}; it was updated elsewhere`);
+
+  const from = order.status as OrderStatus;
+  for (const { status, hook } of hooks) {
+    if (status !== '*' && status !== to) continue;
+    try {
+      await hook(data as TransitionedOrder, from, context);
+    } catch (hookError) {
+      console.error(`[Order State] Hook failed after ${data.readable_id} ${from} -> ${to}:`, hookError);
+    }
+  }
+
+  return { success: true, order: data as TransitionedOrder };
+}
+
+/**
+ * What cancelling saves with the status: the reason, and the rider link revoked so the rider
+ * can no longer open the order or share their location on it. The customer's tracking and
+ * feedback links use tracking_token and keep working
+ */
+export function cancellationChanges(reason: CancellationReason, notes?: string | null): Record<string, unknown> {
+  return {
+    cancellation_reason: reason,
+    cancellation_notes: notes || null,
+    cancelled_at: new Date().toISOString(),
+    rider_token: null,
+    rider_lat: null,
+    rider_lng: null,
+  };
+}
+
+// History first, so the entry precedes the messages the move sends
+onTransition('*', (order, from, context) =>
+  recordOrderEvent(order, 'status_changed', context.actor, {
+    from,
+    to: order.status,
+    ...(order.status === 'COMPLETED' && { via: context.otpVerified ? 'otp' : 'override' }),
+    ...(order.status === 'CANCELLED' && { reason: order.cancellation_reason, notes: order.cancellation_notes }),
+  })
+);
+
+// Announce the new status straight away; the notification worker retries anything missed
+onTransition('*', (order) => notifyOrderStatus(order));
@@ -0,0 +1,662 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { getSmeSettings } from './smeSettings.js';
+import { allocateReadableIds, isReadableIdConflict, READABLE_ID_ATTEMPTS } from './orderNumbers.js';
+import { normalizeLanguage, loadTemplateSet, renderTemplate, buildTemplateVariables, languageFor } from './templates.js';
+import type { Language, TemplateEvent } from './templates.js';
+import { enqueueWhatsAppMessages } from './messageQueue.js';
+import { notifyOrderStatus, notifyRiderAssigned } from './orderNotifications.js';
+import { transitionOrder, cancellationChanges } from './orderStateMachine.js';
+import { recordOrderEvent, recordOrderEvents, diffOrderFields, smeActor } from './orderEvents.js';
+import type { NewOrderEvent } from './orderEvents.js';
+import { parsePhoneNumber } from '../shared/phone.js';
+import {
+  ORDER_STATUSES,
+  INITIAL_STATUS,
+  CANCELLATION_REASONS,
+  MAX_CANCELLATION_NOTES_LENGTH,
+  isOrderStatus,
+  isCancellationReason,
+  isTerminalStatus,
+} from '../shared/orderStatus.js';
+import type { OrderStatus, CancellationReason } from '../shared/orderStatus.js';
+import type { CountryCode } from '../shared/phone.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for orders: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CONSENT_SOURCES = ['order_form', 'csv_import'];
+const DEFAULT_FORM_NAME = 'Default Order Form';
+const DEFAULT_LIST_LIMIT = 200;
+const MAX_LIST_LIMIT = 1000;
+
+// Columns on the order itself; any other form field is kept in form_data
+const CORE_FIELDS = ['customer_name', 'customer_phone', 'customer_email', 'delivery_address', 'price_total', 'preferred_language'];
+
+// Never stored in form_data, even if an edit form sends the whole order back
+const RESERVED_KEYS = [
+  ...CORE_FIELDS,
+  'id', 'sme_id', 'readable_id', 'legacy_readable_id', 'status', 'rider_phone', 'tracking_token', 'rider_token', 'rider_lat', 'rider_lng',
+  'csat_score', 'csat_comment', 'form_data', 'whatsapp_consent_at', 'whatsapp_consent_source',
+  'last_notified_status', 'last_whatsapp_notification', 'notification_pending', 'created_at', 'updated_at',
+  'cancellation_reason', 'cancellation_notes', 'cancelled_at',
+];
+
+export type OrderErrorCode = 'VALIDATION_ERROR' | 'NOT_FOUND' | 'INVALID_TRANSITION' | 'DATABASE_ERROR';
+
+export interface OrderRow {
+  id: string;
+  sme_id: string;
+  readable_id: string;
+  status: OrderStatus;
+  last_notified_status: string | null;
+  [column: string]: unknown;
+}
+
+export type OrderInput = Record<string, unknown>;
+
+export interface OrderResult {
+  success: boolean;
+  order?: OrderRow;
+  error?: string;
+  code?: OrderErrorCode;
+  statusCode?: number;
+  fieldErrors?: Record<string, string>; // Keyed by order column or form field_key
+}
+
+// A row of a batch that failed validation; index is its position in the batch
+export interface OrderRejection {
+  index: number;
+  error: string;
+  fieldErrors: Record<string, string>;
+}
+
+export interface OrderBatchResult {
+  success: boolean;
+  orders?: OrderRow[];
+  rejected?: OrderRejection[];
+  notificationsQueued?: number;
+  error?: string;
+  code?: OrderErrorCode;
+  statusCode?: number;
+}
+
+export interface OrderListFilters {
+  status?: string; // One status or a comma-separated list
+  search?: string; // Customer name, phone or order number
+  from?: string; // created_at lower bound (ISO date)
+  to?: string; // created_at upper bound (ISO date)
+  limit?: number;
+  offset?: number;
+}
+
+interface SchemaField {
+  field_key: string;
+  label: string;
+  type: string;
+  required: boolean;
+  options: Array<{ label: string; value: string }> | null;
+  validation: { minLength?: number; maxLength?: number; pattern?: string } | null;
+}
+
+// What validating an order needs from the SME's setup, loaded once when validating a batch
+interface OrderFormContext {
+  defaultCountry: CountryCode;
+  formFields: SchemaField[];
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const validationFailed = (fieldErrors: Record<string, string>): OrderResult => ({
+  success: false,
+  error: `Order is invalid: ${Object.values(fieldErrors).join('; ')}`,
+  code: 'VALIDATION_ERROR',
+  statusCode: 400,
+  fieldErrors,
+});
+
+const notFound = (): OrderResult => ({ success: false, error: 'Order not found', code: 'NOT_FOUND', statusCode: 404 });
+
+const databaseError = (action: string, error: { message: string }): OrderResult => {
+  console.error(`[Orders] Failed to ${action}:`, error);
+  return { success: false, error: `Failed to ${action}`, code: 'DATABASE_ERROR', statusCode: 500 };
+};
+
+/**
+ * Fields of the form the SME takes orders with: the default order form, or their newest one
+ * (the same choice the dashboard makes when rendering the order form)
+ */
+async function loadOrderFormFields(smeId: string): Promise<SchemaField[]> {
+  const { data: schemas } = await supabase
+    .from('form_schemas')
+    .select('id, name')
+    .eq('sme_id', smeId)
+    .order('created_at', { ascending: false });
+
+  const schema = (schemas || []).find((s) => s.name === DEFAULT_FORM_NAME) || schemas?.[0];
+  if (!schema) return [];
+
+  const { data: fields } = await supabase
+    .from('form_fields')
+    .select('field_key, label, type, required, options, validation')
+    .eq('schema_id', schema.id)
+    .order('field_order', { ascending: true });
+
+  return (fields || []) as SchemaField[];
+}
+
+async function loadOrderFormContext(smeId: string): Promise<OrderFormContext> {
+  const [{ default_country: defaultCountry }, formFields] = await Promise.all([getSmeSettings(smeId), loadOrderFormFields(smeId)]);
+  return { defaultCountry, formFields };
+}
+
+/**
+ * Check one value against its form field; returns the error message or null
+ */
+function validateFormField(field: SchemaField, value: unknown, defaultCountry: CountryCode): string | null {
+  if (isBlank(value) || (field.type === 'checkbox' && value === false)) {
+    return field.required ? `${field.label} is required` : null;
+  }
+
+  switch (field.type) {
+    case 'number':
+      if (!Number.isFinite(Number(value))) return `${field.label} must be a number`;
+      break;
+    case 'checkbox':
+      if (typeof value !== 'boolean') return `${field.label} must be true or false`;
+      break;
+    case 'email':
+      if (!EMAIL_PATTERN.test(String(value).trim())) return `${field.label} must be an email address`;
+      break;
+    case 'phone': {
+      const phone = parsePhoneNumber(String(value), defaultCountry);
+      if (!phone.valid) return phone.error;
+      break;
+    }
+    case 'date':
+      if (Number.isNaN(Date.parse(String(value)))) return `${field.label} must be a date`;
+      break;
+    case 'select':
+      if (field.options?.length && !field.options.some((o) => o.value === String(value))) {
+        return `${field.label} must be one of: ${field.options.map((o) => o.label).join(', ')}`;
+      }
+      break;
+  }
+
+  const rules = field.validation || {};
+  const text = String(value);
+  if (rules.minLength && text.length < rules.minLength) return `${field.label} must be at least ${rules.minLength} characters`;
+  if (rules.maxLength && text.length > rules.maxLength) return `${field.label} must be at most ${rules.maxLength} characters`;
+  if (rules.pattern) {
+    try {
+      if (!new RegExp(rules.pattern).test(text)) return `${field.label} is not in the expected format`;
+    } catch {
+      console.warn(`[Orders] Ignoring invalid pattern on form field ${field.field_key}`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate and normalise the writable order fields in the input
+ * On create every core field is checked; on update only the ones present
+ */
+async function buildOrderValues(
+  smeId: string,
+  input: OrderInput,
+  mode: 'create' | 'update',
+  context?: OrderFormContext
+): Promise<{ values: Record<string, unknown>; fieldErrors: Record<string, string> }> {
+  const values: Record<string, unknown> = {};
+  const fieldErrors: Record<string, string> = {};
+  const has = (key: string) => mode === 'create' || input[key] !== undefined;
+  const defaultCountry = context?.defaultCountry ?? (await getSmeSettings(smeId)).default_country;
+
+  if (has('customer_name')) {
+    const name = String(input.customer_name ?? '').trim();
+    if (!name) fieldErrors.customer_name = 'Customer name is required';
+    else values.customer_name = name;
+  }
+
+  if (has('customer_phone')) {
+    const phone = parsePhoneNumber(String(input.customer_phone ?? ''), defaultCountry);
+    if (!phone.valid) fieldErrors.customer_phone = phone.error;
+    else values.customer_phone = phone.e164;
+  }
+
+  if (has('customer_email')) {
+    const email = String(input.customer_email ?? '').trim();
+    if (email && !EMAIL_PATTERN.test(email)) fieldErrors.customer_email = `"${email}" is not an email address`;
+    else values.customer_email = email || null;
+  }
+
+  if (has('delivery_address')) {
+    values.delivery_address = String(input.delivery_address ?? '').trim();
+  }
+
+  if (has('price_total')) {
+    const price = isBlank(input.price_total) ? 0 : Number(input.price_total);
+    if (!Number.isFinite(price) || price < 0) fieldErrors.price_total = 'Price must be a number of 0 or more';
+    else values.price_total = price;
+  }
+
+  if (has('preferred_language')) {
+    const language = isBlank(input.preferred_language) ? 'en' : normalizeLanguage(input.preferred_language);
+    if (!language) fieldErrors.preferred_language = `"${input.preferred_language}" is not a supported language`;
+    else values.preferred_language = language;
+  }
+
+  if (input.status !== undefined) {
+    if (!isOrderStatus(input.status)) {
+      fieldErrors.status = `Status must be one of ${ORDER_STATUSES.join(', ')}`;
+    } else if (mode === 'create' && input.status !== INITIAL_STATUS) {
+      fieldErrors.status = `New orders start as ${INITIAL_STATUS}`;
+    } else {
+      values.status = input.status;
+    }
+  }
+
+  if (input.rider_phone !== undefined) {
+    if (isBlank(input.rider_phone)) {
+      values.rider_phone = null;
+      values.rider_token = null;
+    } else {
+      const phone = parsePhoneNumber(String(input.rider_phone), defaultCountry);
+      if (!phone.valid) {
+        fieldErrors.rider_phone = phone.error;
+      } else {
+        values.rider_phone = phone.e164;
+        // A fresh rider link for every assignment, so a previous rider's link stops working;
+        // the customer's tracking link (tracking_token) stays the same
+        values.rider_token = crypto.randomBytes(16).toString('hex');
+      }
+    }
+  }
+
+  if (has('form_data')) {
+    const formData: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(input.form_data || {})) {
+      if (!RESERVED_KEYS.includes(key)) formData[key] = value;
+    }
+
+    for (const field of context?.formFields ?? (await loadOrderFormFields(smeId))) {
+      const isCore = CORE_FIELDS.includes(field.field_key);
+      // Core fields are checked above; the form can only make them required
+      if (isCore && !has(field.field_key)) continue;
+      const value = isCore ? values[field.field_key] ?? input[field.field_key] : formData[field.field_key];
+      const error = fieldErrors[field.field_key] ? null : validateFormField(field, value, defaultCountry);
+      if (error) fieldErrors[field.field_key] = error;
+      else if (!isCore && field.type === 'number' && !isBlank(value)) formData[field.field_key] = Number(value);
+    }
+
+    values.form_data = formData;
+  }
+
+  return { values, fieldErrors };
+}
+
+// The NEW confirmation goes out straight away; the notification worker retries anything missed
+async function announceStatus(order: OrderRow) {
+  try {
+    await notifyOrderStatus({ id: order.id, status: order.status, last_notified_status: order.last_notified_status });
+  } catch (error) {
+    console.error(`[Orders] Failed to announce ${order.readable_id} ${order.status}:`, error);
+  }
+}
+
+// Statuses whose announcement has already gone to the rider, so a new rider has to be messaged separately
+const RIDER_ANNOUNCED_STATUSES: OrderStatus[] = ['READY', 'DISPATCHED'];
+
+// A rider swapped in on a READY or DISPATCHED order gets their link now, as the status is not announced again
+async function announceRiderChange(before: OrderRow, after: OrderRow, changes: Record<string, unknown>) {
+  if (!changes.rider_phone || changes.rider_phone === before.rider_phone) return;
+  if (!RIDER_ANNOUNCED_STATUSES.includes(after.status)) return;
+  // READY not announced yet: that announcement sends RIDER_ASSIGNED to whoever is then assigned
+  if (after.status === 'READY' && after.last_notified_status !== 'READY') return;
+
+  try {
+    const result = await notifyRiderAssigned(after.id);
+    if (result.error) console.error(`[Orders] Failed to notify the new rider of ${after.readable_id}:`, result.error);
+  } catch (error) {
+    console.error(`[Orders] Failed to notify the new rider of ${after.readable_id}:`, error);
+  }
+}
+
+// Rider assignment and edited fields go into the order's history (status moves are recorded by the state machine)
+async function recordUpdateEvents(smeId: string, before: OrderRow, changes: Record<string, unknown>) {
+  const actor = smeActor(smeId);
+  const events: NewOrderEvent[] = [];
+
+  if ('rider_phone' in changes && changes.rider_phone !== before.rider_phone) {
+    events.push({ order: before, type: 'rider_assigned', actor, data: { rider_phone: changes.rider_phone, previous: before.rider_phone || null } });
+  }
+
+  const edits = { ...changes };
+  delete edits.rider_phone;
+  delete edits.rider_token;
+  const diff = diffOrderFields(before, edits);
+  if (Object.keys(diff).length > 0) {
+    events.push({ order: before, type: 'edited', actor, data: { changes: diff } });
+  }
+
+  await recordOrderEvents(events);
+}
+
+/**
+ * The SME's orders, newest first, with the total matching the filters
+ */
+export async function listOrders(
+  smeId: string,
+  filters: OrderListFilters = {}
+): Promise<{ success: boolean; orders?: OrderRow[]; total?: number; error?: string; code?: OrderErrorCode; statusCode?: number }> {
+  const limit = Math.min(Math.max(Number(filters.limit) || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+  const offset = Math.max(Number(filters.offset) || 0, 0);
+
+  let query = supabase
+    .from('orders')
+    .select('*', { count: 'exact' })
+    .eq('sme_id', smeId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (filters.status) {
+    const statuses = filters.status.split(',').map((s) => s.trim().toUpperCase());
+    const unknown = statuses.filter((s) => !isOrderStatus(s));
+    if (unknown.length > 0) {
+      return validationFailed({ status: `Unknown status ${unknown.join(', ')}` });
+    }
+    query = query.in('status', statuses);
+  }
+
+  if (filters.search) {
+    // Characters that would break out of the PostgREST or() filter
+    const term = filters.search.replace(/[,()%*\\]/g, ' ').trim();
+    if (term) {
+      query = query.or(`customer_name.ilike.%${term}%,customer_phone.ilike.%${term}%,readable_id.ilike.%${term}%,legacy_readable_id.ilike.%${term}%`);
+    }
+  }
+
+  for (const [key, bound] of [['from', filters.from], ['to', filters.to]] as const) {
+    if (!bound) continue;
+    if (Number.isNaN(Date.parse(bound))) return validationFailed({ [key]: `"${bound}" is not a date` });
+    query = key === 'from' ? query.gte('created_at', bound) : query.lte('created_at', bound);
+  }
+
+  const { data, count, error } = await query;
+  if (error) return databaseError('fetch orders', error);
+  return { success: true, orders: data || [], total: count ?? 0 };
+}
+
+/**
+ * One of the SME's orders
+ */
+export async function getOrder(smeId: string, orderId: string): Promise<OrderResult> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .eq('sme_id', smeId)
+    .maybeSingle();
+
+  if (error) return databaseError('fetch order', error);
+  if (!data) return notFound();
+  return { success: true, order: data };
+}
+
+/**
+ * Validate and create an order; the customer is sent the NEW confirmation
+ */
+export async function createOrder(smeId: string, input: OrderInput): Promise<OrderResult> {
+  const { values, fieldErrors } = await buildOrderValues(smeId, input, 'create');
+  if (Object.keys(fieldErrors).length > 0) return validationFailed(fieldErrors);
+
+  // Consent is recorded at creation only, timestamped by the server
+  const consentSource = CONSENT_SOURCES.find((source) => source === input.whatsapp_consent_source) || null;
+
+  const createdAt = new Date();
+  for (let attempt = 1; ; attempt++) {
+    const allocated = await allocateReadableIds(smeId, 1, createdAt);
+    if (!allocated.success) return { success: false, error: allocated.error, code: 'DATABASE_ERROR', statusCode: 500 };
+
+    const { data, error } = await supabase
+      .from('orders')
+      .insert([{
+        ...values,
+        sme_id: smeId,
+        readable_id: allocated.ids![0],
+        status: INITIAL_STATUS,
+        created_at: createdAt.toISOString(), // The date in the readable ID
+        whatsapp_consent_at: consentSource ? new Date().toISOString() : null,
+        whatsapp_consent_source: consentSource,
+      }])
+      .select()
+      .single();
+
+    if (isReadableIdConflict(error) && attempt < READABLE_ID_ATTEMPTS) {
+      console.warn(`[Orders] Readable ID ${allocated.ids![0]} is already taken for ${smeId}, allocating another`);
+      continue;
+    }
+    if (error) return databaseError('create order', error);
+
+    await recordOrderEvent(data, 'created', smeActor(smeId), { source: 'dashboard' });
+    await announceStatus(data);
+    return { success: true, order: data };
+  }
+}
+
+/**
+ * Validate many new orders at once; the ones that fail come back as rejections
+ */
+export async function validateOrders(
+  smeId: string,
+  inputs: OrderInput[]
+): Promise<{ valid: Array<{ index: number; values: Record<string, unknown> }>; rejected: OrderRejection[] }> {
+  const context = await loadOrderFormContext(smeId);
+  const valid: Array<{ index: number; values: Record<string, unknown> }> = [];
+  const rejected: OrderRejection[] = [];
+
+  for (const [index, input] of inputs.entries()) {
+    const { values, fieldErrors } = await buildOrderValues(smeId, input, 'create', context);
+    if (Object.keys(fieldErrors).length > 0) {
+      rejected.push({ index, error: Object.values(fieldErrors).join('; '), fieldErrors });
+    } else {
+      valid.push({ index, values });
+    }
+  }
+
+  return { valid, rejected };
+}
+
+// NEW confirmations for a batch in one outbox insert, rendering with one template set per language
+async function announceNewOrders(smeId: string, orders: OrderRow[]): Promise<number> {
+  const templateSets = new Map<Language, Record<TemplateEvent, string>>();
+  for (const order of orders) {
+    const language = languageFor('NEW', order);
+    if (!templateSets.has(language)) templateSets.set(language, await loadTemplateSet(smeId, language));
+  }
+
+  const result = await enqueueWhatsAppMessages(
+    orders
+      .filter((order) => order.customer_phone)
+      .map((order) => {
+        const variables = buildTemplateVariables(order);
+        return {
+          phone: order.customer_phone as string,
+          message: renderTemplate(templateSets.get(languageFor('NEW', order))!.NEW, variables),
+          template: { event: 'NEW' as const, variables },
+          orderId: order.id,
+          smeId,
+        };
+      })
+  );
+
+  if (!result.success) console.error('[Orders] Failed to queue NEW confirmations:', result.error);
+  return result.queued;
+}
+
+/**
+ * Validate and create many orders in one insert (CSV import); rows that fail validation are
+ * rejected and the rest created. Each customer is sent the NEW confirmation
+ */
+export async function createOrders(smeId: string, inputs: OrderInput[], source: string): Promise<OrderBatchResult> {
+  const { valid, rejected } = await validateOrders(smeId, inputs);
+  if (valid.length === 0) return { success: true, orders: [], rejected, notificationsQueued: 0 };
+
+  // One block of order numbers for the whole batch, in input order; a fresh block if one of its IDs is already taken
+  const createdAt = new Date();
+  for (let attempt = 1; ; attempt++) {
+    const allocated = await allocateReadableIds(smeId, valid.length, createdAt);
+    if (!allocated.success) return { success: false, error: allocated.error, code: 'DATABASE_ERROR', statusCode: 500 };
+
+    const { data, error } = await supabase
+      .from('orders')
+      .insert(
+        valid.map(({ index, values }, position) => {
+          const consentSource = CONSENT_SOURCES.find((allowed) => allowed === inputs[index].whatsapp_consent_source) || null;
+          return {
+            ...values,
+            sme_id: smeId,
+            readable_id: allocated.ids![position],
+            status: INITIAL_STATUS,
+            last_notified_status: INITIAL_STATUS, // Announced below in bulk, not by the notification worker
+            created_at: createdAt.toISOString(),
+            whatsapp_consent_at: consentSource ? createdAt.toISOString() : null,
+            whatsapp_consent_source: consentSource,
+          };
+        })
+      )
+      .select();
+
+    if (isReadableIdConflict(error) && attempt < READABLE_ID_ATTEMPTS) {
+      console.warn(`[Orders] A readable ID in ${allocated.ids![0]}..${allocated.ids![valid.length - 1]} is already taken for ${smeId}, allocating another block`);
+      continue;
+    }
+    if (error) return databaseError('create orders', error);
+
+    const orders = (data || []) as OrderRow[];
+    await recordOrderEvents(orders.map((order) => ({ order, type: 'created' as const, actor: smeActor(smeId), data: { source } })));
+    const notificationsQueued = await announceNewOrders(smeId, orders);
+    return { success: true, orders, rejected, notificationsQueued };
+  }
+}
+
+/**
+ * The reason and notes a cancellation must carry, checked, with what cancelling saves
+ */
+function cancellationValues(input: OrderInput): { changes: Record<string, unknown>; fieldErrors: Record<string, string> } {
+  const fieldErrors: Record<string, string> = {};
+  const notes = typeof input.cancellation_notes === 'string' ? input.cancellation_notes.trim() : '';
+
+  if (!isCancellationReason(input.cancellation_reason)) {
+    fieldErrors.cancellation_reason = `Choose a reason: ${CANCELLATION_REASONS.join(', ')}`;
+  }
+  if (input.cancellation_notes !== undefined && input.cancellation_notes !== null && typeof input.cancellation_notes !== 'string') {
+    fieldErrors.cancellation_notes = 'Notes must be text';
+  } else if (notes.length > MAX_CANCELLATION_NOTES_LENGTH) {
+    fieldErrors.cancellation_notes = `Notes must be at most ${MAX_CANCELLATION_NOTES_LENGTH} characters`;
+  }
+  if (Object.keys(fieldErrors).length > 0) return { changes: {}, fieldErrors };
+
+  return { changes: cancellationChanges(input.cancellation_reason as CancellationReason, notes), fieldErrors };
+}
+
+/**
+ * Validate and apply a partial update
+ * A new status goes through the order state machine (409 if the move isn't allowed);
+ * `override: true` lets the SME complete an order without the delivery code.
+ * Cancelling needs a cancellation_reason (and takes optional cancellation_notes).
+ * Setting rider_phone issues a new rider link
+ */
+export async function updateOrder(smeId: string, orderId: string, input: OrderInput): Promise<OrderResult> {
+  const existing = await getOrder(smeId, orderId);
+  if (!existing.success) return existing;
+  const order = existing.order!;
+
+  const { values, fieldErrors } = await buildOrderValues(smeId, input, 'update');
+  if (Object.keys(fieldErrors).length > 0) return validationFailed(fieldErrors);
+
+  const { status, ...changes } = values;
+  if (status !== undefined && status !== order.status) {
+    const cancellation = status === 'CANCELLED' ? cancellationValues(input) : { changes: {}, fieldErrors: {} };
+    if (Object.keys(cancellation.fieldErrors).length > 0) return validationFailed(cancellation.fieldErrors);
+
+    const result = await transitionOrder(
+      order,
+      status as OrderStatus,
+      { override: input.override === true, actor: smeActor(smeId) },
+      { ...changes, ...cancellation.changes }
+    );
+    if (result.success) {
+      await recordUpdateEvents(smeId, order, changes);
+      if (result.order) await announceRiderChange(order, result.order, changes);
+    }
+    return result;
+  }
+
+  // A new rider link on a finished order would let a rider back onto it
+  if ('rider_phone' in changes && isTerminalStatus(order.status)) {
+    return { success: false, error: `The rider of a ${order.status} order can't be changed`, code: 'INVALID_TRANSITION', statusCode: 409 };
+  }
+
+  if (changes.rider_phone === null && order.status === 'DISPATCHED') {
+    return { success: false, error: 'An order out for delivery must keep its rider', code: 'INVALID_TRANSITION', statusCode: 409 };
+  }
+
+  const { data, error } = await supabase
+    .from('orders')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .eq('sme_id', smeId)
+    .select()
+    .maybeSingle();
+
+  if (error) return databaseError('update order', error);
+  if (!data) return notFound();
+
+  await recordUpdateEvents(smeId, order, changes);
+  await announceRiderChange(order, data, changes);
+  return { success: true, order: data };
+}
+
+/**
+ * Cancel an order with a reason and optional notes
+ * The rider link is revoked (ending live tracking) and the customer is sent the CANCELLED message
+ */
+export async function cancelOrder(
+  smeId: string,
+  orderId: string,
+  input: { reason?: unknown; notes?: unknown }
+): Promise<OrderResult> {
+  return updateOrder(smeId, orderId, {
+    status: 'CANCELLED',
+    cancellation_reason: input.reason,
+    cancellation_notes: input.notes,
+  });
+}
+
+/**
+ * Delete one of the SME's orders
+ */
+export async function deleteOrder(smeId: string, orderId: string): Promise<OrderResult> {
+  const { data, error } = await supabase
+    .from('orders')
+    .delete()
+    .eq('id', orderId)
+    .eq('sme_id', smeId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) return databaseError('delete order', error);
+  if (!data) return notFound();
+  return { success: true };
+}
@@ -0,0 +1,240 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { openProviderConfig } from './credentials.js';
+import { createProviderFromConfig, toImageDataUrl } from './providers/index.js';
+import type { PairingState, PairingStatus, WhatsAppConfigRow } from './providers/index.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for WhatsApp pairing: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+// pending/qr_ready may repeat: a new pairing attempt, or a QR code replaced before it expired
+const TRANSITIONS: Record<PairingState, PairingState[]> = {
+  pending: ['pending', 'qr_ready', 'paired', 'disconnected'],
+  qr_ready: ['pending', 'qr_ready', 'paired', 'disconnected'],
+  paired: ['disconnected'],
+  disconnected: ['pending'],
+};
+
+const PAIRING_COLUMNS = 'id, sme_id, provider, provider_config, wrapped_data_key, key_version, is_connected, instance_id, pairing_state, pairing_qr';
+
+type PairingConfigRow = WhatsAppConfigRow & {
+  wrapped_data_key: string | null;
+  key_version: number | null;
+  pairing_state: PairingState | null;
+  pairing_qr: string | null;
+};
+
+export interface PairingResult {
+  success: boolean;
+  pairing?: PairingStatus;
+  error?: string;
+  statusCode?: number;
+}
+
+export function canTransition(from: PairingState | null, to: PairingState): boolean {
+  return TRANSITIONS[from || 'disconnected'].includes(to);
+}
+
+/**
+ * One of the SME's configs, if it belongs to a provider that pairs by QR code
+ */
+async function loadInstanceConfig(
+  smeId: string,
+  configId: string
+): Promise<{ config?: PairingConfigRow; error?: string; statusCode?: number }> {
+  const { data: config, error } = await supabase
+    .from('whatsapp_configs')
+    .select(PAIRING_COLUMNS)
+    .eq('id', configId)
+    .eq('sme_id', smeId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!config) {
+    return { error: 'WhatsApp number not found', statusCode: 404 };
+  }
+  if (config.provider !== 'baileys' && config.provider !== 'evolution') {
+    return { error: `${config.provider} connections do not pair by QR code`, statusCode: 400 };
+  }
+  return { config: config as PairingConfigRow };
+}
+
+function pairingProvider(config: PairingConfigRow) {
+  return createProviderFromConfig({ ...config, provider_config: openProviderConfig(config) }, null);
+}
+
+/**
+ * Move the config to the state the provider reported and return the state now stored
+ * Reports that aren't a valid transition are ignored; connected only follows paired
+ */
+async function applyPairingStatus(config: PairingConfigRow, status: PairingStatus): Promise<PairingStatus> {
+  const current = config.pairing_state;
+
+  // A paired session reporting anything else (e.g. showing a QR code again) has lost its phone
+  const next: PairingState = current === 'paired' && status.state !== 'paired' ? 'disconnected' : status.state;
+
+  if (!canTransition(current, next)) {
+    return { state: current || 'disconnected', qrCode: current === 'qr_ready' ? config.pairing_qr : null };
+  }
+
+  const now = new Date().toISOString();
+  const qrCode = next === 'qr_ready' ? status.qrCode || null : null;
+
+  const update: Record<string, unknown> = {
+    pairing_state: next,
+    pairing_qr: qrCode,
+    pairing_updated_at: now,
+    updated_at: now,
+  };
+
+  if (next === 'paired') {
+    Object.assign(update, {
+      is_connected: true,
+      connected_at: now,
+      last_verified_at: now,
+      verification_error: null,
+      verification_failures: 0,
+    });
+    console.log(`[Pairing] ${config.provider} instance for ${config.sme_id} paired`);
+  } else if (next === 'disconnected') {
+    Object.assign(update, { is_connected: false, verification_error: status.detail || 'WhatsApp session ended' });
+    if (current === 'paired') {
+      // Surfaced to the SME by the dashboard's connection alert
+      update.disconnected_at = now;
+      console.warn(
+        `[Pairing] ${config.provider} instance for ${config.sme_id} disconnected (${status.detail || 'no reason given'}); ` +
+          'sends fall back to the platform number until it is paired again'
+      );
+    }
+  } else {
+    update.is_connected = false;
+  }
+
+  const { error } = await supabase.from('whatsapp_configs').update(update).eq('id', config.id);
+  if (error) throw new Error(error.message);
+
+  return { state: next, qrCode, detail: status.detail };
+}
+
+/**
+ * Start (or restart) pairing one of the SME's instances and return the first state, usually a QR code
+ */
+export async function beginPairing(smeId: string, configId: string): Promise<PairingResult> {
+  const { config, error, statusCode } = await loadInstanceConfig(smeId, configId);
+  if (!config) return { success: false, error, statusCode };
+
+  // A paired instance is re-linked from scratch, so it passes through disconnected
+  if (config.pairing_state === 'paired') {
+    await applyPairingStatus(config, { state: 'disconnected', detail: 'Pairing restarted' });
+    config.pairing_state = 'disconnected';
+  }
+  await applyPairingStatus(config, { state: 'pending' });
+  config.pairing_state = 'pending';
+
+  let status: PairingStatus;
+  try {
+    status = await pairingProvider(config).startPairing!();
+  } catch (err) {
+    status = { state: 'disconnected', detail: err instanceof Error ? err.message : 'Could not start pairing' };
+  }
+  return { success: true, pairing: await applyPairingStatus(config, status) };
+}
+
+/**
+ * Ask the provider how pairing is going and record it; polled by the connect page
+ */
+export async function refreshPairing(smeId: string, configId: string): Promise<PairingResult> {
+  const { config, error, statusCode } = await loadInstanceConfig(smeId, configId);
+  if (!config) return { success: false, error, statusCode };
+
+  // Nothing to ask the provider until pairing has been started
+  if (!config.pairing_state || config.pairing_state === 'disconnected') {
+    return { success: true, pairing: { state: 'disconnected' } };
+  }
+
+  let status: PairingStatus;
+  try {
+    status = await pairingProvider(config).pairingStatus!();
+  } catch (err) {
+    // Unreachable gateway: keep the last known state rather than dropping a working session
+    console.error(`[Pairing] Status check failed for ${smeId} config ${configId}:`, err instanceof Error ? err.message : err);
+    return {
+      success: true,
+      pairing: {
+        state: config.pairing_state,
+        qrCode: config.pairing_state === 'qr_ready' ? config.pairing_qr : null,
+        detail: 'Could not reach the WhatsApp gateway',
+      },
+    };
+  }
+  return { success: true, pairing: await applyPairingStatus(config, status) };
+}
+
+interface EvolutionConnectionWebhookBody {
+  event?: string;
+  instance?: string;
+  data?: {
+    state?: string;
+    statusReason?: number;
+    qrcode?: { base64?: string };
+  };
+}
+
+/**
+ * Pairing update carried by an Evolution API connection.update / qrcode.updated webhook
+ */
+export function parseEvolutionConnectionEvent(
+  body: EvolutionConnectionWebhookBody
+): { instanceKey: string; status: PairingStatus } | null {
+  const event = (body.event || '').toLowerCase().replace('_', '.');
+  if (!body.instance) return null;
+
+  if (event === 'qrcode.updated' && body.data?.qrcode?.base64) {
+    return { instanceKey: body.instance, status: { state: 'qr_ready', qrCode: toImageDataUrl(body.data.qrcode.base64) } };
+  }
+
+  if (event === 'connection.update') {
+    switch (body.data?.state) {
+      case 'open':
+        return { instanceKey: body.instance, status: { state: 'paired' } };
+      case 'close':
+        return {
+          instanceKey: body.instance,
+          status: {
+            state: 'disconnected',
+            detail: body.data.statusReason === 401 ? 'The phone logged out of WhatsApp Web' : 'WhatsApp session closed',
+          },
+        };
+      default:
+        return null; // "connecting" is followed by a qrcode.updated event
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply a connection event pushed by the provider's webhook for an instance
+ */
+export async function handleInstanceConnectionEvent(instanceKey: string, status: PairingStatus): Promise<void> {
+  const { data: configs } = await supabase
+    .from('whatsapp_configs')
+    .select(PAIRING_COLUMNS)
+    .eq('provider_config->>instanceKey', instanceKey)
+    .limit(1);
+
+  const config = configs?.[0] as PairingConfigRow | undefined;
+  if (!config) {
+    console.warn(`[Pairing] Connection event for unknown instance ${instanceKey}, ignoring`);
+    return;
+  }
+  await applyPairingStatus(config, status);
+}
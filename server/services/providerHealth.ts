@@ -0,0 +1,95 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for provider health: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const FAILURE_WINDOW_HOURS = 24;
+const SUCCESS_STATUSES = ['sent', 'delivered', 'read'];
+const FAILURE_STATUSES = ['failed', 'undelivered'];
+
+export interface NumberHealth {
+  id: string;
+  purpose: string;
+  label: string;
+  provider: string;
+  isConnected: boolean;
+  lastVerifiedAt: string | null;
+  verificationError: string | null;
+}
+
+export interface ProviderHealth {
+  numbers: NumberHealth[]; // Verification state of each connected or saved number
+  lastSuccessfulSendAt: string | null;
+  windowHours: number;
+  attempts: number; // WhatsApp sends logged in the window
+  failures: number;
+  failureRate: number | null; // 0..1, null when nothing was sent
+}
+
+// Count of the SME's WhatsApp send attempts since a time; logs reach the SME through their order
+const countSmeLogs = (smeId: string, since: string) =>
+  supabase
+    .from('whatsapp_logs')
+    .select('id, orders!inner(sme_id)', { count: 'exact', head: true })
+    .eq('orders.sme_id', smeId)
+    .eq('channel', 'whatsapp')
+    .gte('created_at', since);
+
+/**
+ * Summary for the test console: last verification of each number, and the SME's
+ * last successful send and failure rate over the last FAILURE_WINDOW_HOURS
+ */
+export async function getProviderHealth(smeId: string): Promise<ProviderHealth> {
+  const since = new Date(Date.now() - FAILURE_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+  const [configResult, lastSendResult, attemptsResult, failuresResult] = await Promise.all([
+    supabase
+      .from('whatsapp_configs')
+      .select('id, purpose, label, provider, is_connected, last_verified_at, verification_error')
+      .eq('sme_id', smeId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('whatsapp_logs')
+      .select('sent_at, created_at, orders!inner(sme_id)')
+      .eq('orders.sme_id', smeId)
+      .eq('channel', 'whatsapp')
+      .in('status', SUCCESS_STATUSES)
+      .order('created_at', { ascending: false })
+      .limit(1),
+    countSmeLogs(smeId, since),
+    countSmeLogs(smeId, since).in('status', FAILURE_STATUSES),
+  ]);
+
+  const firstError = [configResult, lastSendResult, attemptsResult, failuresResult].find((r) => r.error)?.error;
+  if (firstError) throw new Error(firstError.message);
+
+  const lastSend = lastSendResult.data?.[0];
+  const attempts = attemptsResult.count || 0;
+  const failures = failuresResult.count || 0;
+
+  return {
+    numbers: (configResult.data || []).map((config) => ({
+      id: config.id,
+      purpose: config.purpose,
+      label: config.label,
+      provider: config.provider,
+      isConnected: Boolean(config.is_connected),
+      lastVerifiedAt: config.last_verified_at || null,
+      verificationError: config.verification_error || null,
+    })),
+    lastSuccessfulSendAt: lastSend ? lastSend.sent_at || lastSend.created_at : null,
+    windowHours: FAILURE_WINDOW_HOURS,
+    attempts,
+    failures,
+    failureRate: attempts > 0 ? failures / attempts : null,
+  };
+}
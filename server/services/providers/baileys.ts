@@ -0,0 +1,93 @@
+import { requestJson, toDigits, joinUrl, toImageDataUrl } from './http.js';
+import type { WhatsAppProvider, PairingStatus } from './types.js';
+
+export interface BaileysProviderOptions {
+  baseUrl: string; // Baileys REST gateway (whatsapp-api-nodejs compatible)
+  instanceKey: string;
+  phoneNumber: string;
+  apiToken?: string;
+}
+
+interface BaileysMessageResponse {
+  data?: { key?: { id?: string } };
+  key?: { id?: string };
+  messageId?: string;
+}
+
+/**
+ * Baileys provider, talking to a self-hosted Baileys REST gateway
+ * The gateway owns the WhatsApp Web socket; we only address it by instance key
+ */
+export function createBaileysProvider(options: BaileysProviderOptions): WhatsAppProvider {
+  const key = encodeURIComponent(options.instanceKey);
+  const headers: Record<string, string> = options.apiToken
+    ? { Authorization: `Bearer ${options.apiToken}` }
+    : {};
+  const url = (path: string) => joinUrl(options.baseUrl, `${path}?key=${key}`);
+
+  const phoneConnected = async () => {
+    const json = await requestJson<{ instance_data?: { phone_connected?: boolean } }>(
+      'baileys',
+      url('/instance/info'),
+      { headers }
+    );
+    return Boolean(json?.instance_data?.phone_connected);
+  };
+
+  // The gateway keeps the latest QR for an unlinked session; empty until it has generated one
+  const currentQr = async (): Promise<PairingStatus> => {
+    const json = await requestJson<{ qrcode?: string }>('baileys', url('/instance/qrbase64'), { headers });
+    const qrCode = toImageDataUrl(json?.qrcode);
+    return qrCode ? { state: 'qr_ready', qrCode } : { state: 'pending', detail: 'Waiting for a QR code' };
+  };
+
+  const messageIdFrom = (json: BaileysMessageResponse | null): string =>
+    json?.data?.key?.id || json?.key?.id || json?.messageId || '';
+
+  return {
+    name: 'baileys',
+    sender: options.phoneNumber,
+
+    async sendText(to, body) {
+      const json = await requestJson<BaileysMessageResponse>('baileys', url('/message/text'), {
+        method: 'POST',
+        headers,
+        body: { id: toDigits(to), message: body },
+      });
+      return { messageId: messageIdFrom(json), status: 'sent' };
+    },
+
+    async sendMedia(to, mediaUrl, caption) {
+      const json = await requestJson<BaileysMessageResponse>('baileys', url('/message/mediaurl'), {
+        method: 'POST',
+        headers,
+        body: { id: toDigits(to), url: mediaUrl, type: 'image', caption: caption || '' },
+      });
+      return { messageId: messageIdFrom(json), status: 'sent' };
+    },
+
+    async fetchStatus(messageId) {
+      // Baileys only reports receipts through its webhook; there is no lookup endpoint
+      return { messageId, status: 'unknown' };
+    },
+
+    async healthCheck() {
+      try {
+        const connected = await phoneConnected();
+        return { ok: connected, detail: connected ? 'Phone connected' : 'Phone not connected' };
+      } catch (error) {
+        return { ok: false, detail: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+
+    async startPairing() {
+      await requestJson('baileys', url('/instance/init'), { headers });
+      return currentQr();
+    },
+
+    async pairingStatus() {
+      if (await phoneConnected()) return { state: 'paired' };
+      return currentQr();
+    },
+  };
+}
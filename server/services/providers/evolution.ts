@@ -0,0 +1,141 @@
+import { requestJson, toDigits, joinUrl, toImageDataUrl } from './http.js';
+import { ProviderError } from './types.js';
+import type { WhatsAppProvider, ProviderMessageStatus, PairingStatus } from './types.js';
+
+export interface EvolutionProviderOptions {
+  baseUrl: string; // e.g. http://localhost:8080 for a local Evolution API
+  apiKey: string;
+  instanceName: string;
+  phoneNumber: string;
+}
+
+interface EvolutionMessageResponse {
+  key?: { id?: string };
+  status?: string | number;
+}
+
+/**
+ * Evolution API reports message acks using Baileys' numeric/string status names
+ */
+function mapEvolutionStatus(status: unknown): ProviderMessageStatus {
+  switch (String(status).toUpperCase()) {
+    case 'PENDING':
+    case '1':
+      return 'queued';
+    case 'SERVER_ACK':
+    case '2':
+      return 'sent';
+    case 'DELIVERY_ACK':
+    case '3':
+      return 'delivered';
+    case 'READ':
+    case 'PLAYED':
+    case '4':
+    case '5':
+      return 'read';
+    case 'ERROR':
+    case '0':
+      return 'failed';
+    default:
+      return 'unknown';
+  }
+}
+
+interface EvolutionConnectResponse {
+  base64?: string;
+  instance?: { state?: string };
+}
+
+/**
+ * Evolution API (https://doc.evolution-api.com) instance provider
+ */
+export function createEvolutionProvider(options: EvolutionProviderOptions): WhatsAppProvider {
+  const instance = encodeURIComponent(options.instanceName);
+  const headers = { apikey: options.apiKey };
+  const url = (path: string) => joinUrl(options.baseUrl, path);
+
+  const connectionState = async () => {
+    const json = await requestJson<{ instance?: { state?: string }; state?: string }>(
+      'evolution',
+      url(`/instance/connectionState/${instance}`),
+      { headers }
+    );
+    return json?.instance?.state || json?.state;
+  };
+
+  // Asks the instance to connect; answers with a fresh QR code until a phone scans one
+  const connect = async (): Promise<PairingStatus> => {
+    const json = await requestJson<EvolutionConnectResponse>('evolution', url(`/instance/connect/${instance}`), { headers });
+    if (json?.instance?.state === 'open') return { state: 'paired' };
+    const qrCode = toImageDataUrl(json?.base64);
+    return qrCode ? { state: 'qr_ready', qrCode } : { state: 'pending', detail: 'Waiting for a QR code' };
+  };
+
+  return {
+    name: 'evolution',
+    sender: options.phoneNumber,
+
+    async sendText(to, body) {
+      const json = await requestJson<EvolutionMessageResponse>('evolution', url(`/message/sendText/${instance}`), {
+        method: 'POST',
+        headers,
+        body: { number: toDigits(to), text: body },
+      });
+      return { messageId: json?.key?.id || '', status: mapEvolutionStatus(json?.status) };
+    },
+
+    async sendMedia(to, mediaUrl, caption) {
+      const json = await requestJson<EvolutionMessageResponse>('evolution', url(`/message/sendMedia/${instance}`), {
+        method: 'POST',
+        headers,
+        body: {
+          number: toDigits(to),
+          mediatype: 'image',
+          media: mediaUrl,
+          caption: caption || '',
+        },
+      });
+      return { messageId: json?.key?.id || '', status: mapEvolutionStatus(json?.status) };
+    },
+
+    async fetchStatus(messageId) {
+      const json = await requestJson<EvolutionMessageResponse | EvolutionMessageResponse[]>('evolution', url(`/chat/findStatusMessage/${instance}`), {
+        method: 'POST',
+        headers,
+        body: { where: { id: messageId } },
+      });
+      const latest = Array.isArray(json) ? json[json.length - 1] : json;
+      return { messageId, status: mapEvolutionStatus(latest?.status) };
+    },
+
+    async healthCheck() {
+      try {
+        const state = await connectionState();
+        return { ok: state === 'open', detail: `Instance state: ${state || 'unknown'}` };
+      } catch (error) {
+        return { ok: false, detail: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+
+    async startPairing() {
+      try {
+        await requestJson('evolution', url('/instance/create'), {
+          method: 'POST',
+          headers,
+          body: { instanceName: options.instanceName, qrcode: true, integration: 'WHATSAPP-BAILEYS' },
+        });
+      } catch (error) {
+        // An instance that already exists is reconnected below
+        if (!(error instanceof ProviderError) || ![403, 409].includes(error.statusCode || 0)) throw error;
+      }
+      return connect();
+    },
+
+    async pairingStatus() {
+      const state = await connectionState();
+      if (state === 'open') return { state: 'paired' };
+      if (state === 'connecting') return connect();
+      return { state: 'disconnected', detail: `Instance state: ${state || 'unknown'}` };
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { ProviderError } from './types.js';
+import type { WhatsAppProviderName } from './types.js';
+
+/**
+ * Performs the actual HTTP call; swapped for a stub in local development and tests
+ */
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+const fetchTransport: HttpTransport = (url, init) => fetch(url, init);
+let transport: HttpTransport = fetchTransport;
+
+/**
+ * Route every provider API request through another transport (null restores fetch)
+ */
+export function setHttpTransport(next: HttpTransport | null) {
+  transport = next || fetchTransport;
+}
+
+export interface JsonRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  headers?: Record<string, string>;
+  body?: unknown;
+  timeoutMs?: number;
+}
+
+/**
+ * Small JSON-over-HTTP helper shared by the instance-based providers
+ * Non-2xx responses are raised as ProviderError with the upstream message
+ */
+export async function requestJson<T>(
+  provider: WhatsAppProviderName,
+  url: string,
+  options: JsonRequestOptions = {}
+): Promise<T> {
+  const { method = 'GET', headers = {}, body, timeoutMs = 15000 } = options;
+
+  let response: Response;
+  try {
+    response = await transport(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new ProviderError(provider, `Request to ${url} failed: ${reason}`);
+  }
+
+  const text = await response.text();
+  let json: unknown = null;
+  if (text) {
+    try {
+      json = JSON.parse(text);
+    } catch {
+      json = { message: text };
+    }
+  }
+
+  if (!response.ok) {
+    const errorBody = (json || {}) as { message?: unknown; error?: unknown };
+    const message = errorBody.message || errorBody.error || response.statusText;
+    throw new ProviderError(
+      provider,
+      `HTTP ${response.status}: ${typeof message === 'string' ? message : JSON.stringify(message)}`,
+      response.status
+    );
+  }
+
+  return json as T;
+}
+
+/**
+ * Instance APIs address recipients by bare digits (no "+")
+ */
+export function toDigits(phone: string): string {
+  return phone.replace(/\D/g, '');
+}
+
+/**
+ * QR images arrive either as data URLs or as bare base64 PNG
+ */
+export function toImageDataUrl(qr: string | undefined | null): string | null {
+  if (!qr) return null;
+  return qr.startsWith('data:') ? qr : `data:image/png;base64,${qr}`;
+}
+
+export function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
@@ -0,0 +1,129 @@
+import { createTwilioProvider } from './twilio.js';
+import { createEvolutionProvider } from './evolution.js';
+import { createBaileysProvider } from './baileys.js';
+import { createOutboxProvider } from './outbox.js';
+import { verifyTwilioCredentials } from './verify.js';
+import type { WhatsAppProvider, WhatsAppProviderName, ProviderHealth } from './types.js';
+
+export * from './types.js';
+export { createTwilioProvider, createEvolutionProvider, createBaileysProvider, createOutboxProvider };
+export { configureOutboxStore, listOutboxMessages, clearOutbox, recordOutboxMessage } from './outbox.js';
+export type { OutboxMessage } from './outbox.js';
+export { setHttpTransport, toImageDataUrl } from './http.js';
+export { verifyTwilioCredentials, createStubTransport } from './verify.js';
+
+/**
+ * What an SME uses a number for: its customer line, a dispatch line for riders, or a branch
+ */
+export type SenderPurpose = 'customer' | 'rider' | 'branch';
+
+/**
+ * Shape of a row in whatsapp_configs (see migrations/05_create_whatsapp_configs.sql)
+ */
+export interface WhatsAppConfigRow {
+  id: string;
+  sme_id: string;
+  provider: WhatsAppProviderName;
+  provider_config: Record<string, string | undefined>;
+  is_connected: boolean;
+  instance_id?: string | null;
+  purpose?: SenderPurpose;
+  label?: string; // Branch name for branch numbers
+}
+
+export interface PlatformTwilioCredentials {
+  accountSid: string;
+  authToken: string;
+}
+
+/**
+ * Build the provider described by an SME's whatsapp_configs row
+ * Instance providers fall back to the platform-wide gateway URL from env
+ */
+export function createProviderFromConfig(
+  config: WhatsAppConfigRow,
+  platformTwilio: PlatformTwilioCredentials | null
+): WhatsAppProvider {
+  const providerConfig = config.provider_config || {};
+
+  if (config.provider !== 'twilio' && (!providerConfig.instanceKey || !providerConfig.phoneNumber)) {
+    throw new Error(`${config.provider} config is missing instanceKey/phoneNumber`);
+  }
+
+  switch (config.provider) {
+    case 'twilio': {
+      // The SME's own account; configs saved before credentials were collected use the platform's
+      const credentials = providerConfig.accountSid && providerConfig.authToken
+        ? { accountSid: providerConfig.accountSid, authToken: providerConfig.authToken }
+        : platformTwilio;
+      if (!credentials) {
+        throw new Error('Twilio credentials are not configured on the server');
+      }
+      if (!providerConfig.twilioPhoneNumber) {
+        throw new Error('Twilio config is missing twilioPhoneNumber');
+      }
+      return createTwilioProvider({
+        ...credentials,
+        fromNumber: providerConfig.twilioPhoneNumber,
+      });
+    }
+
+    case 'evolution': {
+      const baseUrl = providerConfig.apiUrl || process.env.EVOLUTION_API_URL;
+      const apiKey = providerConfig.apiKey || process.env.EVOLUTION_API_KEY;
+      if (!baseUrl || !apiKey) {
+        throw new Error('Evolution API URL/key not configured (EVOLUTION_API_URL, EVOLUTION_API_KEY)');
+      }
+      return createEvolutionProvider({
+        baseUrl,
+        apiKey,
+        instanceName: providerConfig.instanceKey!,
+        phoneNumber: providerConfig.phoneNumber!,
+      });
+    }
+
+    case 'baileys': {
+      const baseUrl = providerConfig.apiUrl || process.env.BAILEYS_API_URL;
+      if (!baseUrl) {
+        throw new Error('Baileys gateway URL not configured (BAILEYS_API_URL)');
+      }
+      return createBaileysProvider({
+        baseUrl,
+        instanceKey: providerConfig.instanceKey!,
+        phoneNumber: providerConfig.phoneNumber!,
+        apiToken: providerConfig.apiKey || process.env.BAILEYS_API_TOKEN,
+      });
+    }
+
+    default:
+      throw new Error(`Unsupported WhatsApp provider: ${String(config.provider)}`);
+  }
+}
+
+/**
+ * Check an SME's config against the provider before it is marked connected
+ * Twilio: the account is active and owns the number; instance providers: the instance is online
+ */
+export async function verifyProviderConfig(
+  config: WhatsAppConfigRow,
+  platformTwilio: PlatformTwilioCredentials | null
+): Promise<ProviderHealth> {
+  const providerConfig = config.provider_config || {};
+
+  if (config.provider === 'twilio') {
+    if (!providerConfig.accountSid || !providerConfig.authToken || !providerConfig.twilioPhoneNumber) {
+      return { ok: false, detail: 'Twilio config needs accountSid, authToken and twilioPhoneNumber' };
+    }
+    return verifyTwilioCredentials({
+      accountSid: providerConfig.accountSid,
+      authToken: providerConfig.authToken,
+      phoneNumber: providerConfig.twilioPhoneNumber,
+    });
+  }
+
+  try {
+    return await createProviderFromConfig(config, platformTwilio).healthCheck();
+  } catch (error) {
+    return { ok: false, detail: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
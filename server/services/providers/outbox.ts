@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { WhatsAppProvider } from './types.js';
+
+export interface OutboxMessage {
+  id: string;
+  to: string;
+  from: string;
+  body: string;
+  mediaUrl?: string;
+  channel?: 'sms' | 'email'; // Set for fallback messages; WhatsApp otherwise
+  subject?: string;
+  createdAt: string;
+}
+
+const MAX_OUTBOX_MESSAGES = 500;
+
+let messages: OutboxMessage[] = [];
+let outboxFile: string | null = null;
+
+function persist() {
+  if (!outboxFile) return;
+  try {
+    fs.mkdirSync(path.dirname(outboxFile), { recursive: true });
+    fs.writeFileSync(outboxFile, JSON.stringify(messages, null, 2));
+  } catch (error) {
+    console.warn('[Outbox] Failed to write outbox file:', error);
+  }
+}
+
+/**
+ * Point the outbox at a JSON file so messages survive restarts
+ * Without a file the outbox lives in memory only
+ */
+export function configureOutboxStore(filePath?: string) {
+  outboxFile = filePath ? path.resolve(filePath) : null;
+  messages = [];
+
+  if (outboxFile && fs.existsSync(outboxFile)) {
+    try {
+      messages = JSON.parse(fs.readFileSync(outboxFile, 'utf8'));
+    } catch (error) {
+      console.warn(`[Outbox] Could not read ${outboxFile}, starting empty:`, error);
+    }
+  }
+}
+
+/**
+ * Newest messages first
+ */
+export function listOutboxMessages(limit: number = 100): OutboxMessage[] {
+  return messages.slice(-limit).reverse();
+}
+
+export function clearOutbox() {
+  messages = [];
+  persist();
+}
+
+/**
+ * Capture a message in the outbox (also used by the SMS/email stubs)
+ */
+export function recordOutboxMessage(message: Omit<OutboxMessage, 'id' | 'createdAt'>): OutboxMessage {
+  const recorded: OutboxMessage = {
+    id: `outbox_${crypto.randomUUID()}`,
+    ...message,
+    createdAt: new Date().toISOString(),
+  };
+
+  messages.push(recorded);
+  if (messages.length > MAX_OUTBOX_MESSAGES) {
+    messages = messages.slice(-MAX_OUTBOX_MESSAGES);
+  }
+  persist();
+
+  const prefix = recorded.channel ? `[Outbox ${recorded.channel.toUpperCase()}]` : '[Outbox]';
+  console.log(`${prefix} ${recorded.to}: ${recorded.body.split('\n')[0]}`);
+  return recorded;
+}
+
+/**
+ * Development provider that records messages instead of sending them
+ */
+export function createOutboxProvider(sender: string = 'outbox'): WhatsAppProvider {
+  const record = (to: string, body: string, mediaUrl?: string) => {
+    const message = recordOutboxMessage({ to, from: sender, body, ...(mediaUrl && { mediaUrl }) });
+    return { messageId: message.id, status: 'delivered' as const };
+  };
+
+  return {
+    name: 'outbox',
+    sender,
+
+    sendText: async (to, body) => record(to, body),
+
+    sendMedia: async (to, mediaUrl, caption) => record(to, caption || '', mediaUrl),
+
+    async fetchStatus(messageId) {
+      const found = messages.some((m) => m.id === messageId);
+      return { messageId, status: found ? 'delivered' : 'unknown' };
+    },
+
+    async healthCheck() {
+      return { ok: true, detail: outboxFile ? `Writing to ${outboxFile}` : 'In-memory outbox' };
+    },
+  };
+}
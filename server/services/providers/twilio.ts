@@ -0,0 +1,101 @@
+import twilio from 'twilio';
+import type {
+  WhatsAppProvider,
+  ProviderMessageStatus,
+  ProviderSendResult,
+} from './types.js';
+
+export interface TwilioProviderOptions {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string; // +E.164, with or without the "whatsapp:" prefix
+}
+
+/**
+ * Map Twilio's message status vocabulary onto the provider-neutral set
+ */
+function mapTwilioStatus(status: string): ProviderMessageStatus {
+  switch (status) {
+    case 'accepted':
+    case 'scheduled':
+    case 'queued':
+    case 'sending':
+      return 'queued';
+    case 'sent':
+      return 'sent';
+    case 'delivered':
+      return 'delivered';
+    case 'read':
+      return 'read';
+    case 'failed':
+    case 'undelivered':
+    case 'canceled':
+      return 'failed';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Twilio WhatsApp Business API provider
+ */
+export function createTwilioProvider(options: TwilioProviderOptions): WhatsAppProvider {
+  const client = twilio(options.accountSid, options.authToken);
+  const from = options.fromNumber.replace('whatsapp:', '');
+
+  const send = async (to: string, body: string, mediaUrl?: string): Promise<ProviderSendResult> => {
+    const message = await client.messages.create({
+      from: `whatsapp:${from}`,
+      to: `whatsapp:${to}`,
+      body,
+      ...(mediaUrl && { mediaUrl: [mediaUrl] }),
+    });
+
+    return { messageId: message.sid, status: mapTwilioStatus(message.status) };
+  };
+
+  return {
+    name: 'twilio',
+    sender: from,
+
+    sendText: (to, body) => send(to, body),
+
+    sendMedia: (to, mediaUrl, caption) => send(to, caption || '', mediaUrl),
+
+    async sendTemplate(to, contentSid, variables) {
+      const message = await client.messages.create({
+        from: `whatsapp:${from}`,
+        to: `whatsapp:${to}`,
+        contentSid,
+        contentVariables: JSON.stringify(variables),
+      });
+
+      return { messageId: message.sid, status: mapTwilioStatus(message.status) };
+    },
+
+    async fetchStatus(messageId) {
+      const message = await client.messages(messageId).fetch();
+      return {
+        messageId,
+        status: mapTwilioStatus(message.status),
+        errorCode: message.errorCode ? String(message.errorCode) : undefined,
+        errorMessage: message.errorMessage || undefined,
+      };
+    },
+
+    async healthCheck() {
+      try {
+        const account = await client.api.v2010.accounts(options.accountSid).fetch();
+        return {
+          ok: account.status === 'active',
+          detail: `Account ${account.status}`,
+        };
+      } catch (error) {
+        return {
+          ok: false,
+          detail: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    },
+  };
+}
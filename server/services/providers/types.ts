@@ -0,0 +1,81 @@
+/**
+ * Common contract for WhatsApp delivery providers
+ * Each provider receives recipients already normalized to +E.164 format
+ */
+
+export type WhatsAppProviderName = 'twilio' | 'baileys' | 'evolution' | 'outbox';
+
+export type ProviderMessageStatus =
+  | 'queued'
+  | 'sent'
+  | 'delivered'
+  | 'read'
+  | 'failed'
+  | 'unknown';
+
+export interface ProviderSendResult {
+  messageId: string;
+  status?: ProviderMessageStatus;
+}
+
+export interface ProviderStatusResult {
+  messageId: string;
+  status: ProviderMessageStatus;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export interface ProviderHealth {
+  ok: boolean;
+  detail?: string;
+}
+
+/**
+ * Linking a WhatsApp account to an instance provider:
+ * pending → qr_ready (QR shown, refreshed as it expires) → paired, and disconnected
+ * when pairing fails or the phone unlinks
+ */
+export type PairingState = 'pending' | 'qr_ready' | 'paired' | 'disconnected';
+
+export interface PairingStatus {
+  state: PairingState;
+  qrCode?: string | null; // Image data URL while qr_ready
+  detail?: string;
+}
+
+export interface WhatsAppProvider {
+  readonly name: WhatsAppProviderName;
+  /** Number (or instance identifier) messages are sent from */
+  readonly sender: string;
+  sendText(to: string, body: string): Promise<ProviderSendResult>;
+  sendMedia(to: string, mediaUrl: string, caption?: string): Promise<ProviderSendResult>;
+  /**
+   * Send an approved content template (WhatsApp Business API only)
+   * Providers that implement this are subject to the 24-hour session window;
+   * instance providers (a linked WhatsApp account) are not and leave it out
+   */
+  sendTemplate?(to: string, contentSid: string, variables: Record<string, string>): Promise<ProviderSendResult>;
+  fetchStatus(messageId: string): Promise<ProviderStatusResult>;
+  healthCheck(): Promise<ProviderHealth>;
+  /**
+   * Start (or restart) linking a WhatsApp account by QR code
+   * Only instance providers implement the pairing methods
+   */
+  startPairing?(): Promise<PairingStatus>;
+  pairingStatus?(): Promise<PairingStatus>;
+}
+
+/**
+ * Thrown by providers when the upstream API rejects a request
+ */
+export class ProviderError extends Error {
+  readonly provider: WhatsAppProviderName;
+  readonly statusCode?: number;
+
+  constructor(provider: WhatsAppProviderName, message: string, statusCode?: number) {
+    super(`[${provider}] ${message}`);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.statusCode = statusCode;
+  }
+}
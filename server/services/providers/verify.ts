@@ -0,0 +1,129 @@
+import { requestJson, joinUrl } from './http.js';
+import type { HttpTransport } from './http.js';
+import type { ProviderHealth } from './types.js';
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+
+// Twilio's shared WhatsApp sandbox sender; it belongs to Twilio, not to the SME's account
+const TWILIO_SANDBOX_NUMBER = '+14155238886';
+
+export interface TwilioCredentials {
+  accountSid: string;
+  authToken: string;
+  phoneNumber: string; // +E.164, with or without the "whatsapp:" prefix
+}
+
+interface TwilioAccountResponse {
+  status?: string;
+  friendly_name?: string;
+}
+
+interface TwilioNumbersResponse {
+  incoming_phone_numbers?: { phone_number?: string }[];
+}
+
+/**
+ * Check that the credentials open an active Twilio account that owns the sender number
+ */
+export async function verifyTwilioCredentials(credentials: TwilioCredentials): Promise<ProviderHealth> {
+  const accountUrl = joinUrl(TWILIO_API_URL, `Accounts/${encodeURIComponent(credentials.accountSid)}`);
+  const headers = {
+    Authorization: `Basic ${Buffer.from(`${credentials.accountSid}:${credentials.authToken}`).toString('base64')}`,
+  };
+  const phoneNumber = credentials.phoneNumber.replace('whatsapp:', '');
+
+  try {
+    const account = await requestJson<TwilioAccountResponse>('twilio', `${accountUrl}.json`, { headers });
+    if (account?.status !== 'active') {
+      return { ok: false, detail: `Twilio account is ${account?.status || 'not active'}` };
+    }
+
+    if (phoneNumber !== TWILIO_SANDBOX_NUMBER) {
+      const numbers = await requestJson<TwilioNumbersResponse>(
+        'twilio',
+        `${accountUrl}/IncomingPhoneNumbers.json?PhoneNumber=${encodeURIComponent(phoneNumber)}`,
+        { headers }
+      );
+      if (!numbers?.incoming_phone_numbers?.length) {
+        return { ok: false, detail: `${phoneNumber} is not a number on this Twilio account` };
+      }
+    }
+
+    return { ok: true, detail: `Account ${account.friendly_name || credentials.accountSid} is active` };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      ok: false,
+      detail: /HTTP 401/.test(reason) ? 'Twilio rejected the Account SID or Auth Token' : reason,
+    };
+  }
+}
+
+// How long a stubbed instance shows its QR code before acting as if a phone scanned it
+const STUB_PAIRING_MS = 15000;
+
+const STUB_QR_CODE = `data:image/svg+xml;base64,${Buffer.from(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200" viewBox="0 0 200 200">' +
+    '<rect width="200" height="200" fill="#fff"/>' +
+    '<rect x="10" y="10" width="50" height="50" fill="none" stroke="#000" stroke-width="10"/>' +
+    '<rect x="140" y="10" width="50" height="50" fill="none" stroke="#000" stroke-width="10"/>' +
+    '<rect x="10" y="140" width="50" height="50" fill="none" stroke="#000" stroke-width="10"/>' +
+    '<text x="100" y="105" font-family="sans-serif" font-size="14" text-anchor="middle">Stub QR</text>' +
+    '</svg>'
+).toString('base64')}`;
+
+/**
+ * Transport answering provider verification and pairing requests without network access
+ * Used in outbox mode so connecting a provider can be tried locally with any credentials;
+ * a stubbed instance pairs STUB_PAIRING_MS after it first hands out a QR code
+ */
+export function createStubTransport(): HttpTransport {
+  const qrShownAt = new Map<string, number>();
+
+  const json = (body: unknown) =>
+    new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+  // Instances that never showed a QR code (configs saved before pairing existed) count as linked
+  const isPaired = (instance: string) => {
+    const shownAt = qrShownAt.get(instance);
+    return shownAt === undefined || Date.now() - shownAt >= STUB_PAIRING_MS;
+  };
+
+  const showQr = (instance: string) => {
+    if (!qrShownAt.has(instance)) qrShownAt.set(instance, Date.now());
+    return STUB_QR_CODE;
+  };
+
+  return async (url) => {
+    const { pathname: path, searchParams } = new URL(url);
+    const instance = decodeURIComponent(path.split('/').pop() || '');
+    const instanceKey = searchParams.get('key') || '';
+
+    if (/\/IncomingPhoneNumbers\.json$/.test(path)) {
+      return json({ incoming_phone_numbers: [{ phone_number: searchParams.get('PhoneNumber') }] });
+    }
+    if (/\/Accounts\/[^/]+\.json$/.test(path)) return json({ status: 'active', friendly_name: 'Stub account' });
+
+    // Evolution API
+    if (path.endsWith('/instance/create')) return json({ instance: { status: 'created' } });
+    if (path.includes('/instance/connect/')) {
+      if (qrShownAt.has(instance) && isPaired(instance)) return json({ instance: { state: 'open' } });
+      return json({ base64: showQr(instance) });
+    }
+    if (path.includes('/instance/connectionState/')) {
+      return json({ instance: { state: isPaired(instance) ? 'open' : 'connecting' } });
+    }
+
+    // Baileys gateway
+    if (path.endsWith('/instance/init')) {
+      qrShownAt.delete(instanceKey);
+      return json({ error: false, key: instanceKey });
+    }
+    if (path.endsWith('/instance/qrbase64')) {
+      return json({ qrcode: isPaired(instanceKey) && qrShownAt.has(instanceKey) ? '' : showQr(instanceKey) });
+    }
+    if (path.endsWith('/instance/info')) return json({ instance_data: { phone_connected: isPaired(instanceKey) } });
+
+    return new Response(JSON.stringify({ message: `No stub for ${path}` }), { status: 404 });
+  };
+}
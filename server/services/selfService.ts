@@ -0,0 +1,337 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { enqueueWhatsAppMessage } from './messageQueue.js';
+import { phoneVariants } from './inbound.js';
+import { renderOrderMessage, composeOrderMessage, buildTemplateVariables, isTemplateEvent } from './templates.js';
+import type { TemplateEvent } from './templates.js';
+import { getSmeSettings } from './smeSettings.js';
+import { transitionOrder, cancellationChanges } from './orderStateMachine.js';
+import { smeActor } from './orderEvents.js';
+import type { OrderActor } from '../shared/orderStatus.js';
+import type { InboundRecord } from './inbound.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for WhatsApp self-service: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+// Customers can cancel on their own until the order is handed to a rider
+const SELF_CANCEL_STATUSES = ['NEW', 'PROCESSING'];
+const CLOSED_STATUSES = ['COMPLETED', 'CANCELLED'];
+
+export type SelfServiceCommand = 'STATUS' | 'CANCEL' | 'HELP' | 'RESCHEDULE';
+export type OrderRequestType = 'cancel' | 'reschedule';
+
+const COMMANDS: SelfServiceCommand[] = ['STATUS', 'CANCEL', 'HELP', 'RESCHEDULE'];
+
+interface CommandOrder {
+  id: string;
+  sme_id: string;
+  readable_id: string;
+  status: string;
+  customer_name: string;
+  customer_phone: string;
+  delivery_address: string;
+  price_total: number;
+  tracking_token: string;
+  rider_token: string | null;
+  form_data: Record<string, unknown> | null;
+  preferred_language: string | null;
+}
+
+const ORDER_COLUMNS =
+  'id, sme_id, readable_id, status, customer_name, customer_phone, delivery_address, price_total, tracking_token, rider_token, form_data, preferred_language';
+
+export interface OrderRequestRow {
+  id: string;
+  order_id: string;
+  sme_id: string;
+  type: OrderRequestType;
+  status: 'pending' | 'approved' | 'rejected';
+  details: string | null;
+  inbound_message_id: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Parse a keyword command from the start of a customer message
+ * "status", "Cancel please" and "RESCHEDULE friday 2pm" all match; anything else is conversation
+ */
+export function parseCommand(body: string): { command: SelfServiceCommand; argument: string } | null {
+  const match = body.trim().match(/^([a-zA-Z]+)[\s:,.!-]*([\s\S]*)$/);
+  if (!match) return null;
+
+  const command = match[1].toUpperCase() as SelfServiceCommand;
+  if (!COMMANDS.includes(command)) return null;
+
+  return { command, argument: match[2].trim() };
+}
+
+/**
+ * The order a command applies to: the one the message was matched to, otherwise the
+ * customer's latest order so STATUS still answers after delivery
+ */
+async function findCommandOrder(record: InboundRecord): Promise<CommandOrder | null> {
+  if (record.orderId) {
+    const { data } = await supabase.from('orders').select(ORDER_COLUMNS).eq('id', record.orderId).single();
+    return data;
+  }
+
+  let query = supabase
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .in('customer_phone', phoneVariants(record.message.from))
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (record.smeId) query = query.eq('sme_id', record.smeId);
+
+  const { data } = await query;
+  return data && data.length > 0 ? data[0] : null;
+}
+
+/**
+ * Contact details for HELP: the SME's configured support contact, else its account name/email
+ */
+async function getSupportContact(smeId: string): Promise<string> {
+  const { support_contact } = await getSmeSettings(smeId);
+  if (support_contact) return support_contact;
+
+  const { data } = await supabase.auth.admin.getUserById(smeId);
+  const user = data?.user;
+  const name = user?.user_metadata?.business_name || user?.user_metadata?.name;
+  return [name, user?.email].filter(Boolean).join('\n') || 'Reply to this chat and our team will get back to you.';
+}
+
+const reply = (order: CommandOrder, message: string) =>
+  enqueueWhatsAppMessage({
+    phone: order.customer_phone,
+    message,
+    orderId: order.id,
+    smeId: order.sme_id,
+  });
+
+/**
+ * Open a request for the SME to approve; an existing pending request of the same type is reused
+ */
+async function createOrderRequest(
+  order: CommandOrder,
+  type: OrderRequestType,
+  details: string | null,
+  inboundMessageId: string
+): Promise<{ created: boolean }> {
+  const { error } = await supabase.from('order_requests').insert([
+    {
+      order_id: order.id,
+      sme_id: order.sme_id,
+      type,
+      details,
+      inbound_message_id: inboundMessageId || null,
+    },
+  ]);
+
+  if (error) {
+    // 23505 = a pending request of this type already exists for the order
+    if (error.code === '23505') return { created: false };
+    throw error;
+  }
+  return { created: true };
+}
+
+// Both callers tell the customer in their own reply, so the CANCELLED template is not sent as well
+async function cancelOrder(order: CommandOrder, actor: OrderActor) {
+  return transitionOrder(order, 'CANCELLED', { actor }, {
+    ...cancellationChanges('customer_request', 'Requested by WhatsApp reply'),
+    last_notified_status: 'CANCELLED',
+    last_whatsapp_notification: new Date().toISOString(),
+  });
+}
+
+/**
+ * Answer a keyword command from a stored inbound message
+ * Returns false when the message is not a command (or no order is known for the sender),
+ * leaving it in the SME's inbox as ordinary conversation
+ */
+export async function handleSelfServiceCommand(record: InboundRecord): Promise<boolean> {
+  if (record.duplicate) return false;
+
+  const parsed = parseCommand(record.message.body);
+  if (!parsed) return false;
+
+  const order = await findCommandOrder(record);
+  if (!order) {
+    console.log(`[Self-Service] ${parsed.command} from ${record.message.from}: no order found`);
+    return false;
+  }
+
+  console.log(`[Self-Service] ${parsed.command} for order ${order.readable_id}`);
+
+  await runCommand(parsed.command, parsed.argument, order, record.id);
+
+  // Answered automatically, so it should not count as unread in the SME inbox
+  await supabase
+    .from('whatsapp_inbound_messages')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', record.id);
+
+  return true;
+}
+
+async function runCommand(
+  command: SelfServiceCommand,
+  argument: string,
+  order: CommandOrder,
+  inboundMessageId: string
+): Promise<void> {
+  switch (command) {
+    case 'STATUS': {
+      const event = isTemplateEvent(order.status) ? order.status : 'NEW';
+      const { tracking_url: trackingUrl } = buildTemplateVariables(order);
+      let message = await renderOrderMessage(order.sme_id, event, order);
+      if (trackingUrl && !message.includes(trackingUrl)) {
+        message += `\n\nTrack your order: ${trackingUrl}`;
+      }
+      await reply(order, message);
+      return;
+    }
+
+    case 'HELP': {
+      const contact = await getSupportContact(order.sme_id);
+      await reply(
+        order,
+        `Need help with order #${order.readable_id}? Contact us:\n${contact}\n\n` +
+          'You can also reply STATUS, CANCEL or RESCHEDULE <preferred time>.'
+      );
+      return;
+    }
+
+    case 'CANCEL': {
+      if (CLOSED_STATUSES.includes(order.status)) {
+        await reply(order, `Order #${order.readable_id} is already ${order.status.toLowerCase()} and can no longer be cancelled.`);
+        return;
+      }
+
+      if (SELF_CANCEL_STATUSES.includes(order.status)) {
+        const result = await cancelOrder(order, { type: 'customer', id: order.customer_phone });
+        if (!result.success) throw new Error(result.error);
+        await reply(order, `Your order #${order.readable_id} has been cancelled as requested. ❌`);
+        return;
+      }
+
+      // Past PROCESSING the goods may already be packed or with a rider: the SME decides
+      const { created } = await createOrderRequest(order, 'cancel', argument || null, inboundMessageId);
+      await reply(
+        order,
+        created
+          ? `We've asked the business to cancel order #${order.readable_id}. You'll get a message once they confirm.`
+          : `Your cancellation request for order #${order.readable_id} is already with the business.`
+      );
+      return;
+    }
+
+    case 'RESCHEDULE': {
+      if (CLOSED_STATUSES.includes(order.status)) {
+        await reply(order, `Order #${order.readable_id} is already ${order.status.toLowerCase()} and can no longer be rescheduled.`);
+        return;
+      }
+
+      if (!argument) {
+        await reply(order, 'Please reply RESCHEDULE followed by your preferred delivery day and time, e.g. "RESCHEDULE Friday 2pm".');
+        return;
+      }
+
+      const { created } = await createOrderRequest(order, 'reschedule', argument, inboundMessageId);
+      await reply(
+        order,
+        created
+          ? `Thanks! We've sent your request to deliver order #${order.readable_id} on "${argument}" to the business for confirmation.`
+          : `A reschedule request for order #${order.readable_id} is already with the business.`
+      );
+      return;
+    }
+  }
+}
+
+/**
+ * Pending (or resolved) customer requests for an SME
+ */
+export async function listOrderRequests(smeId: string, status = 'pending') {
+  return supabase
+    .from('order_requests')
+    .select('*, orders(readable_id, customer_name, status)')
+    .eq('sme_id', smeId)
+    .eq('status', status)
+    .order('created_at', { ascending: true });
+}
+
+/**
+ * Approve or reject a customer request and tell the customer the outcome
+ * Approving a cancellation cancels the order
+ */
+export async function resolveOrderRequest(
+  requestId: string,
+  smeId: string,
+  approve: boolean
+): Promise<{ success: boolean; error?: string; statusCode?: number }> {
+  const { data: request, error } = await supabase
+    .from('order_requests')
+    .select('*')
+    .eq('id', requestId)
+    .eq('sme_id', smeId)
+    .single();
+
+  if (error || !request) {
+    return { success: false, error: 'Request not found', statusCode: 404 };
+  }
+
+  const row = request as OrderRequestRow;
+  if (row.status !== 'pending') {
+    return { success: false, error: `Request already ${row.status}`, statusCode: 409 };
+  }
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .eq('id', row.order_id)
+    .single();
+
+  if (!order) {
+    return { success: false, error: 'Order not found', statusCode: 404 };
+  }
+
+  if (approve && row.type === 'cancel') {
+    if (CLOSED_STATUSES.includes(order.status)) {
+      return { success: false, error: `Order is already ${order.status}`, statusCode: 409 };
+    }
+    const result = await cancelOrder(order, smeActor(smeId));
+    if (!result.success) return { success: false, error: result.error, statusCode: result.statusCode };
+  }
+
+  const { error: updateError } = await supabase
+    .from('order_requests')
+    .update({ status: approve ? 'approved' : 'rejected', resolved_at: new Date().toISOString() })
+    .eq('id', row.id);
+
+  if (updateError) {
+    console.error('[Self-Service] Failed to resolve request:', updateError);
+    return { success: false, error: 'Failed to update request', statusCode: 500 };
+  }
+
+  // Templated, so the outcome still reaches the customer after the 24-hour session window
+  const outcome: Record<OrderRequestType, [TemplateEvent, TemplateEvent]> = {
+    cancel: ['CANCEL_APPROVED', 'CANCEL_REJECTED'],
+    reschedule: ['RESCHEDULE_APPROVED', 'RESCHEDULE_REJECTED'],
+  };
+  const { message, template } = await composeOrderMessage(order.sme_id, outcome[row.type][approve ? 0 : 1], order, {
+    request_details: row.details || undefined,
+  });
+  await enqueueWhatsAppMessage({ phone: order.customer_phone, message, template, orderId: order.id, smeId: order.sme_id });
+
+  return { success: true };
+}
@@ -0,0 +1,77 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { DEFAULT_COUNTRY, isCountryCode } from '../shared/phone.js';
+import type { CountryCode } from '../shared/phone.js';
+import {
+  DEFAULT_ORDER_ID_PREFIX,
+  DEFAULT_ORDER_ID_FORMAT,
+  orderIdPrefixError,
+  orderIdFormatError,
+} from '../shared/orderNumbers.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for SME settings: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+export interface SmeSettings {
+  default_country: CountryCode;
+  support_contact: string | null; // Sent to customers who reply HELP
+  order_id_prefix: string; // {PREFIX} in order_id_format
+  order_id_format: string; // How readable order IDs are written, e.g. {PREFIX}-{YYYY}-{SEQ:5}
+}
+
+export const DEFAULT_SME_SETTINGS: SmeSettings = {
+  default_country: DEFAULT_COUNTRY,
+  support_contact: null,
+  order_id_prefix: DEFAULT_ORDER_ID_PREFIX,
+  order_id_format: DEFAULT_ORDER_ID_FORMAT,
+};
+
+/**
+ * The SME's settings; SMEs that never saved any get the defaults
+ */
+export async function getSmeSettings(smeId: string | null | undefined): Promise<SmeSettings> {
+  if (!smeId) return DEFAULT_SME_SETTINGS;
+
+  const { data, error } = await supabase
+    .from('sme_settings')
+    .select('default_country, support_contact, order_id_prefix, order_id_format')
+    .eq('sme_id', smeId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('[SME Settings] Lookup failed, using defaults:', error.message);
+    return DEFAULT_SME_SETTINGS;
+  }
+
+  return {
+    default_country: isCountryCode(data?.default_country) ? data.default_country : DEFAULT_COUNTRY,
+    support_contact: data?.support_contact || null,
+    order_id_prefix:
+      data?.order_id_prefix && !orderIdPrefixError(data.order_id_prefix) ? data.order_id_prefix : DEFAULT_ORDER_ID_PREFIX,
+    order_id_format:
+      data?.order_id_format && !orderIdFormatError(data.order_id_format) ? data.order_id_format : DEFAULT_ORDER_ID_FORMAT,
+  };
+}
+
+/**
+ * Save the SME's settings (partial updates keep the other values)
+ */
+export async function saveSmeSettings(smeId: string, updates: Partial<SmeSettings>): Promise<SmeSettings> {
+  const current = await getSmeSettings(smeId);
+  const next = { ...current, ...updates };
+
+  const { error } = await supabase
+    .from('sme_settings')
+    .upsert([{ sme_id: smeId, ...next, updated_at: new Date().toISOString() }], { onConflict: 'sme_id' });
+
+  if (error) throw new Error(error.message);
+  return next;
+}
@@ -0,0 +1,178 @@
+/**
+ * Shipped message texts per language. SMEs override any of them per language from the
+ * Message Templates page; events missing in a language fall back to English.
+ */
+
+export const SUPPORTED_LANGUAGES = ['en', 'pcm', 'yo', 'ig', 'ha'] as const;
+
+export type Language = (typeof SUPPORTED_LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export type TemplateEvent =
+  | 'NEW'
+  | 'PROCESSING'
+  | 'READY'
+  | 'DISPATCHED'
+  | 'COMPLETED'
+  | 'CANCELLED'
+  | 'OTP'
+  | 'RIDER_ASSIGNED'
+  | 'CANCEL_APPROVED'
+  | 'CANCEL_REJECTED'
+  | 'RESCHEDULE_APPROVED'
+  | 'RESCHEDULE_REJECTED';
+
+export const TEMPLATE_EVENTS: TemplateEvent[] = [
+  'NEW',
+  'PROCESSING',
+  'READY',
+  'DISPATCHED',
+  'COMPLETED',
+  'CANCELLED',
+  'OTP',
+  'RIDER_ASSIGNED',
+  'CANCEL_APPROVED',
+  'CANCEL_REJECTED',
+  'RESCHEDULE_APPROVED',
+  'RESCHEDULE_REJECTED',
+];
+
+// Rider messages are operational and always go out in English
+export const RIDER_EVENTS: TemplateEvent[] = ['RIDER_ASSIGNED'];
+
+const en: Record<TemplateEvent, string> = {
+  NEW: "Hello! Your order #{{readable_id}} has been received. We'll start processing it shortly. 🎉",
+  PROCESSING: "Your order #{{readable_id}} is now being processed. ⚙️ We'll notify you when it's ready!",
+  READY:
+    'Great news! Your order #{{readable_id}} is ready and will be dispatched soon. 📦' +
+    '{{#tracking_url}}\n\nTrack your delivery here: {{tracking_url}}{{/tracking_url}}',
+  DISPATCHED:
+    'Your order #{{readable_id}} is on its way! 🚀' +
+    '{{#tracking_url}}\n\nTrack your delivery here: {{tracking_url}}{{/tracking_url}}' +
+    "{{^tracking_url}} You'll receive a tracking link shortly.{{/tracking_url}}",
+  COMPLETED:
+    'Your order #{{readable_id}} has been delivered. Thank you for your purchase! ✅' +
+    '{{#csat_url}}\n\nPlease rate your experience: {{csat_url}}{{/csat_url}}',
+  CANCELLED: 'Your order #{{readable_id}} has been cancelled. Please contact support for more details. ❌',
+  OTP: 'Your delivery OTP is {{otp}}. It expires in 5 minutes.',
+  RIDER_ASSIGNED:
+    '🚨 New Delivery Assigned!\nOrder #{{readable_id}}\n\n📞 Customer: {{customer_phone}}\n' +
+    '📍 Pickup: Shop Location\n📍 Dropoff: {{delivery_address}}\n\nClick here to start delivery: {{rider_url}}',
+  CANCEL_APPROVED: 'Your order #{{readable_id}} has been cancelled as requested. ❌',
+  CANCEL_REJECTED:
+    'Sorry, order #{{readable_id}} could not be cancelled as it is already on its way. Reply HELP to contact us.',
+  RESCHEDULE_APPROVED: 'Your delivery for order #{{readable_id}} has been rescheduled to "{{request_details}}". ✅',
+  RESCHEDULE_REJECTED:
+    'Sorry, we could not reschedule order #{{readable_id}} to "{{request_details}}". Reply HELP to contact us.',
+};
+
+// Nigerian Pidgin
+const pcm: Partial<Record<TemplateEvent, string>> = {
+  NEW: 'Hello! We don receive your order #{{readable_id}}. We go start am sharp sharp. 🎉',
+  PROCESSING: 'We dey work on your order #{{readable_id}} now. ⚙️ We go tell you once e ready!',
+  READY:
+    'Good news! Your order #{{readable_id}} don ready, e go soon comot. 📦' +
+    '{{#tracking_url}}\n\nFollow your delivery for here: {{tracking_url}}{{/tracking_url}}',
+  DISPATCHED:
+    'Your order #{{readable_id}} don dey road! 🚀' +
+    '{{#tracking_url}}\n\nFollow am for here: {{tracking_url}}{{/tracking_url}}' +
+    '{{^tracking_url}} We go send you tracking link soon.{{/tracking_url}}',
+  COMPLETED:
+    'Your order #{{readable_id}} don land. Thank you say you buy from us! ✅' +
+    '{{#csat_url}}\n\nAbeg tell us how e take go: {{csat_url}}{{/csat_url}}',
+  CANCELLED: 'We don cancel your order #{{readable_id}}. Abeg contact us if you get any question. ❌',
+  OTP: 'Your delivery OTP na {{otp}}. E go expire for 5 minutes.',
+};
+
+// Yoruba
+const yo: Partial<Record<TemplateEvent, string>> = {
+  NEW: 'Ẹ n lẹ! A ti gba ọjà yín #{{readable_id}}. A ó bẹ̀rẹ̀ iṣẹ́ lórí rẹ̀ láìpẹ́. 🎉',
+  PROCESSING: 'A ń ṣiṣẹ́ lórí ọjà yín #{{readable_id}} báyìí. ⚙️ A ó sọ fún yín nígbà tí ó bá ti ṣetán!',
+  READY:
+    'Ìròyìn ayọ̀! Ọjà yín #{{readable_id}} ti ṣetán, a ó fi ránṣẹ́ láìpẹ́. 📦' +
+    '{{#tracking_url}}\n\nẸ tẹ̀lé ìfijíṣẹ́ yín níbí: {{tracking_url}}{{/tracking_url}}',
+  DISPATCHED:
+    'Ọjà yín #{{readable_id}} ti wà lójú ọ̀nà! 🚀' +
+    '{{#tracking_url}}\n\nẸ tẹ̀lé e níbí: {{tracking_url}}{{/tracking_url}}' +
+    '{{^tracking_url}} A ó fi ìjápọ̀ ìtọpinpin ránṣẹ́ sí yín láìpẹ́.{{/tracking_url}}',
+  COMPLETED:
+    'A ti fi ọjà yín #{{readable_id}} jíṣẹ́. Ẹ ṣé púpọ̀ fún rírà lọ́wọ́ wa! ✅' +
+    '{{#csat_url}}\n\nẸ jọ̀ọ́ ẹ sọ fún wa bí ó ti rí: {{csat_url}}{{/csat_url}}',
+  CANCELLED: 'A ti fagilé ọjà yín #{{readable_id}}. Ẹ kàn sí wa fún àlàyé síwájú sí i. ❌',
+  OTP: 'Nọ́mbà OTP ìfijíṣẹ́ yín ni {{otp}}. Yóò parí ní ìṣẹ́jú márùn-ún.',
+};
+
+// Igbo
+const ig: Partial<Record<TemplateEvent, string>> = {
+  NEW: 'Ndewo! Anyị anatala order gị #{{readable_id}}. Anyị ga-amalite ọrụ na ya n’oge na-adịghị anya. 🎉',
+  PROCESSING: 'Anyị na-arụ ọrụ na order gị #{{readable_id}} ugbu a. ⚙️ Anyị ga-agwa gị mgbe ọ dị njikere!',
+  READY:
+    'Ozi ọma! Order gị #{{readable_id}} adịla njikere, a ga-ezipu ya n’oge na-adịghị anya. 📦' +
+    '{{#tracking_url}}\n\nSoro nnyefe gị ebe a: {{tracking_url}}{{/tracking_url}}',
+  DISPATCHED:
+    'Order gị #{{readable_id}} nọ n’ụzọ! 🚀' +
+    '{{#tracking_url}}\n\nSoro ya ebe a: {{tracking_url}}{{/tracking_url}}' +
+    '{{^tracking_url}} Anyị ga-ezitere gị njikọ nsochi n’oge na-adịghị anya.{{/tracking_url}}',
+  COMPLETED:
+    'E nyefeela gị order gị #{{readable_id}}. Daalụ maka ịzụ ahịa n’aka anyị! ✅' +
+    '{{#csat_url}}\n\nBiko gwa anyị otú o si gaa: {{csat_url}}{{/csat_url}}',
+  CANCELLED: 'A kagburu order gị #{{readable_id}}. Biko kpọtụrụ anyị maka nkọwa ndị ọzọ. ❌',
+  OTP: 'OTP nnyefe gị bụ {{otp}}. Ọ ga-agwụ n’ime nkeji ise.',
+};
+
+// Hausa
+const ha: Partial<Record<TemplateEvent, string>> = {
+  NEW: 'Sannu! Mun karɓi odarka #{{readable_id}}. Za mu fara aiki a kai nan ba da daɗewa ba. 🎉',
+  PROCESSING: 'Muna aiki a kan odarka #{{readable_id}} yanzu. ⚙️ Za mu sanar da kai idan ta shirya!',
+  READY:
+    'Labari mai daɗi! Odarka #{{readable_id}} ta shirya, za a aika ta nan ba da daɗewa ba. 📦' +
+    '{{#tracking_url}}\n\nBi diddigin isarwarka a nan: {{tracking_url}}{{/tracking_url}}',
+  DISPATCHED:
+    'Odarka #{{readable_id}} tana kan hanya! 🚀' +
+    '{{#tracking_url}}\n\nBi diddigin ta a nan: {{tracking_url}}{{/tracking_url}}' +
+    '{{^tracking_url}} Za mu aiko maka da hanyar bin diddigi nan ba da daɗewa ba.{{/tracking_url}}',
+  COMPLETED:
+    'An kawo maka odarka #{{readable_id}}. Mun gode da siyayya daga gare mu! ✅' +
+    '{{#csat_url}}\n\nDon Allah ka faɗa mana yadda ta kasance: {{csat_url}}{{/csat_url}}',
+  CANCELLED: 'An soke odarka #{{readable_id}}. Da fatan za ka tuntuɓe mu don ƙarin bayani. ❌',
+  OTP: 'Lambar OTP ta isarwarka ita ce {{otp}}. Za ta ƙare cikin minti 5.',
+};
+
+export const DEFAULT_TEMPLATES: Record<Language, Partial<Record<TemplateEvent, string>>> = {
+  en,
+  pcm,
+  yo,
+  ig,
+  ha,
+};
+
+// Names accepted from CSV columns and forms in addition to the codes
+const LANGUAGE_ALIASES: Record<string, Language> = {
+  english: 'en',
+  pidgin: 'pcm',
+  'nigerian pidgin': 'pcm',
+  yoruba: 'yo',
+  'yorùbá': 'yo',
+  igbo: 'ig',
+  hausa: 'ha',
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+
+/**
+ * Map a language code or name ("yo", "Yoruba", "Pidgin") to a supported code
+ */
+export function normalizeLanguage(value: unknown): Language | null {
+  if (typeof value !== 'string') return null;
+  const cleaned = value.trim().toLowerCase();
+  if (isLanguage(cleaned)) return cleaned;
+  return LANGUAGE_ALIASES[cleaned] || null;
+}
+
+/**
+ * Shipped default for an event in a language, falling back to English
+ */
+export const defaultTemplateFor = (event: TemplateEvent, language: Language): string =>
+  DEFAULT_TEMPLATES[language][event] || en[event];
@@ -0,0 +1,184 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  TEMPLATE_EVENTS,
+  RIDER_EVENTS,
+  DEFAULT_LANGUAGE,
+  defaultTemplateFor,
+  normalizeLanguage,
+} from './templateDefaults.js';
+import type { TemplateEvent, Language } from './templateDefaults.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for message templates: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+export * from './templateDefaults.js';
+
+// Variables every order provides; form_data keys are added on top
+export const BASE_VARIABLES = [
+  'customer_name',
+  'customer_phone',
+  'readable_id',
+  'delivery_address',
+  'price_total',
+  'status',
+  'tracking_url',
+  'csat_url',
+  'rider_url',
+  'rider_phone',
+  'otp', // OTP message only
+  'request_details', // Reschedule outcome messages only
+];
+
+export interface TemplateOrder {
+  readable_id: string;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  delivery_address?: string | null;
+  price_total?: number | null;
+  status?: string | null;
+  tracking_token?: string | null;
+  rider_token?: string | null;
+  rider_phone?: string | null;
+  form_data?: Record<string, unknown> | null;
+  preferred_language?: string | null;
+}
+
+export const isTemplateEvent = (value: string): value is TemplateEvent =>
+  (TEMPLATE_EVENTS as string[]).includes(value);
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return '';
+  return String(value);
+};
+
+/**
+ * Placeholder values for an order. Core order fields take precedence over form_data keys
+ */
+export function buildTemplateVariables(
+  order: TemplateOrder,
+  extras: Record<string, string | undefined> = {}
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(order.form_data || {})) {
+    variables[key] = formatValue(value);
+  }
+
+  Object.assign(variables, {
+    customer_name: order.customer_name || '',
+    customer_phone: order.customer_phone || '',
+    readable_id: order.readable_id,
+    delivery_address: order.delivery_address || '',
+    price_total:
+      order.price_total !== null && order.price_total !== undefined
+        ? `₦${Number(order.price_total).toLocaleString('en-NG')}`
+        : '',
+    status: order.status || '',
+    tracking_url: order.tracking_token ? `${FRONTEND_URL}/track/${order.tracking_token}` : '',
+    csat_url: order.tracking_token ? `${FRONTEND_URL}/csat/${order.tracking_token}` : '',
+    rider_url: order.rider_token ? `${FRONTEND_URL}/rider/${order.rider_token}` : '',
+    rider_phone: order.rider_phone || '',
+  });
+
+  for (const [key, value] of Object.entries(extras)) {
+    if (value !== undefined) variables[key] = value;
+  }
+
+  return variables;
+}
+
+/**
+ * Render a template body: {{name}} placeholders, {{#name}}...{{/name}} sections shown only
+ * when the variable is non-empty and {{^name}}...{{/name}} sections shown only when it is empty
+ */
+export function renderTemplate(body: string, variables: Record<string, string>): string {
+  const withSections = body.replace(
+    /\{\{([#^])\s*([\w.-]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g,
+    (_match, kind: string, name: string, inner: string) => {
+      const present = Boolean(variables[name]);
+      return (kind === '#') === present ? inner : '';
+    }
+  );
+
+  return withSections.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, name: string) => variables[name] ?? '');
+}
+
+/**
+ * Template bodies for every event in one language, SME overrides merged over the shipped defaults
+ * Load once and reuse when rendering many messages (e.g. CSV import)
+ */
+export async function loadTemplateSet(
+  smeId: string | null | undefined,
+  language: Language = DEFAULT_LANGUAGE
+): Promise<Record<TemplateEvent, string>> {
+  const templates = Object.fromEntries(
+    TEMPLATE_EVENTS.map((event) => [event, defaultTemplateFor(event, language)])
+  ) as Record<TemplateEvent, string>;
+  if (!smeId) return templates;
+
+  const { data, error } = await supabase
+    .from('message_templates')
+    .select('event, body')
+    .eq('sme_id', smeId)
+    .eq('language', language);
+
+  if (error) {
+    console.error('[Templates] Failed to load SME templates, using defaults:', error);
+    return templates;
+  }
+
+  for (const row of data || []) {
+    if (isTemplateEvent(row.event)) templates[row.event] = row.body;
+  }
+
+  return templates;
+}
+
+/**
+ * Language a message for this order goes out in: the customer's preferred language,
+ * except rider messages which are always English
+ */
+export const languageFor = (event: TemplateEvent, order: TemplateOrder): Language =>
+  RIDER_EVENTS.includes(event) ? DEFAULT_LANGUAGE : normalizeLanguage(order.preferred_language) || DEFAULT_LANGUAGE;
+
+/**
+ * Render the message for an order event using the SME's template in the order's language
+ */
+export async function renderOrderMessage(
+  smeId: string | null | undefined,
+  event: TemplateEvent,
+  order: TemplateOrder,
+  extras?: Record<string, string | undefined>
+): Promise<string> {
+  const { message } = await composeOrderMessage(smeId, event, order, extras);
+  return message;
+}
+
+/**
+ * Rendered message plus the template reference the sender needs to fall back to the
+ * SME's approved content template outside the 24-hour session window
+ */
+export async function composeOrderMessage(
+  smeId: string | null | undefined,
+  event: TemplateEvent,
+  order: TemplateOrder,
+  extras?: Record<string, string | undefined>
+): Promise<{ message: string; template: { event: TemplateEvent; variables: Record<string, string> } }> {
+  const templates = await loadTemplateSet(smeId, languageFor(event, order));
+  const variables = buildTemplateVariables(order, extras);
+  return { message: renderTemplate(templates[event], variables), template: { event, variables } };
+}
@@ -0,0 +1,126 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import type { InboundMessage, InboundRecord } from './inbound.js';
+
+dotenv.config({ path: './server/.env' });
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables for webhook events: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+const RETENTION_DAYS = 3;
+
+export type WebhookEventKind = 'status' | 'inbound' | 'connection';
+
+export interface WebhookEvent {
+  smeId: string | null;
+  provider: 'twilio' | 'evolution';
+  kind: WebhookEventKind;
+  summary: string;
+  result?: string;
+  details?: Record<string, unknown>;
+}
+
+const preview = (text: string) => (text.length > 60 ? `${text.slice(0, 57)}...` : text);
+
+/**
+ * Console entry for an inbound customer message
+ */
+export function inboundWebhookEvent(message: InboundMessage, record: InboundRecord | null): WebhookEvent {
+  return {
+    smeId: record?.smeId || message.smeId || null,
+    provider: message.provider === 'evolution' ? 'evolution' : 'twilio',
+    kind: 'inbound',
+    summary: `Message from ${message.from}: "${preview(message.body)}"`,
+    result: !record ? 'not_stored' : record.duplicate ? 'duplicate' : 'stored',
+    details: {
+      messageId: message.providerMessageId,
+      from: message.from,
+      to: message.to || null,
+      orderId: record?.orderId || null,
+      hasMedia: Boolean(message.mediaUrl),
+    },
+  };
+}
+
+/**
+ * Business a delivery-status callback belongs to, via the logged message's order
+ */
+export async function findSmeByMessageSid(messageSid: string): Promise<string | null> {
+  const { data: logs } = await supabase
+    .from('whatsapp_logs')
+    .select('order_id')
+    .eq('twilio_sid', messageSid)
+    .limit(1);
+
+  const orderId = logs?.[0]?.order_id;
+  if (!orderId) return null;
+
+  const { data: order } = await supabase.from('orders').select('sme_id').eq('id', orderId).maybeSingle();
+  return order?.sme_id || null;
+}
+
+/**
+ * Keep a provider callback for the test console
+ * Never throws: losing a console entry must not fail the webhook
+ */
+export async function recordWebhookEvent(event: WebhookEvent): Promise<void> {
+  const { error } = await supabase.from('whatsapp_webhook_events').insert([
+    {
+      sme_id: event.smeId,
+      provider: event.provider,
+      kind: event.kind,
+      summary: event.summary,
+      result: event.result || null,
+      details: event.details || {},
+    },
+  ]);
+
+  if (error) {
+    console.warn('[Webhook Events] Failed to record event:', error.message);
+  }
+}
+
+/**
+ * The SME's most recent callbacks, newest first
+ */
+export async function listWebhookEvents(smeId: string, limit: number = 20) {
+  return supabase
+    .from('whatsapp_webhook_events')
+    .select('id, provider, kind, summary, result, details, created_at')
+    .eq('sme_id', smeId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+}
+
+/**
+ * Delete callbacks older than RETENTION_DAYS
+ */
+export async function pruneWebhookEvents(): Promise<void> {
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { error } = await supabase.from('whatsapp_webhook_events').delete().lt('created_at', cutoff);
+  if (error) {
+    console.error('[Webhook Events] Prune error:', error);
+  }
+}
+
+/**
+ * Start the periodic prune job
+ */
+export function startWebhookEventCleanup(intervalMinutes: number = 60): NodeJS.Timer {
+  console.log(`[Webhook Events] Pruning events older than ${RETENTION_DAYS} days every ${intervalMinutes} minutes`);
+
+  const timer = setInterval(async () => {
+    await pruneWebhookEvents();
+  }, intervalMinutes * 60 * 1000);
+
+  // Allow graceful shutdown
+  timer.unref();
+
+  return timer;
+}
@@ -1,6 +1,21 @@
-import twilio from 'twilio';
 import dotenv from 'dotenv';
 import { createClient } from '@supabase/supabase-js';
+import {
+  createTwilioProvider,
+  createOutboxProvider,
+  configureOutboxStore,
+  createProviderFromConfig,
+  verifyProviderConfig,
+  setHttpTransport,
+  createStubTransport,
+  type ProviderHealth,
+  type WhatsAppProvider,
+  type WhatsAppProviderName,
+  type WhatsAppConfigRow,
+  type SenderPurpose,
+} from './providers/index.js';
+import { parsePhoneNumber } from '../shared/phone.js';
+import { openProviderConfig } from './credentials.js';
 
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -13,16 +28,42 @@ dotenv.config({ path: path.join(__dirname, '../../.env') }); // Root if running
 dotenv.config({ path: path.join(__dirname, '../.env') });    // Server dir
 dotenv.config(); // CWD
 
-// Initialize Twilio client (for fallback)
+// Provider mode: "twilio" (default) or "outbox" to capture messages locally
+const providerMode = (process.env.WHATSAPP_PROVIDER || 'twilio').toLowerCase();
+
+// Platform Twilio account (default provider when an SME has none connected)
 const accountSid = process.env.TWILIO_ACCOUNT_SID;
 const authToken = process.env.TWILIO_AUTH_TOKEN;
 const twilioPhoneNumber = process.env.TWILIO_WHATSAPP_NUMBER;
+const twilioConfigured = Boolean(accountSid && authToken && twilioPhoneNumber);
+
+// The outbox is never a silent fallback: a deploy missing Twilio must fail, not stop sending
+if (providerMode !== 'outbox' && !twilioConfigured) {
+  throw new Error(
+    'Missing Twilio environment variables: TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_WHATSAPP_NUMBER ' +
+    '(set WHATSAPP_PROVIDER=outbox to capture messages locally during development)'
+  );
+}
+
+/**
+ * True when messages are captured by the local outbox instead of being sent
+ * Only when WHATSAPP_PROVIDER=outbox is set explicitly
+ */
+export const isOutboxMode = providerMode === 'outbox';
 
-if (!accountSid || !authToken || !twilioPhoneNumber) {
-  throw new Error('Missing Twilio environment variables: TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_WHATSAPP_NUMBER');
+const platformTwilio = twilioConfigured
+  ? { accountSid: accountSid!, authToken: authToken! }
+  : null;
+
+if (isOutboxMode) {
+  configureOutboxStore(process.env.WHATSAPP_OUTBOX_FILE);
+  // Nothing leaves the machine in outbox mode, so credential checks get canned answers too
+  setHttpTransport(createStubTransport());
 }
 
-const twilioClient = twilio(accountSid, authToken);
+const defaultProvider: WhatsAppProvider = isOutboxMode
+  ? createOutboxProvider(twilioPhoneNumber?.replace('whatsapp:', '') || 'outbox')
+  : createTwilioProvider({ ...platformTwilio!, fromNumber: twilioPhoneNumber! });
 
 // Initialize Supabase for config lookup
 const supabaseUrl = process.env.SUPABASE_URL;
@@ -36,70 +77,275 @@ const supabase = supabaseUrl && supabaseServiceKey
   ? createClient(supabaseUrl, supabaseServiceKey)
   : null;
 
+// WhatsApp only allows free-form business messages this long after the customer last wrote
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Event and variable values behind a rendered message, used to send the SME's
+ * approved content template instead when the session window is closed
+ */
+export interface TemplateReference {
+  event: string;
+  variables: Record<string, string>;
+}
+
 export interface WhatsAppPayload {
   phone: string;
   message: string;
   orderId: string;
   mediaUrl?: string;
   smeId?: string; // Add SME ID for config lookup
+  template?: TemplateReference;
+  senderConfigId?: string; // Send from this number instead of picking one by message type
 }
 
 export interface WhatsAppResponse {
   success: boolean;
   messageSid?: string;
+  provider?: WhatsAppProviderName;
+  from?: string; // Number the message went out from
+  contentSid?: string; // Set when sent as an approved template
+  suppressed?: boolean; // Not sent: the recipient opted out
   error?: string;
+  retryable?: boolean; // false when resending the same payload cannot succeed
 }
 
+// Providers built from SME configs, reused until the stored config changes; keyed by config id
+const smeProviders = new Map<string, { fingerprint: string; provider: WhatsAppProvider }>();
+
+// Customer messages for orders whose form has this field go out from the matching branch number
+const ORDER_BRANCH_FIELD = 'branch';
+
 /**
- * Format and validate Nigerian phone numbers
- * Accepts: 2348012345678, 08012345678, +2348012345678
- * Returns: +2348012345678
+ * Which of an SME's numbers a message should come from
  */
-function formatPhoneNumber(phone: string): string | null {
-  // Remove spaces and special characters except +
-  const cleaned = phone.replace(/[\s\-()]/g, '');
+export interface SenderSelection {
+  purpose: Exclude<SenderPurpose, 'branch'>;
+  orderId?: string; // Its branch picks the branch number for customer messages
+  configId?: string; // Pin one number, e.g. for a test send
+}
+
+/**
+ * Rider assignment links come from the dispatch line; everything else is a customer message
+ */
+export function senderPurposeFor(payload: WhatsAppPayload): SenderSelection['purpose'] {
+  return payload.template?.event === 'RIDER_ASSIGNED' ? 'rider' : 'customer';
+}
+
+type SenderConfigRow = WhatsAppConfigRow & {
+  purpose: SenderPurpose;
+  label: string;
+  wrapped_data_key: string | null;
+  key_version: number | null;
+};
+
+async function findOrderBranch(orderId: string): Promise<string | null> {
+  if (!supabase) return null;
+  const { data } = await supabase.from('orders').select('form_data').eq('id', orderId).maybeSingle();
+  const branch = data?.form_data?.[ORDER_BRANCH_FIELD];
+  return typeof branch === 'string' && branch.trim() ? branch.trim().toLowerCase() : null;
+}
+
+/**
+ * Pick the connected config a message goes out from
+ * Rider messages: rider line, else customer line. Customer messages: the order's
+ * branch number, else customer line. A pinned config is used only if connected;
+ * otherwise nothing is picked rather than another number.
+ */
+async function pickSenderConfig(configs: SenderConfigRow[], selection: SenderSelection): Promise<SenderConfigRow | undefined> {
+  if (selection.configId) return configs.find((c) => c.id === selection.configId);
+
+  const line = (purpose: SenderPurpose) => configs.find((c) => c.purpose === purpose);
+
+  if (selection.purpose === 'rider') return line('rider') || line('customer');
+
+  const branches = configs.filter((c) => c.purpose === 'branch');
+  if (branches.length > 0 && selection.orderId) {
+    const branch = await findOrderBranch(selection.orderId);
+    const match = branch && branches.find((c) => c.label.toLowerCase() === branch);
+    if (match) return match;
+  }
+
+  return line('customer');
+}
+
+/**
+ * Pick the provider an SME sends from, based on its connected whatsapp_configs rows
+ * Falls back to the platform Twilio number if the SME has no working number for the
+ * message, and always uses the outbox in outbox mode. Null when a pinned number can't
+ * be used: the message must not go out from a different one
+ */
+export async function resolveProvider(
+  smeId?: string,
+  selection: SenderSelection = { purpose: 'customer' }
+): Promise<WhatsAppProvider | null> {
+  if (isOutboxMode || !smeId || !supabase) return defaultProvider;
+
+  try {
+    const { data: configs, error } = await supabase
+      .from('whatsapp_configs')
+      .select('id, sme_id, provider, purpose, label, provider_config, wrapped_data_key, key_version, is_connected, instance_id')
+      .eq('sme_id', smeId)
+      .eq('is_connected', true);
+
+    const config = error ? undefined : await pickSenderConfig((configs || []) as SenderConfigRow[], selection);
+    if (!config) {
+      if (!selection.configId) return defaultProvider;
+      console.warn(`[WhatsApp] Pinned config ${selection.configId} for ${smeId} is not connected${error ? ` (${error.message})` : ''}`);
+      return null;
+    }
+
+    // Re-saved credentials or a key rotation change the stored row, so they build a new client
+    const fingerprint = JSON.stringify([config.provider, config.key_version, config.wrapped_data_key, config.provider_config]);
+    const cached = smeProviders.get(config.id);
+    if (cached && cached.fingerprint === fingerprint) return cached.provider;
+
+    const provider = createProviderFromConfig(
+      { ...config, provider_config: openProviderConfig(config) },
+      platformTwilio
+    );
+    smeProviders.set(config.id, { fingerprint, provider });
+    console.log(`[WhatsApp] Using SME-specific ${provider.name} provider for ${smeId} (${config.label || config.purpose} number)`);
+    return provider;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    if (selection.configId) {
+      console.warn(`[WhatsApp] Could not use pinned config ${selection.configId} for ${smeId} (${reason})`);
+      return null;
+    }
+    console.warn(`[WhatsApp] Could not use SME config for ${smeId} (${reason}), falling back to default provider`);
+    return defaultProvider;
+  }
+}
+
+/**
+ * Check a decrypted SME config against its provider (see verifyProviderConfig)
+ */
+export function verifySmeProviderConfig(config: WhatsAppConfigRow): Promise<ProviderHealth> {
+  return verifyProviderConfig(config, platformTwilio);
+}
+
+/**
+ * True if the customer messaged within the last 24 hours, so free text is allowed
+ * Lookup failures count as open: the send is attempted as before
+ */
+export async function isSessionWindowOpen(smeId: string | undefined, phone: string): Promise<boolean> {
+  if (!supabase) return true;
+
+  let query = supabase
+    .from('whatsapp_inbound_messages')
+    .select('id')
+    .eq('from_phone', phone)
+    .gte('created_at', new Date(Date.now() - SESSION_WINDOW_MS).toISOString())
+    .limit(1);
+
+  if (smeId) query = query.eq('sme_id', smeId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.warn('[WhatsApp] Session window lookup failed, assuming open:', error.message);
+    return true;
+  }
+
+  return (data || []).length > 0;
+}
 
-  // Check if already in +234 format
-  if (cleaned.startsWith('+234') && cleaned.length === 14) {
-    return cleaned;
+/**
+ * True if the recipient opted out of this SME's messages (STOP or manual toggle)
+ * Lookup failures count as not suppressed so order updates keep flowing
+ */
+export async function isSuppressed(smeId: string | undefined, phone: string): Promise<boolean> {
+  if (!supabase || !smeId) return false;
+
+  const { data, error } = await supabase
+    .from('whatsapp_suppressions')
+    .select('id')
+    .eq('sme_id', smeId)
+    .eq('phone', phone)
+    .limit(1);
+
+  if (error) {
+    console.warn('[WhatsApp] Suppression lookup failed:', error.message);
+    return false;
   }
 
-  // Convert from 0 prefix (08012345678 → +2348012345678)
-  if (cleaned.startsWith('0') && cleaned.length === 11) {
-    return '+234' + cleaned.substring(1);
+  return (data || []).length > 0;
+}
+
+/**
+ * Fill a content template's numbered slots from our variable values
+ * Missing values become "-" because WhatsApp rejects empty template parameters
+ */
+export function mapContentVariables(
+  mapping: Record<string, string>,
+  values: Record<string, string>
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const [slot, name] of Object.entries(mapping)) {
+    variables[slot] = values[name] || '-';
   }
+  return variables;
+}
 
-  // Convert from 234 prefix (2348012345678 → +2348012345678)
-  if (cleaned.startsWith('234') && cleaned.length === 13) {
-    return '+' + cleaned;
+// Campaign messages reference their campaign, which carries its own approved template
+const CAMPAIGN_EVENT_PREFIX = 'campaign:';
+
+export const campaignTemplateEvent = (campaignId: string) => `${CAMPAIGN_EVENT_PREFIX}${campaignId}`;
+
+export const isCampaignTemplateEvent = (event: string | null | undefined) => Boolean(event?.startsWith(CAMPAIGN_EVENT_PREFIX));
+
+async function findContentTemplate(smeId: string | undefined, event: string) {
+  if (!supabase || !smeId) return null;
+
+  if (event.startsWith(CAMPAIGN_EVENT_PREFIX)) {
+    const { data: campaign } = await supabase
+      .from('whatsapp_campaigns')
+      .select('content_sid, content_variables')
+      .eq('id', event.slice(CAMPAIGN_EVENT_PREFIX.length))
+      .eq('sme_id', smeId)
+      .maybeSingle();
+
+    return campaign?.content_sid
+      ? { content_sid: campaign.content_sid as string, variables: (campaign.content_variables || {}) as Record<string, string> }
+      : null;
   }
 
-  // Invalid format
-  return null;
+  const { data } = await supabase
+    .from('whatsapp_content_templates')
+    .select('content_sid, variables')
+    .eq('sme_id', smeId)
+    .eq('event', event)
+    .maybeSingle();
+
+  return data as { content_sid: string; variables: Record<string, string> } | null;
 }
 
 /**
- * Sends a WhatsApp message via Twilio
- * Phone format: +234XXXXXXXXXX (Nigerian format with country code)
+ * Sends a WhatsApp message through the SME's provider (or the platform default)
+ * Phone format: +E.164 (see server/shared/phone.ts)
  */
 export async function sendWhatsAppMessage(
   payload: WhatsAppPayload
 ): Promise<WhatsAppResponse> {
   try {
-    // Validate phone number format
-    const formattedPhone = formatPhoneNumber(payload.phone);
-    if (!formattedPhone) {
+    // Numbers are stored as +E.164 since they are validated on entry; older national-format
+    // rows predate multi-country support and are all Nigerian
+    const parsedPhone = parsePhoneNumber(payload.phone);
+    if (!parsedPhone.valid) {
       return {
         success: false,
-        error: 'Invalid phone number format. Use +234XXXXXXXXXX or 0XXXXXXXXXX',
+        error: parsedPhone.error,
+        retryable: false,
       };
     }
+    const formattedPhone = parsedPhone.e164;
 
     // Validate message length
     if (!payload.message || payload.message.length === 0) {
       return {
         success: false,
         error: 'Message cannot be empty',
+        retryable: false,
       };
     }
 
@@ -107,52 +353,78 @@ export async function sendWhatsAppMessage(
       return {
         success: false,
         error: 'Message exceeds maximum length of 4096 characters',
+        retryable: false,
       };
     }
 
-    // Check for SME-specific WhatsApp config
-    // Ensure twilioPhoneNumber is a string before calling replace
-    const defaultTwilioPhone = twilioPhoneNumber || '';
-    let fromPhoneNumber = defaultTwilioPhone.replace('whatsapp:', '');
-    let useCustomProvider = false;
-
-    if (payload.smeId && supabase) {
-      try {
-        const { data: config, error: configError } = await supabase
-          .from('whatsapp_configs')
-          .select('*')
-          .eq('sme_id', payload.smeId)
-          .single();
-
-        if (!configError && config && config.is_connected) {
-          useCustomProvider = true;
-          if (config.provider === 'twilio' && config.provider_config?.twilioPhoneNumber) {
-            fromPhoneNumber = config.provider_config.twilioPhoneNumber.replace('whatsapp:', '');
-            console.log(`[WhatsApp] Using SME-specific Twilio config for ${payload.smeId}`);
-          } else if (config.provider === 'baileys' || config.provider === 'evolution') {
-            // TODO: Implement Baileys/Evolution provider when library is integrated
-            console.log(`[WhatsApp] ${config.provider} provider configured but not yet fully implemented. Falling back to Twilio.`);
-            useCustomProvider = false;
-          }
-        }
-      } catch (error) {
-        console.warn(`[WhatsApp] Error checking SME config for ${payload.smeId}, falling back to default Twilio`);
-      }
+    // Opted-out customers still get delivery OTPs: they are transactional and expected
+    if (payload.template?.event !== 'OTP' && await isSuppressed(payload.smeId, formattedPhone)) {
+      console.log(`[WhatsApp] Skipped ${formattedPhone}: opted out of messages from ${payload.smeId}`);
+      return {
+        success: false,
+        suppressed: true,
+        error: 'Customer has opted out of WhatsApp messages',
+        retryable: false,
+      };
     }
 
-    // Send message via Twilio
-    const message = await twilioClient.messages.create({
-      from: `whatsapp:${fromPhoneNumber}`,
-      to: `whatsapp:${formattedPhone}`,
-      body: payload.message,
-      ...(payload.mediaUrl && { mediaUrl: [payload.mediaUrl] }),
+    const provider = await resolveProvider(payload.smeId, {
+      purpose: senderPurposeFor(payload),
+      orderId: payload.orderId,
+      configId: payload.senderConfigId,
     });
 
-    console.log(`[WhatsApp] Message sent to ${formattedPhone} (SID: ${message.sid}) from ${fromPhoneNumber}`);
+    if (!provider) {
+      return {
+        success: false,
+        error: 'The selected WhatsApp number is not connected',
+        retryable: false,
+      };
+    }
+
+    // Business API providers can only send approved templates outside the session window
+    if (provider.sendTemplate && !(await isSessionWindowOpen(payload.smeId, formattedPhone))) {
+      const content = payload.template && await findContentTemplate(payload.smeId, payload.template.event);
+      if (!content) {
+        return {
+          success: false,
+          error: payload.template
+            ? `Customer has not messaged in 24 hours and no approved template is set up for ${
+              payload.template.event.startsWith(CAMPAIGN_EVENT_PREFIX) ? 'this campaign' : payload.template.event
+            }`
+            : 'Customer has not messaged in 24 hours; free-form messages are only allowed within the session window',
+          retryable: false,
+        };
+      }
+
+      const result = await provider.sendTemplate(
+        formattedPhone,
+        content.content_sid,
+        mapContentVariables(content.variables, payload.template!.variables)
+      );
+
+      console.log(`[WhatsApp] Template ${content.content_sid} sent to ${formattedPhone} (ID: ${result.messageId}) via ${provider.name}`);
+
+      return {
+        success: true,
+        messageSid: result.messageId,
+        provider: provider.name,
+        from: provider.sender,
+        contentSid: content.content_sid,
+      };
+    }
+
+    const result = payload.mediaUrl
+      ? await provider.sendMedia(formattedPhone, payload.mediaUrl, payload.message)
+      : await provider.sendText(formattedPhone, payload.message);
+
+    console.log(`[WhatsApp] Message sent to ${formattedPhone} (ID: ${result.messageId}) via ${provider.name} from ${provider.sender}`);
 
     return {
       success: true,
-      messageSid: message.sid,
+      messageSid: result.messageId,
+      provider: provider.name,
+      from: provider.sender,
     };
   } catch (error) {
     const errorMessage =
@@ -162,64 +434,7 @@ export async function sendWhatsAppMessage(
     return {
       success: false,
       error: errorMessage,
+      retryable: true,
     };
   }
 }
-
-/**
- * Retry logic for failed messages with exponential backoff
- */
-export async function sendWhatsAppWithRetry(
-  payload: WhatsAppPayload,
-  maxRetries: number = 3
-): Promise<WhatsAppResponse> {
-  let lastError: WhatsAppResponse | null = null;
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    const result = await sendWhatsAppMessage(payload);
-
-    if (result.success) {
-      return result;
-    }
-
-    lastError = result;
-
-    // Exponential backoff: 1s, 2s, 4s
-    if (attempt < maxRetries) {
-      const delayMs = Math.pow(2, attempt - 1) * 1000;
-      console.log(
-        `[WhatsApp] Retry attempt ${attempt}/${maxRetries} after ${delayMs}ms`
-      );
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-    }
-  }
-
-  return (
-    lastError || {
-      success: false,
-      error: 'Max retries exceeded',
-    }
-  );
-}
-
-/**
- * Format message template based on order status
- */
-export function getOrderStatusMessage(
-  status: string,
-  orderId: string,
-  trackingUrl?: string
-): string {
-  const messages: Record<string, string> = {
-    NEW: `Hello! Your order #${orderId} has been received. We'll start processing it shortly. 🎉`,
-    PROCESSING: `Your order #${orderId} is now being processed. ⚙️ We'll notify you when it's ready!`,
-    READY: `Great news! Your order #${orderId} is ready and will be dispatched soon. 📦`,
-    DISPATCHED: trackingUrl
-      ? `Your order #${orderId} is on its way! 🚀\n\nTrack your delivery here: ${trackingUrl}`
-      : `Your order #${orderId} is on its way! 🚀 You'll receive a tracking link shortly.`,
-    COMPLETED: `Your order #${orderId} has been delivered. Thank you for your purchase! ✅\n\nPlease rate your experience: ${trackingUrl}`,
-    CANCELLED: `Your order #${orderId} has been cancelled. Please contact support for more details. ❌`,
-  };
-
-  return messages[status] || `Order #${orderId} status: ${status}`;
-}
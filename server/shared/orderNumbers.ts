@@ -0,0 +1,88 @@
+/**
+ * Readable order IDs shared by the server and the dashboard
+ * Each SME numbers its orders from its own counter (server/services/orderNumbers.ts); the number
+ * is written out with the SME's prefix and format, e.g. NGZ-2026-00042. Keep this file free of
+ * Node/browser imports.
+ */
+
+export const DEFAULT_ORDER_ID_PREFIX = 'WOT';
+
+export const DEFAULT_ORDER_ID_FORMAT = '{PREFIX}-{YYYY}-{SEQ:5}';
+
+// {PREFIX}, {YYYY}, {YY}, {MM}, and {SEQ} or {SEQ:n} zero-padded to n digits
+export const ORDER_ID_TOKENS = ['{PREFIX}', '{YYYY}', '{YY}', '{MM}', '{SEQ}', '{SEQ:n}'];
+
+const TOKEN_PATTERN = /\{([A-Z]+)(?::(\d+))?\}/g;
+const PREFIX_PATTERN = /^[A-Z0-9]{1,10}$/;
+const LITERAL_PATTERN = /^[A-Za-z0-9\-_/.#]*$/;
+const MAX_FORMAT_LENGTH = 40;
+const MAX_SEQ_PADDING = 10;
+
+export const isOrderIdPrefix = (value: unknown): value is string =>
+  typeof value === 'string' && PREFIX_PATTERN.test(value);
+
+/**
+ * Why the prefix can't be used, or null if it can
+ */
+export function orderIdPrefixError(prefix: string): string | null {
+  return isOrderIdPrefix(prefix) ? null : 'The prefix must be 1-10 capital letters or digits, e.g. NGZ';
+}
+
+/**
+ * Why the format can't be used, or null if it can
+ * It must number the order exactly once, so every order gets a different ID, and the number
+ * must not run into the prefix, the date or a digit (WOT1 + 23 and WOT + 123 are both WOT123)
+ */
+export function orderIdFormatError(format: string): string | null {
+  if (!format || format.length > MAX_FORMAT_LENGTH) return `The format must be 1-${MAX_FORMAT_LENGTH} characters`;
+
+  let seqCount = 0;
+  for (const [token, name, padding] of format.matchAll(TOKEN_PATTERN)) {
+    if (name === 'SEQ') {
+      seqCount += 1;
+      if (padding && (Number(padding) < 1 || Number(padding) > MAX_SEQ_PADDING)) {
+        return `{SEQ:n} pads to 1-${MAX_SEQ_PADDING} digits`;
+      }
+    } else if (padding || !['PREFIX', 'YYYY', 'YY', 'MM'].includes(name)) {
+      return `Unknown placeholder ${token}; use ${ORDER_ID_TOKENS.join(', ')}`;
+    }
+  }
+  if (seqCount !== 1) return 'The format must contain {SEQ} (or {SEQ:n}) exactly once';
+
+  const literals = format.replace(TOKEN_PATTERN, '');
+  if (/[{}]/.test(literals)) return 'Placeholders must be written like {SEQ:5}';
+  if (!LITERAL_PATTERN.test(literals)) return 'Besides placeholders, use only letters, digits and - _ / . #';
+
+  const [before, after] = format.split(/\{SEQ(?::\d+)?\}/);
+  if (/[}\d]$/.test(before) || /^[{\d]/.test(after)) {
+    return 'Separate {SEQ} from other placeholders and digits, e.g. {PREFIX}-{SEQ}';
+  }
+
+  return null;
+}
+
+/**
+ * Write out an order number, e.g. ('NGZ', '{PREFIX}-{YYYY}-{SEQ:5}', 42) → NGZ-2026-00042
+ * Dates are the order's creation date in UTC; numbers longer than the padding are kept whole
+ */
+export function formatOrderId(prefix: string, format: string, seq: number, date: Date = new Date()): string {
+  const year = String(date.getUTCFullYear());
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+
+  return format.replace(TOKEN_PATTERN, (token, name: string, padding?: string) => {
+    switch (name) {
+      case 'PREFIX':
+        return prefix;
+      case 'YYYY':
+        return year;
+      case 'YY':
+        return year.slice(-2);
+      case 'MM':
+        return month;
+      case 'SEQ':
+        return String(seq).padStart(padding ? Number(padding) : 0, '0');
+      default:
+        return token;
+    }
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * Order lifecycle shared by the server and the dashboard
+ * The server enforces these rules on every status change (server/services/orderStateMachine.ts);
+ * the dashboard uses them to offer only the moves that will be accepted. Keep this file free of
+ * Node/browser imports.
+ */
+
+export type OrderStatus = 'NEW' | 'PROCESSING' | 'READY' | 'DISPATCHED' | 'COMPLETED' | 'CANCELLED';
+
+export const ORDER_STATUSES: OrderStatus[] = ['NEW', 'PROCESSING', 'READY', 'DISPATCHED', 'COMPLETED', 'CANCELLED'];
+
+// Every order starts here
+export const INITIAL_STATUS: OrderStatus = 'NEW';
+
+// The usual path of an order, one step at a time
+export const ORDER_FLOW: OrderStatus[] = ['NEW', 'PROCESSING', 'READY', 'DISPATCHED', 'COMPLETED'];
+
+// Nothing moves an order out of these
+export const TERMINAL_STATUSES: OrderStatus[] = ['COMPLETED', 'CANCELLED'];
+
+// The next step of the flow, or cancelling, from any status that is not terminal
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  NEW: ['PROCESSING', 'CANCELLED'],
+  PROCESSING: ['READY', 'CANCELLED'],
+  READY: ['DISPATCHED', 'CANCELLED'],
+  DISPATCHED: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+// Why an order was cancelled; customers cancelling by WhatsApp reply count as customer_request
+export type CancellationReason = 'customer_request' | 'out_of_stock' | 'customer_unreachable' | 'fraud';
+
+export const CANCELLATION_REASONS: CancellationReason[] = ['customer_request', 'out_of_stock', 'customer_unreachable', 'fraud'];
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  customer_request: 'Customer request',
+  out_of_stock: 'Out of stock',
+  customer_unreachable: 'Customer unreachable',
+  fraud: 'Suspected fraud',
+};
+
+// Longest cancellation note kept with the order
+export const MAX_CANCELLATION_NOTES_LENGTH = 500;
+
+// Who changed an order; id is the SME's user id, or the rider's/customer's phone
+export interface OrderActor {
+  type: 'sme' | 'rider' | 'customer' | 'system';
+  id?: string | null;
+}
+
+export interface TransitionContext {
+  otpVerified?: boolean; // The rider entered the customer's delivery code
+  override?: boolean; // The SME completes the order without the delivery code
+  actor?: OrderActor; // Recorded in the order's history (system if not given)
+}
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+  typeof value === 'string' && (ORDER_STATUSES as string[]).includes(value);
+
+export const isCancellationReason = (value: unknown): value is CancellationReason =>
+  typeof value === 'string' && (CANCELLATION_REASONS as string[]).includes(value);
+
+export const isTerminalStatus = (status: string) => (TERMINAL_STATUSES as string[]).includes(status);
+
+/**
+ * The next status in the usual flow, or null at the end of it (or once cancelled)
+ */
+export function nextFlowStatus(status: string): OrderStatus | null {
+  const index = (ORDER_FLOW as string[]).indexOf(status);
+  return index >= 0 && index < ORDER_FLOW.length - 1 ? ORDER_FLOW[index + 1] : null;
+}
+
+/**
+ * Why the order can't move to the status, or null if it can
+ * `order` is the order as it will be saved, so a rider assigned in the same update counts
+ */
+export function transitionError(
+  order: { status: string; rider_phone?: string | null },
+  to: string,
+  context: TransitionContext = {}
+): string | null {
+  if (!isOrderStatus(to)) return `Unknown status ${to}`;
+  if (!isOrderStatus(order.status)) return `Order has an unknown status ${order.status}`;
+
+  const allowed = ORDER_TRANSITIONS[order.status];
+  if (allowed.length === 0) return `Order is already ${order.status} and can no longer change`;
+  if (!allowed.includes(to)) {
+    return `An order can't move from ${order.status} to ${to}; it can only move to ${allowed.join(' or ')}`;
+  }
+
+  if (to === 'DISPATCHED' && !order.rider_phone) {
+    return 'Assign a rider before dispatching the order';
+  }
+  if (to === 'COMPLETED' && !context.otpVerified && !context.override) {
+    return "Completing an order needs the customer's delivery code (OTP) or an SME override";
+  }
+
+  return null;
+}
@@ -0,0 +1,148 @@
+/**
+ * Phone number normalization shared by the server and the dashboard
+ * Numbers are stored and sent as +E.164; anything typed without a country code is
+ * read in the SME's default country. Keep this file free of Node/browser imports.
+ */
+
+export type CountryCode = 'NG' | 'GH' | 'GB';
+
+export interface CountryInfo {
+  code: CountryCode;
+  name: string;
+  adjective: string; // "a Nigerian mobile number"
+  dialCode: string; // Without the +
+  trunkPrefix: string; // Dialled before national numbers, dropped in E.164
+  nationalLength: number; // Digits after the dial code
+  mobilePattern: RegExp; // Matches the national significant number of a mobile line
+  example: string; // As a customer would type it
+}
+
+export const COUNTRIES: Record<CountryCode, CountryInfo> = {
+  NG: {
+    code: 'NG',
+    name: 'Nigeria',
+    adjective: 'Nigerian',
+    dialCode: '234',
+    trunkPrefix: '0',
+    nationalLength: 10,
+    mobilePattern: /^[789][01]\d{8}$/,
+    example: '0803 123 4567',
+  },
+  GH: {
+    code: 'GH',
+    name: 'Ghana',
+    adjective: 'Ghanaian',
+    dialCode: '233',
+    trunkPrefix: '0',
+    nationalLength: 9,
+    mobilePattern: /^[25]\d{8}$/,
+    example: '024 123 4567',
+  },
+  GB: {
+    code: 'GB',
+    name: 'United Kingdom',
+    adjective: 'UK',
+    dialCode: '44',
+    trunkPrefix: '0',
+    nationalLength: 10,
+    mobilePattern: /^7\d{9}$/,
+    example: '07700 900123',
+  },
+};
+
+export const COUNTRY_CODES = Object.keys(COUNTRIES) as CountryCode[];
+
+export const DEFAULT_COUNTRY: CountryCode = 'NG';
+
+export const isCountryCode = (value: unknown): value is CountryCode =>
+  typeof value === 'string' && value in COUNTRIES;
+
+// Both shapes name every field so callers compiled without strictNullChecks can still read them
+export type PhoneParseResult =
+  | { valid: true; e164: string; country: CountryCode; error?: undefined }
+  | { valid: false; error: string; e164?: undefined; country?: undefined };
+
+const supportedList = () =>
+  COUNTRY_CODES.map((code) => `${COUNTRIES[code].name} (+${COUNTRIES[code].dialCode})`).join(', ');
+
+function validateNational(country: CountryInfo, digits: string, input: string): PhoneParseResult {
+  // Tolerate the trunk 0 after a country code, e.g. +44 07700 900123
+  const national = digits.startsWith(country.trunkPrefix) && digits.length === country.nationalLength + 1
+    ? digits.slice(country.trunkPrefix.length)
+    : digits;
+
+  if (national.length !== country.nationalLength) {
+    return {
+      valid: false,
+      error: `"${input}" is not a valid ${country.adjective} number: expected ${country.nationalLength} digits after +${country.dialCode} (e.g. ${country.example})`,
+    };
+  }
+
+  if (!country.mobilePattern.test(national)) {
+    return {
+      valid: false,
+      error: `"${input}" is not a ${country.adjective} mobile number; WhatsApp messages need a mobile number (e.g. ${country.example})`,
+    };
+  }
+
+  return { valid: true, e164: `+${country.dialCode}${national}`, country: country.code };
+}
+
+/**
+ * Parse a phone number as typed by a person into +E.164
+ * Accepts "+233 24 123 4567", "00447700900123", "2348031234567" and national
+ * forms like "0803 123 4567", which are read in the default country
+ */
+export function parsePhoneNumber(input: string, defaultCountry: CountryCode = DEFAULT_COUNTRY): PhoneParseResult {
+  const raw = (input || '').trim();
+  if (!raw) {
+    return { valid: false, error: 'Phone number is required' };
+  }
+
+  const cleaned = raw.replace(/^whatsapp:/i, '').replace(/[\s\-().]/g, '');
+  if (!/^(\+|00)?\d+$/.test(cleaned)) {
+    return { valid: false, error: `"${raw}" is not a phone number: use digits, spaces or dashes and an optional leading +` };
+  }
+
+  const international = cleaned.startsWith('+') || cleaned.startsWith('00');
+  const digits = cleaned.replace(/^(\+|00)/, '');
+
+  const byDialCode = COUNTRY_CODES.map((code) => COUNTRIES[code]).find((c) => digits.startsWith(c.dialCode));
+
+  if (international) {
+    if (!byDialCode) {
+      return { valid: false, error: `"${raw}" is from a country we don't support yet. Supported: ${supportedList()}` };
+    }
+    return validateNational(byDialCode, digits.slice(byDialCode.dialCode.length), raw);
+  }
+
+  const country = COUNTRIES[defaultCountry] || COUNTRIES[DEFAULT_COUNTRY];
+
+  // Full international number typed without the + (e.g. 2348031234567)
+  if (byDialCode && digits.length === byDialCode.dialCode.length + byDialCode.nationalLength) {
+    const asInternational = validateNational(byDialCode, digits.slice(byDialCode.dialCode.length), raw);
+    if (asInternational.valid) return asInternational;
+  }
+
+  return validateNational(country, digits, raw);
+}
+
+/**
+ * +E.164 form of a number, or null if it can't be parsed
+ */
+export function normalizePhoneNumber(input: string, defaultCountry: CountryCode = DEFAULT_COUNTRY): string | null {
+  const result = parsePhoneNumber(input, defaultCountry);
+  return result.valid ? result.e164 : null;
+}
+
+/**
+ * Ways the same E.164 number may have been typed into older records:
+ * +E.164, digits only, and the national form with trunk prefix
+ */
+export function phoneNumberVariants(e164: string): string[] {
+  const digits = e164.replace(/^\+/, '');
+  const variants = [e164, digits];
+  const country = COUNTRY_CODES.map((code) => COUNTRIES[code]).find((c) => digits.startsWith(c.dialCode));
+  if (country) variants.push(`${country.trunkPrefix}${digits.slice(country.dialCode.length)}`);
+  return variants;
+}
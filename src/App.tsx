@@ -14,6 +14,9 @@ import HelpPage from './views/HelpPage';
 import FormManagementPage from './views/FormManagementPage';
 import CSVImportPage from './views/CSVImportPage';
 import WhatsAppConnectPage from './views/WhatsAppConnectPage';
+import MessageTemplatesPage from './views/MessageTemplatesPage';
+import BusinessSettingsPage from './views/BusinessSettingsPage';
+import CampaignsPage from './views/CampaignsPage';
 import OnboardingWizard from './views/OnboardingWizard';
 import LandingPage from './views/Homepage';
 
@@ -102,6 +105,24 @@ function App() {
                 element={<ProtectedRoute><WhatsAppConnectPage /></ProtectedRoute>} 
             />
 
+            {/* 7b. Message Templates Route */}
+            <Route 
+                path="/templates" 
+                element={<ProtectedRoute><MessageTemplatesPage /></ProtectedRoute>} 
+            />
+
+            {/* 7c. Campaigns Route */}
+            <Route 
+                path="/campaigns" 
+                element={<ProtectedRoute><CampaignsPage /></ProtectedRoute>} 
+            />
+
+            {/* 7d. Business Settings Route */}
+            <Route 
+                path="/settings" 
+                element={<ProtectedRoute><BusinessSettingsPage /></ProtectedRoute>} 
+            />
+
             {/* 8. Public Rider PWA (Token-based access, requires no general authentication) */}
             <Route path="/rider/:token" element={<RiderPwa />} />
 
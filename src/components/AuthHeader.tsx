@@ -1,7 +1,7 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { Group, Paper, Title, Text, Avatar, Tooltip, ActionIcon, Divider, Menu } from '@mantine/core';
-import { IconClipboardList, IconMessageCircle, IconFileUpload, IconDots, IconHelp, IconLogout, IconHome } from '@tabler/icons-react';
+import { IconClipboardList, IconMessageCircle, IconFileUpload, IconDots, IconHelp, IconLogout, IconHome, IconTemplate, IconSettings, IconSpeakerphone } from '@tabler/icons-react';
 import { useAuth } from '../context/AuthContext';
 
 const AuthHeader: React.FC<{ title?: string }> = ({ title }) => {
@@ -22,6 +22,8 @@ const AuthHeader: React.FC<{ title?: string }> = ({ title }) => {
           <Tooltip label="Dashboard"><ActionIcon component={Link} to="/sme" variant="light" size="lg"><IconHome size={20} /></ActionIcon></Tooltip>
           <Tooltip label="Manage Forms"><ActionIcon component={Link} to="/forms" variant="light" size="lg"><IconClipboardList size={20} /></ActionIcon></Tooltip>
           <Tooltip label="WhatsApp Settings"><ActionIcon component={Link} to="/whatsapp" variant="light" size="lg" color="green"><IconMessageCircle size={20} /></ActionIcon></Tooltip>
+          <Tooltip label="Message Templates"><ActionIcon component={Link} to="/templates" variant="light" size="lg" color="green"><IconTemplate size={20} /></ActionIcon></Tooltip>
+          <Tooltip label="Campaigns"><ActionIcon component={Link} to="/campaigns" variant="light" size="lg" color="green"><IconSpeakerphone size={20} /></ActionIcon></Tooltip>
           <Tooltip label="Import Data"><ActionIcon component={Link} to="/csv-import" variant="light" size="lg"><IconFileUpload size={20} /></ActionIcon></Tooltip>
 
           <Divider orientation="vertical" />
@@ -30,6 +32,7 @@ const AuthHeader: React.FC<{ title?: string }> = ({ title }) => {
             <Menu.Target><ActionIcon variant="outline" size="lg" color="gray"><IconDots size={20} /></ActionIcon></Menu.Target>
             <Menu.Dropdown>
               <Menu.Label>Account</Menu.Label>
+              <Menu.Item component={Link} to="/settings" leftSection={<IconSettings size={14} />}>Business Settings</Menu.Item>
               <Menu.Item component={Link} to="/help" leftSection={<IconHelp size={14} />}>Support</Menu.Item>
               <Menu.Item color="red" onClick={logout} leftSection={<IconLogout size={14} />}>Logout</Menu.Item>
             </Menu.Dropdown>
@@ -36,6 +36,7 @@ const CSVMapper: React.FC<CSVMapperProps> = ({
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
   const [columnMapping, setColumnMapping] = useState<Record<string, string>>({});
   const [previewData, setPreviewData] = useState<any[]>([]);
+  const [invalidRows, setInvalidRows] = useState<{ row: number; error: string }[]>([]);
   const [step, setStep] = useState<"upload" | "mapping" | "preview" | "importing">("upload");
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -77,6 +78,7 @@ const CSVMapper: React.FC<CSVMapperProps> = ({
           const h = normalize(header);
           if (['name', 'customername', 'fullname', 'receiver'].includes(h)) newMapping[header] = 'customer_name';
           if (['phone', 'phonenumber', 'mobile', 'contact', 'cell'].includes(h)) newMapping[header] = 'customer_phone';
+          if (['email', 'emailaddress', 'mail'].includes(h)) newMapping[header] = 'customer_email';
           if (['address', 'deliveryaddress', 'location', 'destination'].includes(h)) newMapping[header] = 'delivery_address';
           if (['amount', 'price', 'total', 'cost', 'value'].includes(h)) newMapping[header] = 'price_total';
 
@@ -108,7 +110,10 @@ const CSVMapper: React.FC<CSVMapperProps> = ({
     try {
       const response = await fetch(`${API_BASE_URL}/csv-mapper`, {
         method: "POST",
-        headers: { "Content-Type": "application/json", "x-sme-id": smeId },
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("wot_auth_token")}`,
+        },
         body: JSON.stringify({
           csvData: csvContent,
           schemaId,
@@ -120,6 +125,7 @@ const CSVMapper: React.FC<CSVMapperProps> = ({
       const json = await response.json();
       if (json.success) {
         setPreviewData(json.sampleRows || []);
+        setInvalidRows(json.invalidRows || []);
       } else {
         setError(json.error || "Preview failed");
         setStep("mapping");
@@ -138,7 +144,10 @@ const CSVMapper: React.FC<CSVMapperProps> = ({
     try {
       const response = await fetch(`${API_BASE_URL}/csv-mapper`, {
         method: "POST",
-        headers: { "Content-Type": "application/json", "x-sme-id": smeId },
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("wot_auth_token")}`,
+        },
         body: JSON.stringify({
           csvData: csvContent,
           schemaId,
@@ -149,7 +158,10 @@ const CSVMapper: React.FC<CSVMapperProps> = ({
 
       const json = await response.json();
       if (json.success) {
-        setSuccessMessage(`Successfully imported ${json.successCount} rows!`);
+        const skipped = json.skippedRows?.length || 0;
+        setSuccessMessage(
+          `Successfully imported ${json.successCount} rows!${skipped ? ` ${skipped} row(s) that failed validation were skipped.` : ''}`
+        );
         if (onImportComplete) onImportComplete(json.successCount);
 
         // Reset after delay
@@ -278,6 +290,19 @@ const CSVMapper: React.FC<CSVMapperProps> = ({
             <Badge size="lg" variant="light">{previewData.length} Rows Ready</Badge>
           </Group>
 
+          {invalidRows.length > 0 && (
+            <Alert color="orange" icon={<IconX size={16} />} title={`${invalidRows.length} row(s) will be skipped`}>
+              <Stack gap={2}>
+                {invalidRows.slice(0, 10).map((r) => (
+                  <Text key={r.row} size="xs">Row {r.row}: {r.error}</Text>
+                ))}
+                {invalidRows.length > 10 && (
+                  <Text size="xs" c="dimmed">…and {invalidRows.length - 10} more</Text>
+                )}
+              </Stack>
+            </Alert>
+          )}
+
           <Paper withBorder radius="md" style={{ overflow: 'hidden' }}>
             <ScrollArea>
               <Table striped highlightOnHover>
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Modal, Stack, Text, Select, Textarea, Group, Button, Alert } from '@mantine/core';
+import { IconAlertCircle, IconBan } from '@tabler/icons-react';
+import { cancelOrder } from '../lib/orders';
+import { CANCELLATION_REASONS, CANCELLATION_REASON_LABELS, MAX_CANCELLATION_NOTES_LENGTH, isCancellationReason } from '../lib/orderStatus';
+import type { CancellationReason } from '../lib/orderStatus';
+import type { Order } from '../lib/supabase';
+
+interface CancelOrderModalProps {
+  order: Order | null; // The modal is open while an order is set
+  onClose: () => void;
+  onCancelled: (order: Order) => void;
+}
+
+const reasonOptions = CANCELLATION_REASONS.map((reason) => ({ value: reason, label: CANCELLATION_REASON_LABELS[reason] }));
+
+/**
+ * Cancel an order with a reason and optional notes
+ * The server revokes the rider link and sends the customer the cancellation message
+ */
+const CancelOrderModal: React.FC<CancelOrderModalProps> = ({ order, onClose, onCancelled }) => {
+  const [reason, setReason] = useState<CancellationReason | null>(null);
+  const [notes, setNotes] = useState('');
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setReason(null);
+    setNotes('');
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleCancel = async () => {
+    if (!order || !reason) return;
+    setIsCancelling(true);
+    setError(null);
+    const result = await cancelOrder(order.id, { reason, notes: notes.trim() || undefined });
+    setIsCancelling(false);
+    if (!result.success || !result.order) {
+      const fieldError = result.fieldErrors?.cancellation_reason || result.fieldErrors?.cancellation_notes;
+      setError(fieldError || result.error || 'Failed to cancel order');
+      return;
+    }
+    reset();
+    onCancelled(result.order);
+  };
+
+  return (
+    <Modal
+      opened={Boolean(order)}
+      onClose={handleClose}
+      title={<Text fw={900}>Cancel Order #{order?.readable_id}</Text>}
+      centered
+      radius="lg"
+    >
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          The customer is sent the cancellation message. Any rider link stops working and live tracking ends.
+          This can't be undone.
+        </Text>
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />}>
+            {error}
+          </Alert>
+        )}
+
+        <Select
+          label="Reason"
+          placeholder="Why is this order cancelled?"
+          data={reasonOptions}
+          value={reason}
+          onChange={(value) => setReason(isCancellationReason(value) ? value : null)}
+          required
+        />
+        <Textarea
+          label="Notes"
+          placeholder="Optional, for your team"
+          value={notes}
+          onChange={(e) => setNotes(e.currentTarget.value)}
+          maxLength={MAX_CANCELLATION_NOTES_LENGTH}
+          autosize
+          minRows={2}
+        />
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={handleClose}>Keep Order</Button>
+          <Button color="red" leftSection={<IconBan size={16} />} onClick={handleCancel} disabled={!reason} loading={isCancelling}>
+            Cancel Order
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+};
+
+export default CancelOrderModal;
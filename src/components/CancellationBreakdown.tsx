@@ -0,0 +1,67 @@
+import React from 'react';
+import { Paper, Group, Stack, Text, Progress } from '@mantine/core';
+import { CANCELLATION_REASONS, CANCELLATION_REASON_LABELS } from '../lib/orderStatus';
+import { formatNaira } from '../lib/utils';
+import type { Order } from '../lib/supabase';
+
+interface CancellationBreakdownProps {
+  orders: Order[];
+}
+
+const reasonColor: Record<string, string> = {
+  customer_request: 'blue',
+  out_of_stock: 'orange',
+  customer_unreachable: 'gray',
+  fraud: 'red',
+  unrecorded: 'dark',
+};
+
+/**
+ * Cancelled orders by reason, with the order value each reason lost
+ * Orders cancelled before reasons were recorded are counted as "Not recorded"
+ */
+const CancellationBreakdown: React.FC<CancellationBreakdownProps> = ({ orders }) => {
+  const cancelled = orders.filter((o) => o.status === 'CANCELLED');
+  if (cancelled.length === 0) return null;
+
+  const rows = [...CANCELLATION_REASONS, 'unrecorded' as const]
+    .map((reason) => {
+      const matching = cancelled.filter((o) => (o.cancellation_reason || 'unrecorded') === reason);
+      return {
+        reason,
+        label: reason === 'unrecorded' ? 'Not recorded' : CANCELLATION_REASON_LABELS[reason],
+        count: matching.length,
+        value: matching.reduce((sum, o) => sum + o.price_total, 0),
+      };
+    })
+    .filter((row) => row.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  const lostValue = rows.reduce((sum, row) => sum + row.value, 0);
+
+  return (
+    <Paper withBorder p="md" radius="md" mb="xl">
+      <Group justify="space-between" mb="sm">
+        <Text size="xs" c="dimmed" fw={700} tt="uppercase">Cancellations</Text>
+        <Text size="sm" fw={700} c="red">
+          {cancelled.length} {cancelled.length === 1 ? 'order' : 'orders'} · {formatNaira(lostValue)}
+        </Text>
+      </Group>
+      <Stack gap="xs">
+        {rows.map((row) => (
+          <Stack key={row.reason} gap={2}>
+            <Group justify="space-between">
+              <Text size="sm">{row.label}</Text>
+              <Text size="sm" c="dimmed">
+                {row.count} · {formatNaira(row.value)}
+              </Text>
+            </Group>
+            <Progress value={(row.count / cancelled.length) * 100} color={reasonColor[row.reason]} size="sm" />
+          </Stack>
+        ))}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default CancellationBreakdown;
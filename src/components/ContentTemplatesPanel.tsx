@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { Paper, Stack, Box, Title, Text, Group, Select, TextInput, Button, Table, Code, ActionIcon, Alert } from '@mantine/core';
+import { IconTrash, IconAlertCircle } from '@tabler/icons-react';
+import { getContentTemplates, saveContentTemplate, deleteContentTemplate } from '../lib/templates';
+import type { ContentTemplate } from '../lib/templates';
+import type { OrderNotificationEvent } from '../lib/whatsapp';
+
+interface ContentTemplatesPanelProps {
+  smeId: string;
+}
+
+// "1=customer_name, 2=readable_id" ⇄ {"1": "customer_name", "2": "readable_id"}
+const formatMapping = (mapping: Record<string, string>) =>
+  Object.entries(mapping)
+    .map(([slot, name]) => `${slot}=${name}`)
+    .join(', ');
+
+const parseMapping = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split(',')
+      .map((pair) => pair.split('=').map((part) => part.trim()))
+      .filter(([slot, name]) => slot && name)
+  );
+
+/**
+ * Approved WhatsApp templates (Twilio Content SIDs) sent instead of free text when
+ * the customer hasn't messaged in the last 24 hours
+ */
+const ContentTemplatesPanel: React.FC<ContentTemplatesPanelProps> = ({ smeId }) => {
+  const [templates, setTemplates] = useState<ContentTemplate[]>([]);
+  const [events, setEvents] = useState<OrderNotificationEvent[]>([]);
+  const [variables, setVariables] = useState<string[]>([]);
+  const [event, setEvent] = useState<OrderNotificationEvent | null>('NEW');
+  const [contentSid, setContentSid] = useState('');
+  const [mapping, setMapping] = useState('1=customer_name, 2=readable_id');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!smeId) return;
+    let cancelled = false;
+    const load = async () => {
+      const result = await getContentTemplates();
+      if (cancelled) return;
+      if (result.success) {
+        setTemplates(result.templates || []);
+        setEvents(result.events || []);
+        setVariables(result.variables || []);
+      } else {
+        setError(result.error || 'Failed to load content templates');
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [smeId]);
+
+  const selectEvent = (value: string | null) => {
+    const next = value as OrderNotificationEvent | null;
+    setEvent(next);
+    const existing = templates.find((t) => t.event === next);
+    if (existing) {
+      setContentSid(existing.content_sid);
+      setMapping(formatMapping(existing.variables));
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!event) return;
+    setIsSaving(true);
+    setError(null);
+    const result = await saveContentTemplate(event, contentSid.trim(), parseMapping(mapping));
+    setIsSaving(false);
+    if (!result.success || !result.template) {
+      setError(result.error || 'Failed to save content template');
+      return;
+    }
+    const saved = result.template;
+    setTemplates((current) => [...current.filter((t) => t.event !== saved.event), saved]);
+    setContentSid('');
+  };
+
+  const handleRemove = async (target: OrderNotificationEvent) => {
+    if (!window.confirm(`Remove the approved template for ${target}?`)) return;
+    const result = await deleteContentTemplate(target);
+    if (!result.success) {
+      setError(result.error || 'Failed to remove content template');
+      return;
+    }
+    setTemplates((current) => current.filter((t) => t.event !== target));
+  };
+
+  return (
+    <Paper withBorder p="lg" radius="lg">
+      <Stack gap="sm">
+        <Box>
+          <Title order={5}>Approved Templates (24-hour window)</Title>
+          <Text size="sm" c="dimmed">
+            WhatsApp only delivers free-form messages to customers who wrote to you in the last 24 hours.
+            Outside that window we send the approved template registered for the event, filling its
+            numbered slots from the variables below. Without one the message fails instead of being sent.
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />} withCloseButton onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {templates.length > 0 && (
+          <Table verticalSpacing="xs" fz="sm">
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Event</Table.Th>
+                <Table.Th>Content SID</Table.Th>
+                <Table.Th>Variables</Table.Th>
+                <Table.Th />
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {templates.map((t) => (
+                <Table.Tr key={t.event}>
+                  <Table.Td fw={600}>{t.event}</Table.Td>
+                  <Table.Td><Code>{t.content_sid}</Code></Table.Td>
+                  <Table.Td>{formatMapping(t.variables) || '—'}</Table.Td>
+                  <Table.Td>
+                    <ActionIcon variant="subtle" color="red" onClick={() => handleRemove(t.event)} aria-label="Remove">
+                      <IconTrash size={16} />
+                    </ActionIcon>
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        )}
+
+        <form onSubmit={handleSave}>
+          <Group align="flex-end" gap="sm">
+            <Select
+              label="Event"
+              data={events}
+              value={event}
+              onChange={selectEvent}
+              allowDeselect={false}
+              w={160}
+            />
+            <TextInput
+              label="Content SID"
+              placeholder="HX..."
+              value={contentSid}
+              onChange={(e) => setContentSid(e.currentTarget.value)}
+              required
+              style={{ flex: 1, minWidth: 200 }}
+            />
+            <TextInput
+              label="Slot mapping"
+              placeholder="1=customer_name, 2=readable_id"
+              value={mapping}
+              onChange={(e) => setMapping(e.currentTarget.value)}
+              style={{ flex: 1, minWidth: 200 }}
+            />
+            <Button type="submit" color="green" loading={isSaving}>
+              Save
+            </Button>
+          </Group>
+        </form>
+
+        {variables.length > 0 && (
+          <Text size="xs" c="dimmed">
+            Available variables: {variables.join(', ')}
+          </Text>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default ContentTemplatesPanel;
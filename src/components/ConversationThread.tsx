@@ -0,0 +1,126 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Paper, Divider, Stack, Group, Text, Textarea, Button, Badge, Box, ScrollArea } from '@mantine/core';
+import { IconSend } from '@tabler/icons-react';
+import { getConversation, sendConversationReply, markConversationRead } from '../lib/whatsapp';
+import type { ConversationMessage } from '../lib/whatsapp';
+
+const POLL_INTERVAL_MS = 10000;
+
+interface ConversationThreadProps {
+  orderId: string;
+  // Called once the thread has been marked as read so unread badges can refresh
+  onRead?: () => void;
+}
+
+const statusColor: Record<string, string> = {
+  queued: 'gray',
+  pending: 'gray',
+  sent: 'blue',
+  delivered: 'green',
+  read: 'teal',
+  undelivered: 'red',
+  failed: 'red',
+  suppressed: 'orange',
+};
+
+/**
+ * WhatsApp conversation for a single order with a reply box
+ * Replies go through the same queued send path as status notifications
+ */
+const ConversationThread: React.FC<ConversationThreadProps> = ({ orderId, onRead }) => {
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const result = await getConversation(orderId);
+    if (result.success) setMessages(result.messages || []);
+  }, [orderId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const poll = async () => {
+      const result = await getConversation(orderId);
+      if (!cancelled && result.success) setMessages(result.messages || []);
+    };
+
+    poll();
+    markConversationRead(orderId).then(() => onRead?.());
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [orderId, onRead]);
+
+  const handleSend = async () => {
+    if (!reply.trim()) return;
+    setSending(true);
+    setError(null);
+    const result = await sendConversationReply(orderId, reply.trim());
+    setSending(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to send reply');
+      return;
+    }
+    setReply('');
+    await load();
+  };
+
+  return (
+    <Paper withBorder p="md" radius="md">
+      <Divider label="WhatsApp Conversation" labelPosition="left" mb="sm" />
+      <ScrollArea.Autosize mah={320} type="auto">
+        <Stack gap="xs">
+          {messages.length === 0 && (
+            <Text c="dimmed" size="sm" ta="center">No messages yet</Text>
+          )}
+          {messages.map((msg) => {
+            const inbound = msg.direction === 'inbound';
+            return (
+              <Group key={`${msg.direction}-${msg.id}`} justify={inbound ? 'flex-start' : 'flex-end'}>
+                <Box
+                  p="xs"
+                  maw="80%"
+                  style={{
+                    borderRadius: 8,
+                    background: inbound ? 'var(--mantine-color-gray-1)' : 'var(--mantine-color-green-1)',
+                  }}
+                >
+                  <Text size="sm" style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{msg.body}</Text>
+                  <Group gap={6} justify="flex-end" mt={4}>
+                    <Text size="xs" c="dimmed">{new Date(msg.createdAt).toLocaleString()}</Text>
+                    {!inbound && msg.status && (
+                      <Badge size="xs" variant="light" color={statusColor[msg.status] || 'gray'}>{msg.status}</Badge>
+                    )}
+                  </Group>
+                </Box>
+              </Group>
+            );
+          })}
+        </Stack>
+      </ScrollArea.Autosize>
+
+      <Stack gap="xs" mt="md">
+        <Textarea
+          placeholder="Reply to customer on WhatsApp..."
+          value={reply}
+          onChange={(e) => setReply(e.currentTarget.value)}
+          autosize
+          minRows={2}
+          maxRows={5}
+          error={error}
+        />
+        <Group justify="flex-end">
+          <Button size="xs" leftSection={<IconSend size={14} />} onClick={handleSend} loading={sending} disabled={!reply.trim()}>
+            Send
+          </Button>
+        </Group>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default ConversationThread;
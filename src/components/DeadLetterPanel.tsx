@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Alert, Group, Text, Button, Stack, Box, Badge } from '@mantine/core';
+import { IconAlertTriangle, IconRefresh } from '@tabler/icons-react';
+import { getDeadLetters, retryDeadLetter } from '../lib/whatsapp';
+import type { QueuedMessage } from '../lib/whatsapp';
+
+const POLL_INTERVAL_MS = 30000;
+
+interface DeadLetterPanelProps {
+  smeId: string;
+  // Lookup so the panel can show readable order numbers instead of UUIDs
+  orderLabel?: (orderId: string) => string | undefined;
+}
+
+/**
+ * Lists WhatsApp messages that failed after every retry, with a re-drive action
+ * Renders nothing while there are no dead-lettered messages
+ */
+const DeadLetterPanel: React.FC<DeadLetterPanelProps> = ({ smeId, orderLabel }) => {
+  const [messages, setMessages] = useState<QueuedMessage[]>([]);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!smeId) return;
+    const result = await getDeadLetters();
+    if (result.success) setMessages(result.messages || []);
+  }, [smeId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const poll = async () => {
+      if (!smeId) return;
+      const result = await getDeadLetters();
+      if (!cancelled && result.success) setMessages(result.messages || []);
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [smeId]);
+
+  const handleRetry = async (id: string) => {
+    setRetryingId(id);
+    try {
+      const result = await retryDeadLetter(id);
+      if (!result.success) alert(`Retry failed: ${result.error}`);
+      await load();
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  if (messages.length === 0) return null;
+
+  return (
+    <Alert
+      variant="light"
+      color="red"
+      radius="md"
+      mb="lg"
+      icon={<IconAlertTriangle size={20} />}
+      title={
+        <Group gap="xs">
+          <Text fw={700}>Undelivered WhatsApp messages</Text>
+          <Badge color="red" variant="filled" size="sm">{messages.length}</Badge>
+        </Group>
+      }
+    >
+      <Stack gap="xs">
+        {messages.map((m) => (
+          <Box key={m.id} p="xs" bg="white" style={{ borderRadius: 8 }}>
+            <Group justify="space-between" wrap="nowrap" align="flex-start">
+              <Box style={{ minWidth: 0 }}>
+                <Text size="xs" fw={700}>
+                  {orderLabel?.(m.order_id) ? `#${orderLabel(m.order_id)} · ` : ''}{m.recipient_phone}
+                </Text>
+                <Text size="xs" c="dimmed" lineClamp={1}>{m.message_body}</Text>
+                <Text size="xs" c="red">{m.last_error} ({m.attempts} attempts)</Text>
+              </Box>
+              <Button
+                size="xs"
+                variant="light"
+                color="red"
+                leftSection={<IconRefresh size={14} />}
+                loading={retryingId === m.id}
+                onClick={() => handleRetry(m.id)}
+              >
+                Retry
+              </Button>
+            </Group>
+          </Box>
+        ))}
+      </Stack>
+    </Alert>
+  );
+};
+
+export default DeadLetterPanel;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { Paper, Divider, Stack, Group, Text, Badge, Timeline, Box } from '@mantine/core';
+import { IconClock, IconSend, IconChecks, IconEye, IconX } from '@tabler/icons-react';
+import { getWhatsAppLogs } from '../lib/whatsapp';
+import type { WhatsAppLog } from '../lib/whatsapp';
+
+interface DeliveryTimelineProps {
+  orderId: string;
+}
+
+const statusColor: Record<WhatsAppLog['status'], string> = {
+  pending: 'gray',
+  queued: 'gray',
+  sent: 'blue',
+  delivered: 'green',
+  read: 'teal',
+  undelivered: 'red',
+  failed: 'red',
+  suppressed: 'orange',
+};
+
+const channelLabel: Record<NonNullable<WhatsAppLog['channel']>, string> = {
+  whatsapp: 'WhatsApp',
+  sms: 'SMS fallback',
+  email: 'Email fallback',
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+/**
+ * Lifecycle steps reached by one message, in order
+ */
+const stepsFor = (log: WhatsAppLog) => {
+  const failed = log.status === 'failed' || log.status === 'undelivered';
+  return [
+    { label: 'Queued', at: log.queued_at, icon: IconClock, color: 'gray' },
+    { label: 'Sent', at: log.sent_at, icon: IconSend, color: 'blue' },
+    { label: 'Delivered', at: log.delivered_at, icon: IconChecks, color: 'green' },
+    { label: 'Read', at: log.read_at, icon: IconEye, color: 'teal' },
+    ...(failed ? [{ label: log.status === 'undelivered' ? 'Undelivered' : 'Failed', at: log.failed_at, icon: IconX, color: 'red' }] : []),
+  ].filter((step) => step.at);
+};
+
+/**
+ * Per-message WhatsApp delivery timeline for an order (queued → sent → delivered → read)
+ */
+const DeliveryTimeline: React.FC<DeliveryTimelineProps> = ({ orderId }) => {
+  const [logs, setLogs] = useState<WhatsAppLog[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const result = await getWhatsAppLogs(orderId);
+      if (cancelled || !result.success) return;
+
+      // Retries log one row per attempt; show the latest attempt per queued message and channel
+      const seen = new Set<string>();
+      const latest = (result.logs || []).filter((log) => {
+        if (!log.outbox_id) return true;
+        const key = `${log.outbox_id}:${log.channel || 'whatsapp'}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      setLogs(latest);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  if (logs.length === 0) return null;
+
+  return (
+    <Paper withBorder p="md" radius="md">
+      <Divider label="Message Delivery" labelPosition="left" mb="sm" />
+      <Stack gap="md">
+        {logs.map((log) => {
+          const steps = stepsFor(log);
+          return (
+            <Box key={log.id}>
+              <Group justify="space-between" wrap="nowrap" align="flex-start" mb="xs">
+                <Text size="sm" lineClamp={2} style={{ flex: 1 }}>{log.message_body}</Text>
+                {log.channel && log.channel !== 'whatsapp' && (
+                  <Badge size="sm" variant="outline" color="violet">{channelLabel[log.channel]}</Badge>
+                )}
+                <Badge size="sm" variant="light" color={statusColor[log.status] || 'gray'}>{log.status}</Badge>
+              </Group>
+              {steps.length > 0 && (
+                <Timeline active={steps.length - 1} bulletSize={20} lineWidth={2}>
+                  {steps.map((step) => (
+                    <Timeline.Item
+                      key={step.label}
+                      color={step.color}
+                      bullet={<step.icon size={12} />}
+                      title={<Text size="xs" fw={600}>{step.label}</Text>}
+                    >
+                      <Text size="xs" c="dimmed">{formatTime(step.at!)}</Text>
+                    </Timeline.Item>
+                  ))}
+                </Timeline>
+              )}
+              {log.channel === 'email' && log.recipient_email && (
+                <Text size="xs" c="dimmed" mt={4}>Emailed to {log.recipient_email}</Text>
+              )}
+              {log.content_sid && (
+                <Text size="xs" c="dimmed" mt={4}>Sent as approved template {log.content_sid}</Text>
+              )}
+              {(log.error_code || log.error_message) && (
+                <Text size="xs" c="red" mt={4}>
+                  {log.error_code ? `Error ${log.error_code}` : 'Error'}{log.error_message ? `: ${log.error_message}` : ''}
+                </Text>
+              )}
+            </Box>
+          );
+        })}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default DeliveryTimeline;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Paper, Group, Text, Badge, Button, Stack, ScrollArea, ThemeIcon, Box } from '@mantine/core';
+import { IconInbox, IconRefresh, IconTrash } from '@tabler/icons-react';
+import { clearDevOutbox } from '../lib/whatsapp';
+import type { OutboxMessage } from '../lib/whatsapp';
+
+// Linkify URLs so tracking/rider/CSAT links can be opened straight from the outbox
+const renderBody = (body: string) =>
+  body.split(/(https?:\/\/\S+)/g).map((part, i) =>
+    /^https?:\/\//.test(part)
+      ? <a key={i} href={part} target="_blank" rel="noreferrer">{part}</a>
+      : <React.Fragment key={i}>{part}</React.Fragment>
+  );
+
+const DevOutboxPanel: React.FC<{ messages: OutboxMessage[]; onRefresh: () => void }> = ({ messages, onRefresh }) => {
+  const handleClear = async () => {
+    await clearDevOutbox();
+    onRefresh();
+  };
+
+  return (
+    <Paper withBorder p="md" radius="md" mb="xl">
+      <Group justify="space-between" mb="sm">
+        <Group gap="xs">
+          <ThemeIcon variant="light" color="grape" radius="md"><IconInbox size={18} /></ThemeIcon>
+          <Text fw={700}>Dev Outbox</Text>
+          <Badge variant="light" color="grape">{messages.length}</Badge>
+        </Group>
+        <Group gap="xs">
+          <Button size="xs" variant="subtle" leftSection={<IconRefresh size={14} />} onClick={onRefresh}>Refresh</Button>
+          <Button size="xs" variant="subtle" color="red" leftSection={<IconTrash size={14} />} onClick={handleClear}>Clear</Button>
+        </Group>
+      </Group>
+
+      {messages.length === 0 ? (
+        <Text size="sm" c="dimmed">No messages yet. Create or update an order to see notifications here.</Text>
+      ) : (
+        <ScrollArea.Autosize mah={320} type="auto">
+          <Stack gap="xs">
+            {messages.map((m) => (
+              <Box key={m.id} p="xs" bg="gray.0" style={{ borderRadius: 8 }}>
+                <Group justify="space-between" mb={4}>
+                  <Group gap={6}>
+                    {m.channel && <Badge size="xs" variant="outline" color="violet">{m.channel.toUpperCase()}</Badge>}
+                    <Text size="xs" fw={700} ff="monospace">To: {m.to}</Text>
+                  </Group>
+                  <Text size="xs" c="dimmed">{new Date(m.createdAt).toLocaleTimeString()}</Text>
+                </Group>
+                {m.subject && <Text size="xs" fw={600}>{m.subject}</Text>}
+                <Text size="sm" style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{renderBody(m.body)}</Text>
+              </Box>
+            ))}
+          </Stack>
+        </ScrollArea.Autosize>
+      )}
+    </Paper>
+  );
+};
+
+export default DevOutboxPanel;
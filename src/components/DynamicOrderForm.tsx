@@ -16,27 +16,37 @@ import {
 } from '@mantine/core';
 import { IconUser, IconMapPin, IconPackage, IconCheck } from '@tabler/icons-react';
 import type { FormField } from '../types';
+import { LANGUAGES } from '../lib/i18n';
+import { COUNTRIES, DEFAULT_COUNTRY, parsePhoneNumber } from '../lib/phone';
+import type { CountryCode } from '../lib/phone';
 
 interface DynamicOrderFormProps {
     fields: FormField[];
     onSubmit: (data: any) => void;
     isLoading: boolean;
     initialValues?: any;
+    defaultCountry?: CountryCode; // For phone numbers typed without a country code
 }
 
-const DynamicOrderForm: React.FC<DynamicOrderFormProps> = ({ fields, onSubmit, isLoading, initialValues }) => {
+const DynamicOrderForm: React.FC<DynamicOrderFormProps> = ({ fields, onSubmit, isLoading, initialValues, defaultCountry = DEFAULT_COUNTRY }) => {
     const [formData, setFormData] = useState<Record<string, any>>({
         customer_name: '',
         customer_phone: '',
+        customer_email: '',
         delivery_address: '',
         price_total: 0,
+        preferred_language: 'en',
     });
+    const [phoneError, setPhoneError] = useState<string | null>(null);
+    const [whatsappConsent, setWhatsappConsent] = useState(true);
 
     useEffect(() => {
         if (initialValues) {
+            // Only the editable fields: the rest of the order must not end up in form_data on save
+            const { customer_name, customer_phone, customer_email, delivery_address, price_total, preferred_language } = initialValues;
             setFormData(prev => ({
                 ...prev,
-                ...initialValues,
+                customer_name, customer_phone, customer_email, delivery_address, price_total, preferred_language,
                 ...initialValues.form_data // Flatten nested form_data for easier editing
             }));
         }
@@ -44,21 +54,37 @@ const DynamicOrderForm: React.FC<DynamicOrderFormProps> = ({ fields, onSubmit, i
 
     const handleChange = (key: string, value: any) => {
         setFormData(prev => ({ ...prev, [key]: value }));
+        if (key === 'customer_phone') setPhoneError(null);
     };
 
     const handleSubmit = () => {
         // Separate core fields and custom fields
         const {
-            customer_name, customer_phone, delivery_address, price_total,
+            customer_name, customer_phone, customer_email, delivery_address, price_total, preferred_language,
             ...customData
         } = formData;
+        // Consent is recorded once at creation and never edited through the form
+        delete customData.whatsapp_consent_at;
+        delete customData.whatsapp_consent_source;
+
+        const phone = parsePhoneNumber(customer_phone || '', defaultCountry);
+        if (!phone.valid) {
+            setPhoneError(phone.error);
+            return;
+        }
 
         const submissionData = {
             customer_name,
-            customer_phone,
+            customer_phone: phone.e164,
+            customer_email: (customer_email || '').trim() || null,
             delivery_address,
             price_total,
-            form_data: customData // All other fields go into the JSON generic column
+            preferred_language,
+            form_data: customData, // All other fields go into the JSON generic column
+            ...(!initialValues && {
+                whatsapp_consent_at: whatsappConsent ? new Date().toISOString() : null,
+                whatsapp_consent_source: whatsappConsent ? 'order_form' : null,
+            }),
         };
 
         onSubmit(submissionData);
@@ -150,12 +176,38 @@ const DynamicOrderForm: React.FC<DynamicOrderFormProps> = ({ fields, onSubmit, i
                     />
                     <TextInput
                         label="Phone Number"
-                        placeholder="+234..."
+                        placeholder={COUNTRIES[defaultCountry].example}
                         required
+                        error={phoneError}
                         value={formData.customer_phone}
                         onChange={(e) => handleChange('customer_phone', e.target.value)}
                     />
+                    <TextInput
+                        label="Email"
+                        type="email"
+                        placeholder="Optional"
+                        description="Delivery codes and dispatch notices are emailed if WhatsApp and SMS fail"
+                        value={formData.customer_email || ''}
+                        onChange={(e) => handleChange('customer_email', e.target.value)}
+                    />
+                    <Select
+                        label="Message Language"
+                        description="Used for WhatsApp updates and the tracking page"
+                        data={LANGUAGES}
+                        allowDeselect={false}
+                        value={formData.preferred_language}
+                        onChange={(val) => handleChange('preferred_language', val || 'en')}
+                    />
                 </SimpleGrid>
+                {!initialValues && (
+                    <Checkbox
+                        mt="sm"
+                        label="Customer agreed to receive order updates on WhatsApp"
+                        description="Customers can reply STOP at any time to opt out"
+                        checked={whatsappConsent}
+                        onChange={(e) => setWhatsappConsent(e.currentTarget.checked)}
+                    />
+                )}
             </Box>
             <Divider variant="dashed" />
 
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { Paper, Divider, Text, Timeline } from '@mantine/core';
+import {
+  IconPlus, IconArrowRight, IconUser, IconEdit, IconKey, IconStar, IconSend,
+} from '@tabler/icons-react';
+import { getOrderEvents } from '../lib/orders';
+import { CANCELLATION_REASON_LABELS } from '../lib/orderStatus';
+import type { OrderEvent } from '../lib/orders';
+
+interface OrderHistoryProps {
+  orderId: string;
+  fieldLabel?: (key: string) => string; // Names edited fields the way the order form does
+}
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const OTP_RESULTS: Record<string, string> = {
+  verified: 'Delivery code accepted',
+  invalid: 'Wrong delivery code entered',
+  expired: 'Expired delivery code entered',
+  too_many_attempts: 'Delivery code locked after too many attempts',
+};
+
+const eventIcon: Record<OrderEvent['type'], { icon: React.ElementType; color: string }> = {
+  created: { icon: IconPlus, color: 'blue' },
+  status_changed: { icon: IconArrowRight, color: 'blue' },
+  rider_assigned: { icon: IconUser, color: 'violet' },
+  edited: { icon: IconEdit, color: 'gray' },
+  otp_attempt: { icon: IconKey, color: 'orange' },
+  csat_submitted: { icon: IconStar, color: 'yellow' },
+  message_sent: { icon: IconSend, color: 'green' },
+};
+
+const actorLabel = (event: OrderEvent) => {
+  switch (event.actor_type) {
+    case 'sme':
+      return 'you';
+    case 'rider':
+      return event.actor_id ? `rider ${event.actor_id}` : 'the rider';
+    case 'customer':
+      return 'the customer';
+    default:
+      return 'the system';
+  }
+};
+
+const describe = (event: OrderEvent, fieldLabel: (key: string) => string): string => {
+  const { data } = event;
+  switch (event.type) {
+    case 'created':
+      return data.source === 'csv_import' ? 'Order imported from CSV' : 'Order created';
+    case 'status_changed':
+      if (data.via === 'override') return `${data.from} → ${data.to} (completed without delivery code)`;
+      if (data.to === 'CANCELLED' && data.reason) {
+        return `${data.from} → ${data.to}: ${CANCELLATION_REASON_LABELS[data.reason]}${data.notes ? ` ("${data.notes}")` : ''}`;
+      }
+      return `${data.from} → ${data.to}`;
+    case 'rider_assigned':
+      if (!data.rider_phone) return 'Rider removed';
+      return data.previous ? `Rider changed to ${data.rider_phone}` : `Rider ${data.rider_phone} assigned`;
+    case 'edited':
+      return Object.entries(data.changes || {})
+        .map(([key, { from, to }]) => `${fieldLabel(key)}: ${formatValue(from)} → ${formatValue(to)}`)
+        .join(', ');
+    case 'otp_attempt':
+      return (data.result && OTP_RESULTS[data.result]) || `Delivery code ${data.result}`;
+    case 'csat_submitted':
+      return `Feedback ${data.score}/5${data.comment ? `: "${data.comment}"` : ''}`;
+    case 'message_sent': {
+      const channel = data.channel === 'whatsapp' ? 'WhatsApp' : (data.channel || '').toUpperCase();
+      return `${data.event ? `${data.event} message` : 'Message'} sent to ${data.recipient} by ${channel}`;
+    }
+    default:
+      return event.type;
+  }
+};
+
+/**
+ * Everything that happened to an order, oldest first, with who did it
+ */
+const OrderHistory: React.FC<OrderHistoryProps> = ({ orderId, fieldLabel = (key) => key }) => {
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const result = await getOrderEvents(orderId);
+      if (cancelled || !result.success) return;
+      setEvents(result.events || []);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  if (events.length === 0) return null;
+
+  return (
+    <Paper withBorder p="md" radius="md">
+      <Divider label="History" labelPosition="left" mb="sm" />
+      <Timeline active={events.length - 1} bulletSize={22} lineWidth={2}>
+        {events.map((event) => {
+          const { icon: Icon, color } = eventIcon[event.type] || eventIcon.edited;
+          return (
+            <Timeline.Item
+              key={event.id}
+              color={color}
+              bullet={<Icon size={12} />}
+              title={<Text size="sm" fw={600}>{describe(event, fieldLabel)}</Text>}
+            >
+              <Text size="xs" c="dimmed">
+                {formatTime(event.created_at)} · by {actorLabel(event)}
+              </Text>
+            </Timeline.Item>
+          );
+        })}
+      </Timeline>
+    </Paper>
+  );
+};
+
+export default OrderHistory;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Alert, Group, Text, Button, Stack, Box, Badge } from '@mantine/core';
+import { IconMessageQuestion, IconCheck, IconX } from '@tabler/icons-react';
+import { getPendingOrderRequests, resolveOrderRequest } from '../lib/orderRequests';
+import type { OrderRequest } from '../lib/orderRequests';
+
+const POLL_INTERVAL_MS = 30000;
+
+interface OrderRequestsPanelProps {
+  smeId: string;
+  // Called after a decision so the order list picks up cancellations
+  onResolved?: () => void;
+}
+
+const typeLabel: Record<OrderRequest['type'], string> = {
+  cancel: 'Cancellation',
+  reschedule: 'Reschedule',
+};
+
+/**
+ * Customer CANCEL/RESCHEDULE requests received on WhatsApp that need approval
+ * Renders nothing while there are no pending requests
+ */
+const OrderRequestsPanel: React.FC<OrderRequestsPanelProps> = ({ smeId, onResolved }) => {
+  const [requests, setRequests] = useState<OrderRequest[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!smeId) return;
+    const result = await getPendingOrderRequests();
+    if (result.success) setRequests(result.requests || []);
+  }, [smeId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const poll = async () => {
+      if (!smeId) return;
+      const result = await getPendingOrderRequests();
+      if (!cancelled && result.success) setRequests(result.requests || []);
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [smeId]);
+
+  const handleResolve = async (id: string, decision: 'approve' | 'reject') => {
+    setResolvingId(id);
+    try {
+      const result = await resolveOrderRequest(id, decision);
+      if (!result.success) alert(`Failed: ${result.error}`);
+      await load();
+      onResolved?.();
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Alert
+      variant="light"
+      color="orange"
+      radius="md"
+      mb="lg"
+      icon={<IconMessageQuestion size={20} />}
+      title={
+        <Group gap="xs">
+          <Text fw={700}>Customer requests</Text>
+          <Badge color="orange" variant="filled" size="sm">{requests.length}</Badge>
+        </Group>
+      }
+    >
+      <Stack gap="xs">
+        {requests.map((r) => (
+          <Box key={r.id} p="xs" bg="white" style={{ borderRadius: 8 }}>
+            <Group justify="space-between" wrap="nowrap" align="flex-start">
+              <Box style={{ minWidth: 0 }}>
+                <Text size="xs" fw={700}>
+                  {typeLabel[r.type]} · #{r.orders?.readable_id} · {r.orders?.customer_name}
+                </Text>
+                <Text size="xs" c="dimmed">
+                  Order is {r.orders?.status}{r.details ? ` · "${r.details}"` : ''}
+                </Text>
+              </Box>
+              <Group gap={4} wrap="nowrap">
+                <Button
+                  size="xs"
+                  variant="light"
+                  color="green"
+                  leftSection={<IconCheck size={14} />}
+                  loading={resolvingId === r.id}
+                  onClick={() => handleResolve(r.id, 'approve')}
+                >
+                  Approve
+                </Button>
+                <Button
+                  size="xs"
+                  variant="subtle"
+                  color="red"
+                  leftSection={<IconX size={14} />}
+                  disabled={resolvingId === r.id}
+                  onClick={() => handleResolve(r.id, 'reject')}
+                >
+                  Reject
+                </Button>
+              </Group>
+            </Group>
+          </Box>
+        ))}
+      </Stack>
+    </Alert>
+  );
+};
+
+export default OrderRequestsPanel;
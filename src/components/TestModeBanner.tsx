@@ -1,8 +1,31 @@
 import React from 'react';
 import { Alert, Text, Group, CopyButton, Button, ThemeIcon, Stack, Box, rem } from '@mantine/core';
-import { IconAlertTriangle, IconBrandWhatsapp, IconCopy, IconCheck } from '@tabler/icons-react';
+import { IconAlertTriangle, IconBrandWhatsapp, IconCopy, IconCheck, IconInbox } from '@tabler/icons-react';
+
+interface TestModeBannerProps {
+    // 'outbox' when the backend captures messages locally instead of using the Twilio sandbox
+    mode?: 'sandbox' | 'outbox';
+}
+
+const TestModeBanner: React.FC<TestModeBannerProps> = ({ mode = 'sandbox' }) => {
+    if (mode === 'outbox') {
+        return (
+            <Alert
+                variant="light"
+                color="grape"
+                radius="md"
+                mb="xl"
+                icon={<IconInbox size={24} />}
+                title={<Text fw={900} size="lg">TEST MODE: LOCAL OUTBOX</Text>}
+            >
+                <Text size="sm" style={{ lineHeight: 1.5 }}>
+                    WhatsApp messages are <b>not</b> being sent. Every customer and rider notification is captured
+                    in the <b>Dev Outbox</b> panel below, so you can run the full order, dispatch, OTP and CSAT flow offline.
+                </Text>
+            </Alert>
+        );
+    }
 
-const TestModeBanner: React.FC = () => {
     return (
         <Alert
             variant="filled"
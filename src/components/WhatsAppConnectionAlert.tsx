@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { Alert, Button, Text, Group, Stack } from '@mantine/core';
+import { IconPlugConnectedX } from '@tabler/icons-react';
+import { useNavigate } from 'react-router-dom';
+import { getWhatsAppConfigs, senderName } from '../lib/whatsappConfig';
+import type { WhatsAppConfig } from '../lib/whatsappConfig';
+
+const POLL_INTERVAL_MS = 60000;
+
+interface WhatsAppConnectionAlertProps {
+  smeId: string;
+}
+
+/**
+ * Warns the SME when one of its own WhatsApp numbers broke (phone unlinked, credentials
+ * rejected) and its messages are going out from another number instead
+ * Renders nothing while every number works or was removed on purpose
+ */
+const WhatsAppConnectionAlert: React.FC<WhatsAppConnectionAlertProps> = ({ smeId }) => {
+  const navigate = useNavigate();
+  const [configs, setConfigs] = useState<WhatsAppConfig[]>([]);
+
+  useEffect(() => {
+    if (!smeId) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      const result = await getWhatsAppConfigs(smeId);
+      if (!cancelled && result.success) setConfigs(result.configs || []);
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [smeId]);
+
+  const broken = configs.filter((config) => !config.is_connected && config.disconnected_at);
+  if (broken.length === 0) return null;
+
+  return (
+    <Alert color="red" variant="light" radius="md" icon={<IconPlugConnectedX size={18} />} title="WhatsApp disconnected">
+      <Group justify="space-between" align="flex-end">
+        <Stack gap={4}>
+          {broken.map((config) => (
+            <Text size="sm" key={config.id}>
+              {senderName(config)} ({config.instance_id}): your{' '}
+              {config.provider === 'twilio' ? 'Twilio account' : 'linked phone'} stopped working on{' '}
+              {new Date(config.disconnected_at!).toLocaleString()}
+              {config.verification_error ? ` (${config.verification_error})` : ''}.
+            </Text>
+          ))}
+          <Text size="sm">Messages go out from another of your numbers or our default number until you reconnect.</Text>
+        </Stack>
+        <Button size="xs" color="red" variant="light" onClick={() => navigate('/whatsapp')}>
+          Reconnect
+        </Button>
+      </Group>
+    </Alert>
+  );
+};
+
+export default WhatsAppConnectionAlert;
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { Paper, Divider, Stack, Group, Text, Switch, Alert } from '@mantine/core';
+import { IconAlertCircle } from '@tabler/icons-react';
+import { getSuppression, setSuppression } from '../lib/whatsapp';
+import type { Suppression } from '../lib/whatsapp';
+import type { Order } from '../lib/supabase';
+
+interface WhatsAppConsentPanelProps {
+  order: Order;
+}
+
+const consentSourceLabel: Record<string, string> = {
+  order_form: 'order form',
+  csv_import: 'CSV import',
+};
+
+/**
+ * When the customer agreed to WhatsApp updates, and whether they have since opted out
+ * Opting out is per business and phone number, so it covers all of the customer's orders
+ */
+const WhatsAppConsentPanel: React.FC<WhatsAppConsentPanelProps> = ({ order }) => {
+  const [suppression, setSuppressionState] = useState<Suppression | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const result = await getSuppression(order.customer_phone);
+      if (cancelled || !result.success) return;
+      setSuppressionState(result.suppression || null);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [order.customer_phone]);
+
+  const handleToggle = async (optedOut: boolean) => {
+    setIsSaving(true);
+    setError(null);
+    const result = await setSuppression(order.customer_phone, optedOut, optedOut ? 'Opted out by business' : undefined);
+    setIsSaving(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to update opt-out status');
+      return;
+    }
+    setSuppressionState(result.suppression || null);
+  };
+
+  return (
+    <Paper withBorder p="md" radius="md">
+      <Divider label="WhatsApp Consent" labelPosition="left" mb="sm" />
+      <Stack gap="xs">
+        <Text size="sm" c="dimmed">
+          {order.whatsapp_consent_at
+            ? `Agreed on ${new Date(order.whatsapp_consent_at).toLocaleString()} via ${consentSourceLabel[order.whatsapp_consent_source || ''] || 'unknown source'}`
+            : 'No consent recorded for this order'}
+        </Text>
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />} withCloseButton onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Group justify="space-between">
+          <Switch
+            label="Opted out of WhatsApp messages"
+            color="orange"
+            checked={Boolean(suppression)}
+            disabled={isSaving}
+            onChange={(e) => handleToggle(e.currentTarget.checked)}
+          />
+          {suppression && (
+            <Text size="xs" c="dimmed">
+              {suppression.source === 'keyword' ? `Customer replied "${suppression.reason || 'STOP'}"` : suppression.reason || 'Opted out by business'}
+              {' · '}{new Date(suppression.created_at).toLocaleDateString()}
+            </Text>
+          )}
+        </Group>
+        {suppression && (
+          <Text size="xs" c="dimmed">Order updates are skipped for this number. One-time codes are still delivered.</Text>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default WhatsAppConsentPanel;
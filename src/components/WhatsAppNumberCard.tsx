@@ -0,0 +1,102 @@
+import React from 'react';
+import { Paper, Stack, Group, Box, Text, Badge, Button } from '@mantine/core';
+import { IconTrash, IconRefresh } from '@tabler/icons-react';
+import { senderName } from '../lib/whatsappConfig';
+import type { WhatsAppConfig } from '../lib/whatsappConfig';
+
+const CREDENTIAL_LABELS: Record<string, string> = {
+  accountSid: 'Account SID',
+  authToken: 'Auth Token',
+  apiKey: 'API Key',
+};
+
+interface WhatsAppNumberCardProps {
+  config: WhatsAppConfig;
+  isVerifying: boolean;
+  onVerify: (config: WhatsAppConfig) => void;
+  onRemove: (config: WhatsAppConfig) => void;
+}
+
+const statusBadge = (config: WhatsAppConfig) => {
+  if (config.is_connected) return { label: 'Connected', color: 'green' };
+  if (config.provider !== 'twilio' && config.pairing_state && config.pairing_state !== 'disconnected') {
+    return { label: 'Pairing', color: 'blue' };
+  }
+  return { label: 'Not connected', color: 'red' };
+};
+
+/**
+ * One of the SME's WhatsApp numbers: what it is used for, its provider and
+ * masked credentials, and whether the provider last accepted it
+ */
+const WhatsAppNumberCard: React.FC<WhatsAppNumberCardProps> = ({ config, isVerifying, onVerify, onRemove }) => {
+  const status = statusBadge(config);
+
+  return (
+    <Paper withBorder p="md" radius="md">
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Group gap="xs">
+            <Text fw={700}>{senderName(config)}</Text>
+            <Badge color={status.color} variant="light">{status.label}</Badge>
+          </Group>
+          <Badge color="gray" variant="outline">{config.provider.toUpperCase()}</Badge>
+        </Group>
+
+        <Group gap="xl">
+          <Box>
+            <Text size="xs" tt="uppercase" fw={700} c="dimmed">Number</Text>
+            <Text fw={700}>{config.instance_id || 'Not specified'}</Text>
+          </Box>
+          {Object.entries(config.credentials || {})
+            .filter(([field, value]) => CREDENTIAL_LABELS[field] && value)
+            .map(([field, value]) => (
+              <Box key={field}>
+                <Text size="xs" tt="uppercase" fw={700} c="dimmed">{CREDENTIAL_LABELS[field]}</Text>
+                <Text fw={700} ff="monospace">{value}</Text>
+              </Box>
+            ))}
+          {config.last_verified_at && (
+            <Box>
+              <Text size="xs" tt="uppercase" fw={700} c="dimmed">Last verified</Text>
+              <Text fw={700}>{new Date(config.last_verified_at).toLocaleString()}</Text>
+            </Box>
+          )}
+        </Group>
+
+        {config.verification_error && (
+          <Text size="sm" c={config.is_connected ? 'orange' : 'red'}>
+            {config.is_connected
+              ? `Latest check failed: ${config.verification_error}. The connection is dropped if it keeps failing.`
+              : `${config.provider.toUpperCase()} rejected the saved settings: ${config.verification_error}.`}
+          </Text>
+        )}
+
+        <Group gap="xs">
+          {config.provider === 'twilio' && !config.is_connected && (
+            <Button
+              variant="light"
+              size="xs"
+              onClick={() => onVerify(config)}
+              loading={isVerifying}
+              leftSection={<IconRefresh size={14} />}
+            >
+              Verify again
+            </Button>
+          )}
+          <Button
+            variant="light"
+            color="red"
+            size="xs"
+            onClick={() => onRemove(config)}
+            leftSection={<IconTrash size={14} />}
+          >
+            Remove number
+          </Button>
+        </Group>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default WhatsAppNumberCard;
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { Paper, Stack, Box, Title, Text, Image, Loader, Button, Badge, Group, Alert } from '@mantine/core';
+import { IconQrcode, IconRefresh, IconAlertCircle } from '@tabler/icons-react';
+import { getPairingStatus, restartPairing } from '../lib/whatsappConfig';
+import type { PairingStatus, PairingState, WhatsAppConfig } from '../lib/whatsappConfig';
+
+const POLL_INTERVAL_MS = 3000;
+
+interface WhatsAppPairingPanelProps {
+  smeId: string;
+  configId: string;
+  initialPairing?: PairingStatus | null;
+  // Called with the refreshed config whenever the state changes, so the page status follows
+  onConfigChange: (config: WhatsAppConfig) => void;
+}
+
+const stateLabel: Record<PairingState, { label: string; color: string }> = {
+  pending: { label: 'Starting', color: 'gray' },
+  qr_ready: { label: 'Scan QR code', color: 'blue' },
+  paired: { label: 'Paired', color: 'green' },
+  disconnected: { label: 'Not paired', color: 'red' },
+};
+
+/**
+ * QR code for linking the SME's phone to its Baileys/Evolution instance
+ * Polls while pairing is in progress and stops once paired or disconnected
+ */
+const WhatsAppPairingPanel: React.FC<WhatsAppPairingPanelProps> = ({ smeId, configId, initialPairing, onConfigChange }) => {
+  const [pairing, setPairing] = useState<PairingStatus | null>(initialPairing || null);
+  const [isRestarting, setIsRestarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const inProgress = !pairing || pairing.state === 'pending' || pairing.state === 'qr_ready';
+
+  useEffect(() => {
+    if (!smeId || !inProgress) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      const result = await getPairingStatus(smeId, configId);
+      if (cancelled) return;
+      if (!result.success) {
+        setError(result.error || 'Failed to check pairing');
+        return;
+      }
+      setError(null);
+      if (result.pairing) setPairing(result.pairing);
+      if (result.config) onConfigChange(result.config);
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [smeId, configId, inProgress, onConfigChange]);
+
+  const handleRestart = async () => {
+    setIsRestarting(true);
+    setError(null);
+    const result = await restartPairing(smeId, configId);
+    setIsRestarting(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to start pairing');
+      return;
+    }
+    if (result.pairing) setPairing(result.pairing);
+    if (result.config) onConfigChange(result.config);
+  };
+
+  const status = pairing ? stateLabel[pairing.state] : stateLabel.pending;
+
+  return (
+    <Paper withBorder p="lg" radius="lg">
+      <Stack gap="sm">
+        <Group justify="space-between">
+          <Box>
+            <Title order={5}>Link your phone</Title>
+            <Text size="sm" c="dimmed">
+              On your phone open WhatsApp → Settings → Linked devices → Link a device, then scan the code.
+              Messages are sent from your number once it is paired.
+            </Text>
+          </Box>
+          <Badge color={status.color} variant="light">{status.label}</Badge>
+        </Group>
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />} withCloseButton onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {pairing?.state === 'qr_ready' && pairing.qrCode && (
+          <Image src={pairing.qrCode} alt="WhatsApp pairing QR code" w={240} h={240} fit="contain" mx="auto" />
+        )}
+
+        {(!pairing || pairing.state === 'pending') && (
+          <Group justify="center" py="md">
+            <Loader size="sm" />
+            <Text size="sm" c="dimmed">Waiting for a QR code from your instance...</Text>
+          </Group>
+        )}
+
+        {pairing?.state === 'paired' && (
+          <Text size="sm" c="green">Your phone is linked. You can close this page.</Text>
+        )}
+
+        {pairing?.state === 'disconnected' && (
+          <Text size="sm" c="dimmed">{pairing.detail || 'The QR code expired or the phone was unlinked.'}</Text>
+        )}
+
+        {pairing?.state !== 'paired' && (
+          <Button
+            variant="light"
+            size="xs"
+            leftSection={pairing?.state === 'disconnected' ? <IconQrcode size={14} /> : <IconRefresh size={14} />}
+            onClick={handleRestart}
+            loading={isRestarting}
+            style={{ width: 'fit-content' }}
+          >
+            {pairing?.state === 'disconnected' ? 'Generate QR code' : 'New QR code'}
+          </Button>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default WhatsAppPairingPanel;
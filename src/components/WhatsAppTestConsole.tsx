@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { Paper, Stack, Box, Title, Text, Group, TextInput, Textarea, Select, Button, Alert, Badge, SimpleGrid, Table, Code } from '@mantine/core';
+import { IconSend, IconAlertCircle, IconCheck } from '@tabler/icons-react';
+import { sendTestMessage, getProviderHealth, getWebhookEvents, senderName } from '../lib/whatsappConfig';
+import type { TestMessageResult, ProviderHealth, WebhookEvent } from '../lib/whatsappConfig';
+
+const POLL_INTERVAL_MS = 5000;
+
+interface WhatsAppTestConsoleProps {
+  smeId: string;
+}
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Never');
+
+const kindColor: Record<WebhookEvent['kind'], string> = {
+  status: 'blue',
+  inbound: 'green',
+  connection: 'violet',
+};
+
+const failureRateColor = (rate: number | null) => {
+  if (rate === null) return 'gray';
+  if (rate >= 0.2) return 'red';
+  if (rate >= 0.05) return 'yellow';
+  return 'green';
+};
+
+/**
+ * Check the provider end to end without placing an order: send a test message,
+ * see its health and watch the callbacks it sends back
+ */
+const WhatsAppTestConsole: React.FC<WhatsAppTestConsoleProps> = ({ smeId }) => {
+  const [phone, setPhone] = useState('');
+  const [message, setMessage] = useState('');
+  const [senderId, setSenderId] = useState<string | null>(null); // null: the customer line
+  const [isSending, setIsSending] = useState(false);
+  const [sendResult, setSendResult] = useState<TestMessageResult | null>(null);
+  const [health, setHealth] = useState<ProviderHealth | null>(null);
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!smeId) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      const [healthResult, eventsResult] = await Promise.all([getProviderHealth(smeId), getWebhookEvents(smeId)]);
+      if (cancelled) return;
+      if (!healthResult.success || !eventsResult.success) {
+        setError(healthResult.error || eventsResult.error || 'Failed to load test console');
+        return;
+      }
+      setError(null);
+      setHealth(healthResult.health || null);
+      setEvents(eventsResult.events || []);
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [smeId]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+    setSendResult(null);
+    const result = await sendTestMessage(smeId, phone.trim(), message.trim() || undefined, senderId || undefined);
+    setIsSending(false);
+    if (!result.success || !result.result) {
+      setError(result.error || 'Failed to send test message');
+      return;
+    }
+    setSendResult(result.result);
+  };
+
+  const connectedNumbers = (health?.numbers || []).filter((n) => n.isConnected);
+  const lastVerifiedAt = (health?.numbers || [])
+    .map((n) => n.lastVerifiedAt)
+    .filter(Boolean)
+    .sort()
+    .pop() || null;
+  const failingNumbers = (health?.numbers || []).filter((n) => n.verificationError);
+
+  return (
+    <Paper withBorder p="lg" radius="lg">
+      <Stack gap="md">
+        <Box>
+          <Title order={5}>Test Console</Title>
+          <Text size="sm" c="dimmed">
+            Send yourself a message to check the connection, then watch delivery updates and replies arrive below.
+          </Text>
+        </Box>
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />} withCloseButton onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {health && (
+          <SimpleGrid cols={{ base: 1, sm: 3 }} spacing="sm">
+            <Box>
+              <Text size="xs" c="dimmed" tt="uppercase" fw={700}>Last verified</Text>
+              <Text size="sm">{formatTime(lastVerifiedAt)}</Text>
+              {failingNumbers.map((n) => (
+                <Text size="xs" c="red" key={n.id}>{senderName(n)}: {n.verificationError}</Text>
+              ))}
+            </Box>
+            <Box>
+              <Text size="xs" c="dimmed" tt="uppercase" fw={700}>Last successful send</Text>
+              <Text size="sm">{formatTime(health.lastSuccessfulSendAt)}</Text>
+            </Box>
+            <Box>
+              <Text size="xs" c="dimmed" tt="uppercase" fw={700}>Failures (last {health.windowHours}h)</Text>
+              <Group gap="xs">
+                <Badge color={failureRateColor(health.failureRate)} variant="light">
+                  {health.failureRate === null ? 'No sends' : `${Math.round(health.failureRate * 100)}%`}
+                </Badge>
+                {health.attempts > 0 && (
+                  <Text size="xs" c="dimmed">{health.failures} of {health.attempts}</Text>
+                )}
+              </Group>
+            </Box>
+          </SimpleGrid>
+        )}
+
+        <form onSubmit={handleSend}>
+          <Stack gap="sm">
+            <Group align="flex-end" gap="sm">
+              <TextInput
+                label="Send a test message to"
+                placeholder="0803 123 4567"
+                value={phone}
+                onChange={(e) => setPhone(e.currentTarget.value)}
+                required
+                style={{ flex: 1, minWidth: 200 }}
+              />
+              {connectedNumbers.length > 1 && (
+                <Select
+                  label="From"
+                  placeholder="Customer line"
+                  data={connectedNumbers.map((n) => ({ value: n.id, label: senderName(n) }))}
+                  value={senderId}
+                  onChange={setSenderId}
+                  clearable
+                  w={180}
+                />
+              )}
+              <Button type="submit" color="green" loading={isSending} leftSection={<IconSend size={16} />}>
+                Send test
+              </Button>
+            </Group>
+            <Textarea
+              placeholder="Optional message (a default test message is sent otherwise)"
+              value={message}
+              onChange={(e) => setMessage(e.currentTarget.value)}
+              autosize
+              minRows={1}
+              maxLength={1000}
+            />
+          </Stack>
+        </form>
+
+        {sendResult && (
+          <Alert
+            color={sendResult.sent ? 'green' : 'red'}
+            icon={sendResult.sent ? <IconCheck size={16} /> : <IconAlertCircle size={16} />}
+            withCloseButton
+            onClose={() => setSendResult(null)}
+          >
+            {sendResult.sent ? (
+              <Text size="sm">
+                Sent to {sendResult.phone} from {sendResult.from || 'your number'} via {sendResult.provider || 'WhatsApp'}
+                {sendResult.messageSid && <> (<Code>{sendResult.messageSid}</Code>)</>}.
+                Delivery updates appear below as the provider reports them.
+              </Text>
+            ) : (
+              <Text size="sm">Not sent to {sendResult.phone}: {sendResult.error}</Text>
+            )}
+          </Alert>
+        )}
+
+        <Box>
+          <Text size="sm" fw={600} mb="xs">Recent webhook callbacks</Text>
+          {events.length === 0 ? (
+            <Text size="sm" c="dimmed">No callbacks received yet.</Text>
+          ) : (
+            <Table verticalSpacing="xs" fz="sm">
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Received</Table.Th>
+                  <Table.Th>Type</Table.Th>
+                  <Table.Th>Event</Table.Th>
+                  <Table.Th>Result</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {events.map((event) => (
+                  <Table.Tr key={event.id}>
+                    <Table.Td>{formatTime(event.created_at)}</Table.Td>
+                    <Table.Td>
+                      <Badge color={kindColor[event.kind]} variant="light" size="sm">{event.kind}</Badge>
+                    </Table.Td>
+                    <Table.Td>{event.summary}</Table.Td>
+                    <Table.Td>{event.result || '—'}</Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          )}
+        </Box>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default WhatsAppTestConsole;
@@ -0,0 +1,43 @@
+import { useEffect, useState, useCallback } from 'react';
+import { getDevOutbox } from '../lib/whatsapp';
+import type { OutboxMessage } from '../lib/whatsapp';
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Hook to poll the local dev outbox
+ * `enabled` stays false when the backend sends through a real provider
+ */
+export const useDevOutbox = () => {
+  const [enabled, setEnabled] = useState(false);
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+
+  const refresh = useCallback(async () => {
+    const result = await getDevOutbox();
+    setEnabled(result.enabled);
+    setMessages(result.messages);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      const result = await getDevOutbox();
+      if (cancelled) return;
+      setEnabled(result.enabled);
+      setMessages(result.messages);
+      // Only keep polling when the backend actually runs the outbox provider
+      if (!result.enabled) clearInterval(timer);
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  return { enabled, messages, refresh };
+};
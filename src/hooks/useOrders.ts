@@ -1,6 +1,14 @@
 import { useEffect, useState, useCallback } from 'react';
 import type { Order } from '../lib/supabase';
 import { supabase } from '../lib/supabase';
+import { listOrders, updateOrder as patchOrder, deleteOrder as removeOrder } from '../lib/orders';
+import type { OrderUpdate } from '../lib/orders';
+import { submitCsat } from '../lib/tracking';
+import { getRiderOrder, sendRiderLocation } from '../lib/rider';
+import type { RiderOrder } from '../lib/rider';
+
+// The dashboard shows every order; the list API pages beyond this
+const DASHBOARD_ORDER_LIMIT = 1000;
 
 /**
  * Hook to fetch orders for SME dashboard with real-time updates
@@ -18,14 +26,10 @@ export const useOrders = (smeId: string) => {
 
     try {
       setIsLoading(true);
-      const { data, error: fetchError } = await supabase
-        .from('orders')
-        .select('*')
-        .eq('sme_id', smeId)
-        .order('created_at', { ascending: false });
-
-      if (fetchError) throw fetchError;
-      setOrders(data || []);
+      const result = await listOrders({ limit: DASHBOARD_ORDER_LIMIT });
+
+      if (!result.success) throw new Error(result.error || 'Failed to fetch orders');
+      setOrders(result.orders || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch orders');
     } finally {
@@ -109,7 +113,7 @@ export const useOrders = (smeId: string) => {
 };
 
 /**
- * Hook to fetch a single order by token (for public access)
+ * Hook to fetch a single order by its customer tracking token (for public access)
  */
 export const useOrderByToken = (token: string | undefined) => {
   const [order, setOrder] = useState<Order | null>(null);
@@ -123,7 +127,7 @@ export const useOrderByToken = (token: string | undefined) => {
         const { data, error: fetchError } = await supabase
           .from('orders')
           .select('*')
-          .eq('rider_token', token)
+          .eq('tracking_token', token)
           .single();
 
         if (fetchError) throw fetchError;
@@ -142,32 +146,51 @@ export const useOrderByToken = (token: string | undefined) => {
 };
 
 /**
- * Hook to update rider location
+ * Hook to fetch the delivery a rider link was issued for
+ */
+export const useRiderOrder = (token: string | undefined) => {
+  const [order, setOrder] = useState<RiderOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchOrder = async () => {
+      setIsLoading(true);
+      const result = await getRiderOrder(token!);
+      if (result.success && result.order) setOrder(result.order);
+      else setError(result.error || 'Order not found');
+      setIsLoading(false);
+    };
+
+    if (token) fetchOrder();
+  }, [token]);
+
+  return { order, isLoading, error };
+};
+
+/**
+ * Hook to update rider location through the rider link
+ * `isClosed` turns true once the server stops taking locations: link revoked, order completed or cancelled
  */
-export const useUpdateRiderLocation = (orderId: string) => {
+export const useUpdateRiderLocation = (token: string) => {
   const [isUpdating, setIsUpdating] = useState(false);
+  const [isClosed, setIsClosed] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const updateLocation = useCallback(
     async (lat: number, lng: number) => {
-      try {
-        setIsUpdating(true);
-        const { error: updateError } = await supabase
-          .from('orders')
-          .update({ rider_lat: lat, rider_lng: lng, updated_at: new Date().toISOString() })
-          .eq('id', orderId);
-
-        if (updateError) throw updateError;
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to update location');
-      } finally {
-        setIsUpdating(false);
+      setIsUpdating(true);
+      const result = await sendRiderLocation(token, lat, lng);
+      if (!result.success) {
+        setError(result.error || 'Failed to update location');
+        if (result.closed) setIsClosed(true);
       }
+      setIsUpdating(false);
     },
-    [orderId]
+    [token]
   );
 
-  return { updateLocation, isUpdating, error };
+  return { updateLocation, isUpdating, isClosed, error };
 };
 
 /**
@@ -193,22 +216,19 @@ export const useOrderSubscription = (orderId: string, onUpdate: (order: Order) =
 };
 
 /**
- * Hook to update order status
+ * Hook to update order status; the server rejects moves the order lifecycle doesn't allow
  */
 export const useUpdateOrderStatus = (orderId: string) => {
   const [isUpdating, setIsUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const updateStatus = useCallback(
-    async (status: Order['status']) => {
+    async (status: Order['status'], options: { override?: boolean } = {}) => {
       try {
         setIsUpdating(true);
-        const { error: updateError } = await supabase
-          .from('orders')
-          .update({ status, updated_at: new Date().toISOString() })
-          .eq('id', orderId);
+        const result = await patchOrder(orderId, { status, ...options });
 
-        if (updateError) throw updateError;
+        if (!result.success) throw new Error(result.error);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to update status');
       } finally {
@@ -222,9 +242,9 @@ export const useUpdateOrderStatus = (orderId: string) => {
 };
 
 /**
- * Hook to submit CSAT feedback
+ * Hook to submit CSAT feedback through the customer's feedback link
  */
-export const useSubmitCSAT = (orderId: string) => {
+export const useSubmitCSAT = (token: string) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -232,23 +252,16 @@ export const useSubmitCSAT = (orderId: string) => {
     async (score: number, comment: string) => {
       try {
         setIsSubmitting(true);
-        const { error: submitError } = await supabase
-          .from('orders')
-          .update({
-            csat_score: score,
-            csat_comment: comment,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', orderId);
-
-        if (submitError) throw submitError;
+        const result = await submitCsat(token, score, comment);
+
+        if (!result.success) throw new Error(result.error);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to submit feedback');
       } finally {
         setIsSubmitting(false);
       }
     },
-    [orderId]
+    [token]
   );
 
   return { submit, isSubmitting, error };
@@ -262,19 +275,13 @@ export const useAssignRider = (orderId: string) => {
   const [error, setError] = useState<string | null>(null);
 
   const assignRider = useCallback(
-    async (riderPhone: string, riderToken: string) => {
+    async (riderPhone: string) => {
       try {
         setIsAssigning(true);
-        const { error: assignError } = await supabase
-          .from('orders')
-          .update({
-            rider_phone: riderPhone,
-            rider_token: riderToken,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', orderId);
-
-        if (assignError) throw assignError;
+        // The server issues the rider link
+        const result = await patchOrder(orderId, { rider_phone: riderPhone });
+
+        if (!result.success) throw new Error(result.error);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to assign rider');
       } finally {
@@ -297,12 +304,9 @@ export const useDeleteOrder = () => {
   const deleteOrder = useCallback(async (orderId: string) => {
     try {
       setIsDeleting(true);
-      const { error: deleteError } = await supabase
-        .from('orders')
-        .delete()
-        .eq('id', orderId);
+      const result = await removeOrder(orderId);
 
-      if (deleteError) throw deleteError;
+      if (!result.success) throw new Error(result.error);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete order');
       throw err;
@@ -315,24 +319,19 @@ export const useDeleteOrder = () => {
 };
 
 /**
- * Hook to update an existing order
+ * Hook to update an existing order; resolves to the order as saved by the server
  */
 export const useUpdateOrder = () => {
   const [isUpdating, setIsUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const updateOrder = useCallback(async (orderId: string, updates: Partial<Order>) => {
+  const updateOrder = useCallback(async (orderId: string, updates: OrderUpdate): Promise<Order> => {
     try {
       setIsUpdating(true);
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', orderId);
-
-      if (updateError) throw updateError;
+      const result = await patchOrder(orderId, updates);
+
+      if (!result.success || !result.order) throw new Error(result.error || 'Failed to update order');
+      return result.order;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update order');
       throw err;
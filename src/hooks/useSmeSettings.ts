@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { getSmeSettings } from '../lib/settings';
+import type { SmeSettings } from '../lib/settings';
+import { DEFAULT_COUNTRY } from '../lib/phone';
+import { DEFAULT_ORDER_ID_PREFIX, DEFAULT_ORDER_ID_FORMAT } from '../lib/orderNumbers';
+
+const DEFAULT_SETTINGS: SmeSettings = {
+  default_country: DEFAULT_COUNTRY,
+  support_contact: null,
+  order_id_prefix: DEFAULT_ORDER_ID_PREFIX,
+  order_id_format: DEFAULT_ORDER_ID_FORMAT,
+};
+
+/**
+ * Hook to load the SME's settings; defaults are used until (or unless) they load
+ */
+export const useSmeSettings = (smeId: string) => {
+  const [settings, setSettings] = useState<SmeSettings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    if (!smeId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const result = await getSmeSettings();
+      if (!cancelled && result.success && result.settings) setSettings(result.settings);
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [smeId]);
+
+  return { settings, setSettings };
+};
@@ -0,0 +1,36 @@
+import { useEffect, useState, useCallback } from 'react';
+import { getUnreadCounts } from '../lib/whatsapp';
+
+const POLL_INTERVAL_MS = 15000;
+
+/**
+ * Hook to poll unread customer WhatsApp messages per order
+ */
+export const useUnreadMessages = (smeId: string) => {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  const refresh = useCallback(async () => {
+    if (!smeId) return;
+    setCounts(await getUnreadCounts());
+  }, [smeId]);
+
+  useEffect(() => {
+    if (!smeId) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      const result = await getUnreadCounts();
+      if (!cancelled) setCounts(result);
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [smeId]);
+
+  return { counts, refresh };
+};
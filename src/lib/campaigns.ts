@@ -0,0 +1,150 @@
+import type { Order } from './supabase';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+/**
+ * Which past customers a campaign goes to, judged from their orders
+ */
+export interface CampaignSegment {
+  statuses?: Order['status'][];
+  orderedWithinDays?: number;
+  minSpend?: number;
+  formField?: { key: string; value: string };
+  requireConsent?: boolean;
+}
+
+export interface CampaignStats {
+  total: number;
+  queued: number;
+  sent: number; // Includes delivered and read
+  delivered: number; // Includes read
+  read: number;
+  failed: number;
+  suppressed: number;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  message_body: string;
+  segment: CampaignSegment;
+  content_sid: string | null;
+  recipient_count: number;
+  created_at: string;
+  stats: CampaignStats;
+}
+
+export type CampaignRecipientStatus = 'suppressed' | 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface CampaignRecipient {
+  phone: string;
+  customer_name: string | null;
+  order_id: string | null;
+  status: CampaignRecipientStatus;
+  error: string | null;
+  updated_at: string | null;
+}
+
+export interface CampaignPreview {
+  total: number;
+  suppressed: number;
+  sample: { phone: string; customer_name: string | null; order_count: number; total_spent: number; message: string | null }[];
+}
+
+export interface NewCampaign {
+  name: string;
+  messageBody: string;
+  segment: CampaignSegment;
+  contentSid?: string;
+  contentVariables?: Record<string, string>;
+}
+
+const headers = () => ({
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${localStorage.getItem('wot_auth_token')}`,
+});
+
+/**
+ * Get the SME's recent campaigns and the variables campaign messages can use
+ */
+export async function getCampaigns(): Promise<{ success: boolean; campaigns?: Campaign[]; variables?: string[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/campaigns`, {
+      method: 'GET',
+      headers: headers(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch campaigns');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Count the customers a segment reaches and render the message for a few of them
+ */
+export async function previewCampaign(
+  segment: CampaignSegment,
+  messageBody: string
+): Promise<{ success: boolean; error?: string } & Partial<CampaignPreview>> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/campaigns/preview`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({ segment, messageBody }),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to preview campaign');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Create a campaign and queue its messages
+ */
+export async function createCampaign(
+  campaign: NewCampaign
+): Promise<{ success: boolean; campaignId?: string; queued?: number; suppressed?: number; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/campaigns`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify(campaign),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to create campaign');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Per-recipient delivery report for a campaign
+ */
+export async function getCampaignReport(
+  campaignId: string
+): Promise<{ success: boolean; campaign?: Omit<Campaign, 'stats'>; stats?: CampaignStats; recipients?: CampaignRecipient[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/campaigns/${campaignId}`, {
+      method: 'GET',
+      headers: headers(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch campaign report');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Customer-facing page translations (tracking & feedback pages).
+ * WhatsApp message texts live in server/services/templateDefaults.ts.
+ */
+
+export type Language = 'en' | 'pcm' | 'yo' | 'ig' | 'ha';
+
+export const LANGUAGES: { value: Language; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'pcm', label: 'Pidgin' },
+  { value: 'yo', label: 'Yorùbá' },
+  { value: 'ig', label: 'Igbo' },
+  { value: 'ha', label: 'Hausa' },
+];
+
+const en = {
+  locating: 'Locating your order...',
+  linkInvalid: 'Link Invalid',
+  linkInvalidBody: 'The tracking link has expired or is incorrect. Please contact the merchant.',
+  goBack: 'Go Back',
+  order: 'Order',
+  riderEnRoute: '🚚 RIDER IS EN ROUTE',
+  status: 'STATUS',
+  riderHere: 'Your rider is here',
+  destination: 'Destination',
+  connectingGps: "Connecting to rider's GPS...",
+  estimatedArrival: 'Estimated Arrival',
+  liveTracking: 'Live tracking is active.',
+  notBroadcasting: 'Rider has not started broadcasting yet.',
+  deliveryAddress: 'Delivery Address',
+  distance: 'Distance',
+  kmAway: '{n} km away',
+  calculating: 'Calculating...',
+  reachable: 'Please ensure your phone is reachable. Your rider will call you upon arrival or to confirm the delivery location.',
+  loadingFeedback: 'Loading feedback form...',
+  invalidFeedbackTitle: 'Invalid Feedback Link',
+  invalidFeedbackBody: 'This feedback form has expired or is invalid',
+  thankYou: 'Thank You!',
+  feedbackRecorded: 'Your feedback has been recorded. We appreciate your business and look forward to serving you again!',
+  closeTab: 'You can close this tab',
+  howWasExperience: 'How was your experience?',
+  lovedIt: 'Loved it!',
+  hadIssues: 'Had issues',
+  tellLoved: 'Tell us what you loved!',
+  tellWrong: 'Tell us what went wrong',
+  feedbackPlaceholder: 'Your feedback helps us improve...',
+  submitFeedback: 'Submit Feedback',
+  feedbackValuable: '✨ Your feedback is valuable',
+  feedbackHelps: 'It helps other customers make better choices',
+  orderProgress: 'Order Progress',
+  progressNEW: 'Order placed',
+  progressPROCESSING: 'Being prepared',
+  progressREADY: 'Ready for delivery',
+  progressDISPATCHED: 'Out for delivery',
+  progressCOMPLETED: 'Delivered',
+  progressCANCELLED: 'Cancelled',
+  progressRiderAssigned: 'Rider assigned',
+};
+
+export type TranslationKey = keyof typeof en;
+
+const pcm: Partial<Record<TranslationKey, string>> = {
+  locating: 'We dey find your order...',
+  linkInvalid: 'Link no work',
+  linkInvalidBody: 'This tracking link don expire or e no correct. Abeg contact the seller.',
+  goBack: 'Go Back',
+  riderEnRoute: '🚚 RIDER DON DEY ROAD',
+  riderHere: 'Your rider dey here',
+  destination: 'Where e dey go',
+  connectingGps: 'We dey connect to rider GPS...',
+  estimatedArrival: 'When e go reach',
+  liveTracking: 'Live tracking dey on.',
+  notBroadcasting: 'Rider never start to share location.',
+  deliveryAddress: 'Delivery Address',
+  distance: 'How far',
+  kmAway: '{n} km remain',
+  calculating: 'We dey calculate...',
+  reachable: 'Abeg make sure say your phone dey reach. Rider go call you when e reach or to confirm the place.',
+  loadingFeedback: 'We dey load the form...',
+  invalidFeedbackTitle: 'Feedback link no work',
+  invalidFeedbackBody: 'This feedback form don expire or e no correct',
+  thankYou: 'Thank you!',
+  feedbackRecorded: 'We don collect your feedback. We appreciate you well well, we go like serve you again!',
+  closeTab: 'You fit close this tab',
+  howWasExperience: 'How everything take go?',
+  lovedIt: 'I enjoy am!',
+  hadIssues: 'E get wahala',
+  tellLoved: 'Tell us wetin you like!',
+  tellWrong: 'Tell us wetin no go well',
+  feedbackPlaceholder: 'Your feedback go help us do better...',
+  submitFeedback: 'Send Feedback',
+  feedbackValuable: '✨ Your feedback matter',
+  feedbackHelps: 'E dey help other customers choose well',
+};
+
+const yo: Partial<Record<TranslationKey, string>> = {
+  locating: 'À ń wá ọjà yín...',
+  linkInvalid: 'Ìjápọ̀ kò ṣiṣẹ́',
+  linkInvalidBody: 'Ìjápọ̀ ìtọpinpin yìí ti parí tàbí kò tọ̀nà. Ẹ jọ̀ọ́ ẹ kàn sí oníṣòwò náà.',
+  goBack: 'Padà',
+  order: 'Ọjà',
+  riderEnRoute: '🚚 ẸLẸ́RÙ WÀ LÓJÚ Ọ̀NÀ',
+  status: 'IPÒ',
+  riderHere: 'Ẹlẹ́rù yín wà níbí',
+  destination: 'Ibi tí ó ń lọ',
+  connectingGps: 'À ń so mọ́ GPS ẹlẹ́rù...',
+  estimatedArrival: 'Àkókò tí yóò dé',
+  liveTracking: 'Ìtọpinpin ń ṣiṣẹ́ lọ́wọ́.',
+  notBroadcasting: 'Ẹlẹ́rù kò tíì bẹ̀rẹ̀ sí pín ibi tí ó wà.',
+  deliveryAddress: 'Àdírẹ́sì Ìfijíṣẹ́',
+  distance: 'Ìjìnnà',
+  kmAway: '{n} km sí yín',
+  calculating: 'À ń ṣírò...',
+  reachable: 'Ẹ jọ̀ọ́ ẹ rí i pé fóònù yín wà ní títàn. Ẹlẹ́rù yóò pè yín nígbà tí ó bá dé.',
+  loadingFeedback: 'À ń gbé fọ́ọ̀mù ìdáhùn wá...',
+  invalidFeedbackTitle: 'Ìjápọ̀ ìdáhùn kò ṣiṣẹ́',
+  invalidFeedbackBody: 'Fọ́ọ̀mù ìdáhùn yìí ti parí tàbí kò tọ̀nà',
+  thankYou: 'A dúpẹ́!',
+  feedbackRecorded: 'A ti gba ìdáhùn yín. A mọrírì yín, a sì ń retí láti sìn yín lẹ́ẹ̀kan sí i!',
+  closeTab: 'Ẹ lè pa ojú-ewé yìí dé',
+  howWasExperience: 'Báwo ni ó ṣe rí fún yín?',
+  lovedIt: 'Ó dùn mọ́ mi!',
+  hadIssues: 'Ìṣòro wà',
+  tellLoved: 'Ẹ sọ ohun tí ẹ fẹ́ràn fún wa!',
+  tellWrong: 'Ẹ sọ ohun tí kò lọ dáadáa fún wa',
+  feedbackPlaceholder: 'Ìdáhùn yín ń ràn wá lọ́wọ́ láti ṣe dáadáa sí i...',
+  submitFeedback: 'Fi Ìdáhùn Ránṣẹ́',
+  feedbackValuable: '✨ Ìdáhùn yín ṣe pàtàkì',
+  feedbackHelps: 'Ó ń ran àwọn oníbàárà mìíràn lọ́wọ́ láti yan dáadáa',
+};
+
+const ig: Partial<Record<TranslationKey, string>> = {
+  locating: 'Anyị na-achọ order gị...',
+  linkInvalid: 'Njikọ adịghị mma',
+  linkInvalidBody: 'Njikọ nsochi a agwụla ma ọ bụ na ọ ezighi ezi. Biko kpọtụrụ onye na-ere ahịa.',
+  goBack: 'Laghachi',
+  riderEnRoute: '🚚 ONYE NNYEFE NỌ N’ỤZỌ',
+  status: 'ỌNỌDỤ',
+  riderHere: 'Onye nnyefe gị nọ ebe a',
+  destination: 'Ebe ọ na-aga',
+  connectingGps: 'Anyị na-ejikọ na GPS onye nnyefe...',
+  estimatedArrival: 'Oge ọ ga-eru',
+  liveTracking: 'Nsochi na-arụ ọrụ ugbu a.',
+  notBroadcasting: 'Onye nnyefe amalitebeghị ikesa ebe ọ nọ.',
+  deliveryAddress: 'Adreesị Nnyefe',
+  distance: 'Anya',
+  kmAway: '{n} km fọdụrụ',
+  calculating: 'Anyị na-agbakọ...',
+  reachable: 'Biko hụ na ekwentị gị na-arụ ọrụ. Onye nnyefe ga-akpọ gị mgbe ọ bịarutere.',
+  loadingFeedback: 'Anyị na-ebudata fọm nzaghachi...',
+  invalidFeedbackTitle: 'Njikọ nzaghachi adịghị mma',
+  invalidFeedbackBody: 'Fọm nzaghachi a agwụla ma ọ bụ na ọ ezighi ezi',
+  thankYou: 'Daalụ!',
+  feedbackRecorded: 'Anyị edebela nzaghachi gị. Anyị ji gị kpọrọ ihe, anyị na-atụ anya ijere gị ozi ọzọ!',
+  closeTab: 'Ị nwere ike imechi peeji a',
+  howWasExperience: 'Kedu ka o si gaa?',
+  lovedIt: 'Ọ tọrọ m ụtọ!',
+  hadIssues: 'E nwere nsogbu',
+  tellLoved: 'Gwa anyị ihe masịrị gị!',
+  tellWrong: 'Gwa anyị ihe na-agaghị nke ọma',
+  feedbackPlaceholder: 'Nzaghachi gị na-enyere anyị aka ime nke ọma...',
+  submitFeedback: 'Zipu Nzaghachi',
+  feedbackValuable: '✨ Nzaghachi gị dị mkpa',
+  feedbackHelps: 'Ọ na-enyere ndị ahịa ndị ọzọ aka ịhọrọ nke ọma',
+};
+
+const ha: Partial<Record<TranslationKey, string>> = {
+  locating: 'Muna neman odarka...',
+  linkInvalid: 'Hanyar ba ta aiki',
+  linkInvalidBody: 'Hanyar bin diddigin ta ƙare ko ba daidai ba ce. Da fatan za ka tuntuɓi mai sayarwa.',
+  goBack: 'Koma baya',
+  order: 'Oda',
+  riderEnRoute: '🚚 MAI KAWOWA YANA KAN HANYA',
+  status: 'MATSAYI',
+  riderHere: 'Mai kawo maka yana nan',
+  destination: 'Inda za a kai',
+  connectingGps: 'Ana haɗawa da GPS na mai kawowa...',
+  estimatedArrival: 'Lokacin isowa',
+  liveTracking: 'Bin diddigi kai tsaye yana aiki.',
+  notBroadcasting: 'Mai kawowa bai fara raba wurinsa ba tukuna.',
+  deliveryAddress: 'Adireshin Isarwa',
+  distance: 'Nisa',
+  kmAway: 'Saura km {n}',
+  calculating: 'Ana lissafi...',
+  reachable: 'Da fatan wayarka tana kunne. Mai kawowa zai kira ka idan ya iso.',
+  loadingFeedback: 'Ana loda fom ɗin ra’ayi...',
+  invalidFeedbackTitle: 'Hanyar ra’ayi ba ta aiki',
+  invalidFeedbackBody: 'Fom ɗin ra’ayi ya ƙare ko ba daidai ba ne',
+  thankYou: 'Mun gode!',
+  feedbackRecorded: 'Mun karɓi ra’ayinka. Muna godiya kuma muna fatan sake yi maka hidima!',
+  closeTab: 'Za ka iya rufe wannan shafin',
+  howWasExperience: 'Yaya abin ya kasance?',
+  lovedIt: 'Na ji daɗi!',
+  hadIssues: 'An sami matsala',
+  tellLoved: 'Faɗa mana abin da ka so!',
+  tellWrong: 'Faɗa mana abin da bai yi kyau ba',
+  feedbackPlaceholder: 'Ra’ayinka yana taimaka mana mu inganta...',
+  submitFeedback: 'Aika Ra’ayi',
+  feedbackValuable: '✨ Ra’ayinka yana da muhimmanci',
+  feedbackHelps: 'Yana taimaka wa sauran abokan ciniki su zaɓi da kyau',
+};
+
+const translations: Record<Language, Partial<Record<TranslationKey, string>>> = { en, pcm, yo, ig, ha };
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some((l) => l.value === value);
+
+/**
+ * Translate a UI string, falling back to English; `{name}` placeholders are filled from `vars`
+ */
+export function translate(
+  language: string | null | undefined,
+  key: TranslationKey,
+  vars: Record<string, string | number> = {}
+): string {
+  const dictionary = isLanguage(language) ? translations[language] : en;
+  const text = dictionary[key] || en[key];
+  return text.replace(/\{(\w+)\}/g, (_match, name: string) => String(vars[name] ?? ''));
+}
@@ -0,0 +1,12 @@
+/**
+ * Readable order ID formats shared with the server, so settings can be checked
+ * and previewed before they are saved
+ */
+export {
+  DEFAULT_ORDER_ID_PREFIX,
+  DEFAULT_ORDER_ID_FORMAT,
+  ORDER_ID_TOKENS,
+  orderIdPrefixError,
+  orderIdFormatError,
+  formatOrderId,
+} from '../../server/shared/orderNumbers';
@@ -0,0 +1,59 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${localStorage.getItem('wot_auth_token')}`,
+});
+
+export interface OrderRequest {
+  id: string;
+  order_id: string;
+  sme_id: string;
+  type: 'cancel' | 'reschedule';
+  status: 'pending' | 'approved' | 'rejected';
+  details: string | null;
+  created_at: string;
+  resolved_at: string | null;
+  orders?: { readable_id: string; customer_name: string; status: string } | null;
+}
+
+/**
+ * Get customer cancel/reschedule requests awaiting the SME's decision
+ */
+export async function getPendingOrderRequests(): Promise<{ success: boolean; requests?: OrderRequest[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/order-requests?status=pending`, {
+      method: 'GET',
+      headers: authHeaders(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch requests');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Approve or reject a customer request
+ */
+export async function resolveOrderRequest(
+  requestId: string,
+  decision: 'approve' | 'reject'
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/order-requests/${requestId}/${decision}`, {
+      method: 'POST',
+      headers: authHeaders(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to update request');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
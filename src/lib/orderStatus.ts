@@ -0,0 +1,18 @@
+/**
+ * Order lifecycle shared with the server, so the dashboard only offers the
+ * status changes the orders API will accept
+ */
+export {
+  ORDER_STATUSES,
+  ORDER_FLOW,
+  ORDER_TRANSITIONS,
+  TERMINAL_STATUSES,
+  CANCELLATION_REASONS,
+  CANCELLATION_REASON_LABELS,
+  MAX_CANCELLATION_NOTES_LENGTH,
+  isCancellationReason,
+  isTerminalStatus,
+  nextFlowStatus,
+  transitionError,
+} from '../../server/shared/orderStatus';
+export type { OrderStatus, TransitionContext, CancellationReason } from '../../server/shared/orderStatus';
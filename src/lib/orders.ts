@@ -0,0 +1,160 @@
+import type { Order } from './supabase';
+import type { CancellationReason } from './orderStatus';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export type OrderErrorCode = 'VALIDATION_ERROR' | 'NOT_FOUND' | 'INVALID_TRANSITION' | 'DATABASE_ERROR';
+
+export interface OrderResult {
+  success: boolean;
+  order?: Order;
+  error?: string;
+  code?: OrderErrorCode;
+  fieldErrors?: Record<string, string>; // Keyed by order column or form field_key
+}
+
+// override: the SME completes the order without the customer's delivery code
+export type OrderUpdate = Partial<Order> & { override?: boolean };
+
+// Fields present depend on the event type
+export interface OrderEventData {
+  from?: string; // status_changed
+  to?: string;
+  via?: 'otp' | 'override'; // status_changed to COMPLETED
+  reason?: CancellationReason | null; // status_changed to CANCELLED
+  notes?: string | null;
+  source?: 'dashboard' | 'csv_import'; // created
+  rider_phone?: string | null; // rider_assigned
+  previous?: string | null;
+  changes?: Record<string, { from: unknown; to: unknown }>; // edited
+  result?: 'verified' | 'invalid' | 'expired' | 'too_many_attempts'; // otp_attempt
+  score?: number; // csat_submitted
+  comment?: string | null;
+  channel?: 'whatsapp' | 'sms' | 'email'; // message_sent
+  event?: string | null;
+  recipient?: string;
+}
+
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  type: 'created' | 'status_changed' | 'rider_assigned' | 'edited' | 'otp_attempt' | 'csat_submitted' | 'message_sent';
+  actor_type: 'sme' | 'rider' | 'customer' | 'system';
+  actor_id: string | null; // SME user id, or the rider's/customer's phone
+  data: OrderEventData;
+  created_at: string;
+}
+
+export interface OrderListFilters {
+  status?: Order['status'][];
+  search?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// The orders API identifies the SME from the signed-in session
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${localStorage.getItem('wot_auth_token')}`,
+});
+
+async function orderRequest(path: string, init: RequestInit, fallbackError: string): Promise<OrderResult> {
+  try {
+    const response = await fetch(`${API_BASE_URL}${path}`, { ...init, headers: authHeaders() });
+    const json = await response.json();
+    if (!response.ok) {
+      return { success: false, error: json.error || fallbackError, code: json.code, fieldErrors: json.fieldErrors };
+    }
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Get the SME's orders, newest first
+ */
+export async function listOrders(
+  filters: OrderListFilters = {}
+): Promise<{ success: boolean; orders?: Order[]; total?: number; error?: string }> {
+  try {
+    const params = new URLSearchParams();
+    if (filters.status?.length) params.set('status', filters.status.join(','));
+    if (filters.search) params.set('search', filters.search);
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    if (filters.limit) params.set('limit', String(filters.limit));
+    if (filters.offset) params.set('offset', String(filters.offset));
+
+    const response = await fetch(`${API_BASE_URL}/orders?${params}`, { method: 'GET', headers: authHeaders() });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch orders');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Get one order
+ */
+export async function getOrder(orderId: string): Promise<OrderResult> {
+  return orderRequest(`/orders/${orderId}`, { method: 'GET' }, 'Failed to fetch order');
+}
+
+/**
+ * Create an order; the server validates it against the SME's order form
+ */
+export async function createOrder(order: Partial<Order>): Promise<OrderResult> {
+  return orderRequest('/orders', { method: 'POST', body: JSON.stringify(order) }, 'Failed to create order');
+}
+
+/**
+ * Update some of an order's fields; pass rider_phone to assign a rider (a new rider link is issued)
+ * A status change the order lifecycle doesn't allow fails with code INVALID_TRANSITION
+ */
+export async function updateOrder(orderId: string, updates: OrderUpdate): Promise<OrderResult> {
+  return orderRequest(`/orders/${orderId}`, { method: 'PATCH', body: JSON.stringify(updates) }, 'Failed to update order');
+}
+
+/**
+ * Cancel an order with a reason; the server revokes the rider link and tells the customer
+ * Invalid reasons or notes fail with fieldErrors.cancellation_reason / cancellation_notes
+ */
+export async function cancelOrder(
+  orderId: string,
+  cancellation: { reason: CancellationReason; notes?: string }
+): Promise<OrderResult> {
+  return orderRequest(`/orders/${orderId}/cancel`, { method: 'POST', body: JSON.stringify(cancellation) }, 'Failed to cancel order');
+}
+
+/**
+ * Delete an order
+ */
+export async function deleteOrder(orderId: string): Promise<OrderResult> {
+  return orderRequest(`/orders/${orderId}`, { method: 'DELETE' }, 'Failed to delete order');
+}
+
+/**
+ * Get an order's history, oldest first
+ */
+export async function getOrderEvents(
+  orderId: string
+): Promise<{ success: boolean; events?: OrderEvent[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/orders/${orderId}/events`, { method: 'GET', headers: authHeaders() });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch order history');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
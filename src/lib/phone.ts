@@ -0,0 +1,13 @@
+/**
+ * Phone number parsing shared with the server, so the dashboard rejects exactly
+ * the numbers the send path would reject
+ */
+export {
+  COUNTRIES,
+  COUNTRY_CODES,
+  DEFAULT_COUNTRY,
+  isCountryCode,
+  parsePhoneNumber,
+  normalizePhoneNumber,
+} from '../../server/shared/phone';
+export type { CountryCode, PhoneParseResult } from '../../server/shared/phone';
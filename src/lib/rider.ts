@@ -0,0 +1,53 @@
+import type { Order } from './supabase';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// The delivery as the rider app sees it
+export type RiderOrder = Pick<Order, 'id' | 'readable_id' | 'status' | 'customer_name' | 'customer_phone' | 'delivery_address' | 'price_total'>;
+
+/**
+ * Get the delivery the rider link was issued for
+ */
+export async function getRiderOrder(
+  token: string
+): Promise<{ success: boolean; order?: RiderOrder; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/rider/${token}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Order not found');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Share the rider's position; `closed` once the link is revoked or the order is completed or cancelled
+ */
+export async function sendRiderLocation(
+  token: string,
+  lat: number,
+  lng: number
+): Promise<{ success: boolean; closed?: boolean; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/rider/${token}/location`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ lat, lng }),
+    });
+    const json = await response.json();
+    if (!response.ok) {
+      return { success: false, closed: response.status === 404 || response.status === 409, error: json.error || 'Failed to update location' };
+    }
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,62 @@
+import type { CountryCode } from './phone';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${localStorage.getItem('wot_auth_token')}`,
+});
+
+export interface SmeSettings {
+  default_country: CountryCode;
+  support_contact: string | null; // Sent to customers who reply HELP
+  order_id_prefix: string; // {PREFIX} in order_id_format
+  order_id_format: string; // How readable order IDs are written, e.g. {PREFIX}-{YYYY}-{SEQ:5}
+}
+
+export interface CountryOption {
+  code: CountryCode;
+  name: string;
+  dialCode: string;
+}
+
+/**
+ * Get the SME's settings and supported countries
+ */
+export async function getSmeSettings(): Promise<{ success: boolean; settings?: SmeSettings; countries?: CountryOption[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/settings`, {
+      method: 'GET',
+      headers: authHeaders(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch settings');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Save the SME's settings
+ */
+export async function saveSmeSettings(
+  updates: { defaultCountry?: CountryCode; orderIdPrefix?: string; orderIdFormat?: string }
+): Promise<{ success: boolean; settings?: SmeSettings; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/settings`, {
+      method: 'PUT',
+      headers: authHeaders(),
+      body: JSON.stringify(updates),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to save settings');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { CancellationReason } from './orderStatus';
 
 // Supabase Configuration
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
@@ -31,18 +32,27 @@ export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
 export interface Order {
   id: string;
   readable_id: string;
+  legacy_readable_id?: string | null; // The ID the order had before sequential numbering
   status: 'NEW' | 'PROCESSING' | 'READY' | 'DISPATCHED' | 'COMPLETED' | 'CANCELLED';
   customer_name: string;
   customer_phone: string;
+  customer_email?: string | null; // Fallback channel for critical notices
   delivery_address: string;
   price_total: number;
   rider_phone: string | null;
-  rider_token: string | null;
+  tracking_token: string; // Customer tracking and feedback links
+  rider_token: string | null; // Rider link; revoked on reassignment and cancellation
   rider_lat: number | null;
   rider_lng: number | null;
   csat_score: number | null;
   csat_comment: string | null;
   form_data: Record<string, any> | null;
+  preferred_language: 'en' | 'pcm' | 'yo' | 'ig' | 'ha';
+  whatsapp_consent_at?: string | null;
+  whatsapp_consent_source?: 'order_form' | 'csv_import' | null;
+  cancellation_reason?: CancellationReason | null; // Set when the order is cancelled
+  cancellation_notes?: string | null;
+  cancelled_at?: string | null;
   created_at: string;
   updated_at: string;
   sme_id: string;
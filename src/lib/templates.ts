@@ -0,0 +1,175 @@
+import type { OrderNotificationEvent } from './whatsapp';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${localStorage.getItem('wot_auth_token')}`,
+});
+
+export interface MessageTemplate {
+  event: OrderNotificationEvent;
+  body: string;
+  defaultBody: string;
+  isCustom: boolean;
+}
+
+/**
+ * Get the SME's message templates (overrides merged over defaults) and available variables
+ */
+export async function getTemplates(
+  language = 'en'
+): Promise<{ success: boolean; templates?: MessageTemplate[]; variables?: string[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/templates?language=${encodeURIComponent(language)}`, {
+      method: 'GET',
+      headers: authHeaders(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch templates');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Save the SME's text for an event
+ */
+export async function saveTemplate(
+  event: OrderNotificationEvent,
+  body: string,
+  language = 'en'
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/templates/${event}`, {
+      method: 'PUT',
+      headers: authHeaders(),
+      body: JSON.stringify({ body, language }),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to save template');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Reset an event to the default text
+ */
+export async function resetTemplate(
+  event: OrderNotificationEvent,
+  language = 'en'
+): Promise<{ success: boolean; body?: string; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/templates/${event}?language=${encodeURIComponent(language)}`, {
+      method: 'DELETE',
+      headers: authHeaders(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to reset template');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Render a draft template with the server renderer against the SME's latest order
+ */
+export async function previewTemplate(
+  body: string
+): Promise<{ success: boolean; preview?: string; sampleOrder?: string; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/templates/preview`, {
+      method: 'POST',
+      headers: authHeaders(),
+      body: JSON.stringify({ body }),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to render preview');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+export interface ContentTemplate {
+  event: OrderNotificationEvent;
+  content_sid: string;
+  variables: Record<string, string>; // Template slot ("1", "2", ...) → variable name
+  updated_at: string;
+}
+
+/**
+ * Get the approved WhatsApp templates used outside the 24-hour session window
+ */
+export async function getContentTemplates(): Promise<{ success: boolean; templates?: ContentTemplate[]; events?: OrderNotificationEvent[]; variables?: string[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/content-templates`, {
+      method: 'GET',
+      headers: authHeaders(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch content templates');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Register the content SID and variable mapping for an event
+ */
+export async function saveContentTemplate(
+  event: OrderNotificationEvent,
+  contentSid: string,
+  variables: Record<string, string>
+): Promise<{ success: boolean; template?: ContentTemplate; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/content-templates/${event}`, {
+      method: 'PUT',
+      headers: authHeaders(),
+      body: JSON.stringify({ contentSid, variables }),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to save content template');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Remove the approved template for an event
+ */
+export async function deleteContentTemplate(
+  event: OrderNotificationEvent
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/content-templates/${event}`, {
+      method: 'DELETE',
+      headers: authHeaders(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to remove content template');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
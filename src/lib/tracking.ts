@@ -0,0 +1,53 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// An order's progress as the customer sees it: no people, edits or messages
+export interface TrackingEvent {
+  type: 'created' | 'status_changed' | 'rider_assigned';
+  status: string | null;
+  created_at: string;
+}
+
+/**
+ * Get the order's progress for the tracking page
+ */
+export async function getTrackingEvents(
+  token: string
+): Promise<{ success: boolean; events?: TrackingEvent[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/track/${token}/events`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch order progress');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Send the customer's feedback on the order
+ */
+export async function submitCsat(
+  token: string,
+  score: number,
+  comment: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/track/${token}/csat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ score, comment }),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to submit feedback');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
@@ -14,20 +14,6 @@ export const generateToken = (length: number = 16): string => {
   return Math.random().toString(36).substring(2, 2 + length);
 };
 
-/**
- * Format phone number for WhatsApp
- * @param phone - Phone number (can include +, -, (), spaces)
- * @returns Cleaned phone number
- */
-export const formatPhoneNumber = (phone: string): string => {
-  const cleaned = phone.replace(/\D/g, '');
-  // Add country code if missing
-  if (!cleaned.startsWith('234')) {
-    return '234' + cleaned.slice(-10);
-  }
-  return cleaned;
-};
-
 /**
  * Calculate ETA based on distance and average speed
  * @param distanceKm - Distance in kilometers
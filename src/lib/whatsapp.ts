@@ -5,6 +5,12 @@
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
+// The signed-in SME's token; the server takes the SME from it
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${localStorage.getItem('wot_auth_token')}`,
+});
+
 export interface WhatsAppMessagePayload {
   phone: string;
   message: string;
@@ -16,20 +22,91 @@ export interface WhatsAppMessagePayload {
 export interface WhatsAppLog {
   id: string;
   order_id: string;
+  channel?: 'whatsapp' | 'sms' | 'email'; // sms/email: fallback after WhatsApp failed
+  provider?: string | null;
   recipient_phone: string;
+  recipient_email?: string | null;
   message_body: string;
   twilio_sid?: string;
-  status: 'pending' | 'sent' | 'delivered' | 'failed';
+  content_sid?: string | null; // Sent as an approved template (outside the 24-hour window)
+  status: 'pending' | 'queued' | 'sent' | 'delivered' | 'read' | 'undelivered' | 'failed' | 'suppressed';
+  error_code?: string | null;
+  error_message?: string | null;
+  queued_at?: string | null;
+  sent_at?: string | null;
+  delivered_at?: string | null;
+  read_at?: string | null;
+  failed_at?: string | null;
+  outbox_id?: string | null;
+  attempt?: number | null;
   created_at: string;
   updated_at?: string;
 }
 
+export interface QueuedMessage {
+  id: string;
+  order_id: string;
+  recipient_phone: string;
+  message_body: string;
+  status: 'pending' | 'processing' | 'sent' | 'dead' | 'skipped';
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OutboxMessage {
+  id: string;
+  to: string;
+  from: string;
+  body: string;
+  mediaUrl?: string;
+  channel?: 'sms' | 'email'; // Captured by the fallback stubs
+  subject?: string;
+  createdAt: string;
+}
+
+export interface Suppression {
+  id: string;
+  phone: string;
+  source: 'keyword' | 'manual'; // Customer replied STOP, or the SME opted them out
+  reason: string | null;
+  created_at: string;
+}
+
+export type OrderNotificationEvent =
+  | 'NEW'
+  | 'PROCESSING'
+  | 'READY'
+  | 'DISPATCHED'
+  | 'COMPLETED'
+  | 'CANCELLED'
+  | 'OTP'
+  | 'RIDER_ASSIGNED'
+  | 'CANCEL_APPROVED'
+  | 'CANCEL_REJECTED'
+  | 'RESCHEDULE_APPROVED'
+  | 'RESCHEDULE_REJECTED';
+
+export interface ConversationMessage {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  body: string;
+  phone: string;
+  status?: string;
+  mediaUrl?: string | null;
+  createdAt: string;
+}
+
 /**
- * Send a WhatsApp message via backend API
+ * Queue a WhatsApp message via backend API
+ * The backend outbox worker delivers it and retries on failure
  */
 export async function sendWhatsAppMessage(
   payload: WhatsAppMessagePayload
-): Promise<{ success: boolean; messageSid?: string; error?: string }> {
+): Promise<{ success: boolean; queued?: boolean; outboxId?: string; error?: string }> {
   try {
     const response = await fetch(`${API_BASE_URL}/send-whatsapp`, {
       method: 'POST',
@@ -93,25 +170,219 @@ export async function getWhatsAppLogs(
 }
 
 /**
- * Generate order status message templates
+ * Get the SME's dead-lettered messages (failed after all retries)
+ */
+export async function getDeadLetters(): Promise<{ success: boolean; messages?: QueuedMessage[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/outbox?status=dead`, {
+      method: 'GET',
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch failed messages');
+    }
+
+    return await response.json();
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    console.error('[WhatsApp Outbox Error]', errorMessage);
+
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Re-queue a dead-lettered message
+ */
+export async function retryDeadLetter(
+  outboxId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/outbox/${outboxId}/retry`, {
+      method: 'POST',
+      headers: authHeaders(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to retry message');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Get messages captured by the local outbox provider (development only)
+ * Returns enabled: false when the backend sends through a real provider
  */
-export function generateOrderStatusMessage(
-  status: string,
+export async function getDevOutbox(): Promise<{
+  enabled: boolean;
+  messages: OutboxMessage[];
+}> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/dev/outbox`, { headers: authHeaders() });
+    if (!response.ok) return { enabled: false, messages: [] };
+
+    const json = await response.json();
+    return { enabled: Boolean(json.enabled), messages: json.messages || [] };
+  } catch {
+    return { enabled: false, messages: [] };
+  }
+}
+
+/**
+ * Clear the local outbox
+ */
+export async function clearDevOutbox(): Promise<void> {
+  await fetch(`${API_BASE_URL}/dev/outbox`, { method: 'DELETE', headers: authHeaders() });
+}
+
+/**
+ * Get the WhatsApp conversation thread for an order
+ */
+export async function getConversation(
+  orderId: string
+): Promise<{ success: boolean; messages?: ConversationMessage[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/orders/${orderId}/conversation`, {
+      method: 'GET',
+      headers: authHeaders(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch conversation');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Reply to the customer on an order's conversation
+ */
+export async function sendConversationReply(
   orderId: string,
-  trackingUrl?: string
-): string {
-  const messages: Record<string, string> = {
-    NEW: `Hello! Your order #${orderId} has been received. We'll start processing it shortly. 🎉`,
-    PROCESSING: `Your order #${orderId} is now being processed. ⚙️ We'll notify you when it's ready!`,
-    READY: `Great news! Your order #${orderId} is ready and will be dispatched soon. 📦`,
-    DISPATCHED: trackingUrl
-      ? `Your order #${orderId} is on its way! 🚀\n\nTrack your delivery here: ${trackingUrl}`
-      : `Your order #${orderId} is on its way! 🚀 You'll receive a tracking link shortly.`,
-    COMPLETED: trackingUrl
-      ? `Your order #${orderId} has been delivered. Thank you for your purchase! ✅\n\nPlease rate your experience: ${trackingUrl}`
-      : `Your order #${orderId} has been delivered. Thank you for your purchase! ✅`,
-    CANCELLED: `Your order #${orderId} has been cancelled. Please contact support for more details. ❌`,
-  };
-
-  return messages[status] || `Order #${orderId} status: ${status}`;
+  message: string
+): Promise<{ success: boolean; outboxId?: string; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/orders/${orderId}/conversation/reply`, {
+      method: 'POST',
+      headers: authHeaders(),
+      body: JSON.stringify({ message }),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to send reply');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Mark the customer's messages on an order as read
+ */
+export async function markConversationRead(orderId: string): Promise<void> {
+  try {
+    await fetch(`${API_BASE_URL}/orders/${orderId}/conversation/read`, {
+      method: 'POST',
+      headers: authHeaders(),
+    });
+  } catch (error) {
+    console.error('[WhatsApp Inbox Error]', error);
+  }
+}
+
+/**
+ * Get unread customer message counts keyed by order ID
+ */
+export async function getUnreadCounts(): Promise<Record<string, number>> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/inbox/unread`, {
+      method: 'GET',
+      headers: authHeaders(),
+    });
+    if (!response.ok) return {};
+    const json = await response.json();
+    return json.counts || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Send the SME's templated message for an order event (rendered on the server)
+ * RIDER_ASSIGNED goes to the rider, every other event to the customer
+ */
+export async function sendOrderNotification(
+  orderId: string,
+  event: OrderNotificationEvent
+): Promise<{ success: boolean; queued?: boolean; outboxId?: string; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/orders/${orderId}/notify`, {
+      method: 'POST',
+      headers: authHeaders(),
+      body: JSON.stringify({ event }),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to send notification');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    console.error('[WhatsApp Error]', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Whether a customer has opted out of the SME's WhatsApp messages
+ */
+export async function getSuppression(
+  phone: string
+): Promise<{ success: boolean; suppressed?: boolean; suppression?: Suppression | null; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/suppressions?phone=${encodeURIComponent(phone)}`, {
+      method: 'GET',
+      headers: authHeaders(),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch opt-out status');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    console.error('[WhatsApp Error]', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Opt a customer out of (or back in to) WhatsApp messages on their behalf
+ */
+export async function setSuppression(
+  phone: string,
+  suppressed: boolean,
+  reason?: string
+): Promise<{ success: boolean; suppressed?: boolean; suppression?: Suppression | null; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/suppressions`, {
+      method: 'PUT',
+      headers: authHeaders(),
+      body: JSON.stringify({ phone, suppressed, reason }),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to update opt-out status');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    console.error('[WhatsApp Error]', errorMessage);
+    return { success: false, error: errorMessage };
+  }
 }
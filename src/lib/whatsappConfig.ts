@@ -0,0 +1,212 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+/**
+ * Linking a WhatsApp account to a Baileys/Evolution instance by QR code
+ */
+export type PairingState = 'pending' | 'qr_ready' | 'paired' | 'disconnected';
+
+export interface PairingStatus {
+  state: PairingState;
+  qrCode?: string | null; // Image data URL while qr_ready
+  detail?: string;
+}
+
+/**
+ * What a number is used for: the customer line, the dispatch line for riders, or a branch
+ */
+export type SenderPurpose = 'customer' | 'rider' | 'branch';
+
+export const SENDER_PURPOSE_LABELS: Record<SenderPurpose, string> = {
+  customer: 'Customer line',
+  rider: 'Rider line',
+  branch: 'Branch',
+};
+
+export interface WhatsAppConfig {
+  id: string;
+  provider: 'twilio' | 'baileys' | 'evolution';
+  purpose: SenderPurpose;
+  label: string; // Branch name; empty for the customer and rider lines
+  is_connected: boolean;
+  instance_id?: string;
+  connected_at?: string;
+  last_verified_at?: string | null;
+  verification_error?: string | null; // Why the provider last rejected the credentials
+  pairing_state?: PairingState | null; // Instance providers only
+  disconnected_at?: string | null; // Set when a working connection broke
+  credentials?: Record<string, string | undefined>; // Secrets arrive masked, e.g. AC…1234
+}
+
+type PairingResponse = { success: boolean; pairing?: PairingStatus; config?: WhatsAppConfig | null; error?: string };
+
+/**
+ * Name of a number as shown to the SME, e.g. "Rider line" or "Branch: Lekki"
+ */
+export const senderName = (config: Pick<WhatsAppConfig, 'purpose' | 'label'>) =>
+  config.purpose === 'branch' ? `Branch: ${config.label}` : SENDER_PURPOSE_LABELS[config.purpose];
+
+/**
+ * Get the SME's WhatsApp numbers and its HELP support contact
+ */
+export async function getWhatsAppConfigs(
+  smeId: string
+): Promise<{ success: boolean; configs?: WhatsAppConfig[]; supportContact?: string | null; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/config`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json', 'x-sme-id': smeId },
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch WhatsApp config');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Current pairing state of the SME's instance, checked with the provider
+ */
+export async function getPairingStatus(smeId: string, configId: string): Promise<PairingResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/config/instance/pairing?configId=${encodeURIComponent(configId)}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json', 'x-sme-id': smeId },
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch pairing status');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Start pairing again with a fresh QR code
+ */
+export async function restartPairing(smeId: string, configId: string): Promise<PairingResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/config/instance/qr`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-sme-id': smeId },
+      body: JSON.stringify({ configId }),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to start pairing');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+export interface TestMessageResult {
+  sent: boolean;
+  phone: string; // As sent, in +E.164
+  provider: string | null;
+  from: string | null; // Number it went out from
+  messageSid: string | null;
+  error: string | null;
+}
+
+export interface NumberHealth {
+  id: string;
+  purpose: SenderPurpose;
+  label: string;
+  provider: string;
+  isConnected: boolean;
+  lastVerifiedAt: string | null;
+  verificationError: string | null;
+}
+
+export interface ProviderHealth {
+  numbers: NumberHealth[];
+  lastSuccessfulSendAt: string | null;
+  windowHours: number;
+  attempts: number;
+  failures: number;
+  failureRate: number | null; // 0..1, null when nothing was sent in the window
+}
+
+export interface WebhookEvent {
+  id: string;
+  provider: 'twilio' | 'evolution';
+  kind: 'status' | 'inbound' | 'connection';
+  summary: string;
+  result: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+/**
+ * Send a one-off message (limited to a few per 10 minutes), from the given number
+ * or the customer line
+ */
+export async function sendTestMessage(
+  smeId: string,
+  phone: string,
+  message?: string,
+  configId?: string
+): Promise<{ success: boolean; result?: TestMessageResult; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/config/test-message`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-sme-id': smeId },
+      body: JSON.stringify({ phone, message, configId }),
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to send test message');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Last verification, last successful send and recent failure rate
+ */
+export async function getProviderHealth(
+  smeId: string
+): Promise<{ success: boolean; health?: ProviderHealth; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/config/health`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json', 'x-sme-id': smeId },
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch provider health');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * The last 20 provider callbacks received for the SME, newest first
+ */
+export async function getWebhookEvents(
+  smeId: string
+): Promise<{ success: boolean; events?: WebhookEvent[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/whatsapp/config/webhook-events`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json', 'x-sme-id': smeId },
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to fetch webhook events');
+    return json;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Container, Paper, Stack, Title, Text, Select, TextInput, Button, Alert, Loader, Center, Box, Divider, Group, Code,
+} from '@mantine/core';
+import { IconDeviceFloppy, IconAlertCircle, IconCheck } from '@tabler/icons-react';
+import AuthHeader from '../components/AuthHeader';
+import { useAuth } from '../context/AuthContext';
+import { getSmeSettings, saveSmeSettings } from '../lib/settings';
+import type { CountryOption } from '../lib/settings';
+import { COUNTRIES, DEFAULT_COUNTRY, isCountryCode } from '../lib/phone';
+import type { CountryCode } from '../lib/phone';
+import {
+  DEFAULT_ORDER_ID_PREFIX,
+  DEFAULT_ORDER_ID_FORMAT,
+  ORDER_ID_TOKENS,
+  orderIdPrefixError,
+  orderIdFormatError,
+  formatOrderId,
+} from '../lib/orderNumbers';
+
+const BusinessSettingsPage: React.FC = () => {
+  const { user } = useAuth();
+  const smeId = user?.id || '';
+
+  const [countries, setCountries] = useState<CountryOption[]>([]);
+  const [defaultCountry, setDefaultCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
+  const [orderIdPrefix, setOrderIdPrefix] = useState(DEFAULT_ORDER_ID_PREFIX);
+  const [orderIdFormat, setOrderIdFormat] = useState(DEFAULT_ORDER_ID_FORMAT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (!smeId) return;
+    let cancelled = false;
+    const load = async () => {
+      const result = await getSmeSettings();
+      if (cancelled) return;
+      if (result.success) {
+        setCountries(result.countries || []);
+        if (result.settings) {
+          setDefaultCountry(result.settings.default_country);
+          setOrderIdPrefix(result.settings.order_id_prefix);
+          setOrderIdFormat(result.settings.order_id_format);
+        }
+      } else {
+        setError(result.error || 'Failed to load settings');
+      }
+      setIsLoading(false);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [smeId]);
+
+  const prefixError = orderIdPrefixError(orderIdPrefix);
+  const formatError = orderIdFormatError(orderIdFormat);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (prefixError || formatError) return;
+    setIsSaving(true);
+    setError(null);
+    setSaved(false);
+    const result = await saveSmeSettings({ defaultCountry, orderIdPrefix, orderIdFormat });
+    setIsSaving(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to save settings');
+      return;
+    }
+    setSaved(true);
+  };
+
+  if (isLoading) {
+    return (
+      <Center mih="80vh">
+        <Stack align="center">
+          <Loader size="xl" variant="dots" />
+          <Text c="dimmed" fw={500}>Loading settings...</Text>
+        </Stack>
+      </Center>
+    );
+  }
+
+  return (
+    <Container size="sm" py="xl">
+      <Stack gap="xl">
+        <AuthHeader title="Business Settings" />
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />} withCloseButton onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Paper withBorder radius="lg" p="lg">
+          <form onSubmit={handleSave}>
+            <Stack gap="md">
+              <Box>
+                <Title order={5}>Phone numbers</Title>
+                <Text size="sm" c="dimmed">
+                  Numbers typed without a country code on orders, rider assignments and CSV imports are read
+                  in this country. Numbers starting with + are always accepted from any supported country.
+                </Text>
+              </Box>
+              <Select
+                label="Default country"
+                data={countries.map((c) => ({ value: c.code, label: `${c.name} (+${c.dialCode})` }))}
+                value={defaultCountry}
+                onChange={(value) => isCountryCode(value) && setDefaultCountry(value)}
+                allowDeselect={false}
+                description={`e.g. ${COUNTRIES[defaultCountry].example}`}
+              />
+
+              <Divider />
+
+              <Box>
+                <Title order={5}>Order IDs</Title>
+                <Text size="sm" c="dimmed">
+                  Every order gets the next number in your sequence, written in this format. Changes apply to
+                  new orders; existing orders keep their IDs.
+                </Text>
+              </Box>
+              <Group grow align="flex-start">
+                <TextInput
+                  label="Prefix"
+                  value={orderIdPrefix}
+                  onChange={(e) => setOrderIdPrefix(e.currentTarget.value.toUpperCase())}
+                  error={prefixError}
+                  maxLength={10}
+                />
+                <TextInput
+                  label="Format"
+                  value={orderIdFormat}
+                  onChange={(e) => setOrderIdFormat(e.currentTarget.value)}
+                  error={formatError}
+                  description={`Placeholders: ${ORDER_ID_TOKENS.join(' ')}`}
+                />
+              </Group>
+              {!prefixError && !formatError && (
+                <Text size="sm">
+                  Next orders look like <Code>{formatOrderId(orderIdPrefix, orderIdFormat, 42)}</Code>
+                </Text>
+              )}
+              <Button
+                type="submit"
+                color="green"
+                loading={isSaving}
+                disabled={Boolean(prefixError || formatError)}
+                leftSection={saved ? <IconCheck size={16} /> : <IconDeviceFloppy size={16} />}
+                style={{ width: 'fit-content' }}
+              >
+                {saved ? 'Saved' : 'Save settings'}
+              </Button>
+            </Stack>
+          </form>
+        </Paper>
+      </Stack>
+    </Container>
+  );
+};
+
+export default BusinessSettingsPage;
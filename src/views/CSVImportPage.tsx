@@ -38,8 +38,10 @@ interface FormField {
 const SYSTEM_FIELDS: FormField[] = [
   { field_key: 'customer_name', label: 'Customer Name', type: 'text' },
   { field_key: 'customer_phone', label: 'Phone Number', type: 'phone' },
+  { field_key: 'customer_email', label: 'Email (optional)', type: 'email' },
   { field_key: 'delivery_address', label: 'Delivery Address', type: 'textarea' },
   { field_key: 'price_total', label: 'Total Amount', type: 'number' },
+  { field_key: 'preferred_language', label: 'Language', type: 'text' },
 ];
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
@@ -115,6 +117,8 @@ const CSVImportPage: React.FC = () => {
       if (f.field_key === 'price_total') return '1500';
       if (f.field_key === 'customer_phone') return '08012345678';
       if (f.field_key === 'customer_name') return 'John Doe';
+      if (f.field_key === 'customer_email') return 'john@example.com';
+      if (f.field_key === 'preferred_language') return 'en';
       return `Sample ${f.label}`;
     });
 
@@ -197,7 +201,7 @@ const CSVImportPage: React.FC = () => {
 
             <Alert variant="light" color="orange" title="Tips" icon={<IconAlertCircle size={16} />}>
               <Text size="xs">
-                - Ensure your phone numbers are valid.<br />
+                - Phone numbers without a country code (e.g. 0803 123 4567) are read in your default country; rows with invalid numbers or missing required fields are skipped.<br />
                 - Do not include currency symbols in the Amount column.<br />
                 - You can map ANY column name from your CSV to these fields in the next step.
               </Text>
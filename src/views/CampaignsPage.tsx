@@ -0,0 +1,398 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Container,
+  Paper,
+  Stack,
+  Box,
+  Title,
+  Text,
+  Group,
+  TextInput,
+  Textarea,
+  NumberInput,
+  MultiSelect,
+  Checkbox,
+  Button,
+  Alert,
+  Table,
+  Badge,
+  Modal,
+  Loader,
+  Center,
+  SimpleGrid,
+  Code,
+} from '@mantine/core';
+import { IconSend, IconUsers, IconAlertCircle, IconCheck } from '@tabler/icons-react';
+import AuthHeader from '../components/AuthHeader';
+import { useAuth } from '../context/AuthContext';
+import { getCampaigns, previewCampaign, createCampaign, getCampaignReport } from '../lib/campaigns';
+import type { Campaign, CampaignPreview, CampaignRecipient, CampaignRecipientStatus, CampaignSegment, CampaignStats } from '../lib/campaigns';
+import type { Order } from '../lib/supabase';
+
+const STATUS_OPTIONS: Order['status'][] = ['NEW', 'PROCESSING', 'READY', 'DISPATCHED', 'COMPLETED', 'CANCELLED'];
+
+const recipientColor: Record<CampaignRecipientStatus, string> = {
+  queued: 'gray',
+  sent: 'blue',
+  delivered: 'teal',
+  read: 'green',
+  failed: 'red',
+  suppressed: 'orange',
+};
+
+// "1=first_name, 2=readable_id" → {"1": "first_name", "2": "readable_id"}
+const parseMapping = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split(',')
+      .map((pair) => pair.split('=').map((part) => part.trim()))
+      .filter(([slot, name]) => slot && name)
+  );
+
+const StatsRow: React.FC<{ stats: CampaignStats }> = ({ stats }) => (
+  <Group gap="xs">
+    <Badge color="blue" variant="light">{stats.sent} sent</Badge>
+    <Badge color="teal" variant="light">{stats.delivered} delivered</Badge>
+    <Badge color="green" variant="light">{stats.read} read</Badge>
+    {stats.queued > 0 && <Badge color="gray" variant="light">{stats.queued} queued</Badge>}
+    {stats.failed > 0 && <Badge color="red" variant="light">{stats.failed} failed</Badge>}
+    {stats.suppressed > 0 && <Badge color="orange" variant="light">{stats.suppressed} opted out</Badge>}
+  </Group>
+);
+
+/**
+ * Broadcast a message to past customers picked from their order history
+ */
+const CampaignsPage: React.FC = () => {
+  const { user } = useAuth();
+  const smeId = user?.id || '';
+
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [variables, setVariables] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // New campaign form
+  const [name, setName] = useState('');
+  const [messageBody, setMessageBody] = useState('Hi {{first_name}}, ');
+  const [statuses, setStatuses] = useState<string[]>(['COMPLETED']);
+  const [orderedWithinDays, setOrderedWithinDays] = useState<number | string>(90);
+  const [minSpend, setMinSpend] = useState<number | string>('');
+  const [fieldKey, setFieldKey] = useState('');
+  const [fieldValue, setFieldValue] = useState('');
+  const [requireConsent, setRequireConsent] = useState(true);
+  const [contentSid, setContentSid] = useState('');
+  const [contentMapping, setContentMapping] = useState('1=first_name');
+  const [preview, setPreview] = useState<CampaignPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [sentNotice, setSentNotice] = useState<string | null>(null);
+
+  // Report modal
+  const [reportCampaign, setReportCampaign] = useState<Campaign | null>(null);
+  const [recipients, setRecipients] = useState<CampaignRecipient[]>([]);
+  const [isReportLoading, setIsReportLoading] = useState(false);
+
+  useEffect(() => {
+    if (!smeId) return;
+    let cancelled = false;
+    const load = async () => {
+      const result = await getCampaigns();
+      if (cancelled) return;
+      if (result.success) {
+        setCampaigns(result.campaigns || []);
+        setVariables(result.variables || []);
+      } else {
+        setError(result.error || 'Failed to load campaigns');
+      }
+      setIsLoading(false);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [smeId]);
+
+  const refreshCampaigns = async () => {
+    const result = await getCampaigns();
+    if (result.success) setCampaigns(result.campaigns || []);
+  };
+
+  const segment = (): CampaignSegment => ({
+    statuses: statuses as Order['status'][],
+    ...(orderedWithinDays !== '' && { orderedWithinDays: Number(orderedWithinDays) }),
+    ...(minSpend !== '' && { minSpend: Number(minSpend) }),
+    ...(fieldKey.trim() && { formField: { key: fieldKey.trim(), value: fieldValue.trim() } }),
+    requireConsent,
+  });
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setError(null);
+    const result = await previewCampaign(segment(), messageBody);
+    setIsPreviewing(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to preview campaign');
+      return;
+    }
+    setPreview({ total: result.total || 0, suppressed: result.suppressed || 0, sample: result.sample || [] });
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preview) return;
+    const reach = preview.total - preview.suppressed;
+    if (!window.confirm(`Send "${name}" to ${reach} customer${reach === 1 ? '' : 's'}?`)) return;
+
+    setIsSending(true);
+    setError(null);
+    const result = await createCampaign({
+      name,
+      messageBody,
+      segment: segment(),
+      ...(contentSid.trim() && { contentSid: contentSid.trim(), contentVariables: parseMapping(contentMapping) }),
+    });
+    setIsSending(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to create campaign');
+      return;
+    }
+    setSentNotice(`Queued ${result.queued} message${result.queued === 1 ? '' : 's'}${result.suppressed ? `; ${result.suppressed} opted out` : ''}.`);
+    setName('');
+    setPreview(null);
+    refreshCampaigns();
+  };
+
+  const openReport = async (campaign: Campaign) => {
+    setReportCampaign(campaign);
+    setRecipients([]);
+    setIsReportLoading(true);
+    const result = await getCampaignReport(campaign.id);
+    setIsReportLoading(false);
+    if (result.success) setRecipients(result.recipients || []);
+    else setError(result.error || 'Failed to load campaign report');
+  };
+
+  if (isLoading) {
+    return (
+      <Center mih="80vh">
+        <Stack align="center">
+          <Loader size="xl" variant="dots" />
+          <Text c="dimmed" fw={500}>Loading campaigns...</Text>
+        </Stack>
+      </Center>
+    );
+  }
+
+  return (
+    <Container size="lg" py="xl">
+      <Stack gap="xl">
+        <AuthHeader title="Campaigns" />
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />} withCloseButton onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {sentNotice && (
+          <Alert color="green" icon={<IconCheck size={16} />} withCloseButton onClose={() => setSentNotice(null)}>
+            {sentNotice}
+          </Alert>
+        )}
+
+        <Paper withBorder radius="lg" p="lg">
+          <form onSubmit={handleSend}>
+            <Stack gap="md">
+              <Box>
+                <Title order={5}>New campaign</Title>
+                <Text size="sm" c="dimmed">
+                  Tell past customers about new stock or holiday hours. Messages go out gradually so order
+                  updates are never held up, and customers who replied STOP are always left out.
+                </Text>
+              </Box>
+
+              <TextInput
+                label="Campaign name"
+                placeholder="Christmas hours"
+                value={name}
+                onChange={(e) => setName(e.currentTarget.value)}
+                required
+              />
+
+              <Text fw={600} size="sm">Who gets it</Text>
+              <SimpleGrid cols={{ base: 1, sm: 3 }}>
+                <MultiSelect
+                  label="Customers with orders that are"
+                  data={STATUS_OPTIONS}
+                  value={statuses}
+                  onChange={(value) => { setStatuses(value); setPreview(null); }}
+                />
+                <NumberInput
+                  label="Ordered in the last (days)"
+                  placeholder="Any time"
+                  min={1}
+                  value={orderedWithinDays}
+                  onChange={(value) => { setOrderedWithinDays(value); setPreview(null); }}
+                />
+                <NumberInput
+                  label="Spent at least (₦)"
+                  placeholder="Any amount"
+                  min={0}
+                  thousandSeparator=","
+                  value={minSpend}
+                  onChange={(value) => { setMinSpend(value); setPreview(null); }}
+                />
+              </SimpleGrid>
+              <Group grow>
+                <TextInput
+                  label="Order form field"
+                  placeholder="e.g. category"
+                  value={fieldKey}
+                  onChange={(e) => { setFieldKey(e.currentTarget.value); setPreview(null); }}
+                />
+                <TextInput
+                  label="equals"
+                  placeholder="e.g. Shoes"
+                  value={fieldValue}
+                  onChange={(e) => { setFieldValue(e.currentTarget.value); setPreview(null); }}
+                  disabled={!fieldKey.trim()}
+                />
+              </Group>
+              <Checkbox
+                label="Only customers who agreed to WhatsApp updates"
+                checked={requireConsent}
+                onChange={(e) => { setRequireConsent(e.currentTarget.checked); setPreview(null); }}
+              />
+
+              <Textarea
+                label="Message"
+                autosize
+                minRows={3}
+                value={messageBody}
+                onChange={(e) => setMessageBody(e.currentTarget.value)}
+                required
+                description={variables.length > 0 && <>Variables: {variables.map((v) => <Code key={v} mr={4}>{`{{${v}}}`}</Code>)}</>}
+              />
+
+              <Group grow align="flex-start">
+                <TextInput
+                  label="Approved template (optional)"
+                  placeholder="HX..."
+                  description="Twilio only delivers it to customers who haven't written in 24 hours"
+                  value={contentSid}
+                  onChange={(e) => setContentSid(e.currentTarget.value)}
+                />
+                <TextInput
+                  label="Template slot mapping"
+                  placeholder="1=first_name"
+                  value={contentMapping}
+                  onChange={(e) => setContentMapping(e.currentTarget.value)}
+                  disabled={!contentSid.trim()}
+                />
+              </Group>
+
+              {preview && (
+                <Paper withBorder radius="md" p="md" bg="gray.0">
+                  <Stack gap="xs">
+                    <Text fw={600}>
+                      {preview.total - preview.suppressed} customer{preview.total - preview.suppressed === 1 ? '' : 's'} will
+                      receive this{preview.suppressed > 0 && ` (${preview.suppressed} opted out and will be skipped)`}
+                    </Text>
+                    {preview.sample.map((s) => (
+                      <Box key={s.phone}>
+                        <Text size="xs" c="dimmed">{s.customer_name || s.phone} · {s.order_count} order{s.order_count === 1 ? '' : 's'}</Text>
+                        <Text size="sm" style={{ whiteSpace: 'pre-wrap' }}>{s.message}</Text>
+                      </Box>
+                    ))}
+                  </Stack>
+                </Paper>
+              )}
+
+              <Group>
+                <Button variant="light" leftSection={<IconUsers size={16} />} onClick={handlePreview} loading={isPreviewing}>
+                  Preview audience
+                </Button>
+                <Button
+                  type="submit"
+                  color="green"
+                  leftSection={<IconSend size={16} />}
+                  loading={isSending}
+                  disabled={!preview || preview.total - preview.suppressed === 0 || !name.trim()}
+                >
+                  Send campaign
+                </Button>
+              </Group>
+            </Stack>
+          </form>
+        </Paper>
+
+        <Paper withBorder radius="lg" p="lg">
+          <Stack gap="sm">
+            <Title order={5}>Past campaigns</Title>
+            {campaigns.length === 0 ? (
+              <Text size="sm" c="dimmed">No campaigns yet.</Text>
+            ) : (
+              <Table highlightOnHover verticalSpacing="sm">
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Campaign</Table.Th>
+                    <Table.Th>Sent on</Table.Th>
+                    <Table.Th>Recipients</Table.Th>
+                    <Table.Th>Delivery</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {campaigns.map((c) => (
+                    <Table.Tr key={c.id} onClick={() => openReport(c)} style={{ cursor: 'pointer' }}>
+                      <Table.Td fw={600}>{c.name}</Table.Td>
+                      <Table.Td>{new Date(c.created_at).toLocaleString()}</Table.Td>
+                      <Table.Td>{c.recipient_count}</Table.Td>
+                      <Table.Td><StatsRow stats={c.stats} /></Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            )}
+          </Stack>
+        </Paper>
+      </Stack>
+
+      <Modal opened={Boolean(reportCampaign)} onClose={() => setReportCampaign(null)} title={reportCampaign?.name} size="lg">
+        {reportCampaign && (
+          <Stack gap="md">
+            <StatsRow stats={reportCampaign.stats} />
+            <Text size="sm" c="dimmed" style={{ whiteSpace: 'pre-wrap' }}>{reportCampaign.message_body}</Text>
+            {isReportLoading ? (
+              <Center py="md"><Loader size="sm" /></Center>
+            ) : (
+              <Table verticalSpacing="xs" fz="sm">
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Customer</Table.Th>
+                    <Table.Th>Phone</Table.Th>
+                    <Table.Th>Status</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {recipients.map((r) => (
+                    <Table.Tr key={r.phone}>
+                      <Table.Td>{r.customer_name || '—'}</Table.Td>
+                      <Table.Td>{r.phone}</Table.Td>
+                      <Table.Td>
+                        <Badge color={recipientColor[r.status]} variant="light">{r.status === 'suppressed' ? 'opted out' : r.status}</Badge>
+                        {r.error && <Text size="xs" c="red">{r.error}</Text>}
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            )}
+          </Stack>
+        )}
+      </Modal>
+    </Container>
+  );
+};
+
+export default CampaignsPage;
@@ -1,18 +1,23 @@
 import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useOrderByToken, useSubmitCSAT } from '../hooks/useOrders';
-import { Container, Card, Title, Text, Button, Stack, Group, Alert, Loader, Center, Textarea } from '@mantine/core';
+import { Container, Card, Title, Text, Button, Stack, Group, Alert, Loader, Center, Textarea, Select } from '@mantine/core';
 import { IconAlertCircle, IconCheck } from '@tabler/icons-react';
+import { LANGUAGES, translate, type TranslationKey } from '../lib/i18n';
 
 const CsatSubmission: React.FC = () => {
   const { token } = useParams<{ token: string }>();
   const navigate = useNavigate();
   const { order, isLoading, error } = useOrderByToken(token);
-  const { submit, isSubmitting } = useSubmitCSAT(order?.id || '');
+  const { submit, isSubmitting } = useSubmitCSAT(token || '');
 
   const [score, setScore] = useState<number | null>(null);
   const [comment, setComment] = useState('');
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [languageOverride, setLanguageOverride] = useState<string | null>(null);
+
+  const language = languageOverride || order?.preferred_language || 'en';
+  const t = (key: TranslationKey) => translate(language, key);
 
   const handleSubmit = async () => {
     if (!order?.id || score === null) return;
@@ -25,7 +30,7 @@ const CsatSubmission: React.FC = () => {
       <Center mih="100vh">
         <Stack align="center">
           <Loader />
-          <Text>Loading feedback form...</Text>
+          <Text>{t('loadingFeedback')}</Text>
         </Stack>
       </Center>
     );
@@ -34,8 +39,8 @@ const CsatSubmission: React.FC = () => {
   if (error || !order) {
     return (
       <Center mih="100vh" p="xl">
-        <Alert icon={<IconAlertCircle />} title="Invalid Feedback Link" color="red" style={{ maxWidth: 400 }}>
-          This feedback form has expired or is invalid
+        <Alert icon={<IconAlertCircle />} title={t('invalidFeedbackTitle')} color="red" style={{ maxWidth: 400 }}>
+          {t('invalidFeedbackBody')}
         </Alert>
       </Center>
     );
@@ -47,13 +52,13 @@ const CsatSubmission: React.FC = () => {
         <Stack align="center" gap="lg" style={{ maxWidth: 400 }}>
           <IconCheck size={64} color="var(--mantine-color-green-6)" />
           <Stack gap="xs" align="center">
-            <Title order={2}>Thank You!</Title>
+            <Title order={2}>{t('thankYou')}</Title>
             <Text c="dimmed" ta="center">
-              Your feedback has been recorded. We appreciate your business and look forward to serving you again!
+              {t('feedbackRecorded')}
             </Text>
           </Stack>
           <Button color="green" fullWidth variant="light" onClick={() => window.close()}>
-            You can close this tab
+            {t('closeTab')}
           </Button>
         </Stack>
       </Center>
@@ -64,10 +69,21 @@ const CsatSubmission: React.FC = () => {
     <Center mih="100vh" p="xl">
       <Card withBorder shadow="lg" padding="xl" style={{ maxWidth: 400 }} radius="md">
         {/* Header */}
+        <Group justify="flex-end" mb="xs">
+          <Select
+            size="xs"
+            w={110}
+            data={LANGUAGES}
+            value={language}
+            onChange={setLanguageOverride}
+            allowDeselect={false}
+            aria-label="Language"
+          />
+        </Group>
         <Stack gap="xs" mb="xl">
-          <Title order={1} ta="center">How was your experience?</Title>
+          <Title order={1} ta="center">{t('howWasExperience')}</Title>
           <Text c="dimmed" ta="center" size="sm">
-            Order #{order.readable_id} - {order.customer_name}
+            {t('order')} #{order.readable_id} - {order.customer_name}
           </Text>
         </Stack>
 
@@ -81,7 +97,7 @@ const CsatSubmission: React.FC = () => {
             leftSection="⭐"
             fullWidth
           >
-            Loved it!
+            {t('lovedIt')}
           </Button>
 
           <Button
@@ -92,7 +108,7 @@ const CsatSubmission: React.FC = () => {
             leftSection="⚠️"
             fullWidth
           >
-            Had issues
+            {t('hadIssues')}
           </Button>
         </Stack>
 
@@ -100,12 +116,12 @@ const CsatSubmission: React.FC = () => {
         {score !== null && !isSubmitted && (
           <Stack gap="md" mb="xl" style={{ borderTop: '1px solid var(--mantine-color-gray-2)', paddingTop: 'var(--mantine-spacing-lg)' }}>
             <Text fw={500} size="sm">
-              {score === 5 ? 'Tell us what you loved!' : 'Tell us what went wrong'}
+              {score === 5 ? t('tellLoved') : t('tellWrong')}
             </Text>
             <Textarea
               value={comment}
               onChange={(e) => setComment(e.currentTarget.value)}
-              placeholder="Your feedback helps us improve..."
+              placeholder={t('feedbackPlaceholder')}
               rows={4}
             />
             <Button
@@ -115,14 +131,14 @@ const CsatSubmission: React.FC = () => {
               radius="md"
               fullWidth
             >
-              Submit Feedback
+              {t('submitFeedback')}
             </Button>
           </Stack>
         )}
 
         {/* Info */}
-        <Alert color="blue" title="✨ Your feedback is valuable">
-          It helps other customers make better choices
+        <Alert color="blue" title={t('feedbackValuable')}>
+          {t('feedbackHelps')}
         </Alert>
       </Card>
     </Center>
@@ -8,7 +8,7 @@ const CsatSubmission: React.FC = () => {
   const { token } = useParams<{ token: string }>();
   const navigate = useNavigate();
   const { order, isLoading, error } = useOrderByToken(token);
-  const { submit, isSubmitting } = useSubmitCSAT(order?.id || '');
+  const { submit, isSubmitting } = useSubmitCSAT(token || '');
 
   const [score, setScore] = useState<number | null>(null);
   const [comment, setComment] = useState('');
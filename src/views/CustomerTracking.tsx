@@ -5,6 +5,9 @@ import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 import { useOrderByToken, useOrderSubscription } from '../hooks/useOrders';
 import { calculateDistance, calculateETA } from '../lib/utils';
+import { LANGUAGES, translate, type TranslationKey } from '../lib/i18n';
+import { getTrackingEvents } from '../lib/tracking';
+import type { TrackingEvent } from '../lib/tracking';
 import {
   Container,
   Paper,
@@ -22,6 +25,8 @@ import {
   rem,
   Divider,
   Button,
+  Select,
+  Timeline,
 } from '@mantine/core';
 import {
   IconAlertCircle,
@@ -54,6 +59,11 @@ const CustomerTracking: React.FC = () => {
   const [riderPos, setRiderPos] = useState<{ lat: number; lng: number } | null>(null);
   const [eta, setEta] = useState<number>(0);
   const [distance, setDistance] = useState<number>(0);
+  const [languageOverride, setLanguageOverride] = useState<string | null>(null);
+  const [progress, setProgress] = useState<TrackingEvent[]>([]);
+
+  const language = languageOverride || order?.preferred_language || 'en';
+  const t = (key: TranslationKey, vars?: Record<string, string | number>) => translate(language, key, vars);
 
   // Approximate coordinates for destination (In prod: use geocoding)
   const getCoordinatesFromAddress = (_address: string) => {
@@ -72,6 +82,20 @@ const CustomerTracking: React.FC = () => {
 
   useOrderSubscription(order?.id || '', handleOrderUpdate);
 
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    const load = async () => {
+      const result = await getTrackingEvents(token);
+      if (cancelled || !result.success) return;
+      setProgress(result.events || []);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
   useEffect(() => {
     if (order && order.rider_lat && order.rider_lng) {
       setRiderPos({ lat: order.rider_lat, lng: order.rider_lng });
@@ -87,7 +111,7 @@ const CustomerTracking: React.FC = () => {
       <Center mih="100vh" bg="gray.0">
         <Stack align="center" gap="md">
           <Loader size="xl" variant="bars" color="blue" />
-          <Text fw={600} c="dimmed">Locating your order...</Text>
+          <Text fw={600} c="dimmed">{t('locating')}</Text>
         </Stack>
       </Center>
     );
@@ -100,10 +124,10 @@ const CustomerTracking: React.FC = () => {
           <ThemeIcon size={60} radius="xl" color="red" variant="light" mb="md">
             <IconAlertCircle size={34} />
           </ThemeIcon>
-          <Title order={3} mb="xs">Link Invalid</Title>
-          <Text c="dimmed" size="sm" mb="xl">The tracking link has expired or is incorrect. Please contact the merchant.</Text>
+          <Title order={3} mb="xs">{t('linkInvalid')}</Title>
+          <Text c="dimmed" size="sm" mb="xl">{t('linkInvalidBody')}</Text>
           <Button fullWidth color="red" radius="md" onClick={() => navigate('/')} leftSection={<IconArrowLeft size={16}/>}>
-            Go Back
+            {t('goBack')}
           </Button>
         </Paper>
       </Center>
@@ -122,15 +146,26 @@ const CustomerTracking: React.FC = () => {
             <Stack gap={0}>
               <Group gap="xs">
                 <IconPackage size={20} color="var(--mantine-color-blue-6)" />
-                <Title order={4}>Order #{order.readable_id}</Title>
+                <Title order={4}>{t('order')} #{order.readable_id}</Title>
               </Group>
               <Text size="xs" c="dimmed" fw={700}>
-                {order.status === 'DISPATCHED' ? '🚚 RIDER IS EN ROUTE' : `STATUS: ${order.status}`}
+                {order.status === 'DISPATCHED' ? t('riderEnRoute') : `${t('status')}: ${order.status}`}
               </Text>
             </Stack>
-            <Badge size="lg" radius="sm" variant="light" color={order.status === 'DISPATCHED' ? 'green' : 'blue'}>
-              {order.status}
-            </Badge>
+            <Group gap="xs">
+              <Select
+                size="xs"
+                w={110}
+                data={LANGUAGES}
+                value={language}
+                onChange={setLanguageOverride}
+                allowDeselect={false}
+                aria-label="Language"
+              />
+              <Badge size="lg" radius="sm" variant="light" color={order.status === 'DISPATCHED' ? 'green' : 'blue'}>
+                {order.status}
+              </Badge>
+            </Group>
           </Group>
         </Container>
       </Paper>
@@ -143,10 +178,10 @@ const CustomerTracking: React.FC = () => {
               <MapContainer center={centerPos} zoom={15} scrollWheelZoom={false} style={{ height: '100%', width: '100%' }}>
                 <TileLayer url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
                 <Marker position={[riderPos.lat, riderPos.lng]} icon={riderIcon}>
-                  <Popup>Your rider is here</Popup>
+                  <Popup>{t('riderHere')}</Popup>
                 </Marker>
                 <Marker position={[destCoords.lat, destCoords.lng]} icon={destinationIcon}>
-                  <Popup>Destination</Popup>
+                  <Popup>{t('destination')}</Popup>
                 </Marker>
                 <Circle center={[riderPos.lat, riderPos.lng]} radius={100} color="blue" weight={1} fillOpacity={0.1} />
               </MapContainer>
@@ -154,7 +189,7 @@ const CustomerTracking: React.FC = () => {
               <Center mih="100%" bg="gray.1">
                 <Stack align="center" gap="xs">
                   <Loader size="sm" />
-                  <Text size="sm" c="dimmed" fw={500}>Connecting to rider's GPS...</Text>
+                  <Text size="sm" c="dimmed" fw={500}>{t('connectingGps')}</Text>
                 </Stack>
               </Center>
             )}
@@ -172,7 +207,7 @@ const CustomerTracking: React.FC = () => {
           >
             <Group justify="space-between" align="center">
               <Stack gap={0}>
-                <Text size="xs" fw={800} tt="uppercase" opacity={0.8} lts={1}>Estimated Arrival</Text>
+                <Text size="xs" fw={800} tt="uppercase" opacity={0.8} lts={1}>{t('estimatedArrival')}</Text>
                 <Title order={1} size={rem(48)} fw={900}>
                   {eta > 0 ? `${eta} min` : '--'}
                 </Title>
@@ -183,7 +218,7 @@ const CustomerTracking: React.FC = () => {
             </Group>
             <Divider color="rgba(255,255,255,0.2)" my="md" />
             <Text size="sm" fw={500} opacity={0.9}>
-              {riderPos ? 'Live tracking is active.' : 'Rider has not started broadcasting yet.'}
+              {riderPos ? t('liveTracking') : t('notBroadcasting')}
             </Text>
           </Paper>
 
@@ -192,7 +227,7 @@ const CustomerTracking: React.FC = () => {
             <Paper withBorder p="md" radius="md" bg="white">
               <Group gap="xs" mb="xs">
                 <ThemeIcon variant="light" color="blue" size="sm"><IconMapPin size={14}/></ThemeIcon>
-                <Text size="xs" fw={700} tt="uppercase" c="dimmed">Delivery Address</Text>
+                <Text size="xs" fw={700} tt="uppercase" c="dimmed">{t('deliveryAddress')}</Text>
               </Group>
               <Text size="sm" fw={600} lineClamp={2}>{order.delivery_address}</Text>
             </Paper>
@@ -200,18 +235,41 @@ const CustomerTracking: React.FC = () => {
             <Paper withBorder p="md" radius="md" bg="white">
               <Group gap="xs" mb="xs">
                 <ThemeIcon variant="light" color="green" size="sm"><IconRoute size={14}/></ThemeIcon>
-                <Text size="xs" fw={700} tt="uppercase" c="dimmed">Distance</Text>
+                <Text size="xs" fw={700} tt="uppercase" c="dimmed">{t('distance')}</Text>
               </Group>
               <Text size="sm" fw={600}>
-                {distance > 0 ? `${distance.toFixed(2)} km away` : 'Calculating...'}
+                {distance > 0 ? t('kmAway', { n: distance.toFixed(2) }) : t('calculating')}
               </Text>
             </Paper>
           </SimpleGrid>
 
+          {/* Progress Timeline */}
+          {progress.length > 0 && (
+            <Paper withBorder p="md" radius="md" bg="white">
+              <Text size="xs" fw={700} tt="uppercase" c="dimmed" mb="sm">{t('orderProgress')}</Text>
+              <Timeline active={progress.length - 1} bulletSize={16} lineWidth={2}>
+                {progress.map((event) => (
+                  <Timeline.Item
+                    key={`${event.type}-${event.created_at}`}
+                    title={
+                      <Text size="sm" fw={600}>
+                        {event.type === 'rider_assigned'
+                          ? t('progressRiderAssigned')
+                          : t(`progress${event.status || 'NEW'}` as TranslationKey)}
+                      </Text>
+                    }
+                  >
+                    <Text size="xs" c="dimmed">{new Date(event.created_at).toLocaleString()}</Text>
+                  </Timeline.Item>
+                ))}
+              </Timeline>
+            </Paper>
+          )}
+
           {/* Info Alert */}
           <Alert variant="light" color="blue" radius="md" icon={<IconInfoCircle size={18} />}>
             <Text size="xs" fw={500}>
-              Please ensure your phone is reachable. Your rider will call you upon arrival or to confirm the delivery location.
+              {t('reachable')}
             </Text>
           </Alert>
         </Stack>
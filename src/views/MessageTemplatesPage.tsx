@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Container,
+  Paper,
+  Text,
+  Group,
+  Stack,
+  Badge,
+  Loader,
+  Center,
+  Alert,
+  Button,
+  Textarea,
+  SimpleGrid,
+  NavLink,
+  Box,
+  Select,
+} from '@mantine/core';
+import { useDebouncedValue } from '@mantine/hooks';
+import { IconDeviceFloppy, IconRestore, IconAlertCircle, IconCheck } from '@tabler/icons-react';
+import AuthHeader from '../components/AuthHeader';
+import { useAuth } from '../context/AuthContext';
+import { getTemplates, saveTemplate, resetTemplate, previewTemplate } from '../lib/templates';
+import type { MessageTemplate } from '../lib/templates';
+import type { OrderNotificationEvent } from '../lib/whatsapp';
+import { LANGUAGES } from '../lib/i18n';
+
+const eventLabels: Record<OrderNotificationEvent, { label: string; description: string }> = {
+  NEW: { label: 'Order received', description: 'Sent to the customer when an order is created' },
+  PROCESSING: { label: 'Processing', description: 'Order moved to processing' },
+  READY: { label: 'Ready / rider assigned', description: 'Order is ready; includes the tracking link once a rider is assigned' },
+  DISPATCHED: { label: 'Dispatched', description: 'Rider is on the way' },
+  COMPLETED: { label: 'Delivered', description: 'Delivery confirmed; includes the rating link' },
+  CANCELLED: { label: 'Cancelled', description: 'Order was cancelled' },
+  OTP: { label: 'Delivery OTP', description: 'One-time code the customer gives the rider at handover' },
+  RIDER_ASSIGNED: { label: 'Rider job', description: 'Sent to the rider with the delivery link' },
+  CANCEL_APPROVED: { label: 'Cancellation approved', description: "You approved the customer's CANCEL request" },
+  CANCEL_REJECTED: { label: 'Cancellation declined', description: "You declined the customer's CANCEL request" },
+  RESCHEDULE_APPROVED: { label: 'Reschedule approved', description: "You approved the customer's RESCHEDULE request" },
+  RESCHEDULE_REJECTED: { label: 'Reschedule declined', description: "You declined the customer's RESCHEDULE request" },
+};
+
+const MessageTemplatesPage: React.FC = () => {
+  const { user } = useAuth();
+  const smeId = user?.id || '';
+
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [variables, setVariables] = useState<string[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState<OrderNotificationEvent>('NEW');
+  const [language, setLanguage] = useState('en');
+  const [draft, setDraft] = useState('');
+  const [preview, setPreview] = useState('');
+  const [previewOrder, setPreviewOrder] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+
+  const [debouncedDraft] = useDebouncedValue(draft, 400);
+  const selected = templates.find((t) => t.event === selectedEvent);
+
+  useEffect(() => {
+    if (!smeId) return;
+    let cancelled = false;
+    const load = async () => {
+      const result = await getTemplates();
+      if (cancelled) return;
+      if (result.success) {
+        setTemplates(result.templates || []);
+        setVariables(result.variables || []);
+        const first = result.templates?.[0];
+        if (first) setDraft(first.body);
+      } else {
+        setError(result.error || 'Failed to load templates');
+      }
+      setIsLoading(false);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [smeId]);
+
+  // Live preview through the same renderer the server uses for real sends
+  useEffect(() => {
+    if (!smeId) return;
+    let cancelled = false;
+    const render = async () => {
+      const result = await previewTemplate(debouncedDraft);
+      if (cancelled || !result.success) return;
+      setPreview(result.preview || '');
+      setPreviewOrder(result.sampleOrder || null);
+    };
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [smeId, debouncedDraft]);
+
+  const changeLanguage = async (value: string | null) => {
+    if (!value || value === language) return;
+    setLanguage(value);
+    setIsLoading(true);
+    setSavedAt(null);
+    setError(null);
+    const result = await getTemplates(value);
+    if (result.success) {
+      const loaded = result.templates || [];
+      const current = loaded.find((t) => t.event === selectedEvent) || loaded[0];
+      setTemplates(loaded);
+      setVariables(result.variables || []);
+      if (current) {
+        setSelectedEvent(current.event);
+        setDraft(current.body);
+      }
+    } else {
+      setError(result.error || 'Failed to load templates');
+    }
+    setIsLoading(false);
+  };
+
+  const selectEvent = (event: OrderNotificationEvent) => {
+    setSelectedEvent(event);
+    setDraft(templates.find((t) => t.event === event)?.body || '');
+    setSavedAt(null);
+    setError(null);
+  };
+
+  const insertVariable = (name: string) => {
+    setDraft((current) => `${current}{{${name}}}`);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    const result = await saveTemplate(selectedEvent, draft, language);
+    setIsSaving(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to save template');
+      return;
+    }
+    setTemplates((current) =>
+      current.map((t) => (t.event === selectedEvent ? { ...t, body: draft, isCustom: draft !== t.defaultBody } : t))
+    );
+    setSavedAt(new Date().toLocaleTimeString());
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Reset this message to the default text?')) return;
+    const result = await resetTemplate(selectedEvent, language);
+    if (!result.success) {
+      setError(result.error || 'Failed to reset template');
+      return;
+    }
+    const defaultBody = selected?.defaultBody || '';
+    setTemplates((current) =>
+      current.map((t) => (t.event === selectedEvent ? { ...t, body: defaultBody, isCustom: false } : t))
+    );
+    setDraft(defaultBody);
+  };
+
+  if (isLoading) {
+    return (
+      <Center mih="80vh">
+        <Stack align="center">
+          <Loader size="xl" variant="dots" />
+          <Text c="dimmed" fw={500}>Loading message templates...</Text>
+        </Stack>
+      </Center>
+    );
+  }
+
+  return (
+    <Container size="lg" py="xl">
+      <Stack gap="xl">
+        <AuthHeader title="Message Templates" />
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />} withCloseButton onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <SimpleGrid cols={{ base: 1, md: 3 }} spacing="lg">
+          <Paper withBorder radius="lg" p="sm">
+            <Select
+              label="Language"
+              description="Orders are messaged in the customer's chosen language"
+              data={LANGUAGES}
+              value={language}
+              onChange={changeLanguage}
+              allowDeselect={false}
+              mb="sm"
+            />
+            {templates.map((t) => (
+              <NavLink
+                key={t.event}
+                active={t.event === selectedEvent}
+                label={eventLabels[t.event]?.label || t.event}
+                description={eventLabels[t.event]?.description}
+                rightSection={t.isCustom ? <Badge size="xs" variant="light">Custom</Badge> : null}
+                onClick={() => selectEvent(t.event)}
+              />
+            ))}
+          </Paper>
+
+          <Paper withBorder radius="lg" p="lg" style={{ gridColumn: 'span 2' }}>
+            <Stack gap="md">
+              <Textarea
+                label={eventLabels[selectedEvent]?.label || selectedEvent}
+                description="Use {{variable}} placeholders. Text inside {{#tracking_url}}...{{/tracking_url}} only appears when the link exists."
+                value={draft}
+                onChange={(e) => setDraft(e.currentTarget.value)}
+                autosize
+                minRows={5}
+                maxLength={1600}
+              />
+
+              <Box>
+                <Text size="xs" fw={700} c="dimmed" tt="uppercase" mb={6}>Variables</Text>
+                <Group gap={6}>
+                  {variables.map((name) => (
+                    <Badge
+                      key={name}
+                      variant="outline"
+                      style={{ cursor: 'pointer', textTransform: 'none' }}
+                      onClick={() => insertVariable(name)}
+                    >
+                      {`{{${name}}}`}
+                    </Badge>
+                  ))}
+                </Group>
+              </Box>
+
+              <Box>
+                <Text size="xs" fw={700} c="dimmed" tt="uppercase" mb={6}>
+                  Preview{previewOrder ? ` · order #${previewOrder}` : ''}
+                </Text>
+                <Paper p="sm" radius="md" bg="var(--mantine-color-green-0)" withBorder>
+                  <Text size="sm" style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                    {preview || ' '}
+                  </Text>
+                </Paper>
+              </Box>
+
+              <Group justify="space-between">
+                <Button
+                  variant="subtle"
+                  color="gray"
+                  leftSection={<IconRestore size={16} />}
+                  onClick={handleReset}
+                  disabled={!selected?.isCustom}
+                >
+                  Reset to default
+                </Button>
+                <Group gap="xs">
+                  {savedAt && (
+                    <Text size="xs" c="green"><IconCheck size={12} /> Saved at {savedAt}</Text>
+                  )}
+                  <Button
+                    leftSection={<IconDeviceFloppy size={16} />}
+                    onClick={handleSave}
+                    loading={isSaving}
+                    disabled={!draft.trim() || draft === selected?.body}
+                  >
+                    Save
+                  </Button>
+                </Group>
+              </Group>
+            </Stack>
+          </Paper>
+        </SimpleGrid>
+      </Stack>
+    </Container>
+  );
+};
+
+export default MessageTemplatesPage;
@@ -1,6 +1,7 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useOrderByToken, useUpdateRiderLocation } from '../hooks/useOrders';
+import { useRiderOrder, useUpdateRiderLocation, useOrderSubscription } from '../hooks/useOrders';
+import type { Order } from '../lib/supabase';
 import {
   Container,
   Paper,
@@ -30,13 +31,14 @@ import {
   IconUser,
   IconGps,
   IconShieldLock,
+  IconBan,
 } from '@tabler/icons-react';
 
 const RiderPwa: React.FC = () => {
   const { token } = useParams<{ token: string }>();
   const navigate = useNavigate();
-  const { order, isLoading, error } = useOrderByToken(token);
-  const { updateLocation } = useUpdateRiderLocation(order?.id || '');
+  const { order, isLoading, error } = useRiderOrder(token);
+  const { updateLocation, isClosed } = useUpdateRiderLocation(token || '');
 
   const [isTracking, setIsTracking] = useState(false);
   const [gpsStatus, setGpsStatus] = useState<'idle' | 'active' | 'error'>('idle');
@@ -83,6 +85,29 @@ const RiderPwa: React.FC = () => {
   };
 
   const [isDelivered, setIsDelivered] = useState(false);
+  const [isCancelled, setIsCancelled] = useState(false);
+
+  // Cancelling the order revokes this link: stop sharing the location straight away
+  const handleOrderUpdate = useCallback((updated: Order) => {
+    if (updated.status !== 'CANCELLED') return;
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    setIsTracking(false);
+    setGpsStatus('idle');
+    setIsCancelled(true);
+  }, []);
+
+  useOrderSubscription(order?.id || '', handleOrderUpdate);
+
+  // The server stopped taking locations (link revoked, order closed): stop watching GPS
+  useEffect(() => {
+    if (isClosed && watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+  }, [isClosed]);
 
   // ... (startTracking/stopTracking)
 
@@ -144,6 +169,40 @@ const RiderPwa: React.FC = () => {
     );
   }
 
+  if (isCancelled || order?.status === 'CANCELLED') {
+    return (
+      <Center mih="100vh" bg="dark.8" p="xl">
+        <Paper p="xl" radius="lg" bg="dark.7" style={{ textAlign: 'center' }}>
+          <ThemeIcon size={80} radius="xl" color="red" variant="light" mb="lg">
+            <IconBan size={40} />
+          </ThemeIcon>
+          <Title order={2} c="white" mb="sm">Order Cancelled</Title>
+          <Text c="dimmed">This delivery was cancelled by the business. Location sharing has stopped.</Text>
+          <Button mt="xl" fullWidth onClick={() => window.close()} variant="subtle" color="gray">
+            Close App
+          </Button>
+        </Paper>
+      </Center>
+    );
+  }
+
+  if (isClosed) {
+    return (
+      <Center mih="100vh" bg="dark.8" p="xl">
+        <Paper p="xl" radius="lg" bg="dark.7" style={{ textAlign: 'center' }}>
+          <ThemeIcon size={80} radius="xl" color="gray" variant="light" mb="lg">
+            <IconBan size={40} />
+          </ThemeIcon>
+          <Title order={2} c="white" mb="sm">Delivery Closed</Title>
+          <Text c="dimmed">This delivery link is no longer active. Location sharing has stopped.</Text>
+          <Button mt="xl" fullWidth onClick={() => window.close()} variant="subtle" color="gray">
+            Close App
+          </Button>
+        </Paper>
+      </Center>
+    );
+  }
+
   if (isLoading) {
     return (
       <Center mih="100vh" bg="dark.8">
@@ -2,10 +2,11 @@ import React, { useState, useCallback, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { Link } from 'react-router-dom';
 import type { Order } from '../lib/supabase';
-import { supabase } from '../lib/supabase';
 import { useOrders, useDeleteOrder, useUpdateOrder } from '../hooks/useOrders';
-import { formatNaira, generateToken } from '../lib/utils';
-import { sendWhatsAppMessage, generateOrderStatusMessage } from '../lib/whatsapp';
+import { createOrder, updateOrder as patchOrder } from '../lib/orders';
+import { ORDER_STATUSES, CANCELLATION_REASON_LABELS, isTerminalStatus, nextFlowStatus } from '../lib/orderStatus';
+import { formatNaira } from '../lib/utils';
+import { parsePhoneNumber } from '../lib/phone';
 import AuthHeader from '../components/AuthHeader';
 import DynamicOrderForm from '../components/DynamicOrderForm';
 import {
@@ -21,14 +22,25 @@ import { useMediaQuery } from '@mantine/hooks';
 import {
   IconPlus, IconArrowRight, IconBell, IconTrendingUp, IconAlertCircle, IconCheck, IconPackage,
   IconTruckDelivery, IconMapPin, IconUser, IconPhone, IconCurrencyNaira, IconClipboardList, IconSearch,
-  IconEdit, IconTrash, IconEye,
+  IconEdit, IconTrash, IconEye, IconBan,
   IconDotsVertical
 } from '@tabler/icons-react';
 import TestModeBanner from '../components/TestModeBanner';
+import DevOutboxPanel from '../components/DevOutboxPanel';
+import DeadLetterPanel from '../components/DeadLetterPanel';
+import ConversationThread from '../components/ConversationThread';
+import OrderHistory from '../components/OrderHistory';
+import CancelOrderModal from '../components/CancelOrderModal';
+import CancellationBreakdown from '../components/CancellationBreakdown';
+import DeliveryTimeline from '../components/DeliveryTimeline';
+import WhatsAppConsentPanel from '../components/WhatsAppConsentPanel';
+import OrderRequestsPanel from '../components/OrderRequestsPanel';
+import WhatsAppConnectionAlert from '../components/WhatsAppConnectionAlert';
+import { useUnreadMessages } from '../hooks/useUnreadMessages';
+import { useDevOutbox } from '../hooks/useDevOutbox';
+import { useSmeSettings } from '../hooks/useSmeSettings';
 import type { FormField } from '../types';
 
-const STATUS_SEQUENCE: Order['status'][] = ['NEW', 'PROCESSING', 'READY', 'DISPATCHED', 'COMPLETED'];
-
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
 const statusConfig: Record<Order['status'], { icon: React.ElementType; color: string; nextLabel: string }> = {
@@ -45,14 +57,15 @@ interface OrderCardProps {
   onNextStage: (orderId: string) => void;
   onEdit: (order: Order) => void;
   onDelete: (orderId: string) => void;
+  onCancel: (order: Order) => void;
   onView: (order: Order) => void;
   isLoading: boolean;
   isMobile?: boolean; // Added isMobile prop
+  unreadCount?: number;
 }
 
-const OrderCard: React.FC<OrderCardProps> = ({ order, onNextStage, onEdit, onDelete, onView, isLoading, isMobile }) => {
-  const nextStatusIndex = STATUS_SEQUENCE.indexOf(order.status as Order['status']) + 1;
-  const nextStatus = nextStatusIndex < STATUS_SEQUENCE.length ? STATUS_SEQUENCE[nextStatusIndex] : null;
+const OrderCard: React.FC<OrderCardProps> = ({ order, onNextStage, onEdit, onDelete, onCancel, onView, isLoading, isMobile, unreadCount = 0 }) => {
+  const nextStatus = nextFlowStatus(order.status);
   const config = statusConfig[order.status as Order['status']];
   const StatusIcon = config.icon;
 
@@ -63,18 +76,32 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onNextStage, onEdit, onDel
           {order.status}
         </Badge>
         <Group gap={4} wrap="nowrap">
+          {unreadCount > 0 && (
+            <Tooltip label="Unread customer messages">
+              <Badge color="green" variant="filled" size="sm" circle style={{ cursor: 'pointer' }} onClick={() => onView(order)}>
+                {unreadCount}
+              </Badge>
+            </Tooltip>
+          )}
           <Tooltip label="View Details">
             <ActionIcon variant="subtle" color="blue" size="sm" onClick={() => onView(order)}>
               <IconEye size={16} />
             </ActionIcon>
           </Tooltip>
-          {/* Only show edit if NOT completed */}
-          {order.status !== 'COMPLETED' && (
-            <Tooltip label="Edit">
-              <ActionIcon variant="subtle" color="gray" size="sm" onClick={() => onEdit(order)}>
-                <IconEdit size={16} />
-              </ActionIcon>
-            </Tooltip>
+          {/* Completed and cancelled orders are final */}
+          {!isTerminalStatus(order.status) && (
+            <>
+              <Tooltip label="Edit">
+                <ActionIcon variant="subtle" color="gray" size="sm" onClick={() => onEdit(order)}>
+                  <IconEdit size={16} />
+                </ActionIcon>
+              </Tooltip>
+              <Tooltip label="Cancel Order">
+                <ActionIcon variant="subtle" color="orange" size="sm" onClick={() => onCancel(order)}>
+                  <IconBan size={16} />
+                </ActionIcon>
+              </Tooltip>
+            </>
           )}
           <Tooltip label="Delete">
             <ActionIcon variant="subtle" color="red" size="sm" onClick={() => onDelete(order.id)}>
@@ -135,6 +162,12 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onNextStage, onEdit, onDel
           </Button>
         )}
 
+        {order.status === 'CANCELLED' && (
+          <Button fullWidth disabled variant="light" color="red" radius="md" leftSection={<IconBan size={16} />}>
+            {order.cancellation_reason ? CANCELLATION_REASON_LABELS[order.cancellation_reason] : 'Cancelled'}
+          </Button>
+        )}
+
         <Button fullWidth variant="default" size="xs" radius="md" onClick={() => onView(order)}>
           View Full Details
         </Button>
@@ -147,22 +180,26 @@ const SmeDashboard: React.FC = () => {
   const { user } = useAuth();
   const smeId = user?.id || '';
   const { orders, isLoading: isOrdersLoading, refreshOrders, updateLocalOrder, insertLocalOrder, removeLocalOrder } = useOrders(smeId);
+  const { counts: unreadCounts, refresh: refreshUnread } = useUnreadMessages(smeId);
+  const { settings: smeSettings } = useSmeSettings(smeId);
   const { deleteOrder } = useDeleteOrder();
   const { updateOrder } = useUpdateOrder();
   const isMobile = useMediaQuery('(max-width: 48em)'); // Mantine sm breakpoint is 48em (768px)
+  const devOutbox = useDevOutbox();
 
   // Modals and States
   const [isOrderModalOpen, setIsOrderModalOpen] = useState(false);
   const [isRiderModalOpen, setIsRiderModalOpen] = useState(false);
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
   const [riderPhone, setRiderPhone] = useState('');
+  const [riderPhoneError, setRiderPhoneError] = useState<string | null>(null);
   const [isAssigning, setIsAssigning] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
+  const [cancellingOrder, setCancellingOrder] = useState<Order | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [whatsappError, setWhatsappError] = useState<string | null>(null);
 
   // View Details Modal State
   const [viewingOrder, setViewingOrder] = useState<Order | null>(null);
@@ -204,75 +241,43 @@ const SmeDashboard: React.FC = () => {
   const handleNextStage = useCallback(async (orderId: string) => {
     const order = orders.find((o) => o.id === orderId);
     if (!order) return;
-    const nextStatusIndex = STATUS_SEQUENCE.indexOf(order.status as Order['status']) + 1;
-    const nextStatus = STATUS_SEQUENCE[nextStatusIndex] as Order['status'];
+    const nextStatus = nextFlowStatus(order.status);
 
     if (nextStatus === 'READY') {
       setSelectedOrderId(orderId);
       setIsRiderModalOpen(true);
     } else if (nextStatus) {
-      const { error } = await supabase.from('orders').update({ status: nextStatus }).eq('id', orderId);
-      if (error) { alert('Failed to update order status'); return; }
-
-      // OPTIMISTIC UPDATE: Update UI immediately
-      updateLocalOrder(orderId, { status: nextStatus });
-
-      const trackingUrl = nextStatus === 'DISPATCHED' && order.rider_token
-        ? `${window.location.origin}/track/${order.rider_token}`
-        : nextStatus === 'COMPLETED' && order.rider_token
-          ? `${window.location.origin}/csat/${order.rider_token}`
-          : undefined;
-
-      const messageText = generateOrderStatusMessage(nextStatus, order.readable_id, trackingUrl);
-
-      await sendWhatsAppMessage({
-        phone: order.customer_phone,
-        message: messageText,
-        orderId: order.id,
-        smeId: smeId // Pass smeId to fix type error if present
-      });
-      // No need to refreshOrders() here anymore as we did it locally
+      // Riders complete orders with the customer's delivery code; completing here skips it
+      const override = nextStatus === 'COMPLETED';
+      if (override && !window.confirm("Mark this order complete without the customer's delivery code?")) return;
+      try {
+        const updated = await updateOrder(orderId, { status: nextStatus, ...(override && { override }) });
+        updateLocalOrder(orderId, updated);
+        // The server announces the new status to the customer (server/services/orderNotifications.ts)
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'Failed to update order status');
+      }
     }
-  }, [orders, updateLocalOrder]);
+  }, [orders, updateOrder, updateLocalOrder]);
 
   const handleRiderAssignment = async () => {
     if (!selectedOrderId || !riderPhone) return;
     const order = orders.find((o) => o.id === selectedOrderId);
     if (!order) return;
+    const phone = parsePhoneNumber(riderPhone, smeSettings.default_country);
+    if (!phone.valid) { setRiderPhoneError(phone.error); return; }
     setIsAssigning(true);
     try {
-      const riderToken = generateToken();
-      const { error } = await supabase.from('orders').update({ rider_phone: riderPhone, rider_token: riderToken, status: 'READY' }).eq('id', selectedOrderId);
-      if (error) { alert('Failed to assign rider'); return; }
-
-      // OPTIMISTIC UPDATE
-      updateLocalOrder(selectedOrderId, { rider_phone: riderPhone, rider_token: riderToken, status: 'READY' });
-
-      // Customer Notification
-      const trackingUrl = `${window.location.origin}/track/${riderToken}`;
-      const customerMsg = `Great news! Your order #${order.readable_id} is ready and will be dispatched soon. 📦\n\nTrack your delivery here: ${trackingUrl}`;
-      await sendWhatsAppMessage({
-        phone: order.customer_phone,
-        message: customerMsg,
-        orderId: order.id,
-        smeId: smeId
-      });
-
-      // Rider Notification
-      const riderUrl = `${window.location.origin}/rider/${riderToken}`;
-      const riderMsg = `🚨 New Delivery Assigned!\nOrder #${order.readable_id}\n\n📞 Customer: ${order.customer_phone}\n📍 Pickup: Shop Location\n📍 Dropoff: ${order.delivery_address}\n\nClick here to start delivery: ${riderUrl}`;
-
-      const riderResult = await sendWhatsAppMessage({
-        phone: riderPhone,
-        message: riderMsg,
-        orderId: order.id,
-        smeId: smeId
-      });
-
-      if (!riderResult.success) {
-        setWhatsappError(`Rider assigned, but WhatsApp failed: ${riderResult.error}`);
+      // The server issues the rider link and messages the customer (tracking link) and the rider
+      const result = await patchOrder(selectedOrderId, { rider_phone: phone.e164, status: 'READY' });
+      if (!result.success || !result.order) {
+        if (result.fieldErrors?.rider_phone) setRiderPhoneError(result.fieldErrors.rider_phone);
+        else alert(result.error || 'Failed to assign rider');
+        return;
       }
 
+      updateLocalOrder(selectedOrderId, result.order);
+
       setIsRiderModalOpen(false);
       setRiderPhone('');
       setSelectedOrderId(null);
@@ -281,21 +286,13 @@ const SmeDashboard: React.FC = () => {
 
   const handleCreateOrder = async (submissionData: Record<string, any>) => {
     setIsCreating(true);
-    const readableId = `WOT${Date.now().toString().slice(-6)}`;
-
-    // Data is already structured by DynamicOrderForm, just need to add system fields
-    const { data, error } = await supabase.from('orders').insert([{
-      sme_id: smeId,
-      readable_id: readableId,
-      status: 'NEW',
-      ...submissionData
-    }])
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Create Order Error:', error);
-      alert('Failed to create order: ' + error.message);
+
+    // Data is already structured by DynamicOrderForm; the server validates it and adds the system fields
+    const result = await createOrder(submissionData);
+
+    if (!result.success) {
+      console.error('Create Order Error:', result.error);
+      alert(result.error || 'Failed to create order');
       setIsCreating(false);
       return;
     }
@@ -305,23 +302,12 @@ const SmeDashboard: React.FC = () => {
     setIsCreating(false);
 
     // OPTIMISTIC UPDATE: Add new order to list immediately
-    if (data) {
-      insertLocalOrder(data as Order);
+    if (result.order) {
+      insertLocalOrder(result.order);
     } else {
       refreshOrders(); // Fallback if no data returned
     }
-
-    // Background Process: Send WhatsApp Notification
-    // We don't await this to block the UI, but we catch errors to show a toast if needed
-    sendWhatsAppMessage({
-      phone: submissionData.customer_phone,
-      message: generateOrderStatusMessage('NEW', readableId),
-      orderId: readableId
-    }).then((waResult) => {
-      if (!waResult.success) {
-        setWhatsappError(`Order created but WhatsApp failed: ${waResult.error}`);
-      }
-    });
+    // The server sends the NEW order confirmation
   };
 
   const handleDeleteOrder = async (orderId: string) => {
@@ -335,6 +321,13 @@ const SmeDashboard: React.FC = () => {
     }
   };
 
+  const handleOrderCancelled = (updated: Order) => {
+    updateLocalOrder(updated.id, updated);
+    if (viewingOrder?.id === updated.id) setViewingOrder(updated);
+    setCancellingOrder(null);
+    // The server revoked the rider link and sends the customer the cancellation message
+  };
+
   const handleEditOrder = (order: Order) => {
     setEditingOrder(order);
     setIsEditModalOpen(true);
@@ -349,15 +342,15 @@ const SmeDashboard: React.FC = () => {
     if (!editingOrder) return;
     setIsEditing(true);
     try {
-      await updateOrder(editingOrder.id, data);
+      const updated = await updateOrder(editingOrder.id, data);
       setIsEditModalOpen(false);
 
       // Local update
-      updateLocalOrder(editingOrder.id, data);
+      updateLocalOrder(editingOrder.id, updated);
 
       setEditingOrder(null);
     } catch (err) {
-      alert('Failed to update order');
+      alert(err instanceof Error ? err.message : 'Failed to update order');
     } finally {
       setIsEditing(false);
     }
@@ -369,6 +362,7 @@ const SmeDashboard: React.FC = () => {
     return (
       order.customer_name?.toLowerCase().includes(query) ||
       order.readable_id?.toLowerCase().includes(query) ||
+      order.legacy_readable_id?.toLowerCase().includes(query) ||
       order.customer_phone?.includes(query)
     );
   }).reduce((acc, order) => {
@@ -404,7 +398,8 @@ const SmeDashboard: React.FC = () => {
   return (
     <Container size="xl" py={isMobile ? "md" : "xl"} px={isMobile ? "xs" : "md"}>
       <AuthHeader title="WOT Dashboard" />
-      <TestModeBanner />
+      <TestModeBanner mode={devOutbox.enabled ? 'outbox' : 'sandbox'} />
+      {devOutbox.enabled && <DevOutboxPanel messages={devOutbox.messages} onRefresh={devOutbox.refresh} />}
       {/* Modern Stats Grid */}
       <SimpleGrid cols={{ base: 2, sm: 2, lg: 4 }} spacing={isMobile ? "sm" : "lg"} mb="xl">
         <Paper withBorder p={isMobile ? "xs" : "md"} radius="md">
@@ -448,8 +443,12 @@ const SmeDashboard: React.FC = () => {
         </Paper>
       </SimpleGrid>
 
+      <CancellationBreakdown orders={orders} />
+
       {/* Alerts */}
-      {whatsappError && <Alert icon={<IconBell />} title="WhatsApp Update" color="yellow" variant="light" mb="lg" withCloseButton onClose={() => setWhatsappError(null)}>{whatsappError}</Alert>}
+      <WhatsAppConnectionAlert smeId={smeId} />
+      <DeadLetterPanel smeId={smeId} orderLabel={(orderId) => orders.find((o) => o.id === orderId)?.readable_id} />
+      <OrderRequestsPanel smeId={smeId} onResolved={refreshOrders} />
 
       {/* Header Section with Responsive Layout */}
       {isMobile ? (
@@ -491,7 +490,7 @@ const SmeDashboard: React.FC = () => {
         <Paper p="xs" radius="lg" bg="gray.1" mb="lg">
           <ScrollArea type="never">
             <Tabs.List grow={!isMobile} style={{ flexWrap: 'nowrap', gap: '0.5rem', border: 'none' }}>
-              {STATUS_SEQUENCE.map((status) => {
+              {ORDER_STATUSES.map((status) => {
                 const Config = statusConfig[status];
                 return (
                   <Tabs.Tab
@@ -517,7 +516,7 @@ const SmeDashboard: React.FC = () => {
           </ScrollArea>
         </Paper>
 
-        {STATUS_SEQUENCE.map((status) => (
+        {ORDER_STATUSES.map((status) => (
           <Tabs.Panel key={status} value={status} pt="xl">
             {!ordersByStatus[status]?.length ? (
               <Paper withBorder p="xl" radius="md" style={{ borderStyle: 'dashed' }}>
@@ -535,9 +534,11 @@ const SmeDashboard: React.FC = () => {
                     onNextStage={handleNextStage}
                     onEdit={handleEditOrder}
                     onDelete={handleDeleteOrder}
+                    onCancel={setCancellingOrder}
                     onView={handleViewOrder}
                     isLoading={isOrdersLoading}
                     isMobile={isMobile}
+                    unreadCount={unreadCounts[order.id]}
                   />
                 ))}
               </SimpleGrid>
@@ -580,6 +581,7 @@ const SmeDashboard: React.FC = () => {
                   fields={formFields}
                   onSubmit={handleCreateOrder}
                   isLoading={isCreating}
+                  defaultCountry={smeSettings.default_country}
                 />
               </>
             )}
@@ -590,7 +592,7 @@ const SmeDashboard: React.FC = () => {
       <Modal opened={isRiderModalOpen} onClose={() => setIsRiderModalOpen(false)} title={<Text fw={900}>Dispatch Assignment</Text>} centered radius="lg" size={isMobile ? "100%" : undefined}>
         <Stack gap="md" p="md">
           <Alert color="blue" icon={<IconTruckDelivery size={16} />}>Assign a rider to start the delivery process for order #{orders.find(o => o.id === selectedOrderId)?.readable_id}</Alert>
-          <TextInput label="Rider Contact" placeholder="Rider phone number" value={riderPhone} onChange={(e) => setRiderPhone(e.target.value)} />
+          <TextInput label="Rider Contact" placeholder="Rider phone number" value={riderPhone} error={riderPhoneError} onChange={(e) => { setRiderPhone(e.target.value); setRiderPhoneError(null); }} />
           <Button fullWidth size="lg" onClick={handleRiderAssignment} loading={isAssigning} radius="md">Confirm Dispatch</Button>
         </Stack>
       </Modal>
@@ -611,6 +613,7 @@ const SmeDashboard: React.FC = () => {
               fields={formFields}
               onSubmit={handleUpdateOrder}
               isLoading={isEditing}
+              defaultCountry={smeSettings.default_country}
               initialValues={editingOrder}
             />
           </Box>
@@ -639,6 +642,13 @@ const SmeDashboard: React.FC = () => {
                   <Text c="dimmed" size="sm">Phone:</Text>
                   <Text fw={500} size="sm">{viewingOrder.customer_phone}</Text>
 
+                  {viewingOrder.customer_email && (
+                    <>
+                      <Text c="dimmed" size="sm">Email:</Text>
+                      <Text fw={500} size="sm">{viewingOrder.customer_email}</Text>
+                    </>
+                  )}
+
                   <Text c="dimmed" size="sm">Address:</Text>
                   <Text fw={500} size="sm">{viewingOrder.delivery_address}</Text>
 
@@ -647,6 +657,23 @@ const SmeDashboard: React.FC = () => {
 
                   <Text c="dimmed" size="sm">Status:</Text>
                   <Badge color={statusConfig[viewingOrder.status].color}>{viewingOrder.status}</Badge>
+
+                  {viewingOrder.status === 'CANCELLED' && (
+                    <>
+                      <Text c="dimmed" size="sm">Cancelled:</Text>
+                      <Text fw={500} size="sm">
+                        {viewingOrder.cancellation_reason ? CANCELLATION_REASON_LABELS[viewingOrder.cancellation_reason] : 'No reason recorded'}
+                        {viewingOrder.cancelled_at && ` · ${new Date(viewingOrder.cancelled_at).toLocaleString()}`}
+                      </Text>
+
+                      {viewingOrder.cancellation_notes && (
+                        <>
+                          <Text c="dimmed" size="sm">Cancellation notes:</Text>
+                          <Text fw={500} size="sm">{viewingOrder.cancellation_notes}</Text>
+                        </>
+                      )}
+                    </>
+                  )}
                 </SimpleGrid>
               </Paper>
 
@@ -665,14 +692,27 @@ const SmeDashboard: React.FC = () => {
                 </Paper>
               )}
 
+              <WhatsAppConsentPanel order={viewingOrder} />
+
+              <OrderHistory orderId={viewingOrder.id} fieldLabel={getFieldLabel} />
+
+              <DeliveryTimeline orderId={viewingOrder.id} />
+
+              <ConversationThread orderId={viewingOrder.id} onRead={refreshUnread} />
+
               <Group justify="flex-end" mt="md">
-                {viewingOrder.status !== 'COMPLETED' && (
-                  <Button variant="light" leftSection={<IconEdit size={16} />} onClick={() => {
-                    setIsViewModalOpen(false);
-                    handleEditOrder(viewingOrder);
-                  }}>
-                    Edit Order
-                  </Button>
+                {!isTerminalStatus(viewingOrder.status) && (
+                  <>
+                    <Button variant="light" color="orange" leftSection={<IconBan size={16} />} onClick={() => setCancellingOrder(viewingOrder)}>
+                      Cancel Order
+                    </Button>
+                    <Button variant="light" leftSection={<IconEdit size={16} />} onClick={() => {
+                      setIsViewModalOpen(false);
+                      handleEditOrder(viewingOrder);
+                    }}>
+                      Edit Order
+                    </Button>
+                  </>
                 )}
                 <Button variant="default" onClick={() => setIsViewModalOpen(false)}>Close</Button>
               </Group>
@@ -680,6 +720,8 @@ const SmeDashboard: React.FC = () => {
           </ScrollArea.Autosize>
         )}
       </Modal>
+
+      <CancelOrderModal order={cancellingOrder} onClose={() => setCancellingOrder(null)} onCancelled={handleOrderCancelled} />
     </Container>
   );
 };
@@ -7,7 +7,6 @@ import {
   Text,
   Group,
   Stack,
-  Badge,
   Loader,
   Center,
   Alert,
@@ -21,60 +20,79 @@ import {
   Anchor,
   Box,
   rem,
+  SegmentedControl,
+  Textarea,
 } from '@mantine/core';
 import AuthHeader from '../components/AuthHeader';
+import ContentTemplatesPanel from '../components/ContentTemplatesPanel';
+import WhatsAppPairingPanel from '../components/WhatsAppPairingPanel';
+import WhatsAppTestConsole from '../components/WhatsAppTestConsole';
+import WhatsAppNumberCard from '../components/WhatsAppNumberCard';
+import { getWhatsAppConfigs, SENDER_PURPOSE_LABELS } from '../lib/whatsappConfig';
+import type { WhatsAppConfig, PairingStatus, SenderPurpose } from '../lib/whatsappConfig';
 import {
   IconCheck,
   IconAlertCircle,
   IconPlugConnected,
   IconBrandWhatsapp,
   IconSettings,
-  IconTrash,
   IconExternalLink,
   IconLock,
   IconPhone,
   IconKey,
+  IconWorld,
 } from '@tabler/icons-react';
 
-interface WhatsAppConfig {
-  id: string;
-  provider: 'twilio' | 'baileys' | 'evolution';
-  is_connected: boolean;
-  instance_id?: string;
-  connected_at?: string;
-}
-
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
 const WhatsAppConnectPage: React.FC = () => {
   const { user } = useAuth();
-  const [config, setConfig] = useState<WhatsAppConfig | null>(null);
+  const [configs, setConfigs] = useState<WhatsAppConfig[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
 
   // Form states
+  const [sender, setSender] = useState<{ purpose: SenderPurpose; label: string }>({ purpose: 'customer', label: '' });
   const [twilioForm, setTwilioForm] = useState({ accountSid: '', authToken: '', twilioPhoneNumber: '' });
-  const [baileysForm, setBaileysForm] = useState({ phoneNumber: '', instanceKey: '' });
+  const [baileysForm, setBaileysForm] = useState({
+    provider: 'baileys' as 'baileys' | 'evolution',
+    phoneNumber: '',
+    instanceKey: '',
+    apiUrl: '',
+    apiKey: '',
+  });
+  const [supportContact, setSupportContact] = useState('');
+  const [isSavingContact, setIsSavingContact] = useState(false);
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  // First pairing state of the instance saved last; the panel polls from there
+  const [pairing, setPairing] = useState<{ configId: string; status: PairingStatus | null } | null>(null);
+  const [pairingAttempt, setPairingAttempt] = useState(0); // Remounts the pairing panel for each new instance
 
   const fetchConfig = useCallback(async () => {
     if (!user?.id) return;
-    try {
-      setIsLoading(true);
-      const response = await fetch(`${API_BASE_URL}/whatsapp/config`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json', 'x-sme-id': user.id },
-      });
-      const json = await response.json();
-      if (json.success && json.config) setConfig(json.config);
-    } catch (error) {
-      console.error('Failed to fetch WhatsApp config:', error);
-    } finally {
-      setIsLoading(false);
+    setIsLoading(true);
+    const result = await getWhatsAppConfigs(user.id);
+    if (result.success) {
+      setConfigs(result.configs || []);
+      setSupportContact(result.supportContact || '');
+    } else {
+      console.error('Failed to fetch WhatsApp config:', result.error);
     }
+    setIsLoading(false);
   }, [user?.id]);
 
   useEffect(() => { fetchConfig(); }, [fetchConfig]);
 
+  // Saving a number for a purpose that already has one replaces it
+  const upsertConfig = useCallback((next: WhatsAppConfig) => {
+    setConfigs((current) => {
+      const rest = current.filter((c) => c.id !== next.id && !(c.purpose === next.purpose && c.label === next.label));
+      return [...rest, next];
+    });
+  }, []);
+
+  const senderBody = { purpose: sender.purpose, label: sender.purpose === 'branch' ? sender.label.trim() : '' };
+
   const handleTwilioSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSaving(true);
@@ -82,13 +100,17 @@ const WhatsAppConnectPage: React.FC = () => {
       const response = await fetch(`${API_BASE_URL}/whatsapp/config/twilio`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json', 'x-sme-id': user?.id || '' },
-        body: JSON.stringify(twilioForm),
+        body: JSON.stringify({ ...twilioForm, ...senderBody }),
       });
       const json = await response.json();
       if (json.success) {
-        setConfig(json.config);
+        upsertConfig(json.config);
         setTwilioForm({ accountSid: '', authToken: '', twilioPhoneNumber: '' });
-      } else { alert(`Error: ${json.error}`); }
+      } else {
+        // Saved but not verified: keep the config so the reason shows above
+        if (json.config) upsertConfig(json.config);
+        alert(`Error: ${json.error}`);
+      }
     } finally { setIsSaving(false); }
   };
 
@@ -99,28 +121,73 @@ const WhatsAppConnectPage: React.FC = () => {
       const response = await fetch(`${API_BASE_URL}/whatsapp/config/instance`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json', 'x-sme-id': user?.id || '' },
-        body: JSON.stringify({ provider: 'baileys', ...baileysForm }),
+        body: JSON.stringify({ ...baileysForm, ...senderBody }),
       });
       const json = await response.json();
       if (json.success) {
-        setConfig(json.config);
-        setBaileysForm({ phoneNumber: '', instanceKey: '' });
-      } else { alert(`Error: ${json.error}`); }
+        upsertConfig(json.config);
+        setPairing({ configId: json.config.id, status: json.pairing || null });
+        setPairingAttempt((n) => n + 1);
+        setBaileysForm({ ...baileysForm, phoneNumber: '', instanceKey: '', apiUrl: '', apiKey: '' });
+      } else {
+        // Saved but not verified: keep the config so the reason shows above
+        if (json.config) upsertConfig(json.config);
+        alert(`Error: ${json.error}`);
+      }
     } finally { setIsSaving(false); }
   };
 
-  const handleDisconnect = async () => {
-    if (!window.confirm('Are you sure you want to disconnect WhatsApp?')) return;
+  const handleSupportContactSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingContact(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/whatsapp/config`, {
+      const response = await fetch(`${API_BASE_URL}/whatsapp/config/support-contact`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'x-sme-id': user?.id || '' },
+        body: JSON.stringify({ supportContact }),
+      });
+      const json = await response.json();
+      if (json.success) setSupportContact(json.supportContact || '');
+      else { alert(`Error: ${json.error}`); }
+    } finally { setIsSavingContact(false); }
+  };
+
+  const handleVerify = async (target: WhatsAppConfig) => {
+    setVerifyingId(target.id);
+    try {
+      const response = await fetch(`${API_BASE_URL}/whatsapp/config/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-sme-id': user?.id || '' },
+        body: JSON.stringify({ configId: target.id }),
+      });
+      const json = await response.json();
+      if (json.config) upsertConfig(json.config);
+    } catch (error) {
+      console.error(error);
+    } finally { setVerifyingId(null); }
+  };
+
+  const handleRemove = async (target: WhatsAppConfig) => {
+    if (!window.confirm(`Remove ${target.instance_id || 'this number'}? Its messages will go out from another number.`)) return;
+    try {
+      const response = await fetch(`${API_BASE_URL}/whatsapp/config/${target.id}`, {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json', 'x-sme-id': user?.id || '' },
       });
       const json = await response.json();
-      if (json.success) setConfig(null);
+      if (json.success) setConfigs((current) => current.filter((c) => c.id !== target.id));
+      else { alert(`Error: ${json.error}`); }
     } catch (error) { console.error(error); }
   };
 
+  const customerLine = configs.find((c) => c.purpose === 'customer');
+  // Customer messages come from a Business API number (the SME's Twilio or the platform's) unless
+  // the customer line is a connected instance; those numbers are bound by the 24-hour window
+  const usesBusinessApi =
+    !customerLine?.is_connected ||
+    customerLine.provider === 'twilio' ||
+    configs.some((c) => c.is_connected && c.provider === 'twilio');
+
   if (isLoading) {
     return (
       <Center mih="80vh">
@@ -159,38 +226,7 @@ const WhatsAppConnectPage: React.FC = () => {
         </Paper>
 
         {/* Status Section */}
-        {config?.is_connected ? (
-          <Alert
-            variant="light"
-            color="green"
-            title="Account Connected"
-            icon={<IconCheck size={18} />}
-            radius="md"
-          >
-            <Stack gap="xs" mt="sm">
-              <Group gap="xl">
-                <Box>
-                  <Text size="xs" tt="uppercase" fw={700} c="dimmed">Provider</Text>
-                  <Badge color="green" variant="outline">{config.provider.toUpperCase()}</Badge>
-                </Box>
-                <Box>
-                  <Text size="xs" tt="uppercase" fw={700} c="dimmed">Number</Text>
-                  <Text fw={700}>{config.instance_id || 'Not specified'}</Text>
-                </Box>
-              </Group>
-              <Button
-                variant="light"
-                color="red"
-                size="xs"
-                onClick={handleDisconnect}
-                leftSection={<IconTrash size={14} />}
-                style={{ width: 'fit-content' }}
-              >
-                Disconnect WhatsApp
-              </Button>
-            </Stack>
-          </Alert>
-        ) : (
+        {!configs.some((c) => c.is_connected) && (
           <Alert
             variant="light"
             color="orange"
@@ -198,10 +234,41 @@ const WhatsAppConnectPage: React.FC = () => {
             icon={<IconAlertCircle size={18} />}
             radius="md"
           >
-            Your account is not connected. Customers will receive messages from our default system number until you configure a provider.
+            None of your numbers is connected. Customers will receive messages from our default system number until you configure a provider.
           </Alert>
         )}
 
+        {configs.length > 0 && (
+          <Stack gap="sm">
+            <Title order={5}>Your numbers</Title>
+            {configs.map((c) => (
+              <React.Fragment key={c.id}>
+                <WhatsAppNumberCard
+                  config={c}
+                  isVerifying={verifyingId === c.id}
+                  onVerify={handleVerify}
+                  onRemove={handleRemove}
+                />
+                {/* QR pairing for instance providers; only paired instances count as connected */}
+                {user?.id && c.provider !== 'twilio' && !c.is_connected && c.pairing_state && (
+                  <WhatsAppPairingPanel
+                    key={pairing?.configId === c.id ? pairingAttempt : undefined}
+                    smeId={user.id}
+                    configId={c.id}
+                    initialPairing={pairing?.configId === c.id ? pairing.status : null}
+                    onConfigChange={upsertConfig}
+                  />
+                )}
+              </React.Fragment>
+            ))}
+            <Text size="xs" c="dimmed">
+              Rider assignment links go out from the rider line. Customer messages go out from the branch number
+              matching the order's "branch" form field, otherwise from the customer line. Without a connected number
+              for the message, the customer line or our default number is used.
+            </Text>
+          </Stack>
+        )}
+
         {/* Configuration Tabs */}
         <Paper withBorder radius="lg" shadow="sm" style={{ overflow: 'hidden' }}>
           <Tabs defaultValue="twilio" variant="outline" radius="lg">
@@ -215,6 +282,33 @@ const WhatsAppConnectPage: React.FC = () => {
             </Tabs.List>
 
             <Box p="xl">
+              <Stack gap="xs" mb="lg">
+                <Text fw={700} size="sm">Add or replace a number</Text>
+                <SegmentedControl
+                  fullWidth
+                  value={sender.purpose}
+                  onChange={(value) => setSender({ ...sender, purpose: value as SenderPurpose })}
+                  data={(Object.keys(SENDER_PURPOSE_LABELS) as SenderPurpose[]).map((purpose) => ({
+                    label: SENDER_PURPOSE_LABELS[purpose],
+                    value: purpose,
+                  }))}
+                />
+                {sender.purpose === 'branch' && (
+                  <TextInput
+                    label="Branch name"
+                    placeholder="Lekki"
+                    required
+                    maxLength={60}
+                    value={sender.label}
+                    onChange={(e) => setSender({ ...sender, label: e.target.value })}
+                    description="Orders whose branch field matches this name are sent from this number"
+                  />
+                )}
+                <Text size="xs" c="dimmed">
+                  Saving replaces the number already set up for this {sender.purpose === 'branch' ? 'branch' : 'line'}.
+                </Text>
+              </Stack>
+
               <Tabs.Panel value="twilio">
                 <form onSubmit={handleTwilioSubmit}>
                   <Stack gap="md">
@@ -273,12 +367,22 @@ const WhatsAppConnectPage: React.FC = () => {
                 <form onSubmit={handleBaileysSubmit}>
                   <Stack gap="md">
                     <Box>
-                      <Text fw={700} size="sm">Connect via Baileys API</Text>
+                      <Text fw={700} size="sm">Connect via Baileys / Evolution API</Text>
                       <Text size="xs" c="dimmed" mb="sm">
                         Uses your personal/business WhatsApp account.
                       </Text>
                     </Box>
 
+                    <SegmentedControl
+                      fullWidth
+                      value={baileysForm.provider}
+                      onChange={(value) => setBaileysForm({ ...baileysForm, provider: value as 'baileys' | 'evolution' })}
+                      data={[
+                        { label: 'Baileys', value: 'baileys' },
+                        { label: 'Evolution API', value: 'evolution' },
+                      ]}
+                    />
+
                     <TextInput
                       label="Your WhatsApp Number"
                       placeholder="+234..."
@@ -298,8 +402,25 @@ const WhatsAppConnectPage: React.FC = () => {
                       onChange={(e) => setBaileysForm({ ...baileysForm, instanceKey: e.target.value })}
                     />
 
+                    <TextInput
+                      label="Gateway URL"
+                      placeholder="http://localhost:8080"
+                      leftSection={<IconWorld size={16} />}
+                      value={baileysForm.apiUrl}
+                      onChange={(e) => setBaileysForm({ ...baileysForm, apiUrl: e.target.value })}
+                      description="Optional. Leave blank to use the platform gateway"
+                    />
+
+                    <PasswordInput
+                      label="Gateway API Key"
+                      placeholder="Optional"
+                      leftSection={<IconLock size={16} />}
+                      value={baileysForm.apiKey}
+                      onChange={(e) => setBaileysForm({ ...baileysForm, apiKey: e.target.value })}
+                    />
+
                     <Button type="submit" loading={isSaving} fullWidth color="green" radius="md">
-                      Connect Baileys Instance
+                      Connect {baileysForm.provider === 'evolution' ? 'Evolution' : 'Baileys'} Instance
                     </Button>
                   </Stack>
                 </form>
@@ -308,6 +429,41 @@ const WhatsAppConnectPage: React.FC = () => {
           </Tabs>
         </Paper>
 
+        {user?.id && <WhatsAppTestConsole smeId={user.id} />}
+
+        {/* Customer self-service */}
+        <Paper withBorder p="lg" radius="lg">
+          <form onSubmit={handleSupportContactSubmit}>
+            <Stack gap="sm">
+              <Box>
+                <Title order={5}>Customer Self-Service</Title>
+                <Text size="sm" c="dimmed">
+                  Customers can reply STATUS, CANCEL, HELP or RESCHEDULE to any order message.
+                  Cancellations after processing and reschedules wait for your approval on the dashboard.
+                </Text>
+              </Box>
+              <Textarea
+                label="HELP contact details"
+                description="Sent when a customer replies HELP"
+                placeholder={'Call us on 0803 000 0000\nsupport@yourbusiness.com'}
+                value={supportContact}
+                onChange={(e) => setSupportContact(e.currentTarget.value)}
+                autosize
+                minRows={2}
+                maxLength={500}
+              />
+              <Button type="submit" size="xs" color="green" loading={isSavingContact} style={{ width: 'fit-content' }}>
+                Save contact details
+              </Button>
+            </Stack>
+          </form>
+        </Paper>
+
+        {/* Business API numbers (Twilio, or the platform default) are bound by the 24-hour window */}
+        {user?.id && usesBusinessApi && (
+          <ContentTemplatesPanel smeId={user.id} />
+        )}
+
         {/* Footer Info */}
         <Paper withBorder p="lg" radius="lg" bg="var(--mantine-color-gray-0)">
           <Title order={6} mb="xs" c="dimmed" tt="uppercase">Platform Benefits</Title>